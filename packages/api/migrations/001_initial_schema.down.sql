@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS vaccinations;
+DROP TABLE IF EXISTS health_records;
+DROP TABLE IF EXISTS pets;
+DROP TABLE IF EXISTS users;
@@ -0,0 +1,70 @@
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  email TEXT UNIQUE NOT NULL,
+  password_hash TEXT NOT NULL,
+  name TEXT NOT NULL,
+  phone TEXT,
+  avatar_url TEXT,
+  is_verified INTEGER DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS pets (
+  id TEXT PRIMARY KEY,
+  petport_id TEXT UNIQUE NOT NULL,
+  owner_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  species TEXT NOT NULL,
+  breed TEXT,
+  sex TEXT DEFAULT 'UNKNOWN',
+  date_of_birth TEXT,
+  color TEXT,
+  weight REAL,
+  microchip_id TEXT,
+  photo_url TEXT,
+  verification_level TEXT DEFAULT 'BASIC',
+  is_active INTEGER DEFAULT 1,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (owner_id) REFERENCES users(id)
+);
+
+CREATE TABLE IF NOT EXISTS health_records (
+  id TEXT PRIMARY KEY,
+  pet_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  date TEXT NOT NULL,
+  vet_name TEXT,
+  clinic_name TEXT,
+  expires_at TEXT,
+  document_url TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (pet_id) REFERENCES pets(id)
+);
+
+CREATE TABLE IF NOT EXISTS vaccinations (
+  id TEXT PRIMARY KEY,
+  pet_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  name TEXT NOT NULL,
+  manufacturer TEXT,
+  batch_number TEXT,
+  administered_at TEXT NOT NULL,
+  expires_at TEXT,
+  vet_name TEXT,
+  clinic_name TEXT,
+  document_url TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (pet_id) REFERENCES pets(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pets_owner ON pets(owner_id);
+CREATE INDEX IF NOT EXISTS idx_pets_petport_id ON pets(petport_id);
+CREATE INDEX IF NOT EXISTS idx_health_records_pet ON health_records(pet_id);
+CREATE INDEX IF NOT EXISTS idx_vaccinations_pet ON vaccinations(pet_id);
+CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
@@ -0,0 +1,6 @@
+DROP TABLE IF EXISTS security_metrics;
+DROP TABLE IF EXISTS admin_audit_log;
+
+-- SQLite cannot drop an indexed column
+DROP INDEX IF EXISTS idx_users_role;
+ALTER TABLE users DROP COLUMN role;
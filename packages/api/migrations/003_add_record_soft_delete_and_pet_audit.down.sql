@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS pet_audit_log;
+
+-- Soft-deleted records come back as live ones
+ALTER TABLE health_records DROP COLUMN deleted_at;
+ALTER TABLE vaccinations DROP COLUMN deleted_at;
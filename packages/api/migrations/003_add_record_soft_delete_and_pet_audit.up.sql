@@ -0,0 +1,20 @@
+-- Soft-delete markers so corrected records keep their history
+ALTER TABLE vaccinations ADD COLUMN deleted_at TEXT;
+ALTER TABLE health_records ADD COLUMN deleted_at TEXT;
+
+-- Owner-facing audit trail for changes to a pet and its records
+CREATE TABLE IF NOT EXISTS pet_audit_log (
+  id TEXT PRIMARY KEY,
+  pet_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT,
+  details TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (pet_id) REFERENCES pets(id),
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_audit_pet ON pet_audit_log(pet_id);
+CREATE INDEX IF NOT EXISTS idx_pet_audit_created ON pet_audit_log(created_at);
@@ -0,0 +1,31 @@
+-- Facility compliance profiles (requirements is JSON: species -> vaccine types)
+CREATE TABLE IF NOT EXISTS compliance_profiles (
+  id TEXT PRIMARY KEY,
+  slug TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  requirements TEXT NOT NULL,
+  min_validity_days INTEGER DEFAULT 0 NOT NULL,
+  is_active INTEGER DEFAULT 1,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_compliance_profiles_slug ON compliance_profiles(slug);
+
+-- Seed common facility profiles
+INSERT OR IGNORE INTO compliance_profiles (id, slug, name, description, requirements, min_validity_days, is_active, created_at, updated_at)
+VALUES ('cprof_boarding', 'boarding', 'Boarding Kennel', 'Overnight boarding and cat hotels',
+  '{"DOG":["RABIES","DHPP","BORDETELLA"],"CAT":["RABIES","FVRCP"]}', 0, 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+
+INSERT OR IGNORE INTO compliance_profiles (id, slug, name, description, requirements, min_validity_days, is_active, created_at, updated_at)
+VALUES ('cprof_daycare', 'daycare', 'Daycare', 'Dog daycare and group play',
+  '{"DOG":["RABIES","DHPP","BORDETELLA"]}', 0, 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+
+INSERT OR IGNORE INTO compliance_profiles (id, slug, name, description, requirements, min_validity_days, is_active, created_at, updated_at)
+VALUES ('cprof_airline', 'airline', 'Airline Travel', 'Rabies must remain valid 30 days past the travel date',
+  '{"DOG":["RABIES"],"CAT":["RABIES"]}', 30, 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+
+INSERT OR IGNORE INTO compliance_profiles (id, slug, name, description, requirements, min_validity_days, is_active, created_at, updated_at)
+VALUES ('cprof_grooming', 'grooming', 'Grooming', 'Grooming salons',
+  '{"DOG":["RABIES"],"CAT":["RABIES"]}', 0, 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
@@ -0,0 +1,19 @@
+-- Revocable, time-limited share links with a data scope
+CREATE TABLE IF NOT EXISTS pet_shares (
+  id TEXT PRIMARY KEY,
+  pet_id TEXT NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  scope TEXT NOT NULL,
+  label TEXT,
+  expires_at TEXT NOT NULL,
+  revoked_at TEXT,
+  access_count INTEGER DEFAULT 0 NOT NULL,
+  last_accessed_at TEXT,
+  created_by TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (pet_id) REFERENCES pets(id),
+  FOREIGN KEY (created_by) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_shares_pet ON pet_shares(pet_id);
+CREATE INDEX IF NOT EXISTS idx_pet_shares_token ON pet_shares(token);
@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS finder_messages;
+
+ALTER TABLE pets DROP COLUMN lost_message;
+ALTER TABLE pets DROP COLUMN lost_at;
+ALTER TABLE pets DROP COLUMN is_lost;
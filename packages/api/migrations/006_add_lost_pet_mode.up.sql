@@ -0,0 +1,20 @@
+ALTER TABLE pets ADD COLUMN is_lost INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE pets ADD COLUMN lost_at TEXT;
+ALTER TABLE pets ADD COLUMN lost_message TEXT;
+
+-- Messages from finders, relayed to the owner without exposing their contact details
+CREATE TABLE IF NOT EXISTS finder_messages (
+  id TEXT PRIMARY KEY,
+  pet_id TEXT NOT NULL,
+  message TEXT NOT NULL,
+  contact_info TEXT,
+  latitude REAL,
+  longitude REAL,
+  location_text TEXT,
+  ip_address TEXT,
+  is_read INTEGER DEFAULT 0 NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (pet_id) REFERENCES pets(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_finder_messages_pet ON finder_messages(pet_id);
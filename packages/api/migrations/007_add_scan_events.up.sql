@@ -0,0 +1,13 @@
+-- Public verify lookups (tag scans). No IP address is stored.
+CREATE TABLE IF NOT EXISTS scan_events (
+  id TEXT PRIMARY KEY,
+  pet_id TEXT NOT NULL,
+  device TEXT,
+  latitude REAL,
+  longitude REAL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (pet_id) REFERENCES pets(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_events_pet ON scan_events(pet_id);
+CREATE INDEX IF NOT EXISTS idx_scan_events_created ON scan_events(created_at);
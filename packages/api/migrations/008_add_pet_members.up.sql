@@ -0,0 +1,20 @@
+-- Co-owners, caretakers and vets invited to a pet (user_id is set on acceptance)
+CREATE TABLE IF NOT EXISTS pet_members (
+  id TEXT PRIMARY KEY,
+  pet_id TEXT NOT NULL,
+  user_id TEXT,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL,
+  status TEXT DEFAULT 'PENDING' NOT NULL,
+  invited_by TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  accepted_at TEXT,
+  UNIQUE (pet_id, email),
+  FOREIGN KEY (pet_id) REFERENCES pets(id),
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (invited_by) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_members_pet ON pet_members(pet_id);
+CREATE INDEX IF NOT EXISTS idx_pet_members_user ON pet_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_pet_members_email ON pet_members(email);
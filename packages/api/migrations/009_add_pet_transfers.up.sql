@@ -0,0 +1,18 @@
+-- Ownership transfers offered by the current owner to another account's email
+CREATE TABLE IF NOT EXISTS pet_transfers (
+  id TEXT PRIMARY KEY,
+  pet_id TEXT NOT NULL,
+  from_user_id TEXT NOT NULL,
+  to_email TEXT NOT NULL,
+  to_user_id TEXT,
+  status TEXT DEFAULT 'PENDING' NOT NULL,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  resolved_at TEXT,
+  FOREIGN KEY (pet_id) REFERENCES pets(id),
+  FOREIGN KEY (from_user_id) REFERENCES users(id),
+  FOREIGN KEY (to_user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_transfers_pet ON pet_transfers(pet_id);
+CREATE INDEX IF NOT EXISTS idx_pet_transfers_email ON pet_transfers(to_email);
@@ -0,0 +1,4 @@
+ALTER TABLE vaccinations DROP COLUMN attested_at;
+ALTER TABLE vaccinations DROP COLUMN attested_by;
+
+DROP TABLE IF EXISTS clinic_profiles;
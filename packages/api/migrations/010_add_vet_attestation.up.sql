@@ -0,0 +1,16 @@
+-- Practice details for VET accounts
+CREATE TABLE IF NOT EXISTS clinic_profiles (
+  user_id TEXT PRIMARY KEY,
+  clinic_name TEXT NOT NULL,
+  license_number TEXT NOT NULL,
+  license_region TEXT,
+  address TEXT,
+  phone TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+-- Vet sign-off on individual vaccination records
+ALTER TABLE vaccinations ADD COLUMN attested_by TEXT REFERENCES users(id);
+ALTER TABLE vaccinations ADD COLUMN attested_at TEXT;
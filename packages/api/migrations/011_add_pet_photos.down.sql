@@ -0,0 +1,2 @@
+-- pets.photo_url still holds the primary photo; the rest of the gallery is lost
+DROP TABLE IF EXISTS pet_photos;
@@ -0,0 +1,17 @@
+-- Photo gallery per pet (pets.photo_url holds the primary photo)
+CREATE TABLE IF NOT EXISTS pet_photos (
+  id TEXT PRIMARY KEY,
+  pet_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  uploaded_by TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (pet_id) REFERENCES pets(id),
+  FOREIGN KEY (uploaded_by) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pet_photos_pet ON pet_photos(pet_id, position);
+
+-- Existing single photos become the first gallery entry
+INSERT INTO pet_photos (id, pet_id, url, position, uploaded_by, created_at)
+  SELECT 'photo_' || id, id, photo_url, 0, owner_id, updated_at FROM pets WHERE photo_url IS NOT NULL;
@@ -0,0 +1,5 @@
+ALTER TABLE pets DROP COLUMN photo_thumbnail_url;
+ALTER TABLE pets DROP COLUMN photo_medium_url;
+
+ALTER TABLE pet_photos DROP COLUMN thumbnail_url;
+ALTER TABLE pet_photos DROP COLUMN medium_url;
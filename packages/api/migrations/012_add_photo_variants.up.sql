@@ -0,0 +1,7 @@
+-- Resized variants of processed uploads (NULL for photos stored as uploaded)
+ALTER TABLE pet_photos ADD COLUMN medium_url TEXT;
+ALTER TABLE pet_photos ADD COLUMN thumbnail_url TEXT;
+
+-- Variants of the primary photo, kept alongside pets.photo_url
+ALTER TABLE pets ADD COLUMN photo_medium_url TEXT;
+ALTER TABLE pets ADD COLUMN photo_thumbnail_url TEXT;
@@ -0,0 +1 @@
+-- Nothing to undo: lowercase emails are valid for every earlier version
@@ -0,0 +1,3 @@
+-- Lookups match emails exactly so they can use idx_users_email.
+-- Registration already rejected case-insensitive duplicates.
+UPDATE users SET email = LOWER(TRIM(email)) WHERE email <> LOWER(TRIM(email));
@@ -0,0 +1,15 @@
+-- One row per login. The session id doubles as the family_id of the
+-- session's refresh tokens and is carried in its access tokens, so revoking
+-- the session ends both.
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  device TEXT,
+  ip_address TEXT,
+  created_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL,
+  revoked_at TEXT,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
@@ -0,0 +1 @@
+ALTER TABLE vaccinations DROP COLUMN reminder_sent_at;
@@ -0,0 +1,2 @@
+-- When the owner was emailed that this vaccination expires soon
+ALTER TABLE vaccinations ADD COLUMN reminder_sent_at TEXT;
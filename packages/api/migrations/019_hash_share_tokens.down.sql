@@ -0,0 +1,4 @@
+-- Links created while tokens were hashed do not resolve after rolling back
+DROP INDEX IF EXISTS idx_pet_shares_token_hash;
+ALTER TABLE pet_shares RENAME COLUMN token_hash TO token;
+CREATE INDEX IF NOT EXISTS idx_pet_shares_token ON pet_shares(token);
@@ -0,0 +1,9 @@
+-- Share tokens are stored as sha256 hashes; the link itself is only shown
+-- when it is created. Tokens stored in plain text cannot be hashed in SQL,
+-- so links created before are revoked and their tokens overwritten.
+ALTER TABLE pet_shares RENAME COLUMN token TO token_hash;
+UPDATE pet_shares
+SET token_hash = 'revoked:' || id,
+    revoked_at = COALESCE(revoked_at, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+DROP INDEX IF EXISTS idx_pet_shares_token;
+CREATE INDEX IF NOT EXISTS idx_pet_shares_token_hash ON pet_shares(token_hash);
@@ -1,8 +1,37 @@
 import { describe, it, before, after } from 'node:test';
 import assert from 'node:assert';
+import sharp from 'sharp';
 import { createApp } from '../app.js';
-import { initDatabase, closeDatabase, getDb } from '../services/sqlite.js';
-import type { Server } from 'http';
+import { config } from '../config/index.js';
+import { initDatabase, closeDatabase, connectDatabase, getDb } from '../services/db.js';
+import { toPostgresSql } from '../services/postgres.js';
+import { createSqliteDriver } from '../services/sqlite.js';
+import {
+  getMigrationStatus,
+  loadMigrations,
+  MIGRATIONS_DIR,
+  rollbackMigrations,
+  runMigrations,
+} from '../services/migrations.js';
+import { createLocalStorage, createS3Storage } from '../services/storage.js';
+import {
+  createBackup,
+  findBackupAt,
+  listBackups,
+  pruneBackups,
+  restoreBackup,
+  verifyBackup,
+} from '../services/backupService.js';
+import { withTransaction } from '../services/database.js';
+import { issueVerificationToken } from '../services/emailVerification.js';
+import { EmailTransport, createMemoryTransport, getEmailTransport, listCapturedEmails, setEmailTransport } from '../services/emailService.js';
+import { waitForPasswordResets } from '../services/passwordReset.js';
+import { blacklistUserTokens, isUserTokenBlacklisted } from '../services/tokenBlacklist.js';
+import { createHash } from 'crypto';
+import { createServer, Server } from 'http';
+import { appendFileSync, copyFileSync, cpSync, existsSync, mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Set test environment
 process.env['NODE_ENV'] = 'test';
@@ -33,9 +62,10 @@ async function request(
   method: string,
   path: string,
   body?: object,
-  token?: string
+  token?: string,
+  extraHeaders: Record<string, string> = {}
 ): Promise<TestResponse> {
-  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...extraHeaders };
   if (token) headers['Authorization'] = `Bearer ${token}`;
   
   const res = await fetch(`${baseUrl}${path}`, {
@@ -64,8 +94,30 @@ async function rawRequest(
   };
 }
 
-// Helper to register and get token
-async function registerAndGetToken(prefix: string): Promise<{ token: string; userId: string }> {
+// Helper to upload a file as multipart form data
+async function uploadFile(
+  path: string,
+  field: string,
+  content: Uint8Array<ArrayBuffer>,
+  mimeType: string,
+  token?: string
+): Promise<TestResponse> {
+  const form = new FormData();
+  form.append(field, new Blob([content], { type: mimeType }), 'upload');
+  const headers: Record<string, string> = {};
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+
+  const res = await fetch(`${baseUrl}${path}`, { method: 'POST', headers, body: form });
+  const data = await res.json() as ApiResponse;
+  return { status: res.status, body: data, headers: res.headers };
+}
+
+// Helper to register and get token. The email address is verified unless
+// verified is false.
+async function registerAndGetToken(
+  prefix: string,
+  { verified = true }: { verified?: boolean } = {}
+): Promise<{ token: string; refreshToken: string; userId: string; email: string }> {
   const email = uniqueEmail(prefix);
   const res = await request('POST', '/api/v1/auth/register', {
     email,
@@ -78,12 +130,37 @@ async function registerAndGetToken(prefix: string): Promise<{ token: string; use
   const data = res.body.data as Record<string, unknown>;
   const user = data?.['user'] as Record<string, unknown>;
   const tokens = data?.['tokens'] as Record<string, unknown>;
+  if (verified) {
+    const verify = await request('POST', '/api/v1/auth/verify-email', {
+      token: await issueVerificationToken(user?.['id'] as string),
+    });
+    if (verify.status !== 200) {
+      throw new Error(`Verification failed: ${verify.body.error?.message}`);
+    }
+  }
   return {
     token: tokens?.['accessToken'] as string,
+    refreshToken: tokens?.['refreshToken'] as string,
     userId: user?.['id'] as string,
+    email,
   };
 }
 
+// Helper to turn a response's Set-Cookie headers into a Cookie header
+function getCookies(headers: Headers): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const cookie of headers.getSetCookie()) {
+    const [pair] = cookie.split(';');
+    const index = pair!.indexOf('=');
+    cookies[pair!.slice(0, index)] = pair!.slice(index + 1);
+  }
+  return cookies;
+}
+
+function cookieHeader(cookies: Record<string, string>): string {
+  return Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; ');
+}
+
 // Helper to create a pet
 async function createPet(token: string, name: string, species: string = 'DOG'): Promise<Record<string, unknown>> {
   const res = await request('POST', '/api/v1/pets', { name, species }, token);
@@ -93,8 +170,27 @@ async function createPet(token: string, name: string, species: string = 'DOG'):
   return res.body.data as Record<string, unknown>;
 }
 
+// npm run test:postgres runs the suite against DATABASE_URL instead of sql.js,
+// starting from an empty schema
+async function resetPostgresTestDatabase(): Promise<void> {
+  const name = new URL(config.database.url!).pathname.slice(1);
+  if (!name.endsWith('_test')) {
+    throw new Error(`Refusing to reset "${name}" - the PostgreSQL test database name must end in _test`);
+  }
+  const db = await connectDatabase();
+  try {
+    await db.run('DROP SCHEMA public CASCADE');
+    await db.run('CREATE SCHEMA public');
+  } finally {
+    await db.close();
+  }
+}
+
 describe('API', () => {
   before(async () => {
+    if (config.database.type === 'postgres') {
+      await resetPostgresTestDatabase();
+    }
     await initDatabase();
     const app = createApp();
     server = app.listen(0);
@@ -103,9 +199,9 @@ describe('API', () => {
     baseUrl = `http://localhost:${port}`;
   });
 
-  after(() => {
+  after(async () => {
     server.close();
-    closeDatabase();
+    await closeDatabase();
   });
 
   // ═══════════════════════════════════════════════════════════════
@@ -196,6 +292,15 @@ describe('API', () => {
       assert.strictEqual(res.status, 200);
     });
 
+    it('POST /auth/login - should match email regardless of case', async () => {
+      const { email } = await registerAndGetToken('MixedCase');
+      const res = await request('POST', '/api/v1/auth/login', {
+        email: email.toUpperCase(),
+        password: 'password123',
+      });
+      assert.strictEqual(res.status, 200);
+    });
+
     it('POST /auth/login - should reject wrong password', async () => {
       const email = uniqueEmail('wrongpw');
       await request('POST', '/api/v1/auth/register', {
@@ -243,6 +348,298 @@ describe('API', () => {
       assert.strictEqual(afterLogout.status, 401);
       assert.strictEqual(afterLogout.body.error?.code, 'AUTHENTICATION_ERROR');
     });
+
+    it('POST /auth/refresh - should rotate the refresh token', async () => {
+      const { refreshToken } = await registerAndGetToken('refresh');
+
+      const res = await request('POST', '/api/v1/auth/refresh', { refreshToken });
+      assert.strictEqual(res.status, 200);
+      const tokens = res.body.data as Record<string, unknown>;
+      assert.strictEqual(tokens['expiresIn'], 15 * 60);
+      assert.notStrictEqual(tokens['refreshToken'], refreshToken);
+
+      const me = await request('GET', '/api/v1/auth/me', undefined, tokens['accessToken'] as string);
+      assert.strictEqual(me.status, 200);
+
+      // The successor works once as well
+      const next = await request('POST', '/api/v1/auth/refresh', { refreshToken: tokens['refreshToken'] });
+      assert.strictEqual(next.status, 200);
+    });
+
+    it('POST /auth/refresh - should revoke the family when a used token is replayed', async () => {
+      const { refreshToken } = await registerAndGetToken('reuse');
+
+      const first = await request('POST', '/api/v1/auth/refresh', { refreshToken });
+      assert.strictEqual(first.status, 200);
+      const tokens = first.body.data as Record<string, unknown>;
+
+      const replay = await request('POST', '/api/v1/auth/refresh', { refreshToken });
+      assert.strictEqual(replay.status, 401);
+
+      // The legitimate successor was revoked with the rest of the family
+      const successor = await request('POST', '/api/v1/auth/refresh', { refreshToken: tokens['refreshToken'] });
+      assert.strictEqual(successor.status, 401);
+    });
+
+    it('POST /auth/login - should set HttpOnly cookies for cookie sessions', async () => {
+      const { email } = await registerAndGetToken('cookielogin');
+      const res = await request('POST', '/api/v1/auth/login', { email, password: 'password123' }, undefined, {
+        'X-Session-Mode': 'cookie',
+      });
+      assert.strictEqual(res.status, 200);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['tokens'], undefined);
+
+      const setCookies = res.headers.getSetCookie();
+      const access = setCookies.find((c) => c.startsWith('petport_access='));
+      assert.match(access ?? '', /HttpOnly/);
+      assert.match(access ?? '', /SameSite=Strict/);
+      assert.doesNotMatch(setCookies.find((c) => c.startsWith('petport_csrf=')) ?? '', /HttpOnly/);
+
+      const me = await request('GET', '/api/v1/auth/me', undefined, undefined, {
+        Cookie: cookieHeader(getCookies(res.headers)),
+      });
+      assert.strictEqual(me.status, 200);
+    });
+
+    it('Cookie sessions - should require the CSRF token on state-changing requests', async () => {
+      const { email } = await registerAndGetToken('csrf');
+      const login = await request('POST', '/api/v1/auth/login', { email, password: 'password123' }, undefined, {
+        'X-Session-Mode': 'cookie',
+      });
+      const cookies = getCookies(login.headers);
+
+      const withoutToken = await request('POST', '/api/v1/pets', { name: 'Csrf', species: 'DOG' }, undefined, {
+        Cookie: cookieHeader(cookies),
+      });
+      assert.strictEqual(withoutToken.status, 403);
+      assert.strictEqual(withoutToken.body.error?.code, 'CSRF_ERROR');
+
+      const wrongToken = await request('POST', '/api/v1/pets', { name: 'Csrf', species: 'DOG' }, undefined, {
+        Cookie: cookieHeader(cookies),
+        'X-CSRF-Token': 'not-the-token',
+      });
+      assert.strictEqual(wrongToken.status, 403);
+
+      const withToken = await request('POST', '/api/v1/pets', { name: 'Csrf', species: 'DOG' }, undefined, {
+        Cookie: cookieHeader(cookies),
+        'X-CSRF-Token': cookies['petport_csrf']!,
+      });
+      assert.strictEqual(withToken.status, 201);
+    });
+
+    it('Cookie sessions - should refresh from the cookie and clear cookies on logout', async () => {
+      const { email } = await registerAndGetToken('cookierefresh');
+      const login = await request('POST', '/api/v1/auth/login', { email, password: 'password123' }, undefined, {
+        'X-Session-Mode': 'cookie',
+      });
+      const cookies = getCookies(login.headers);
+
+      const refresh = await request('POST', '/api/v1/auth/refresh', undefined, undefined, {
+        Cookie: cookieHeader(cookies),
+        'X-CSRF-Token': cookies['petport_csrf']!,
+      });
+      assert.strictEqual(refresh.status, 200);
+      const refreshed = { ...cookies, ...getCookies(refresh.headers) };
+      assert.notStrictEqual(refreshed['petport_refresh'], cookies['petport_refresh']);
+      assert.notStrictEqual(refreshed['petport_csrf'], cookies['petport_csrf']);
+
+      const logout = await request('POST', '/api/v1/auth/logout', undefined, undefined, {
+        Cookie: cookieHeader(refreshed),
+        'X-CSRF-Token': refreshed['petport_csrf']!,
+      });
+      assert.strictEqual(logout.status, 200);
+      assert.strictEqual(getCookies(logout.headers)['petport_access'], '');
+
+      // The refresh token was revoked with the session
+      const afterLogout = await request('POST', '/api/v1/auth/refresh', undefined, undefined, {
+        Cookie: cookieHeader(refreshed),
+        'X-CSRF-Token': refreshed['petport_csrf']!,
+      });
+      assert.strictEqual(afterLogout.status, 401);
+    });
+
+    it('Sessions - should list and sign out other devices', async () => {
+      const { token: laptop, email } = await registerAndGetToken('sessions');
+      const login = await request('POST', '/api/v1/auth/login', { email, password: 'password123' });
+      const phone = (login.body.data as Record<string, Record<string, string>>)['tokens']!;
+
+      const list = await request('GET', '/api/v1/auth/sessions', undefined, laptop);
+      assert.strictEqual(list.status, 200);
+      const sessions = list.body.data as unknown as Array<Record<string, unknown>>;
+      assert.strictEqual(sessions.length, 2);
+      assert.strictEqual(sessions.filter((s) => s['current']).length, 1);
+
+      // Sign the phone out from the laptop
+      const phoneSession = sessions.find((s) => !s['current'])!;
+      const revoke = await request('DELETE', `/api/v1/auth/sessions/${phoneSession['id']}`, undefined, laptop);
+      assert.strictEqual(revoke.status, 200);
+
+      const phoneMe = await request('GET', '/api/v1/auth/me', undefined, phone['accessToken']);
+      assert.strictEqual(phoneMe.status, 401);
+      const phoneRefresh = await request('POST', '/api/v1/auth/refresh', { refreshToken: phone['refreshToken'] });
+      assert.strictEqual(phoneRefresh.status, 401);
+
+      const laptopMe = await request('GET', '/api/v1/auth/me', undefined, laptop);
+      assert.strictEqual(laptopMe.status, 200);
+
+      // Sessions of other users are not found
+      const other = await registerAndGetToken('sessionsother');
+      const foreign = await request('DELETE', `/api/v1/auth/sessions/${phoneSession['id']}`, undefined, other.token);
+      assert.strictEqual(foreign.status, 404);
+    });
+
+    it('Sessions - should sign out everywhere', async () => {
+      const { token, email } = await registerAndGetToken('everywhere');
+      const login = await request('POST', '/api/v1/auth/login', { email, password: 'password123' });
+      const other = (login.body.data as Record<string, Record<string, string>>)['tokens']!;
+
+      const res = await request('DELETE', '/api/v1/auth/sessions', undefined, token);
+      assert.strictEqual(res.status, 200);
+
+      assert.strictEqual((await request('GET', '/api/v1/auth/me', undefined, token)).status, 401);
+      assert.strictEqual((await request('GET', '/api/v1/auth/me', undefined, other['accessToken'])).status, 401);
+    });
+
+    it('POST /auth/verify-email - should verify the account once per token', async () => {
+      const { token, userId } = await registerAndGetToken('verify', { verified: false });
+
+      let me = await request('GET', '/api/v1/auth/me', undefined, token);
+      assert.strictEqual((me.body.data as Record<string, unknown>)['isVerified'], false);
+
+      const verificationToken = await issueVerificationToken(userId);
+      const res = await request('POST', '/api/v1/auth/verify-email', { token: verificationToken });
+      assert.strictEqual(res.status, 200);
+
+      me = await request('GET', '/api/v1/auth/me', undefined, token);
+      assert.strictEqual((me.body.data as Record<string, unknown>)['isVerified'], true);
+
+      const reused = await request('POST', '/api/v1/auth/verify-email', { token: verificationToken });
+      assert.strictEqual(reused.status, 400);
+
+      const resend = await request('POST', '/api/v1/auth/verify-email/resend', undefined, token);
+      assert.strictEqual(resend.status, 409);
+    });
+
+    it('Unverified accounts - should not share pets or start transfers', async () => {
+      const { token } = await registerAndGetToken('unverified', { verified: false });
+      const pet = await createPet(token, 'Unverified');
+
+      const share = await request('POST', `/api/v1/pets/${pet['id']}/shares`, { scope: 'IDENTITY', expiresInDays: 7 }, token);
+      assert.strictEqual(share.status, 403);
+      assert.strictEqual(share.body.error?.code, 'EMAIL_NOT_VERIFIED');
+
+      const transfer = await request('POST', `/api/v1/pets/${pet['id']}/transfer`, { email: uniqueEmail('newowner') }, token);
+      assert.strictEqual(transfer.status, 403);
+
+      // Registration just sent a link
+      const resend = await request('POST', '/api/v1/auth/verify-email/resend', undefined, token);
+      assert.strictEqual(resend.status, 429);
+    });
+
+    it('POST /auth/forgot-password - should email a working reset link', async () => {
+      const { email, token: oldToken, refreshToken } = await registerAndGetToken('forgot');
+
+      const res = await request('POST', '/api/v1/auth/forgot-password', { email });
+      assert.strictEqual(res.status, 200);
+      await waitForPasswordResets();
+
+      const sent = (await listCapturedEmails()).find((m) => m.to === email && m.template === 'passwordReset');
+      assert.ok(sent, 'reset email should be captured');
+      const token = sent.text.match(/reset-password\?token=(\S+)/)?.[1];
+      assert.ok(token);
+
+      const reset = await request('POST', '/api/v1/auth/reset-password', { token, password: 'newpassword123' });
+      assert.strictEqual(reset.status, 200);
+      const login = await request('POST', '/api/v1/auth/login', { email, password: 'newpassword123' });
+      assert.strictEqual(login.status, 200);
+      const newToken = (login.body.data as Record<string, Record<string, string>>)['tokens']!['accessToken'];
+
+      // Signed out everywhere, and the link works once
+      assert.strictEqual((await request('GET', '/api/v1/auth/me', undefined, oldToken)).status, 401);
+      assert.strictEqual((await request('POST', '/api/v1/auth/refresh', { refreshToken })).status, 401);
+      assert.strictEqual((await request('GET', '/api/v1/auth/me', undefined, newToken)).status, 200);
+      const reused = await request('POST', '/api/v1/auth/reset-password', { token, password: 'otherpassword123' });
+      assert.strictEqual(reused.status, 401);
+    });
+
+    it('should revoke tokens issued up to the moment of a password reset', async () => {
+      const issuedAt = Date.now();
+      await blacklistUserTokens('usr_resetcutoff', 60);
+      // Earlier in the same second, or even the same millisecond
+      assert.strictEqual(await isUserTokenBlacklisted('usr_resetcutoff', issuedAt), true);
+      assert.strictEqual(await isUserTokenBlacklisted('usr_resetcutoff', Date.now() + 1), false);
+    });
+
+    it('POST /auth/forgot-password - should throttle reset emails per account', async () => {
+      const { email } = await registerAndGetToken('forgotlimit');
+
+      for (let i = 0; i < 4; i++) {
+        const res = await request('POST', '/api/v1/auth/forgot-password', { email });
+        assert.strictEqual(res.status, 200);
+      }
+      await waitForPasswordResets();
+
+      const sent = (await listCapturedEmails()).filter((m) => m.to === email && m.template === 'passwordReset');
+      assert.strictEqual(sent.length, 3);
+
+      // Only the latest link works
+      const [latest, older] = sent.map((m) => m.text.match(/reset-password\?token=(\S+)/)?.[1]);
+      let res = await request('POST', '/api/v1/auth/reset-password', { token: older, password: 'newpassword123' });
+      assert.strictEqual(res.status, 401);
+      res = await request('POST', '/api/v1/auth/reset-password', { token: latest, password: 'newpassword123' });
+      assert.strictEqual(res.status, 200);
+
+      const metrics = await getDb().query(
+        'SELECT event_type FROM security_metrics WHERE email = ?',
+        [email]
+      );
+      const events = metrics.map((row) => row['event_type']);
+      assert.strictEqual(events.filter((e) => e === 'PASSWORD_RESET_REQUESTED').length, 3);
+      assert.ok(events.includes('PASSWORD_RESET_THROTTLED'));
+    });
+
+    it('POST /auth/forgot-password - should respond before the email is sent', async () => {
+      const { email } = await registerAndGetToken('forgotslow');
+      const captured = createMemoryTransport();
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => (release = resolve));
+      const slow: EmailTransport = {
+        type: 'memory',
+        send: async (message) => {
+          await released;
+          await captured.send(message);
+        },
+        list: captured.list,
+      };
+      const previous = getEmailTransport();
+      setEmailTransport(slow);
+      try {
+        // Known and unknown addresses get the same response, neither waiting for the send
+        for (const address of [email, uniqueEmail('nobody')]) {
+          const res = await request('POST', '/api/v1/auth/forgot-password', { email: address });
+          assert.strictEqual(res.status, 200);
+        }
+        assert.strictEqual((await captured.list!(10)).length, 0);
+
+        release();
+        await waitForPasswordResets();
+        const sent = await captured.list!(10);
+        assert.deepStrictEqual(sent.map((m) => m.to), [email]);
+      } finally {
+        release();
+        setEmailTransport(previous);
+      }
+    });
+
+    it('POST /auth/logout - should revoke the refresh token', async () => {
+      const { token, refreshToken } = await registerAndGetToken('logoutrefresh');
+
+      const logoutRes = await request('POST', '/api/v1/auth/logout', { refreshToken }, token);
+      assert.strictEqual(logoutRes.status, 200);
+
+      const res = await request('POST', '/api/v1/auth/refresh', { refreshToken });
+      assert.strictEqual(res.status, 401);
+    });
   });
 
   // ═══════════════════════════════════════════════════════════════
@@ -346,6 +743,211 @@ describe('API', () => {
       res = await request('GET', `/api/v1/pets/${pet['id']}/compliance/rabies`, undefined, token);
       assert.strictEqual((res.body.data as Record<string, unknown>)?.['isCompliant'], true);
     });
+
+    it('GET /pets/:id/compliance - should evaluate every required vaccine', async () => {
+      const { token } = await registerAndGetToken('fullcompliance');
+      const pet = await createPet(token, 'KennelDog', 'DOG');
+
+      for (const type of ['RABIES', 'DHPP']) {
+        await request('POST', `/api/v1/pets/${pet['id']}/vaccinations`, {
+          type,
+          name: `${type} Vaccine`,
+          administeredAt: '2024-01-15',
+          expiresAt: '2099-01-15',
+        }, token);
+      }
+
+      let res = await request('GET', `/api/v1/pets/${pet['id']}/compliance`, undefined, token);
+      assert.strictEqual(res.status, 200);
+      let data = res.body.data as Record<string, unknown>;
+      let requirements = data['requirements'] as Record<string, unknown>[];
+      assert.deepStrictEqual(requirements.map((r) => r['type']), ['RABIES', 'DHPP', 'BORDETELLA']);
+      assert.strictEqual(data['isCompliant'], false);
+      assert.strictEqual(requirements[2]?.['isCompliant'], false);
+
+      await request('POST', `/api/v1/pets/${pet['id']}/vaccinations`, {
+        type: 'BORDETELLA',
+        name: 'Bordetella Intranasal',
+        administeredAt: '2024-01-15',
+        expiresAt: '2099-01-15',
+      }, token);
+
+      res = await request('GET', `/api/v1/pets/${pet['id']}/compliance`, undefined, token);
+      data = res.body.data as Record<string, unknown>;
+      assert.strictEqual(data['isCompliant'], true);
+
+      const cat = await createPet(token, 'HotelCat', 'CAT');
+      res = await request('GET', `/api/v1/pets/${cat['id']}/compliance`, undefined, token);
+      requirements = (res.body.data as Record<string, unknown>)['requirements'] as Record<string, unknown>[];
+      assert.deepStrictEqual(requirements.map((r) => r['type']), ['RABIES', 'FVRCP']);
+    });
+
+    it('GET /pets/:id/compliance?profile= - should apply facility validity window', async () => {
+      const { token } = await registerAndGetToken('profilecompliance');
+      const pet = await createPet(token, 'FlyingDog', 'DOG');
+      await request('POST', `/api/v1/pets/${pet['id']}/vaccinations`, {
+        type: 'RABIES',
+        name: 'Rabies Vaccine',
+        administeredAt: '2024-01-15',
+        expiresAt: '2025-01-15',
+      }, token);
+
+      let res = await request('GET', `/api/v1/pets/${pet['id']}/compliance?profile=airline&asOf=2024-12-01`, undefined, token);
+      assert.strictEqual(res.status, 200);
+      let data = res.body.data as Record<string, unknown>;
+      assert.strictEqual((data['profile'] as Record<string, unknown>)?.['slug'], 'airline');
+      assert.strictEqual(data['minValidityDays'], 30);
+      assert.strictEqual(data['isCompliant'], true);
+
+      // Still valid on the travel date, but not for 30 days past it
+      res = await request('GET', `/api/v1/pets/${pet['id']}/compliance?profile=airline&asOf=2025-01-01`, undefined, token);
+      data = res.body.data as Record<string, unknown>;
+      assert.strictEqual(data['isCompliant'], false);
+
+      res = await request('GET', `/api/v1/pets/${pet['id']}/compliance?profile=grooming&asOf=2025-01-01`, undefined, token);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['isCompliant'], true);
+
+      res = await request('GET', `/api/v1/pets/${pet['id']}/compliance?profile=no-such-profile`, undefined, token);
+      assert.strictEqual(res.status, 404);
+    });
+
+    it('PATCH /pets/:id/vaccinations/:vaxId - should correct a vaccination', async () => {
+      const { token } = await registerAndGetToken('vaxupdate');
+      const pet = await createPet(token, 'VaxUpdatePet', 'DOG');
+      const created = await request('POST', `/api/v1/pets/${pet['id']}/vaccinations`, {
+        type: 'RABIES',
+        name: 'Rabies Vaccine',
+        batchNumber: 'WRONG-123',
+        administeredAt: '2024-01-15',
+      }, token);
+      const vax = created.body.data as Record<string, unknown>;
+
+      const res = await request('PATCH', `/api/v1/pets/${pet['id']}/vaccinations/${vax['id']}`, {
+        batchNumber: 'RB-456',
+      }, token);
+      assert.strictEqual(res.status, 200);
+      assert.strictEqual((res.body.data as Record<string, unknown>)?.['batchNumber'], 'RB-456');
+
+      const history = await request('GET', `/api/v1/pets/${pet['id']}/history`, undefined, token);
+      const entries = (history.body.data as Record<string, unknown>)?.['entries'] as Record<string, unknown>[];
+      assert.strictEqual(entries.length, 1);
+      assert.strictEqual(entries[0]?.['action'], 'UPDATE');
+    });
+
+    it('DELETE /pets/:id/vaccinations/:vaxId - should soft delete a vaccination', async () => {
+      const { token } = await registerAndGetToken('vaxdelete');
+      const pet = await createPet(token, 'VaxDeletePet', 'DOG');
+      const created = await request('POST', `/api/v1/pets/${pet['id']}/vaccinations`, {
+        type: 'RABIES',
+        name: 'Rabies Vaccine',
+        administeredAt: '2024-01-15',
+        expiresAt: '2027-01-15',
+      }, token);
+      const vax = created.body.data as Record<string, unknown>;
+
+      const res = await request('DELETE', `/api/v1/pets/${pet['id']}/vaccinations/${vax['id']}`, undefined, token);
+      assert.strictEqual(res.status, 200);
+
+      const list = await request('GET', `/api/v1/pets/${pet['id']}/vaccinations`, undefined, token);
+      assert.strictEqual((list.body.data as Record<string, unknown>)?.['total'], 0);
+
+      const compliance = await request('GET', `/api/v1/pets/${pet['id']}/compliance/rabies`, undefined, token);
+      assert.strictEqual((compliance.body.data as Record<string, unknown>)?.['isCompliant'], false);
+
+      const again = await request('DELETE', `/api/v1/pets/${pet['id']}/vaccinations/${vax['id']}`, undefined, token);
+      assert.strictEqual(again.status, 404);
+    });
+
+    it('PATCH /pets/:id/vaccinations/:vaxId - should reject non-owner', async () => {
+      const { token } = await registerAndGetToken('vaxowner');
+      const { token: otherToken } = await registerAndGetToken('vaxother');
+      const pet = await createPet(token, 'OwnedPet', 'DOG');
+      const created = await request('POST', `/api/v1/pets/${pet['id']}/vaccinations`, {
+        type: 'DHPP',
+        name: 'DHPP',
+        administeredAt: '2024-01-15',
+      }, token);
+      const vax = created.body.data as Record<string, unknown>;
+
+      const res = await request('PATCH', `/api/v1/pets/${pet['id']}/vaccinations/${vax['id']}`, {
+        name: 'Hijacked',
+      }, otherToken);
+      assert.strictEqual(res.status, 403);
+    });
+    it('POST /admin/reminders - should email owners about vaccinations expiring soon', async () => {
+      const { token, email } = await registerAndGetToken('reminderowner');
+      const pet = await createPet(token, 'Reminded', 'DOG');
+      const day = 24 * 60 * 60 * 1000;
+      const date = (offsetDays: number) => new Date(Date.now() + offsetDays * day).toISOString().split('T')[0];
+      for (const vaccination of [
+        { type: 'RABIES', name: 'Rabies booster', administeredAt: date(-355), expiresAt: date(10) },
+        // No expiry date - due a year after it was given
+        { type: 'LEPTOSPIROSIS', name: 'Lepto', administeredAt: date(-350) },
+        // Already expired
+        { type: 'BORDETELLA', name: 'Kennel cough', administeredAt: date(-400), expiresAt: date(-1) },
+        // Renewed since
+        { type: 'DHPP', name: 'Old DHPP', administeredAt: date(-360), expiresAt: date(5) },
+        { type: 'DHPP', name: 'New DHPP', administeredAt: date(-2), expiresAt: date(363) },
+      ]) {
+        const res = await request('POST', `/api/v1/pets/${pet['id']}/vaccinations`, vaccination, token);
+        assert.strictEqual(res.status, 201);
+      }
+
+      let res = await request('POST', '/api/v1/admin/reminders', undefined, token);
+      assert.strictEqual(res.status, 403);
+
+      const { token: adminToken, userId: adminId } = await registerAndGetToken('reminderadmin');
+      await getDb().run("UPDATE users SET role = 'ADMIN' WHERE id = ?", [adminId]);
+      res = await request('POST', '/api/v1/admin/reminders', undefined, adminToken);
+      assert.strictEqual(res.status, 200);
+
+      const sent = (await listCapturedEmails()).filter((m) => m.to === email && m.template === 'vaccinationReminder');
+      assert.strictEqual(sent.length, 1);
+      assert.strictEqual(sent[0]!.subject, "Reminded's vaccinations are due soon");
+      assert.ok(sent[0]!.text.includes(`Rabies booster - expires ${date(10)}`));
+      assert.ok(sent[0]!.text.includes('Lepto - expires'));
+      assert.ok(!sent[0]!.text.includes('Kennel cough'));
+      assert.ok(!sent[0]!.text.includes('DHPP'));
+      assert.ok(sent[0]!.text.includes(`/pets/${pet['id']}`));
+
+      // Each vaccination is reminded about once
+      await request('POST', '/api/v1/admin/reminders', undefined, adminToken);
+      const again = (await listCapturedEmails()).filter((m) => m.to === email && m.template === 'vaccinationReminder');
+      assert.strictEqual(again.length, 1);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════
+  // HEALTH RECORD ENDPOINTS
+  // ═══════════════════════════════════════════════════════════════
+  describe('Health record endpoints', () => {
+    it('PATCH and DELETE /pets/:id/health/:recordId - should edit and soft delete', async () => {
+      const { token } = await registerAndGetToken('hrlifecycle');
+      const pet = await createPet(token, 'HealthPet', 'CAT');
+      const created = await request('POST', `/api/v1/pets/${pet['id']}/health`, {
+        type: 'CHECKUP',
+        title: 'Anual checkup',
+        date: '2024-03-01',
+      }, token);
+      assert.strictEqual(created.status, 201);
+      const record = created.body.data as Record<string, unknown>;
+
+      const updated = await request('PATCH', `/api/v1/pets/${pet['id']}/health/${record['id']}`, {
+        title: 'Annual checkup',
+      }, token);
+      assert.strictEqual(updated.status, 200);
+      assert.strictEqual((updated.body.data as Record<string, unknown>)?.['title'], 'Annual checkup');
+
+      const deleted = await request('DELETE', `/api/v1/pets/${pet['id']}/health/${record['id']}`, undefined, token);
+      assert.strictEqual(deleted.status, 200);
+
+      const list = await request('GET', `/api/v1/pets/${pet['id']}/health`, undefined, token);
+      assert.strictEqual((list.body.data as Record<string, unknown>)?.['total'], 0);
+
+      const history = await request('GET', `/api/v1/pets/${pet['id']}/history`, undefined, token);
+      const entries = (history.body.data as Record<string, unknown>)?.['entries'] as Record<string, unknown>[];
+      assert.deepStrictEqual(entries.map((e) => e['action']).sort(), ['DELETE', 'UPDATE']);
+    });
   });
 
   // ═══════════════════════════════════════════════════════════════
@@ -362,6 +964,42 @@ describe('API', () => {
       assert.ok(data?.['petportId']);
     });
 
+    it('GET /pets/:id/qr - should sign the payload with the published key', async () => {
+      const { token } = await registerAndGetToken('qrsigned');
+      const pet = await createPet(token, 'SignedPet', 'DOG');
+      await request('POST', `/api/v1/pets/${pet['id']}/vaccinations`, {
+        type: 'RABIES',
+        name: 'Rabies Vaccine',
+        administeredAt: '2024-01-15',
+        expiresAt: '2027-01-15',
+      }, token);
+
+      const keysRes = await request('GET', '/api/v1/public/keys');
+      assert.strictEqual(keysRes.status, 200);
+      const [jwk] = (keysRes.body.data as Record<string, unknown>)['keys'] as Record<string, string>[];
+      assert.strictEqual(jwk?.['crv'], 'Ed25519');
+
+      const res = await request('GET', `/api/v1/pets/${pet['id']}/qr`, undefined, token);
+      const payload = JSON.parse((res.body.data as Record<string, unknown>)['qrData'] as string);
+      assert.strictEqual(payload.v, 2);
+      assert.strictEqual(payload.petportId, pet['petportId']);
+
+      // Verify offline with only the published JWK
+      const { createPublicKey, verify } = await import('node:crypto');
+      const publicKey = createPublicKey({ key: jwk!, format: 'jwk' });
+      const [claims, signature] = (payload.t as string).split('.');
+      assert.ok(verify(null, Buffer.from(claims!), publicKey, Buffer.from(signature!, 'base64url')));
+
+      const decoded = JSON.parse(Buffer.from(claims!, 'base64url').toString('utf8'));
+      assert.strictEqual(decoded.p, pet['petportId']);
+      assert.strictEqual(decoded.r, '2027-01-15');
+      assert.strictEqual(decoded.k, jwk?.['kid']);
+
+      // Any change to the claims invalidates the signature
+      const forged = Buffer.from(JSON.stringify({ ...decoded, r: '2099-01-01' })).toString('base64url');
+      assert.ok(!verify(null, Buffer.from(forged), publicKey, Buffer.from(signature!, 'base64url')));
+    });
+
     it('GET /pets/:id/qr/image - should return QR image', async () => {
       const { token } = await registerAndGetToken('qrimage');
       const pet = await createPet(token, 'QRImagePet', 'DOG');
@@ -391,6 +1029,1213 @@ describe('API', () => {
     });
   });
 
+  // ═══════════════════════════════════════════════════════════════
+  // COMPLIANCE PROFILE ENDPOINTS
+  // ═══════════════════════════════════════════════════════════════
+  describe('Admin user endpoints', () => {
+    it('GET /admin/users - should filter by role and paginate', async () => {
+      const { token, userId } = await registerAndGetToken('useradmin');
+      await getDb().run("UPDATE users SET role = 'ADMIN' WHERE id = ?", [userId]);
+      const vets = [await registerAndGetToken('uservet1'), await registerAndGetToken('uservet2')];
+      for (const vet of vets) {
+        await getDb().run("UPDATE users SET role = 'VET' WHERE id = ?", [vet.userId]);
+      }
+
+      let res = await request('GET', '/api/v1/admin/users?role=VET&limit=1', undefined, token);
+      assert.strictEqual(res.status, 200);
+      let data = res.body.data as Record<string, unknown>;
+      const users = data['users'] as Record<string, unknown>[];
+      assert.strictEqual(users.length, 1);
+      assert.strictEqual(users[0]!['role'], 'VET');
+      assert.ok(!('passwordHash' in users[0]!));
+      assert.ok((data['total'] as number) >= 2);
+
+      res = await request('GET', '/api/v1/admin/stats', undefined, token);
+      assert.strictEqual(res.status, 200);
+      data = res.body.data as Record<string, unknown>;
+      const usersByRole = data['usersByRole'] as Record<string, number>;
+      assert.ok(usersByRole['VET']! >= 2);
+      assert.ok(usersByRole['ADMIN']! >= 1);
+
+      res = await request('GET', '/api/v1/admin/users?role=OWNER', undefined, token);
+      assert.strictEqual(res.status, 400);
+    });
+
+    it('GET /admin/emails - should list captured emails to admins', async () => {
+      const email = uniqueEmail('outbox');
+      await request('POST', '/api/v1/auth/register', { email, password: 'password123', name: 'Sam <b>Jones</b>' });
+      const { token, userId } = await registerAndGetToken('outboxadmin');
+
+      let res = await request('GET', '/api/v1/admin/emails', undefined, token);
+      assert.strictEqual(res.status, 403);
+
+      await getDb().run("UPDATE users SET role = 'ADMIN' WHERE id = ?", [userId]);
+      res = await request('GET', '/api/v1/admin/emails?limit=100', undefined, token);
+      assert.strictEqual(res.status, 200);
+      const data = res.body.data as Record<string, unknown>;
+      assert.strictEqual(data['transport'], 'memory');
+      const sent = (data['emails'] as Record<string, string>[]).find((m) => m['to'] === email);
+      assert.ok(sent, 'verification email should be listed');
+      assert.strictEqual(sent['template'], 'emailVerification');
+      assert.match(sent['text']!, /verify-email\?token=/);
+      assert.ok(sent['html']!.includes('Sam &lt;b&gt;Jones&lt;/b&gt;'));
+      assert.ok(!sent['html']!.includes('<b>Jones'));
+    });
+  });
+
+  describe('Compliance profile endpoints', () => {
+    it('GET /pets/compliance-profiles - should list seeded profiles', async () => {
+      const { token } = await registerAndGetToken('profilelist');
+      const res = await request('GET', '/api/v1/pets/compliance-profiles', undefined, token);
+      assert.strictEqual(res.status, 200);
+      const profiles = (res.body.data as Record<string, unknown>)['profiles'] as Record<string, unknown>[];
+      const slugs = profiles.map((p) => p['slug']);
+      for (const slug of ['boarding', 'daycare', 'airline', 'grooming']) {
+        assert.ok(slugs.includes(slug), `missing ${slug}`);
+      }
+    });
+
+    it('POST /admin/compliance-profiles - should require admin', async () => {
+      const { token } = await registerAndGetToken('profilenonadmin');
+      const res = await request('POST', '/api/v1/admin/compliance-profiles', {
+        slug: 'dog-park',
+        name: 'Dog Park',
+        requirements: { DOG: ['RABIES'] },
+      }, token);
+      assert.strictEqual(res.status, 403);
+    });
+
+    it('should not admit species a profile does not cover', async () => {
+      const { token, userId } = await registerAndGetToken('profilespecies');
+      await getDb().run("UPDATE users SET role = 'ADMIN' WHERE id = ?", [userId]);
+      let res = await request('POST', '/api/v1/admin/compliance-profiles', {
+        slug: 'dogs-only',
+        name: 'Dogs Only Daycare',
+        requirements: { DOG: ['RABIES'] },
+      }, token);
+      assert.strictEqual(res.status, 201);
+
+      const cat = await createPet(token, 'DaycareCat', 'CAT');
+      res = await request('GET', `/api/v1/pets/${cat['id']}/compliance?profile=dogs-only`, undefined, token);
+      assert.strictEqual(res.status, 200);
+      const report = res.body.data as Record<string, unknown>;
+      assert.strictEqual(report['isCompliant'], false);
+      assert.strictEqual(report['isApplicable'], false);
+      assert.deepStrictEqual(report['requirements'], []);
+    });
+
+    it('should let admins create, update and deactivate profiles', async () => {
+      const { token, userId } = await registerAndGetToken('profileadmin');
+      await getDb().run("UPDATE users SET role = 'ADMIN' WHERE id = ?", [userId]);
+
+      let res = await request('POST', '/api/v1/admin/compliance-profiles', {
+        slug: 'show-ring',
+        name: 'Show Ring',
+        requirements: { DOG: ['RABIES', 'LEPTOSPIROSIS'] },
+        minValidityDays: 14,
+      }, token);
+      assert.strictEqual(res.status, 201);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['minValidityDays'], 14);
+
+      res = await request('POST', '/api/v1/admin/compliance-profiles', {
+        slug: 'show-ring',
+        name: 'Duplicate',
+        requirements: { DOG: ['RABIES'] },
+      }, token);
+      assert.strictEqual(res.status, 409);
+
+      res = await request('PATCH', '/api/v1/admin/compliance-profiles/show-ring', {
+        requirements: { DOG: ['RABIES'], CAT: ['RABIES'] },
+      }, token);
+      assert.strictEqual(res.status, 200);
+      const requirements = (res.body.data as Record<string, unknown>)['requirements'] as Record<string, unknown>;
+      assert.deepStrictEqual(requirements['CAT'], ['RABIES']);
+
+      const pet = await createPet(token, 'ShowDog', 'DOG');
+      res = await request('GET', `/api/v1/pets/${pet['id']}/compliance?profile=show-ring`, undefined, token);
+      assert.strictEqual(res.status, 200);
+
+      res = await request('DELETE', '/api/v1/admin/compliance-profiles/show-ring', undefined, token);
+      assert.strictEqual(res.status, 200);
+
+      res = await request('GET', `/api/v1/pets/${pet['id']}/compliance?profile=show-ring`, undefined, token);
+      assert.strictEqual(res.status, 404);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════
+  // SHARE LINK ENDPOINTS
+  // ═══════════════════════════════════════════════════════════════
+  describe('Share link endpoints', () => {
+    it('should only expose data within the share scope', async () => {
+      const { token } = await registerAndGetToken('shares');
+      const pet = await createPet(token, 'SharedPet', 'DOG');
+      await request('POST', `/api/v1/pets/${pet['id']}/vaccinations`, {
+        type: 'RABIES',
+        name: 'Rabies Vaccine',
+        administeredAt: '2024-01-15',
+      }, token);
+      await request('POST', `/api/v1/pets/${pet['id']}/health`, {
+        type: 'CHECKUP',
+        title: 'Annual Checkup',
+        date: '2024-02-01',
+      }, token);
+
+      let res = await request('POST', `/api/v1/pets/${pet['id']}/shares`, { scope: 'IDENTITY', expiresInDays: 7 }, token);
+      assert.strictEqual(res.status, 201);
+      const identityToken = (res.body.data as Record<string, unknown>)['token'] as string;
+
+      res = await request('GET', `/api/v1/public/share/${identityToken}`);
+      assert.strictEqual(res.status, 200);
+      let data = res.body.data as Record<string, unknown>;
+      assert.strictEqual((data['pet'] as Record<string, unknown>)['name'], 'SharedPet');
+      assert.strictEqual(data['vaccinations'], undefined);
+      assert.strictEqual(data['healthRecords'], undefined);
+
+      res = await request('POST', `/api/v1/pets/${pet['id']}/shares`, { scope: 'VACCINATIONS', expiresInDays: 1 }, token);
+      const vaxToken = (res.body.data as Record<string, unknown>)['token'] as string;
+      res = await request('GET', `/api/v1/public/share/${vaxToken}`);
+      data = res.body.data as Record<string, unknown>;
+      assert.strictEqual((data['vaccinations'] as unknown[]).length, 1);
+      assert.ok(data['compliance']);
+      assert.strictEqual(data['healthRecords'], undefined);
+
+      res = await request('POST', `/api/v1/pets/${pet['id']}/shares`, { scope: 'HEALTH', expiresInDays: 30 }, token);
+      const healthToken = (res.body.data as Record<string, unknown>)['token'] as string;
+      res = await request('GET', `/api/v1/public/share/${healthToken}`);
+      data = res.body.data as Record<string, unknown>;
+      assert.strictEqual((data['healthRecords'] as unknown[]).length, 1);
+
+      res = await request('GET', `/api/v1/pets/${pet['id']}/shares`, undefined, token);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['total'], 3);
+      const listed = (res.body.data as Record<string, unknown>)['shares'] as Record<string, unknown>[];
+      assert.ok(listed.every((share) => share['token'] === undefined));
+
+      // Only a hash of the token is stored
+      const stored = await getDb().query('SELECT token_hash FROM pet_shares WHERE pet_id = ?', [pet['id'] as string]);
+      const hashes = stored.map((row) => row['token_hash']);
+      assert.ok(hashes.includes(createHash('sha256').update(identityToken).digest('hex')));
+      assert.ok(!hashes.includes(identityToken));
+    });
+
+    it('should stop serving revoked and expired links', async () => {
+      const { token } = await registerAndGetToken('sharerevoke');
+      const pet = await createPet(token, 'RevokedPet', 'CAT');
+
+      let res = await request('POST', `/api/v1/pets/${pet['id']}/shares`, { scope: 'IDENTITY', expiresInDays: 7 }, token);
+      const share = res.body.data as Record<string, unknown>;
+
+      res = await request('DELETE', `/api/v1/pets/${pet['id']}/shares/${share['id']}`, undefined, token);
+      assert.strictEqual(res.status, 200);
+
+      res = await request('GET', `/api/v1/public/share/${share['token']}`);
+      assert.strictEqual(res.status, 404);
+
+      res = await request('POST', `/api/v1/pets/${pet['id']}/shares`, { scope: 'IDENTITY', expiresInDays: 7 }, token);
+      const expiring = res.body.data as Record<string, unknown>;
+      await getDb().run('UPDATE pet_shares SET expires_at = ? WHERE id = ?', ['2020-01-01T00:00:00.000Z', expiring['id'] as string]);
+
+      res = await request('GET', `/api/v1/public/share/${expiring['token']}`);
+      assert.strictEqual(res.status, 404);
+
+      res = await request('GET', `/api/v1/pets/${pet['id']}/shares`, undefined, token);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['total'], 0);
+    });
+
+    it('should reject share creation by non-owners and invalid durations', async () => {
+      const { token: ownerToken } = await registerAndGetToken('shareowner');
+      const { token: otherToken } = await registerAndGetToken('shareother');
+      const pet = await createPet(ownerToken, 'PrivatePet', 'DOG');
+
+      let res = await request('POST', `/api/v1/pets/${pet['id']}/shares`, { scope: 'HEALTH', expiresInDays: 7 }, otherToken);
+      assert.strictEqual(res.status, 403);
+
+      res = await request('POST', `/api/v1/pets/${pet['id']}/shares`, { scope: 'HEALTH', expiresInDays: 365 }, ownerToken);
+      assert.strictEqual(res.status, 400);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════
+  // LOST-PET MODE
+  // ═══════════════════════════════════════════════════════════════
+  describe('Lost-pet mode', () => {
+    it('should relay finder messages without exposing owner contact details', async () => {
+      const { token } = await registerAndGetToken('lostpet');
+      const pet = await createPet(token, 'MissingDog', 'DOG');
+      const petportId = pet['petportId'] as string;
+
+      // Contact is only open while the pet is reported lost
+      let res = await request('POST', `/api/v1/public/verify/${petportId}/contact`, { message: 'Found your dog?' });
+      assert.strictEqual(res.status, 400);
+
+      res = await request('POST', `/api/v1/pets/${pet['id']}/lost`, { message: 'Shy, please do not chase' }, token);
+      assert.strictEqual(res.status, 200);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['isLost'], true);
+
+      res = await request('GET', `/api/v1/public/verify/${petportId}`);
+      const lost = (res.body.data as Record<string, unknown>)['lost'] as Record<string, unknown>;
+      assert.strictEqual(lost['isLost'], true);
+      assert.strictEqual(lost['message'], 'Shy, please do not chase');
+      assert.ok(!JSON.stringify(res.body).includes('@test.com'));
+
+      res = await request('POST', `/api/v1/public/verify/${petportId}/contact`, {
+        message: 'Found near the park entrance',
+        contactInfo: '555-0100',
+        latitude: 40.7829,
+        longitude: -73.9654,
+      });
+      assert.strictEqual(res.status, 201);
+      assert.ok(!JSON.stringify(res.body).includes('@test.com'));
+
+      res = await request('POST', `/api/v1/public/verify/${petportId}/contact`, { message: 'Half a location', latitude: 40.7 });
+      assert.strictEqual(res.status, 400);
+
+      res = await request('GET', `/api/v1/pets/${pet['id']}/finder-messages`, undefined, token);
+      let data = res.body.data as Record<string, unknown>;
+      assert.strictEqual(data['unread'], 1);
+      const messages = data['messages'] as Record<string, unknown>[];
+      assert.strictEqual(messages[0]?.['contactInfo'], '555-0100');
+
+      await request('POST', `/api/v1/pets/${pet['id']}/finder-messages/read`, undefined, token);
+      res = await request('GET', `/api/v1/pets/${pet['id']}/finder-messages`, undefined, token);
+      data = res.body.data as Record<string, unknown>;
+      assert.strictEqual(data['unread'], 0);
+
+      res = await request('POST', `/api/v1/pets/${pet['id']}/found`, undefined, token);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['isLost'], false);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['lostMessage'], null);
+    });
+
+    it('should email finder messages to the owner without revealing their contact details', async () => {
+      const { token, userId, email } = await registerAndGetToken('relayowner');
+      await getDb().run('UPDATE users SET phone = ? WHERE id = ?', ['555-0199', userId]);
+      const pet = await createPet(token, 'Wanderer', 'CAT');
+      await request('POST', `/api/v1/pets/${pet['id']}/lost`, {}, token);
+
+      const res = await request('POST', `/api/v1/public/verify/${pet['petportId']}/contact`, {
+        message: 'Sleeping in our shed',
+        contactInfo: 'finder@example.com',
+        latitude: 51.5007,
+        longitude: -0.1246,
+      });
+      assert.strictEqual(res.status, 201);
+      const reply = JSON.stringify(res.body);
+      assert.ok(!reply.includes(email) && !reply.includes('555-0199'));
+
+      const sent = (await listCapturedEmails()).find((m) => m.to === email && m.template === 'finderMessage');
+      assert.ok(sent, 'owner should be emailed the message');
+      assert.strictEqual(sent.subject, 'Someone may have found Wanderer');
+      assert.ok(sent.text.includes('Sleeping in our shed'));
+      assert.ok(sent.text.includes('Contact: finder@example.com'));
+      assert.ok(sent.text.includes('Location: 51.5007, -0.1246'));
+      assert.ok(sent.text.includes(`/pets/${pet['id']}`));
+    });
+
+    it('should only let the owner toggle lost mode', async () => {
+      const { token: ownerToken } = await registerAndGetToken('lostowner');
+      const { token: otherToken } = await registerAndGetToken('lostother');
+      const pet = await createPet(ownerToken, 'NotYours', 'CAT');
+
+      const res = await request('POST', `/api/v1/pets/${pet['id']}/lost`, {}, otherToken);
+      assert.strictEqual(res.status, 403);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════
+  // SCAN HISTORY
+  // ═══════════════════════════════════════════════════════════════
+  describe('Scan history', () => {
+    it('should log public lookups for the owner', async () => {
+      const { token } = await registerAndGetToken('scans');
+      const pet = await createPet(token, 'ScannedPet', 'DOG');
+      const petportId = pet['petportId'] as string;
+
+      const res = await fetch(`${baseUrl}/api/v1/public/verify/${petportId}`, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+        },
+      });
+      const body = await res.json() as ApiResponse;
+      const scanId = (body.data as Record<string, unknown>)['scanId'] as string;
+      assert.ok(scanId);
+
+      let located = await request('POST', `/api/v1/public/verify/${petportId}/scans/${scanId}/location`, {
+        latitude: 51.5072,
+        longitude: -0.1276,
+      });
+      assert.strictEqual(located.status, 200);
+
+      // Location can only be set once
+      located = await request('POST', `/api/v1/public/verify/${petportId}/scans/${scanId}/location`, {
+        latitude: 0,
+        longitude: 0,
+      });
+      assert.strictEqual(located.status, 400);
+
+      await request('GET', `/api/v1/public/verify/${petportId}`);
+
+      const scans = await request('GET', `/api/v1/pets/${pet['id']}/scans`, undefined, token);
+      assert.strictEqual(scans.status, 200);
+      const data = scans.body.data as Record<string, unknown>;
+      assert.strictEqual(data['total'], 2);
+      const first = (data['scans'] as Record<string, unknown>[]).find((scan) => scan['id'] === scanId);
+      assert.strictEqual(first?.['device'], 'Safari on iOS');
+      assert.strictEqual(first?.['latitude'], 51.5072);
+    });
+
+    it('should hide scan history from non-owners', async () => {
+      const { token: ownerToken } = await registerAndGetToken('scanowner');
+      const { token: otherToken } = await registerAndGetToken('scanother');
+      const pet = await createPet(ownerToken, 'PrivateScans', 'CAT');
+
+      const res = await request('GET', `/api/v1/pets/${pet['id']}/scans`, undefined, otherToken);
+      assert.strictEqual(res.status, 403);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════
+  // PET MEMBERS
+  // ═══════════════════════════════════════════════════════════════
+  describe('Pet members', () => {
+    async function inviteAndAccept(
+      ownerToken: string,
+      petId: string,
+      role: string
+    ): Promise<{ token: string; memberId: string }> {
+      const member = await registerAndGetToken(role.toLowerCase());
+      const invited = await request('POST', `/api/v1/pets/${petId}/members`, { email: member.email, role }, ownerToken);
+      assert.strictEqual(invited.status, 201);
+      const memberId = (invited.body.data as Record<string, unknown>)['id'] as string;
+
+      const sent = (await listCapturedEmails()).find((m) => m.to === member.email && m.template === 'petInvitation');
+      assert.ok(sent, 'invitee should be emailed');
+      assert.ok(sent.text.includes('/dashboard'));
+
+      const invitations = await request('GET', '/api/v1/pets/invitations', undefined, member.token);
+      const list = (invitations.body.data as Record<string, unknown>)['invitations'] as Record<string, unknown>[];
+      assert.ok(list.some((invite) => invite['id'] === memberId));
+
+      const accepted = await request('POST', `/api/v1/pets/invitations/${memberId}/accept`, undefined, member.token);
+      assert.strictEqual(accepted.status, 200);
+      return { token: member.token, memberId };
+    }
+
+    it('should limit caretakers to viewing and let vets add records', async () => {
+      const { token: ownerToken } = await registerAndGetToken('memberowner');
+      const pet = await createPet(ownerToken, 'SharedCare', 'DOG');
+      const petId = pet['id'] as string;
+      const vaccination = { type: 'RABIES', name: 'Rabies', administeredAt: '2024-01-01' };
+
+      const caretaker = await inviteAndAccept(ownerToken, petId, 'CARETAKER');
+      let res = await request('GET', `/api/v1/pets/${petId}`, undefined, caretaker.token);
+      assert.strictEqual(res.status, 200);
+      res = await request('GET', `/api/v1/pets/${petId}/vaccinations`, undefined, caretaker.token);
+      assert.strictEqual(res.status, 200);
+      res = await request('POST', `/api/v1/pets/${petId}/vaccinations`, vaccination, caretaker.token);
+      assert.strictEqual(res.status, 403);
+
+      res = await request('GET', '/api/v1/pets', undefined, caretaker.token);
+      const pets = (res.body.data as Record<string, unknown>)['pets'] as Record<string, unknown>[];
+      assert.ok(pets.some((p) => p['id'] === petId));
+
+      const vet = await inviteAndAccept(ownerToken, petId, 'VET');
+      res = await request('POST', `/api/v1/pets/${petId}/vaccinations`, vaccination, vet.token);
+      assert.strictEqual(res.status, 201);
+      res = await request('PATCH', `/api/v1/pets/${petId}`, { name: 'Renamed' }, vet.token);
+      assert.strictEqual(res.status, 403);
+      res = await request('DELETE', `/api/v1/pets/${petId}`, undefined, vet.token);
+      assert.strictEqual(res.status, 403);
+
+      // Removed members lose access immediately
+      res = await request('DELETE', `/api/v1/pets/${petId}/members/${caretaker.memberId}`, undefined, ownerToken);
+      assert.strictEqual(res.status, 200);
+      res = await request('GET', `/api/v1/pets/${petId}`, undefined, caretaker.token);
+      assert.strictEqual(res.status, 403);
+    });
+
+    it('should check co-owner renames against the owner\'s pets', async () => {
+      const { token: ownerToken } = await registerAndGetToken('renameowner');
+      const pet = await createPet(ownerToken, 'Biscuit', 'DOG');
+      await createPet(ownerToken, 'Pepper', 'DOG');
+      const petId = pet['id'] as string;
+
+      const coOwner = await inviteAndAccept(ownerToken, petId, 'CO_OWNER');
+      // The co-owner's own pet of that name is no conflict
+      await createPet(coOwner.token, 'Maple', 'CAT');
+
+      let res = await request('PATCH', `/api/v1/pets/${petId}`, { name: 'pepper' }, coOwner.token);
+      assert.strictEqual(res.status, 400);
+      assert.match(res.body.error!.message, /owner already has a pet named "Pepper"/);
+
+      res = await request('PATCH', `/api/v1/pets/${petId}`, { name: 'Maple' }, coOwner.token);
+      assert.strictEqual(res.status, 200);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['name'], 'Maple');
+    });
+
+    it('should let co-owners manage members but not delete the pet', async () => {
+      const { token: ownerToken, email: ownerEmail } = await registerAndGetToken('coowner');
+      const pet = await createPet(ownerToken, 'CoOwned', 'CAT');
+      const petId = pet['id'] as string;
+
+      const coOwner = await inviteAndAccept(ownerToken, petId, 'CO_OWNER');
+      const invited = await request('POST', `/api/v1/pets/${petId}/members`, {
+        email: uniqueEmail('sitter'),
+        role: 'CARETAKER',
+      }, coOwner.token);
+      assert.strictEqual(invited.status, 201);
+
+      let res = await request('POST', `/api/v1/pets/${petId}/members`, { email: ownerEmail, role: 'VET' }, coOwner.token);
+      assert.strictEqual(res.status, 400);
+
+      res = await request('GET', `/api/v1/pets/${petId}/members`, undefined, coOwner.token);
+      const data = res.body.data as Record<string, unknown>;
+      assert.strictEqual(data['myRole'], 'CO_OWNER');
+      assert.strictEqual((data['members'] as unknown[]).length, 2);
+
+      res = await request('DELETE', `/api/v1/pets/${petId}`, undefined, coOwner.token);
+      assert.strictEqual(res.status, 403);
+    });
+
+    it('should not let other users accept an invitation', async () => {
+      const { token: ownerToken } = await registerAndGetToken('inviteowner');
+      const { token: otherToken } = await registerAndGetToken('inviteother');
+      const pet = await createPet(ownerToken, 'Invited', 'DOG');
+
+      const invited = await request('POST', `/api/v1/pets/${pet['id']}/members`, {
+        email: uniqueEmail('invitee'),
+        role: 'CARETAKER',
+      }, ownerToken);
+      const memberId = (invited.body.data as Record<string, unknown>)['id'] as string;
+
+      const res = await request('POST', `/api/v1/pets/invitations/${memberId}/accept`, undefined, otherToken);
+      assert.strictEqual(res.status, 404);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════
+  // OWNERSHIP TRANSFER
+  // ═══════════════════════════════════════════════════════════════
+  describe('Ownership transfer', () => {
+    it('should move the pet and its records once the recipient accepts', async () => {
+      const { token: fromToken, userId: fromId } = await registerAndGetToken('transferfrom');
+      const { token: toToken, userId: toId, email: toEmail } = await registerAndGetToken('transferto');
+      const pet = await createPet(fromToken, 'Rehomed', 'DOG');
+      const petId = pet['id'] as string;
+      await request('POST', `/api/v1/pets/${petId}/vaccinations`, {
+        type: 'RABIES',
+        name: 'Rabies',
+        administeredAt: '2024-01-01',
+      }, fromToken);
+
+      let res = await request('POST', `/api/v1/pets/${petId}/transfer`, { email: toEmail }, fromToken);
+      assert.strictEqual(res.status, 201);
+      const transferId = (res.body.data as Record<string, unknown>)['id'] as string;
+
+      res = await request('POST', `/api/v1/pets/${petId}/transfer`, { email: toEmail }, fromToken);
+      assert.strictEqual(res.status, 409);
+
+      // Nothing changes until the recipient accepts
+      res = await request('GET', `/api/v1/pets/${petId}`, undefined, toToken);
+      assert.strictEqual(res.status, 403);
+
+      res = await request('GET', '/api/v1/pets/transfers', undefined, toToken);
+      const offers = (res.body.data as Record<string, unknown>)['transfers'] as Record<string, unknown>[];
+      assert.strictEqual(offers[0]?.['id'], transferId);
+      assert.strictEqual(offers[0]?.['petportId'], pet['petportId']);
+
+      res = await request('POST', `/api/v1/pets/transfers/${transferId}/accept`, undefined, toToken);
+      assert.strictEqual(res.status, 200);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['ownerId'], toId);
+
+      res = await request('GET', `/api/v1/pets/${petId}`, undefined, fromToken);
+      assert.strictEqual(res.status, 403);
+      res = await request('GET', `/api/v1/pets/${petId}/vaccinations`, undefined, toToken);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['total'], 1);
+
+      const actions = await getDb().query(
+        "SELECT user_id, action FROM pet_audit_log WHERE pet_id = ? AND action LIKE 'TRANSFER_%' ORDER BY action",
+        [petId]
+      );
+      assert.deepStrictEqual(actions.filter((row) => row['action'] !== 'TRANSFER_REQUEST'), [
+        { user_id: toId, action: 'TRANSFER_IN' },
+        { user_id: fromId, action: 'TRANSFER_OUT' },
+      ]);
+
+      // The previous owner keeps a record of the transfer
+      res = await request('GET', '/api/v1/pets/transfers/history', undefined, fromToken);
+      const history = (res.body.data as Record<string, unknown>)['entries'] as Record<string, unknown>[];
+      assert.deepStrictEqual(history.map((entry) => [entry['petId'], entry['action'], entry['targetId']]), [
+        [petId, 'TRANSFER_OUT', transferId],
+      ]);
+
+      // Accepting twice is not possible
+      res = await request('POST', `/api/v1/pets/transfers/${transferId}/accept`, undefined, toToken);
+      assert.strictEqual(res.status, 404);
+    });
+
+    it('should only let the named recipient accept and the owner cancel', async () => {
+      const { token: ownerToken } = await registerAndGetToken('transferowner');
+      const { token: otherToken } = await registerAndGetToken('transferother');
+      const pet = await createPet(ownerToken, 'StayingHome', 'CAT');
+      const petId = pet['id'] as string;
+
+      let res = await request('POST', `/api/v1/pets/${petId}/transfer`, { email: uniqueEmail('buyer') }, otherToken);
+      assert.strictEqual(res.status, 403);
+
+      res = await request('POST', `/api/v1/pets/${petId}/transfer`, { email: uniqueEmail('buyer') }, ownerToken);
+      const transferId = (res.body.data as Record<string, unknown>)['id'] as string;
+
+      res = await request('POST', `/api/v1/pets/transfers/${transferId}/accept`, undefined, otherToken);
+      assert.strictEqual(res.status, 404);
+
+      res = await request('DELETE', `/api/v1/pets/${petId}/transfer`, undefined, ownerToken);
+      assert.strictEqual(res.status, 200);
+      res = await request('GET', `/api/v1/pets/${petId}/transfer`, undefined, ownerToken);
+      assert.strictEqual(res.body.data, null);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════
+  // VET ATTESTATION
+  // ═══════════════════════════════════════════════════════════════
+  describe('Vet attestation', () => {
+    it('should raise the verification level as a vet attests records', async () => {
+      const { token: ownerToken } = await registerAndGetToken('attestowner');
+      const { token: vetToken, userId: vetId, email: vetEmail } = await registerAndGetToken('attestvet');
+      await getDb().run("UPDATE users SET role = 'VET' WHERE id = ?", [vetId]);
+
+      const pet = await createPet(ownerToken, 'Attested', 'CAT');
+      const petId = pet['id'] as string;
+      const recent = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const vaccinationIds: string[] = [];
+      for (const type of ['RABIES', 'FVRCP']) {
+        const res = await request('POST', `/api/v1/pets/${petId}/vaccinations`, { type, name: type, administeredAt: recent }, ownerToken);
+        vaccinationIds.push((res.body.data as Record<string, unknown>)['id'] as string);
+      }
+
+      const invited = await request('POST', `/api/v1/pets/${petId}/members`, { email: vetEmail, role: 'VET' }, ownerToken);
+      await request('POST', `/api/v1/pets/invitations/${(invited.body.data as Record<string, unknown>)['id']}/accept`, undefined, vetToken);
+
+      // Owners cannot attest their own records and vets need a clinic profile first
+      let res = await request('POST', `/api/v1/pets/${petId}/vaccinations/${vaccinationIds[0]}/attest`, undefined, ownerToken);
+      assert.strictEqual(res.status, 403);
+      res = await request('POST', `/api/v1/pets/${petId}/vaccinations/${vaccinationIds[0]}/attest`, undefined, vetToken);
+      assert.strictEqual(res.status, 400);
+
+      res = await request('PUT', '/api/v1/vets/me/clinic', { clinicName: 'Harbour Vets', licenseNumber: 'VET-1234' }, vetToken);
+      assert.strictEqual(res.status, 200);
+
+      res = await request('POST', `/api/v1/pets/${petId}/vaccinations/${vaccinationIds[0]}/attest`, undefined, vetToken);
+      assert.strictEqual(res.status, 200);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['attestedBy'], vetId);
+      res = await request('GET', `/api/v1/pets/${petId}`, undefined, ownerToken);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['verificationLevel'], 'VERIFIED');
+
+      // All required vaccines attested plus a microchip certifies the pet
+      await request('POST', `/api/v1/pets/${petId}/vaccinations/${vaccinationIds[1]}/attest`, undefined, vetToken);
+      res = await request('PATCH', `/api/v1/pets/${petId}`, { microchipId: '985112345678901' }, ownerToken);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['verificationLevel'], 'CERTIFIED');
+
+      res = await request('GET', `/api/v1/public/verify/${pet['petportId']}`);
+      const data = res.body.data as Record<string, unknown>;
+      assert.strictEqual(data['verificationLevel'], 'CERTIFIED');
+      const requirements = (data['compliance'] as Record<string, unknown>)['requirements'] as Record<string, unknown>[];
+      const rabies = requirements.find((r) => r['type'] === 'RABIES');
+      assert.strictEqual((rabies?.['attestation'] as Record<string, unknown>)['clinicName'], 'Harbour Vets');
+
+      // Editing an attested record clears the sign-off
+      res = await request('PATCH', `/api/v1/pets/${petId}/vaccinations/${vaccinationIds[1]}`, { name: 'Edited' }, ownerToken);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['attestedBy'], null);
+      res = await request('GET', `/api/v1/pets/${petId}`, undefined, ownerToken);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['verificationLevel'], 'VERIFIED');
+    });
+
+    it('should not let a vet attest records of a pet they co-own', async () => {
+      const { token: ownerToken } = await registerAndGetToken('attestcoowner');
+      const { token: vetToken, userId: vetId, email: vetEmail } = await registerAndGetToken('coownervet');
+      await getDb().run("UPDATE users SET role = 'VET' WHERE id = ?", [vetId]);
+      await request('PUT', '/api/v1/vets/me/clinic', { clinicName: 'Family Vets', licenseNumber: 'VET-9012' }, vetToken);
+
+      const pet = await createPet(ownerToken, 'Household', 'DOG');
+      const petId = pet['id'] as string;
+      const invited = await request('POST', `/api/v1/pets/${petId}/members`, { email: vetEmail, role: 'CO_OWNER' }, ownerToken);
+      await request('POST', `/api/v1/pets/invitations/${(invited.body.data as Record<string, unknown>)['id']}/accept`, undefined, vetToken);
+
+      let res = await request('POST', `/api/v1/pets/${petId}/vaccinations`, { type: 'RABIES', name: 'Rabies', administeredAt: '2024-01-01' }, vetToken);
+      const vaccinationId = (res.body.data as Record<string, unknown>)['id'] as string;
+      res = await request('POST', `/api/v1/pets/${petId}/vaccinations/${vaccinationId}/attest`, undefined, vetToken);
+      assert.strictEqual(res.status, 403);
+      res = await request('GET', `/api/v1/pets/${petId}`, undefined, ownerToken);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['verificationLevel'], 'BASIC');
+    });
+
+    it('should not certify species without required vaccines', async () => {
+      const { token: ownerToken } = await registerAndGetToken('attestrabbit');
+      const { token: vetToken, userId: vetId, email: vetEmail } = await registerAndGetToken('rabbitvet');
+      await getDb().run("UPDATE users SET role = 'VET' WHERE id = ?", [vetId]);
+      await request('PUT', '/api/v1/vets/me/clinic', { clinicName: 'Warren Vets', licenseNumber: 'VET-5678' }, vetToken);
+
+      const pet = await createPet(ownerToken, 'Thumper', 'RABBIT');
+      const petId = pet['id'] as string;
+      const invited = await request('POST', `/api/v1/pets/${petId}/members`, { email: vetEmail, role: 'VET' }, ownerToken);
+      await request('POST', `/api/v1/pets/invitations/${(invited.body.data as Record<string, unknown>)['id']}/accept`, undefined, vetToken);
+
+      // An expired vaccine, attested, plus a microchip
+      let res = await request(
+        'POST',
+        `/api/v1/pets/${petId}/vaccinations`,
+        { type: 'OTHER', name: 'Myxomatosis', administeredAt: '2020-01-01', expiresAt: '2021-01-01' },
+        ownerToken
+      );
+      const vaccinationId = (res.body.data as Record<string, unknown>)['id'] as string;
+      res = await request('POST', `/api/v1/pets/${petId}/vaccinations/${vaccinationId}/attest`, undefined, vetToken);
+      assert.strictEqual(res.status, 200);
+      res = await request('PATCH', `/api/v1/pets/${petId}`, { microchipId: '985112345678902' }, ownerToken);
+      assert.strictEqual((res.body.data as Record<string, unknown>)['verificationLevel'], 'VERIFIED');
+    });
+
+    it('should keep vet routes to vet accounts', async () => {
+      const { token } = await registerAndGetToken('notavet');
+      const res = await request('PUT', '/api/v1/vets/me/clinic', { clinicName: 'Fake', licenseNumber: 'X' }, token);
+      assert.strictEqual(res.status, 403);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════
+  // PHOTO GALLERY ENDPOINTS
+  // ═══════════════════════════════════════════════════════════════
+  describe('Photo gallery endpoints', () => {
+    let PNG: Uint8Array<ArrayBuffer>;
+
+    before(async () => {
+      PNG = new Uint8Array(await sharp({ create: { width: 8, height: 8, channels: 3, background: '#2D4A3E' } }).png().toBuffer());
+    });
+
+    it('should upload, reorder, set primary and delete photos', async () => {
+      const { token } = await registerAndGetToken('gallery');
+      const pet = await createPet(token, 'GalleryPet', 'DOG');
+      const path = `/api/v1/pets/${pet['id']}/photos`;
+
+      const first = await uploadFile(path, 'photo', PNG, 'image/png', token);
+      assert.strictEqual(first.status, 201);
+      const second = await uploadFile(path, 'photo', PNG, 'image/png', token);
+      const firstPhoto = first.body.data as Record<string, unknown>;
+      const secondPhoto = second.body.data as Record<string, unknown>;
+      // The first photo becomes the primary photo
+      assert.strictEqual(firstPhoto['isPrimary'], true);
+      assert.strictEqual(secondPhoto['isPrimary'], false);
+
+      const reordered = await request('PUT', `${path}/order`, { photoIds: [secondPhoto['id'], firstPhoto['id']] }, token);
+      assert.strictEqual(reordered.status, 200);
+      const order = ((reordered.body.data as Record<string, unknown>)['photos'] as Record<string, unknown>[]).map((p) => p['id']);
+      assert.deepStrictEqual(order, [secondPhoto['id'], firstPhoto['id']]);
+
+      const incomplete = await request('PUT', `${path}/order`, { photoIds: [secondPhoto['id']] }, token);
+      assert.strictEqual(incomplete.status, 400);
+
+      const primary = await request('POST', `${path}/${secondPhoto['id']}/primary`, undefined, token);
+      assert.strictEqual(primary.status, 200);
+      const petRes = await request('GET', `/api/v1/pets/${pet['id']}`, undefined, token);
+      assert.strictEqual((petRes.body.data as Record<string, unknown>)['photoUrl'], secondPhoto['url']);
+
+      const publicRes = await request('GET', `/api/v1/public/verify/${pet['petportId']}`);
+      const publicPhotos = (publicRes.body.data as Record<string, unknown>)['photos'] as Record<string, string>[];
+      assert.deepStrictEqual(publicPhotos.map((p) => p['full']), [secondPhoto['url'], firstPhoto['url']]);
+
+      // Deleting the primary promotes the next photo
+      const deleted = await request('DELETE', `${path}/${secondPhoto['id']}`, undefined, token);
+      assert.strictEqual(deleted.status, 200);
+      const after = await request('GET', `/api/v1/pets/${pet['id']}`, undefined, token);
+      assert.strictEqual((after.body.data as Record<string, unknown>)['photoUrl'], firstPhoto['url']);
+    });
+
+    it('should re-encode uploads without EXIF data and generate variants', async () => {
+      const { token } = await registerAndGetToken('galleryexif');
+      const pet = await createPet(token, 'ExifPet', 'DOG');
+      // Landscape pixels tagged to display rotated 90 degrees, with GPS coordinates
+      const jpeg = await sharp({ create: { width: 40, height: 20, channels: 3, background: '#ffffff' } })
+        .withExif({ IFD0: { Make: 'TestPhone' }, IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '51/1 30/1 0/1' } })
+        .withMetadata({ orientation: 6 })
+        .jpeg()
+        .toBuffer();
+
+      const res = await uploadFile(`/api/v1/pets/${pet['id']}/photos`, 'photo', new Uint8Array(jpeg), 'image/jpeg', token);
+      assert.strictEqual(res.status, 201);
+      const variants = (res.body.data as Record<string, unknown>)['variants'] as Record<string, string>;
+
+      const fetchVariant = async (url: string) =>
+        sharp(Buffer.from(await (await fetch(`${baseUrl}${new URL(url).pathname}`)).arrayBuffer())).metadata();
+
+      const full = await fetchVariant(variants['full']!);
+      assert.strictEqual(full.exif, undefined);
+      assert.strictEqual(full.orientation, undefined);
+      // Orientation applied to the pixels
+      assert.strictEqual(full.width, 20);
+      assert.strictEqual(full.height, 40);
+
+      const thumbnail = await fetchVariant(variants['thumbnail']!);
+      assert.strictEqual(thumbnail.width, 200);
+      assert.strictEqual(thumbnail.height, 200);
+
+      const petRes = await request('GET', `/api/v1/pets/${pet['id']}`, undefined, token);
+      assert.deepStrictEqual((petRes.body.data as Record<string, unknown>)['photoVariants'], variants);
+    });
+
+    it('should reject files that are not decodable images', async () => {
+      const { token } = await registerAndGetToken('gallerybad');
+      const pet = await createPet(token, 'BadImagePet', 'DOG');
+      const truncated = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0, 0, 0, 0]);
+      const res = await uploadFile(`/api/v1/pets/${pet['id']}/photos`, 'photo', truncated, 'image/png', token);
+      assert.strictEqual(res.status, 400);
+    });
+
+    it('should enforce the per-pet photo limit', async () => {
+      const { token, userId } = await registerAndGetToken('gallerycap');
+      const pet = await createPet(token, 'CapPet', 'CAT');
+      const now = new Date().toISOString();
+      for (let i = 0; i < 20; i++) {
+        await getDb().run(
+          'INSERT INTO pet_photos (id, pet_id, url, position, uploaded_by, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+          [`photo_cap_${i}_${Date.now()}`, pet['id'], `http://localhost/uploads/cap-${i}.png`, i, userId, now]
+        );
+      }
+
+      const res = await uploadFile(`/api/v1/pets/${pet['id']}/photos`, 'photo', PNG, 'image/png', token);
+      assert.strictEqual(res.status, 400);
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════
+  // RECORD DOCUMENT ENDPOINTS
+  // ═══════════════════════════════════════════════════════════════
+  describe('Record document endpoints', () => {
+    const PDF = new TextEncoder().encode('%PDF-1.4\n1 0 obj << >> endobj\n%%EOF\n');
+    const PNG = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0, 0, 0, 0]);
+
+    async function createVaccination(token: string, petId: string): Promise<string> {
+      const res = await request('POST', `/api/v1/pets/${petId}/vaccinations`, {
+        type: 'RABIES',
+        name: 'Rabies Vaccine',
+        administeredAt: '2024-01-15',
+        expiresAt: '2027-01-15',
+      }, token);
+      return (res.body.data as Record<string, unknown>)['id'] as string;
+    }
+
+    it('should attach, serve and remove a vaccination certificate', async () => {
+      const { token } = await registerAndGetToken('docvax');
+      const pet = await createPet(token, 'DocPet', 'DOG');
+      const vaxId = await createVaccination(token, pet['id'] as string);
+      const path = `/api/v1/pets/${pet['id']}/vaccinations/${vaxId}/document`;
+
+      const upload = await uploadFile(path, 'document', PDF, 'application/pdf', token);
+      assert.strictEqual(upload.status, 200);
+      assert.ok(((upload.body.data as Record<string, unknown>)['documentUrl'] as string).endsWith(path));
+
+      const download = await rawRequest('GET', path, token);
+      assert.strictEqual(download.status, 200);
+      assert.ok(download.contentType.includes('application/pdf'));
+      assert.deepStrictEqual(new Uint8Array(download.buffer), PDF);
+
+      // Not reachable without access to the pet
+      const { token: otherToken } = await registerAndGetToken('docother');
+      const denied = await rawRequest('GET', path, otherToken);
+      assert.strictEqual(denied.status, 403);
+
+      const removed = await request('DELETE', path, undefined, token);
+      assert.strictEqual(removed.status, 200);
+      assert.strictEqual((removed.body.data as Record<string, unknown>)['documentUrl'], null);
+      assert.strictEqual((await rawRequest('GET', path, token)).status, 404);
+    });
+
+    it('should attach an image to a health record', async () => {
+      const { token } = await registerAndGetToken('dochealth');
+      const pet = await createPet(token, 'LabPet', 'CAT');
+      const recordRes = await request('POST', `/api/v1/pets/${pet['id']}/health`, {
+        type: 'LAB_RESULT',
+        title: 'Bloodwork',
+        date: '2024-03-01',
+      }, token);
+      const recordId = (recordRes.body.data as Record<string, unknown>)['id'];
+      const path = `/api/v1/pets/${pet['id']}/health/${recordId}/document`;
+
+      const upload = await uploadFile(path, 'document', PNG, 'image/png', token);
+      assert.strictEqual(upload.status, 200);
+
+      const download = await rawRequest('GET', path, token);
+      assert.strictEqual(download.status, 200);
+      assert.ok(download.contentType.includes('image/png'));
+    });
+
+    it('should reject spoofed and unsupported files', async () => {
+      const { token } = await registerAndGetToken('docspoof');
+      const pet = await createPet(token, 'SpoofPet', 'DOG');
+      const vaxId = await createVaccination(token, pet['id'] as string);
+      const path = `/api/v1/pets/${pet['id']}/vaccinations/${vaxId}/document`;
+
+      const spoofed = await uploadFile(path, 'document', new TextEncoder().encode('<script>alert(1)</script>'), 'application/pdf', token);
+      assert.strictEqual(spoofed.status, 400);
+
+      const unsupported = await uploadFile(path, 'document', PDF, 'text/html', token);
+      assert.strictEqual(unsupported.status, 400);
+
+      assert.strictEqual((await rawRequest('GET', path, token)).status, 404);
+    });
+
+    it('should issue signed links that work without a token', async () => {
+      const { token } = await registerAndGetToken('doclink');
+      const pet = await createPet(token, 'LinkPet', 'DOG');
+      const vaxId = await createVaccination(token, pet['id'] as string);
+      const path = `/api/v1/pets/${pet['id']}/vaccinations/${vaxId}/document`;
+      assert.strictEqual((await request('GET', `${path}/link`, undefined, token)).status, 404);
+
+      await uploadFile(path, 'document', PDF, 'application/pdf', token);
+      const link = await request('GET', `${path}/link`, undefined, token);
+      assert.strictEqual(link.status, 200);
+      const url = new URL((link.body.data as Record<string, unknown>)['url'] as string);
+      assert.ok(url.searchParams.get('signature'));
+
+      const download = await rawRequest('GET', `${url.pathname}${url.search}`);
+      assert.strictEqual(download.status, 200);
+      assert.deepStrictEqual(new Uint8Array(download.buffer), PDF);
+
+      // Tampered and expired links are refused
+      url.searchParams.set('expires', String(Number(url.searchParams.get('expires')) + 60));
+      assert.strictEqual((await rawRequest('GET', `${url.pathname}${url.search}`)).status, 403);
+      url.searchParams.set('expires', String(Math.floor(Date.now() / 1000) - 1));
+      assert.strictEqual((await rawRequest('GET', `${url.pathname}${url.search}`)).status, 403);
+
+      const { token: otherToken } = await registerAndGetToken('doclinkother');
+      assert.strictEqual((await request('GET', `${path}/link`, undefined, otherToken)).status, 403);
+    });
+  });
+
+  describe('S3 storage backend', () => {
+    // Minimal S3-compatible stand-in: path-style PUT/GET/HEAD/DELETE and ListObjectsV2
+    const objects = new Map<string, { body: Buffer; contentType: string }>();
+    let s3Server: Server;
+    let endpoint: string;
+
+    before(async () => {
+      s3Server = createServer((req, res) => {
+        const url = new URL(req.url!, 'http://localhost');
+        const signed = req.headers['authorization']?.startsWith('AWS4-HMAC-SHA256') || url.searchParams.has('X-Amz-Signature');
+        if (!signed) {
+          res.writeHead(403).end();
+          return;
+        }
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+          const objectPath = decodeURIComponent(url.pathname);
+          if (req.method === 'GET' && url.searchParams.get('list-type') === '2') {
+            const prefix = `${objectPath.replace(/\/$/, '')}/${url.searchParams.get('prefix') ?? ''}`;
+            const keys = [...objects.keys()].filter((key) => key.startsWith(prefix));
+            res.writeHead(200, { 'Content-Type': 'application/xml' }).end(
+              `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><IsTruncated>false</IsTruncated><KeyCount>${keys.length}</KeyCount>` +
+              keys.map((key) => `<Contents><Key>${key.split('/').slice(2).join('/')}</Key></Contents>`).join('') +
+              '</ListBucketResult>'
+            );
+            return;
+          }
+          const object = objects.get(objectPath);
+          if (req.method === 'PUT') {
+            objects.set(objectPath, { body: Buffer.concat(chunks), contentType: req.headers['content-type'] ?? '' });
+            res.writeHead(200).end();
+          } else if (req.method === 'DELETE') {
+            objects.delete(objectPath);
+            res.writeHead(204).end();
+          } else if (!object) {
+            res.writeHead(404, { 'Content-Type': 'application/xml' })
+              .end(req.method === 'HEAD' ? undefined : '<Error><Code>NoSuchKey</Code></Error>');
+          } else {
+            res.writeHead(200, { 'Content-Type': object.contentType, 'Content-Length': object.body.length })
+              .end(req.method === 'HEAD' ? undefined : object.body);
+          }
+        });
+      });
+      await new Promise<void>((resolve) => s3Server.listen(0, resolve));
+      const address = s3Server.address();
+      endpoint = `http://localhost:${typeof address === 'object' && address ? address.port : 0}`;
+    });
+
+    after(() => {
+      s3Server.close();
+    });
+
+    it('should store, list, sign and delete objects', async () => {
+      const storage = createS3Storage({
+        bucket: 'petport-test',
+        region: 'us-east-1',
+        endpoint,
+        accessKeyId: 'test',
+        secretAccessKey: 'test-secret',
+        forcePathStyle: true,
+      }, 'documents');
+      const body = Buffer.from('%PDF-1.4 s3 test');
+
+      await storage.put('rec_1.pdf', body, 'application/pdf');
+      assert.ok(objects.has('/petport-test/documents/rec_1.pdf'));
+      assert.strictEqual(await storage.exists('rec_1.pdf'), true);
+      assert.deepStrictEqual(await storage.list(), ['rec_1.pdf']);
+
+      const object = await storage.get('rec_1.pdf');
+      assert.deepStrictEqual(object?.body, body);
+      assert.strictEqual(object?.contentType, 'application/pdf');
+
+      // Presigned URLs work for anyone holding them
+      const signedUrl = new URL(await storage.getSignedUrl('rec_1.pdf', 60));
+      assert.strictEqual(signedUrl.searchParams.get('X-Amz-Expires'), '60');
+      const fetched = await fetch(signedUrl);
+      assert.strictEqual(fetched.status, 200);
+      assert.deepStrictEqual(Buffer.from(await fetched.arrayBuffer()), body);
+
+      assert.strictEqual(await storage.delete('rec_1.pdf'), true);
+      assert.strictEqual(await storage.delete('rec_1.pdf'), false);
+      assert.strictEqual(await storage.get('rec_1.pdf'), null);
+
+      // Keys never leave the storage area
+      await assert.rejects(storage.put('../escape.pdf', body, 'application/pdf'));
+      assert.strictEqual(await storage.get('../uploads/x.jpg'), null);
+    });
+  });
+
+  describe('SQLite persistence', () => {
+    const open = (path: string) => createSqliteDriver({ path, snapshotInterval: 60_000 });
+    const count = async (db: Awaited<ReturnType<typeof open>>) =>
+      (await db.query('SELECT COUNT(*) AS n FROM items'))[0]!['n'];
+
+    it('should recover committed writes from the journal after a crash', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'petport-sqlite-'));
+      const path = join(dir, 'petport.db');
+      const db = await open(path);
+      await db.run('CREATE TABLE items (id TEXT PRIMARY KEY)');
+      await db.run('INSERT INTO items (id) VALUES (?)', ['a']);
+      await db.transaction(async (tx) => {
+        await tx.run('INSERT INTO items (id) VALUES (?)', ['b']);
+        await tx.run('INSERT INTO items (id) VALUES (?)', ['c']);
+      });
+      await assert.rejects(db.transaction(async (tx) => {
+        await tx.run('INSERT INTO items (id) VALUES (?)', ['d']);
+        throw new Error('rolled back');
+      }));
+
+      // Writes are journaled, not rewritten into the database file
+      assert.strictEqual(existsSync(path), false);
+
+      // Simulate a crash: copy the files while the driver is still open,
+      // with a torn entry at the end of the journal
+      const journal = join(dir, 'journal.bak');
+      const crashed = join(dir, 'crashed.db');
+      copyFileSync(`${path}-journal`, journal);
+      copyFileSync(journal, `${crashed}-journal`);
+      appendFileSync(`${crashed}-journal`, '{"seq":4,"statements":[["INSERT');
+      const recovered = await open(crashed);
+      assert.strictEqual(await count(recovered), 3);
+      await recovered.close();
+
+      // A clean close leaves a complete snapshot and no journal
+      await db.close();
+      assert.strictEqual(existsSync(`${path}-journal`), false);
+
+      // Journal entries already in the snapshot are not applied twice
+      copyFileSync(journal, `${path}-journal`);
+      const reopened = await open(path);
+      assert.strictEqual(await count(reopened), 3);
+      await reopened.close();
+    });
+  });
+
+  describe('Migrations', () => {
+    const open = () => createSqliteDriver({
+      path: join(mkdtempSync(join(tmpdir(), 'petport-migrations-')), 'petport.db'),
+      snapshotInterval: 60_000,
+    });
+    const tables = async (db: Awaited<ReturnType<typeof open>>) =>
+      (await db.query("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name")).map((row) => row['name']);
+
+    it('should roll back to any version and apply again', async () => {
+      const db = await open();
+      const migrations = loadMigrations();
+      assert.strictEqual((await runMigrations(db)).length, migrations.length);
+      assert.deepStrictEqual(await runMigrations(db), []);
+
+      // Without a target only the latest migration is undone
+      const [latest] = await rollbackMigrations(db);
+      assert.strictEqual(latest!.version, migrations[migrations.length - 1]!.version);
+
+      // A dry run changes nothing
+      const preview = await rollbackMigrations(db, { to: 0, dryRun: true });
+      assert.strictEqual(preview.length, migrations.length - 1);
+      assert.ok((await tables(db)).includes('pets'));
+
+      await rollbackMigrations(db, { to: 0 });
+      assert.deepStrictEqual(await tables(db), ['migrations']);
+
+      await runMigrations(db, { to: 2 });
+      const statuses = await getMigrationStatus(db);
+      assert.deepStrictEqual(
+        statuses.filter((s) => s.state === 'applied').map((s) => s.version),
+        [1, 2]
+      );
+
+      await runMigrations(db);
+      assert.ok((await getMigrationStatus(db)).every((s) => s.state === 'applied'));
+      await db.close();
+    });
+
+    it('should only read the database for status and dry runs', async () => {
+      const db = await open();
+      const migrations = loadMigrations();
+      assert.ok((await getMigrationStatus(db)).every((s) => s.state === 'pending'));
+      assert.strictEqual((await runMigrations(db, { dryRun: true })).length, migrations.length);
+      assert.deepStrictEqual(await tables(db), []);
+
+      // A table from before checksums were tracked is left as it is
+      await db.run('CREATE TABLE migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)');
+      await db.run("INSERT INTO migrations (version, name, applied_at) VALUES (1, 'initial_schema', '2024-01-01')");
+      const [first] = await getMigrationStatus(db);
+      assert.strictEqual(first!.state, 'untracked');
+      const columns = (await db.query('PRAGMA table_info(migrations)')).map((row) => row['name']);
+      assert.ok(!columns.includes('checksum'));
+      await db.close();
+
+      // `up` records the missing checksums
+      const migrated = await open();
+      await runMigrations(migrated);
+      await migrated.run('UPDATE migrations SET checksum = NULL');
+      assert.ok((await getMigrationStatus(migrated)).every((s) => s.state === 'untracked'));
+      assert.deepStrictEqual(await runMigrations(migrated), []);
+      assert.ok((await getMigrationStatus(migrated)).every((s) => s.state === 'applied'));
+      await migrated.close();
+    });
+
+    it('should refuse to migrate when an applied migration was edited', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'petport-migration-files-'));
+      cpSync(MIGRATIONS_DIR, dir, { recursive: true });
+      const db = await open();
+      await runMigrations(db, {}, loadMigrations(dir));
+
+      appendFileSync(join(dir, '001_initial_schema.up.sql'), 'CREATE INDEX idx_pets_name ON pets(name);\n');
+      const edited = loadMigrations(dir);
+      await assert.rejects(runMigrations(db, {}, edited), /edited: 1\b/);
+      const [first] = await getMigrationStatus(db, edited);
+      assert.strictEqual(first!.state, 'modified');
+      await db.close();
+    });
+  });
+
+  describe('Database backups', () => {
+    it('should keep verified daily and weekly backups and restore one', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'petport-backups-'));
+      const path = join(dir, 'petport.db');
+      const storage = createLocalStorage('backups', join(dir, 'backups'));
+      const db = await createSqliteDriver({ path, snapshotInterval: 60_000 });
+      await runMigrations(db);
+      await db.run('CREATE TABLE items (id TEXT PRIMARY KEY)');
+      await db.run("INSERT INTO items (id) VALUES ('a')");
+
+      const start = Date.parse('2026-03-02T03:00:00.000Z');
+      const day = 24 * 60 * 60 * 1000;
+      const first = await createBackup(db, storage, new Date(start));
+      assert.strictEqual(first.tier, 'weekly');
+      assert.strictEqual(first.status, 'verified');
+      await db.run("INSERT INTO items (id) VALUES ('b')");
+      const second = await createBackup(db, storage, new Date(start + day));
+      assert.strictEqual(second.tier, 'daily');
+      await createBackup(db, storage, new Date(start + 2 * day));
+      assert.strictEqual((await createBackup(db, storage, new Date(start + 8 * day))).tier, 'weekly');
+
+      const pruned = await pruneBackups(storage, { daily: 1, weekly: 1 });
+      assert.deepStrictEqual(pruned.sort(), [first.key, second.key].sort());
+      const backups = await listBackups(storage);
+      assert.strictEqual(backups.length, 2);
+      assert.ok(backups.every((backup) => backup.status === 'verified' && backup.schemaVersion! > 0));
+
+      const restorePoint = await findBackupAt(new Date(start + 3 * day), storage);
+      assert.strictEqual(restorePoint!.createdAt, new Date(start + 2 * day).toISOString());
+
+      // Writes after the backup are discarded, the replaced database is kept
+      await db.run("INSERT INTO items (id) VALUES ('c')");
+      await db.close();
+      const previous = await restoreBackup(restorePoint!.key, path, storage);
+      assert.ok(previous && existsSync(previous));
+      assert.strictEqual(existsSync(`${path}-journal`), false);
+      const restored = await createSqliteDriver({ path, snapshotInterval: 60_000 });
+      const rows = await restored.query('SELECT id FROM items ORDER BY id');
+      assert.deepStrictEqual(rows.map((row) => row['id']), ['a', 'b']);
+      await restored.close();
+    });
+
+    it('should reject files that are not intact databases', async () => {
+      await assert.rejects(verifyBackup(Buffer.from('not a database, just some text')));
+    });
+
+    it('GET/POST /admin/backups - should list backups and let super admins take one', { skip: config.database.type !== 'sqlite' }, async () => {
+      const admin = await registerAndGetToken('backupadmin');
+      await getDb().run("UPDATE users SET role = 'ADMIN' WHERE id = ?", [admin.userId]);
+      let res = await request('POST', '/api/v1/admin/backups', {}, admin.token);
+      assert.strictEqual(res.status, 403);
+
+      const superAdmin = await registerAndGetToken('backupsuper');
+      await getDb().run("UPDATE users SET role = 'SUPER_ADMIN' WHERE id = ?", [superAdmin.userId]);
+      res = await request('POST', '/api/v1/admin/backups', {}, superAdmin.token);
+      assert.strictEqual(res.status, 201);
+      const key = (res.body.data as Record<string, unknown>)['key'];
+
+      res = await request('GET', '/api/v1/admin/backups', undefined, admin.token);
+      assert.strictEqual(res.status, 200);
+      const data = res.body.data as Record<string, unknown>;
+      const backups = data['backups'] as Record<string, unknown>[];
+      assert.ok(backups.some((backup) => backup['key'] === key && backup['status'] === 'verified'));
+      assert.strictEqual((data['status'] as Record<string, unknown>)['lastBackupKey'], key);
+
+      res = await request('GET', '/health/detailed');
+      const checks = (res.body.data as Record<string, unknown>)['checks'] as Record<string, Record<string, unknown>>;
+      assert.strictEqual(checks['backups']!['status'], 'healthy');
+    });
+    it('POST /admin/backups - should refuse to back up PostgreSQL', { skip: config.database.type !== 'postgres' }, async () => {
+      const { token, userId } = await registerAndGetToken('pgbackup');
+      await getDb().run("UPDATE users SET role = 'SUPER_ADMIN' WHERE id = ?", [userId]);
+      const res = await request('POST', '/api/v1/admin/backups', {}, token);
+      assert.strictEqual(res.status, 501);
+      assert.strictEqual(res.body.error?.code, 'BACKUP_NOT_SUPPORTED');
+    });
+  });
+
+  describe('Transactions', () => {
+    it('withTransaction - should roll back every write when the callback throws', async () => {
+      const { userId } = await registerAndGetToken('txrollback');
+      await assert.rejects(
+        withTransaction(async (tx) => {
+          await tx.run('UPDATE users SET name = ? WHERE id = ?', ['Renamed', userId]);
+          throw new Error('abort');
+        }),
+        /abort/
+      );
+      const [row] = await getDb().query('SELECT name FROM users WHERE id = ?', [userId]);
+      assert.strictEqual(row!['name'], 'Test User');
+    });
+  });
+
+  describe('PostgreSQL driver', () => {
+    it('should translate SQLite statements', () => {
+      assert.strictEqual(
+        toPostgresSql("SELECT * FROM pets WHERE owner_id = ? AND name = '?' AND id = ? -- id?"),
+        "SELECT * FROM pets WHERE owner_id = $1 AND name = '?' AND id = $2 -- id?"
+      );
+      assert.strictEqual(
+        toPostgresSql('INSERT OR IGNORE INTO pet_members (id, pet_id) VALUES (?, ?)'),
+        'INSERT INTO pet_members (id, pet_id) VALUES ($1, $2) ON CONFLICT DO NOTHING'
+      );
+      assert.strictEqual(toPostgresSql('weight REAL'), 'weight DOUBLE PRECISION');
+      assert.match(
+        toPostgresSql("created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))"),
+        /DEFAULT \(to_char\(now\(\) AT TIME ZONE 'UTC'/
+      );
+    });
+  });
+
   // ═══════════════════════════════════════════════════════════════
   // PUBLIC & EXPORT ENDPOINTS
   // ═══════════════════════════════════════════════════════════════
@@ -404,6 +2249,9 @@ describe('API', () => {
       assert.strictEqual(res.status, 200);
       const data = res.body.data as Record<string, unknown>;
       assert.strictEqual(data?.['petportId'], petportId);
+      const compliance = data?.['compliance'] as Record<string, unknown>;
+      assert.strictEqual(compliance?.['isCompliant'], false);
+      assert.strictEqual((compliance?.['requirements'] as unknown[]).length, 3);
     });
 
     it('GET /auth/export - should export all user data', async () => {
@@ -2,20 +2,15 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
-import { existsSync, mkdirSync } from 'fs';
 import { API_PREFIX } from '@petport/shared';
 import { config } from './config/index.js';
-import { requestLogger, errorHandler, notFoundHandler, standardLimiter } from './middleware/index.js';
-import { healthRoutes, authRoutes, petRoutes, publicRoutes, adminRoutes } from './routes/index.js';
+import { requestLogger, errorHandler, notFoundHandler, standardLimiter, csrfProtection } from './middleware/index.js';
+import { healthRoutes, authRoutes, petRoutes, publicRoutes, adminRoutes, vetRoutes } from './routes/index.js';
+import { servePhotos } from './services/photoService.js';
 
 export function createApp(): express.Application {
   const app = express();
 
-  // Ensure upload directory exists
-  if (!existsSync(config.uploadDir)) {
-    mkdirSync(config.uploadDir, { recursive: true });
-  }
-
   // Security
   app.use(helmet({
     crossOriginResourcePolicy: { policy: 'cross-origin' },
@@ -32,11 +27,8 @@ export function createApp(): express.Application {
   app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true }));
 
-  // Static files - serve uploads
-  app.use('/uploads', express.static(config.uploadDir, {
-    maxAge: '1d',
-    etag: true,
-  }));
+  // Uploaded photos - from disk or object storage
+  app.use('/uploads', servePhotos);
 
   // Logging
   app.use(requestLogger);
@@ -44,6 +36,9 @@ export function createApp(): express.Application {
   // Rate limiting
   app.use(standardLimiter);
 
+  // Double-submit CSRF check for cookie sessions
+  app.use(csrfProtection);
+
   // Health routes (no prefix)
   app.use('/', healthRoutes);
 
@@ -54,6 +49,7 @@ export function createApp(): express.Application {
   app.use(`${API_PREFIX}/auth`, authRoutes);
   app.use(`${API_PREFIX}/pets`, petRoutes);
   app.use(`${API_PREFIX}/admin`, adminRoutes);
+  app.use(`${API_PREFIX}/vets`, vetRoutes);
 
   // Error handling
   app.use(notFoundHandler);
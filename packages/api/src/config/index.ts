@@ -12,6 +12,8 @@ export interface DatabaseConfig {
   ssl?: boolean;
   poolMin?: number;
   poolMax?: number;
+  // SQLite settings - milliseconds between snapshots of the database file
+  snapshotInterval?: number;
 }
 
 export interface RedisConfig {
@@ -23,20 +25,80 @@ export interface RedisConfig {
   tls?: boolean;
 }
 
+export interface S3Config {
+  bucket: string;
+  region: string;
+  // Set for S3-compatible services (MinIO, R2, ...)
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+}
+
+export interface StorageConfig {
+  driver: 'local' | 's3';
+  // Lifetime of signed document links, in seconds
+  signedUrlTtl: number;
+  s3?: S3Config;
+}
+
+export interface SessionCookieConfig {
+  // Secure cookies are only sent over HTTPS
+  secure: boolean;
+  // The web app must be served from the same site as the API: it reads the
+  // CSRF cookie, which it cannot do for another site's cookies
+  sameSite: 'strict' | 'lax';
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // TLS from the start (port 465); otherwise STARTTLS when offered
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export interface EmailConfig {
+  // smtp sends mail; file and memory capture it for development and tests
+  transport: 'smtp' | 'file' | 'memory';
+  from: string;
+  smtp?: SmtpConfig;
+}
+
+export interface BackupConfig {
+  // Scheduled backups of the SQLite database (ignored for PostgreSQL)
+  enabled: boolean;
+  intervalHours: number;
+  // How many daily and weekly backups to keep
+  keepDaily: number;
+  keepWeekly: number;
+}
+
 export interface Config {
   env: string;
   port: number;
   host: string;
   jwtSecret: string;
+  // Lifetime of access tokens - keep short, clients renew them with refresh tokens
   jwtExpiry: string;
+  refreshTokenTtlDays: number;
   bcryptRounds: number;
   uploadDir: string;
   dataDir: string;
   maxFileSize: number;
   publicUrl: string;
+  // Where the web app is served - links in emails point here
+  appUrl: string;
+  // Ed25519 private key (PKCS#8 PEM) used to sign QR tags
+  qrSigningKey: string | undefined;
   corsOrigins: string[];
   database: DatabaseConfig;
   redis: RedisConfig;
+  storage: StorageConfig;
+  sessionCookie: SessionCookieConfig;
+  email: EmailConfig;
+  backup: BackupConfig;
 }
 
 function getEnv(key: string, defaultValue?: string): string {
@@ -69,12 +131,22 @@ export const config: Config = {
     }
     return secret || randomBytes(32).toString('hex');
   })(),
-  jwtExpiry: getEnv('JWT_EXPIRY', '7d'),
+  jwtExpiry: getEnv('JWT_EXPIRY', '15m'),
+  refreshTokenTtlDays: getEnvNumber('REFRESH_TOKEN_TTL_DAYS', 30),
   bcryptRounds: getEnvNumber('BCRYPT_ROUNDS', 12),
   uploadDir: getEnv('UPLOAD_DIR', './uploads'),
   dataDir: getEnv('DATA_DIR', './data'),
   maxFileSize: getEnvNumber('MAX_FILE_SIZE', 10 * 1024 * 1024),
   publicUrl: getEnv('PUBLIC_URL', 'http://localhost:3001'),
+  appUrl: getEnv('APP_URL', process.env['CORS_ORIGINS']?.split(',')[0]?.trim() || 'http://localhost:3000'),
+  // QR_SIGNING_KEY required in production so printed tags stay verifiable across deploys
+  qrSigningKey: (() => {
+    const key = process.env['QR_SIGNING_KEY'];
+    if (!key && getEnv('NODE_ENV', 'development') === 'production') {
+      throw new Error('FATAL: QR_SIGNING_KEY environment variable is required in production');
+    }
+    return key?.replace(/\\n/g, '\n');
+  })(),
   // CORS: No wildcard default - explicit origins required for non-dev environments
   corsOrigins: (() => {
     const origins = process.env['CORS_ORIGINS'];
@@ -90,7 +162,14 @@ export const config: Config = {
   // Database configuration
   database: (() => {
     const dbUrl = process.env['DATABASE_URL'];
-    if (dbUrl) {
+    const type = getEnv('DATABASE_TYPE', dbUrl ? 'postgres' : 'sqlite');
+    if (type !== 'sqlite' && type !== 'postgres') {
+      throw new Error(`Invalid DATABASE_TYPE: ${type} (expected sqlite or postgres)`);
+    }
+    if (type === 'postgres') {
+      if (!dbUrl) {
+        throw new Error('DATABASE_TYPE=postgres requires DATABASE_URL');
+      }
       return {
         type: 'postgres' as const,
         url: dbUrl,
@@ -102,6 +181,7 @@ export const config: Config = {
     // Fall back to SQLite for development/testing
     return {
       type: 'sqlite' as const,
+      snapshotInterval: getEnvNumber('SQLITE_SNAPSHOT_INTERVAL', 5000),
     };
   })(),
   // Redis configuration
@@ -120,6 +200,74 @@ export const config: Config = {
     }
     return { enabled: false };
   })(),
+  // Upload storage - local disk unless an S3 bucket is configured
+  storage: (() => {
+    const driver = getEnv('STORAGE_DRIVER', 'local');
+    const signedUrlTtl = getEnvNumber('SIGNED_URL_TTL', 300);
+    if (driver === 'local') {
+      return { driver: 'local' as const, signedUrlTtl };
+    }
+    if (driver !== 's3') {
+      throw new Error(`Invalid STORAGE_DRIVER: ${driver} (expected local or s3)`);
+    }
+    return {
+      driver: 's3' as const,
+      signedUrlTtl,
+      s3: {
+        bucket: getEnv('S3_BUCKET'),
+        region: getEnv('S3_REGION', 'us-east-1'),
+        endpoint: process.env['S3_ENDPOINT'],
+        accessKeyId: process.env['S3_ACCESS_KEY_ID'],
+        secretAccessKey: process.env['S3_SECRET_ACCESS_KEY'],
+        forcePathStyle: process.env['S3_FORCE_PATH_STYLE'] === 'true',
+      },
+    };
+  })(),
+  // Cookie sessions for the web app (see middleware/session.ts)
+  sessionCookie: (() => {
+    const sameSite = getEnv('COOKIE_SAMESITE', 'strict');
+    if (sameSite !== 'strict' && sameSite !== 'lax') {
+      throw new Error(`Invalid COOKIE_SAMESITE: ${sameSite} (expected strict or lax)`);
+    }
+    const secure = getEnv('COOKIE_SECURE', String(getEnv('NODE_ENV', 'development') === 'production')) === 'true';
+    return { secure, sameSite };
+  })(),
+  // Outbound email - SMTP when SMTP_HOST is set, otherwise captured to
+  // DATA_DIR/mail (in memory for tests)
+  email: (() => {
+    const env = getEnv('NODE_ENV', 'development');
+    const smtpHost = process.env['SMTP_HOST'];
+    const transport = getEnv('EMAIL_TRANSPORT', smtpHost ? 'smtp' : env === 'test' ? 'memory' : 'file');
+    if (transport !== 'smtp' && transport !== 'file' && transport !== 'memory') {
+      throw new Error(`Invalid EMAIL_TRANSPORT: ${transport} (expected smtp, file or memory)`);
+    }
+    const from = getEnv('EMAIL_FROM', 'PetPort <no-reply@petport.app>');
+    if (transport !== 'smtp') {
+      return { transport, from };
+    }
+    if (!smtpHost) {
+      throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_HOST');
+    }
+    const port = getEnvNumber('SMTP_PORT', 587);
+    return {
+      transport,
+      from,
+      smtp: {
+        host: smtpHost,
+        port,
+        secure: getEnv('SMTP_SECURE', String(port === 465)) === 'true',
+        user: process.env['SMTP_USER'],
+        password: process.env['SMTP_PASSWORD'],
+      },
+    };
+  })(),
+  // Database backups, written to the configured storage
+  backup: {
+    enabled: getEnv('BACKUP_ENABLED', 'true') !== 'false',
+    intervalHours: getEnvNumber('BACKUP_INTERVAL_HOURS', 24),
+    keepDaily: getEnvNumber('BACKUP_KEEP_DAILY', 7),
+    keepWeekly: getEnvNumber('BACKUP_KEEP_WEEKLY', 4),
+  },
 };
 
 export function isDev(): boolean {
@@ -1,20 +1,31 @@
 import { createApp } from './app.js';
-import { config } from './config/index.js';
+import { config, isProd } from './config/index.js';
 import { logger } from './config/logger.js';
-import { initDatabase, closeDatabase, startAutoSave, stopAutoSave } from './services/sqlite.js';
+import { initDatabase, closeDatabase } from './services/db.js';
 import { initRedis, closeRedis, startMemoryCleanup, stopMemoryCleanup } from './services/redis.js';
 import { seedSuperAdmin } from './services/seedSuperAdmin.js';
+import { startBackupSchedule, stopBackupSchedule } from './services/backupService.js';
+import { startReminderSchedule, stopReminderSchedule } from './services/vaccinationReminders.js';
 
 async function main(): Promise<void> {
   try {
     // Initialize database
     await initDatabase();
-    startAutoSave();
     logger.info({ msg: 'Database ready', type: config.database.type });
 
     // Seed super admin user if configured
     await seedSuperAdmin();
 
+    await startBackupSchedule();
+    startReminderSchedule();
+
+    if (isProd() && config.email.transport !== 'smtp') {
+      logger.warn({
+        msg: 'Outbound email is not delivered - set SMTP_HOST to send password resets and reminders',
+        transport: config.email.transport,
+      });
+    }
+
     // Initialize Redis (optional - will fall back to memory if not available)
     await initRedis();
     startMemoryCleanup();
@@ -36,10 +47,11 @@ async function main(): Promise<void> {
     // Graceful shutdown
     const shutdown = async (signal: string) => {
       logger.info(`Received ${signal}, shutting down gracefully...`);
-      stopAutoSave();
       stopMemoryCleanup();
+      stopBackupSchedule();
+      stopReminderSchedule();
       server.close(async () => {
-        closeDatabase();
+        await closeDatabase();
         await closeRedis();
         logger.info('Server closed');
         process.exit(0);
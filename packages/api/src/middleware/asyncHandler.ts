@@ -0,0 +1,11 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+type AsyncHandler = (req: Request, res: Response, next: NextFunction) => Promise<void>;
+
+/**
+ * Wrap an async route handler so a rejected promise reaches the error
+ * handler instead of going unhandled
+ */
+export const asyncHandler = (fn: AsyncHandler): RequestHandler => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch(next);
+};
@@ -3,12 +3,18 @@ import jwt from 'jsonwebtoken';
 import { AuthenticationError, UserRole } from '@petport/shared';
 import { config } from '../config/index.js';
 import { userStore } from '../services/database.js';
-import { isTokenBlacklisted, isTokenBlacklistedSync } from '../services/tokenBlacklist.js';
+import { isTokenBlacklisted, isUserTokenBlacklisted } from '../services/tokenBlacklist.js';
+import { checkSession } from '../services/sessions.js';
+import { ACCESS_COOKIE, readCookie } from './session.js';
 
 export interface JwtPayload {
   userId: string;
   email: string;
   role: UserRole;
+  // Session id - see services/sessions.ts
+  sid: string;
+  // Issue time in ms - iat is whole seconds. Missing from older tokens.
+  iatMs?: number;
   iat: number;
   exp: number;
 }
@@ -16,22 +22,34 @@ export interface JwtPayload {
 declare global {
   namespace Express {
     interface Request {
-      user?: { id: string; email: string; name: string; role: UserRole };
+      user?: { id: string; email: string; name: string; role: UserRole; isVerified: boolean };
       token?: string;
       tokenExp?: number; // Token expiry timestamp
+      sessionId?: string;
     }
   }
 }
 
+function getIssuedAt(payload: JwtPayload): number {
+  return payload.iatMs ?? payload.iat * 1000;
+}
+
+// Bearer header first, then the cookie set for cookie sessions
+function getRequestToken(req: Request): string | undefined {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.slice(7);
+  }
+  return readCookie(req, ACCESS_COOKIE);
+}
+
 export async function authenticate(req: Request, _res: Response, next: NextFunction): Promise<void> {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader?.startsWith('Bearer ')) {
+    const token = getRequestToken(req);
+    if (!token) {
       throw new AuthenticationError('Missing or invalid authorization header');
     }
 
-    const token = authHeader.slice(7);
-
     // Check if token has been revoked (logout) - async for Redis support
     const blacklisted = await isTokenBlacklisted(token);
     if (blacklisted) {
@@ -39,17 +57,28 @@ export async function authenticate(req: Request, _res: Response, next: NextFunct
     }
 
     const payload = jwt.verify(token, config.jwtSecret) as JwtPayload;
-    const user = userStore.get(payload.userId);
+    // Issued before a password reset
+    if (await isUserTokenBlacklisted(payload.userId, getIssuedAt(payload))) {
+      throw new AuthenticationError('Token has been revoked');
+    }
+
+    const user = await userStore.get(payload.userId);
 
     if (!user) {
       throw new AuthenticationError('User not found');
     }
 
+    // Signed out from another device, or issued before sessions existed
+    if (!payload.sid || !(await checkSession(payload.sid, user.id, req.ip ?? null))) {
+      throw new AuthenticationError('Session has been revoked');
+    }
+
     // IMPORTANT: Always use role from database, not JWT (security measure)
     // This ensures role changes take effect immediately
-    req.user = { id: user.id, email: user.email, name: user.name, role: user.role };
+    req.user = { id: user.id, email: user.email, name: user.name, role: user.role, isVerified: user.isVerified };
     req.token = token;
     req.tokenExp = payload.exp * 1000; // Convert to milliseconds
+    req.sessionId = payload.sid;
     next();
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
@@ -63,13 +92,12 @@ export async function authenticate(req: Request, _res: Response, next: NextFunct
 }
 
 export async function optionalAuth(req: Request, _res: Response, next: NextFunction): Promise<void> {
-  const authHeader = req.headers.authorization;
-  if (!authHeader?.startsWith('Bearer ')) {
+  const token = getRequestToken(req);
+  if (!token) {
     return next();
   }
 
   try {
-    const token = authHeader.slice(7);
 
     // Check blacklist for optional auth too
     const blacklisted = await isTokenBlacklisted(token);
@@ -78,11 +106,15 @@ export async function optionalAuth(req: Request, _res: Response, next: NextFunct
     }
 
     const payload = jwt.verify(token, config.jwtSecret) as JwtPayload;
-    const user = userStore.get(payload.userId);
-    if (user) {
-      req.user = { id: user.id, email: user.email, name: user.name, role: user.role };
+    if (await isUserTokenBlacklisted(payload.userId, getIssuedAt(payload))) {
+      return next();
+    }
+    const user = await userStore.get(payload.userId);
+    if (user && payload.sid && (await checkSession(payload.sid, user.id, req.ip ?? null))) {
+      req.user = { id: user.id, email: user.email, name: user.name, role: user.role, isVerified: user.isVerified };
       req.token = token;
       req.tokenExp = payload.exp * 1000;
+      req.sessionId = payload.sid;
     }
   } catch {
     // Ignore token errors for optional auth
@@ -90,49 +122,17 @@ export async function optionalAuth(req: Request, _res: Response, next: NextFunct
   next();
 }
 
-/**
- * Sync version of authenticate for middleware chains that don't support async.
- * Uses memory-only blacklist check.
- */
-export function authenticateSync(req: Request, _res: Response, next: NextFunction): void {
-  try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader?.startsWith('Bearer ')) {
-      throw new AuthenticationError('Missing or invalid authorization header');
-    }
-
-    const token = authHeader.slice(7);
-
-    // Use sync check (memory only)
-    if (isTokenBlacklistedSync(token)) {
-      throw new AuthenticationError('Token has been revoked');
-    }
-
-    const payload = jwt.verify(token, config.jwtSecret) as JwtPayload;
-    const user = userStore.get(payload.userId);
-
-    if (!user) {
-      throw new AuthenticationError('User not found');
-    }
-
-    req.user = { id: user.id, email: user.email, name: user.name, role: user.role };
-    req.token = token;
-    req.tokenExp = payload.exp * 1000;
-    next();
-  } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      next(new AuthenticationError('Invalid token'));
-    } else if (error instanceof jwt.TokenExpiredError) {
-      next(new AuthenticationError('Token expired'));
-    } else {
-      next(error);
-    }
-  }
-}
-
-export function generateToken(userId: string, email: string, role: UserRole = 'USER'): string {
-  // expiresIn accepts string like '7d' or number in seconds
-  return jwt.sign({ userId, email, role }, config.jwtSecret, {
+export function generateToken(userId: string, email: string, role: UserRole, sessionId: string): string {
+  // expiresIn accepts string like '15m' or number in seconds
+  return jwt.sign({ userId, email, role, sid: sessionId, iatMs: Date.now() }, config.jwtSecret, {
     expiresIn: config.jwtExpiry,
   } as jwt.SignOptions);
 }
+
+/**
+ * Seconds until an access token issued by generateToken expires
+ */
+export function getTokenLifetime(token: string): number {
+  const payload = jwt.decode(token) as JwtPayload;
+  return payload.exp - payload.iat;
+}
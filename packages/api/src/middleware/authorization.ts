@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { UserRole, ROLE_HIERARCHY, AuthorizationError } from '@petport/shared';
+import { UserRole, ROLE_HIERARCHY, AppError, AuthorizationError } from '@petport/shared';
 import { createAuditLog } from '../services/database.js';
 
 /**
@@ -44,6 +44,28 @@ export const requireAdmin = requireRole('ADMIN');
  */
 export const requireSuperAdmin = requireRole('SUPER_ADMIN');
 
+/**
+ * Require a VET account. Vets are a separate capability rather than a rung on
+ * the admin ladder, so admins do not inherit it.
+ */
+export function requireVet(req: Request, _res: Response, next: NextFunction): void {
+  if (req.user?.role !== 'VET') {
+    return next(new AuthorizationError('Only veterinarian accounts can perform this action'));
+  }
+  next();
+}
+
+/**
+ * Require a verified email address, for actions that hand a pet or its
+ * records to someone else
+ */
+export function requireVerifiedEmail(req: Request, _res: Response, next: NextFunction): void {
+  if (!req.user?.isVerified) {
+    return next(new AppError('EMAIL_NOT_VERIFIED', 'Verify your email address to do this', 403));
+  }
+  next();
+}
+
 /**
  * Audit logging middleware for admin actions
  * Use after authentication and authorization middleware
@@ -58,24 +80,22 @@ export function auditLog(action: string, targetType: string) {
       if (res.statusCode >= 200 && res.statusCode < 300 && req.user) {
         // Fire and forget - don't block the response
         setImmediate(() => {
-          try {
-            createAuditLog({
-              adminUserId: req.user!.id,
-              action,
-              targetType,
-              targetId: req.params.id || req.params.userId || null,
-              details: JSON.stringify({
-                method: req.method,
-                path: req.path,
-                body: req.body,
-              }),
-              ipAddress: req.ip || req.socket.remoteAddress || null,
-              userAgent: req.headers['user-agent'] || null,
-            });
-          } catch (error) {
+          createAuditLog({
+            adminUserId: req.user!.id,
+            action,
+            targetType,
+            targetId: req.params.id || req.params.userId || req.params.slug || null,
+            details: JSON.stringify({
+              method: req.method,
+              path: req.path,
+              body: req.body,
+            }),
+            ipAddress: req.ip || req.socket.remoteAddress || null,
+            userAgent: req.headers['user-agent'] || null,
+          }).catch((error) => {
             // Don't fail the request if audit logging fails
             console.error('Audit logging failed:', error);
-          }
+          });
         });
       }
       return originalJson(body);
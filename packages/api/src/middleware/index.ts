@@ -2,5 +2,7 @@ export * from './auth.js';
 export * from './authorization.js';
 export * from './errorHandler.js';
 export * from './validation.js';
+export * from './asyncHandler.js';
 export * from './rateLimiter.js';
 export * from './requestLogger.js';
+export * from './session.js';
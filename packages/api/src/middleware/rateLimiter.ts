@@ -101,3 +101,13 @@ export const uploadLimiter = isTest
       max: RATE_LIMITS.UPLOAD.max,
       message: 'Too many uploads, please try again later',
     });
+
+// Finder contact relay on public profiles - strict per-IP limit to stop spam
+export const finderContactLimiter = isTest
+  ? skipMiddleware
+  : createRateLimiter({
+      prefix: 'finder-contact',
+      windowMs: RATE_LIMITS.FINDER_CONTACT.windowMs,
+      max: RATE_LIMITS.FINDER_CONTACT.max,
+      message: 'Too many messages sent, please try again later',
+    });
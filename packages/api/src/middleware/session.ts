@@ -0,0 +1,108 @@
+/**
+ * Cookie sessions for the web app.
+ *
+ * Clients that send `X-Session-Mode: cookie` when logging in receive their
+ * tokens as HttpOnly cookies instead of in the response body, so scripts
+ * on the page can never read them. Bearer tokens keep working for other
+ * clients.
+ *
+ * Because browsers attach cookies to cross-site requests, state-changing
+ * requests carrying a session cookie must also repeat the value of the
+ * readable `petport_csrf` cookie in an `X-CSRF-Token` header (double
+ * submit). Another site can make the browser send the cookie but cannot
+ * read it to set the header.
+ *
+ * @module session
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction, CookieOptions } from 'express';
+import { API_PREFIX, AppError, AuthTokens } from '@petport/shared';
+import { config } from '../config/index.js';
+
+export const ACCESS_COOKIE = 'petport_access';
+export const REFRESH_COOKIE = 'petport_refresh';
+export const CSRF_COOKIE = 'petport_csrf';
+export const CSRF_HEADER = 'X-CSRF-Token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+// The refresh token is only needed by /auth/refresh and /auth/logout
+const REFRESH_COOKIE_PATH = `${API_PREFIX}/auth`;
+
+function cookieOptions(maxAge: number, path: string = '/'): CookieOptions {
+  return {
+    httpOnly: true,
+    secure: config.sessionCookie.secure,
+    sameSite: config.sessionCookie.sameSite,
+    maxAge,
+    path,
+  };
+}
+
+/**
+ * Read a cookie from the request. Returns undefined if it is not set.
+ */
+export function readCookie(req: Request, name: string): string | undefined {
+  for (const pair of req.headers.cookie?.split(';') ?? []) {
+    const index = pair.indexOf('=');
+    if (index > 0 && pair.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(index + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether the client asked for a cookie session instead of bearer tokens
+ */
+export function wantsCookieSession(req: Request): boolean {
+  return req.get('X-Session-Mode') === 'cookie';
+}
+
+/**
+ * Set the session cookies, with a new CSRF token alongside them
+ */
+export function setSessionCookies(res: Response, tokens: AuthTokens): void {
+  const sessionMaxAge = config.refreshTokenTtlDays * 24 * 60 * 60 * 1000;
+  res.cookie(ACCESS_COOKIE, tokens.accessToken, cookieOptions(tokens.expiresIn * 1000));
+  if (tokens.refreshToken) {
+    res.cookie(REFRESH_COOKIE, tokens.refreshToken, cookieOptions(sessionMaxAge, REFRESH_COOKIE_PATH));
+  }
+  // Readable by the page, which copies it into the CSRF header
+  res.cookie(CSRF_COOKIE, randomBytes(32).toString('base64url'), {
+    ...cookieOptions(sessionMaxAge),
+    httpOnly: false,
+  });
+}
+
+export function clearSessionCookies(res: Response): void {
+  const { maxAge: _, ...options } = cookieOptions(0);
+  res.clearCookie(ACCESS_COOKIE, options);
+  res.clearCookie(REFRESH_COOKIE, { ...options, path: REFRESH_COOKIE_PATH });
+  res.clearCookie(CSRF_COOKIE, { ...options, httpOnly: false });
+}
+
+/**
+ * Reject state-changing requests that carry a session cookie without a
+ * matching CSRF header. Requests authenticated with a bearer token are
+ * not affected - browsers never attach those on their own.
+ */
+export function csrfProtection(req: Request, _res: Response, next: NextFunction): void {
+  if (SAFE_METHODS.includes(req.method) || req.headers.authorization?.startsWith('Bearer ')) {
+    return next();
+  }
+  if (!readCookie(req, ACCESS_COOKIE) && !readCookie(req, REFRESH_COOKIE)) {
+    return next();
+  }
+
+  const expected = Buffer.from(readCookie(req, CSRF_COOKIE) ?? '');
+  const actual = Buffer.from(req.get(CSRF_HEADER) ?? '');
+  if (expected.length === 0 || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return next(new AppError('CSRF_ERROR', 'Missing or invalid CSRF token', 403));
+  }
+  next();
+}
@@ -41,3 +41,23 @@ export const idParamSchema = z.object({
 export const petIdParamSchema = z.object({
   petId: z.string().min(1),
 });
+
+export const vaccinationIdParamSchema = petIdParamSchema.extend({
+  vaccinationId: z.string().min(1),
+});
+
+export const healthRecordIdParamSchema = petIdParamSchema.extend({
+  recordId: z.string().min(1),
+});
+
+export const shareIdParamSchema = petIdParamSchema.extend({
+  shareId: z.string().min(1),
+});
+
+export const memberIdParamSchema = petIdParamSchema.extend({
+  memberId: z.string().min(1),
+});
+
+export const photoIdParamSchema = petIdParamSchema.extend({
+  photoId: z.string().min(1),
+});
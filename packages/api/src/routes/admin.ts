@@ -1,32 +1,45 @@
-import { Router, Request, Response, NextFunction, RequestHandler } from 'express';
+import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { ApiResponse, User, UserRole, NotFoundError, ValidationError } from '@petport/shared';
-import { validate } from '../middleware/validation.js';
+import {
+  ApiResponse,
+  AppError,
+  User,
+  UserRole,
+  ComplianceProfile,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  SPECIES,
+  VACCINATION_TYPES,
+} from '@petport/shared';
+import { validate, paginationSchema } from '../middleware/validation.js';
 import { authenticate } from '../middleware/auth.js';
 import { requireAdmin, requireSuperAdmin, auditLog } from '../middleware/authorization.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
 import {
   userStore,
-  getAllUsers,
-  getUsersByRole,
+  listUsers,
+  countUsersByRole,
   updateUserRole,
   getAuditLogs,
   getStats,
   getSecurityMetrics,
   getSecurityMetricsCounts,
+  getComplianceProfiles,
+  getComplianceProfileBySlug,
+  createComplianceProfile,
+  updateComplianceProfile,
   StoredUser,
 } from '../services/database.js';
+import { BackupInfo, BackupStatus, getBackupStatus, isBackupSupported, listBackups, runBackup } from '../services/backupService.js';
+import { EmailMessage, getEmailTransport, isCapturingEmail, listCapturedEmails } from '../services/emailService.js';
+import { ReminderRun, sendVaccinationReminders } from '../services/vaccinationReminders.js';
 
 const router = Router();
 
 // All admin routes require authentication
 router.use(authenticate);
 
-// Wrap async handlers to properly forward errors
-type AsyncHandler = (req: Request, res: Response, next: NextFunction) => Promise<void>;
-const asyncHandler = (fn: AsyncHandler): RequestHandler => (req, res, next) => {
-  Promise.resolve(fn(req, res, next)).catch(next);
-};
-
 // Helper to sanitize user (remove passwordHash)
 function sanitizeUser(user: StoredUser): User {
   const { passwordHash: _, ...safe } = user;
@@ -37,38 +50,43 @@ function sanitizeUser(user: StoredUser): User {
 // USER MANAGEMENT ROUTES
 // =====================================================
 
-// GET /admin/users - List all users (ADMIN+)
+// GET /admin/users - List users, optionally by role (ADMIN+)
+const listUsersQuerySchema = paginationSchema.extend({
+  role: z.enum(['USER', 'VET', 'ADMIN', 'SUPER_ADMIN']).optional(),
+});
+
 router.get(
   '/users',
   requireAdmin,
-  (_req: Request, res: Response<ApiResponse<{ users: User[]; total: number }>>) => {
-    const users = getAllUsers();
-    const sanitized = users.map(sanitizeUser);
+  validate(listUsersQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<{ users: User[]; total: number; page: number; limit: number }>>) => {
+    const { page, limit, role } = req.query as unknown as z.infer<typeof listUsersQuerySchema>;
+    const { users, total } = await listUsers({ role, limit, offset: (page - 1) * limit });
 
     res.json({
       success: true,
-      data: { users: sanitized, total: users.length },
+      data: { users: users.map(sanitizeUser), total, page, limit },
     });
-  }
+  })
 );
 
 // GET /admin/users/:userId - Get single user (ADMIN+)
 router.get(
   '/users/:userId',
   requireAdmin,
-  (req: Request, res: Response<ApiResponse<User>>) => {
-    const user = userStore.get(req.params.userId);
+  asyncHandler(async (req: Request, res: Response<ApiResponse<User>>) => {
+    const user = await userStore.get(req.params.userId);
     if (!user) {
       throw new NotFoundError('User', req.params.userId);
     }
 
     res.json({ success: true, data: sanitizeUser(user) });
-  }
+  })
 );
 
 // PATCH /admin/users/:userId/role - Update user role (SUPER_ADMIN only)
 const updateRoleSchema = z.object({
-  role: z.enum(['USER', 'ADMIN', 'SUPER_ADMIN']),
+  role: z.enum(['USER', 'VET', 'ADMIN', 'SUPER_ADMIN']),
 });
 
 router.patch(
@@ -76,11 +94,11 @@ router.patch(
   requireSuperAdmin,
   validate(updateRoleSchema),
   auditLog('UPDATE_USER_ROLE', 'user'),
-  (req: Request, res: Response<ApiResponse<User>>) => {
+  asyncHandler(async (req: Request, res: Response<ApiResponse<User>>) => {
     const { userId } = req.params;
     const { role } = req.body;
 
-    const user = userStore.get(userId);
+    const user = await userStore.get(userId);
     if (!user) {
       throw new NotFoundError('User', userId);
     }
@@ -90,16 +108,16 @@ router.patch(
       throw new ValidationError('Cannot change your own role');
     }
 
-    updateUserRole(userId, role as UserRole);
+    await updateUserRole(userId, role as UserRole);
 
     // Fetch updated user
-    const updated = userStore.get(userId);
+    const updated = await userStore.get(userId);
     if (!updated) {
       throw new NotFoundError('User', userId);
     }
 
     res.json({ success: true, data: sanitizeUser(updated) });
-  }
+  })
 );
 
 // =====================================================
@@ -110,21 +128,87 @@ router.patch(
 router.get(
   '/stats',
   requireAdmin,
-  (_req: Request, res: Response<ApiResponse>) => {
-    const users = getAllUsers();
-    const basicStats = getStats();
-
+  asyncHandler(async (_req: Request, res: Response<ApiResponse>) => {
     const stats = {
-      ...basicStats,
-      usersByRole: {
-        USER: users.filter((u) => u.role === 'USER').length,
-        ADMIN: users.filter((u) => u.role === 'ADMIN').length,
-        SUPER_ADMIN: users.filter((u) => u.role === 'SUPER_ADMIN').length,
-      },
+      ...(await getStats()),
+      usersByRole: await countUsersByRole(),
     };
 
     res.json({ success: true, data: stats });
-  }
+  })
+);
+
+// =====================================================
+// BACKUP ROUTES
+// =====================================================
+
+// GET /admin/backups - Stored database backups and the schedule status (ADMIN+)
+router.get(
+  '/backups',
+  requireAdmin,
+  asyncHandler(async (_req: Request, res: Response<ApiResponse<{ backups: BackupInfo[]; status: BackupStatus }>>) => {
+    const backups = await listBackups();
+    res.json({ success: true, data: { backups, status: getBackupStatus() } });
+  })
+);
+
+// POST /admin/backups - Take a backup now, e.g. before a migration (SUPER_ADMIN only)
+router.post(
+  '/backups',
+  requireSuperAdmin,
+  auditLog('CREATE_BACKUP', 'backup'),
+  asyncHandler(async (_req: Request, res: Response<ApiResponse<BackupInfo>>) => {
+    if (!isBackupSupported()) {
+      throw new AppError(
+        'BACKUP_NOT_SUPPORTED',
+        'Backups only cover SQLite - back PostgreSQL up with pg_dump or your provider\'s snapshots',
+        501
+      );
+    }
+    const backup = await runBackup();
+    if (!backup) {
+      throw new AppError('BACKUP_FAILED', getBackupStatus().lastError ?? 'Backup failed', 500);
+    }
+    res.status(201).json({ success: true, data: backup });
+  })
+);
+
+// =====================================================
+// OUTBOX ROUTES
+// =====================================================
+
+// GET /admin/emails - Emails captured by the file or memory transport, newest
+// first, so reset and verification links can be followed (ADMIN+, not in production)
+const outboxQuerySchema = paginationSchema.pick({ limit: true });
+
+router.get(
+  '/emails',
+  requireAdmin,
+  validate(outboxQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<{ emails: EmailMessage[]; transport: string }>>) => {
+    if (!isCapturingEmail()) {
+      throw new NotFoundError('Outbox');
+    }
+    const { limit } = req.query as unknown as z.infer<typeof outboxQuerySchema>;
+    const emails = await listCapturedEmails(limit);
+    res.json({ success: true, data: { emails, transport: getEmailTransport().type } });
+  })
+);
+
+// =====================================================
+// REMINDER ROUTES
+// =====================================================
+
+// POST /admin/reminders - Send the vaccination reminders due now instead of
+// waiting for the daily run (ADMIN+)
+router.post(
+  '/reminders',
+  requireAdmin,
+  auditLog('SEND_VACCINATION_REMINDERS', 'reminder'),
+  asyncHandler(async (_req: Request, res: Response<ApiResponse<ReminderRun>>) => {
+    const run = await sendVaccinationReminders();
+    res.json({ success: true, data: run });
+  })
 );
 
 // =====================================================
@@ -135,17 +219,101 @@ router.get(
 router.get(
   '/audit',
   requireSuperAdmin,
-  (req: Request, res: Response<ApiResponse>) => {
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
     const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
     const offset = parseInt(req.query.offset as string) || 0;
 
-    const logs = getAuditLogs(limit, offset);
+    const logs = await getAuditLogs(limit, offset);
 
     res.json({
       success: true,
       data: { logs, limit, offset, total: logs.length },
     });
-  }
+  })
+);
+
+// =====================================================
+// COMPLIANCE PROFILE ROUTES
+// =====================================================
+
+const complianceRequirementsSchema = z
+  .record(z.enum(SPECIES), z.array(z.enum(VACCINATION_TYPES)).max(VACCINATION_TYPES.length))
+  .refine((requirements) => Object.keys(requirements).length > 0, 'At least one species must have requirements');
+
+const createComplianceProfileSchema = z.object({
+  slug: z
+    .string()
+    .min(2)
+    .max(50)
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug must be lowercase letters, numbers and hyphens'),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional().nullable().default(null),
+  requirements: complianceRequirementsSchema,
+  minValidityDays: z.number().int().min(0).max(365).default(0),
+});
+
+const updateComplianceProfileSchema = createComplianceProfileSchema
+  .omit({ slug: true })
+  .partial()
+  .extend({ isActive: z.boolean().optional() });
+
+// GET /admin/compliance-profiles - List all profiles including inactive (ADMIN+)
+router.get(
+  '/compliance-profiles',
+  requireAdmin,
+  asyncHandler(async (_req: Request, res: Response<ApiResponse<{ profiles: ComplianceProfile[]; total: number }>>) => {
+    const profiles = await getComplianceProfiles(true);
+    res.json({ success: true, data: { profiles, total: profiles.length } });
+  })
+);
+
+// POST /admin/compliance-profiles - Create a facility profile (ADMIN+)
+router.post(
+  '/compliance-profiles',
+  requireAdmin,
+  validate(createComplianceProfileSchema),
+  auditLog('CREATE_COMPLIANCE_PROFILE', 'compliance_profile'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<ComplianceProfile>>) => {
+    const data = req.body as z.infer<typeof createComplianceProfileSchema>;
+
+    if (await getComplianceProfileBySlug(data.slug)) {
+      throw new ConflictError(`Compliance profile '${data.slug}' already exists`);
+    }
+
+    const profile = await createComplianceProfile(data);
+    res.status(201).json({ success: true, data: profile });
+  })
+);
+
+// PATCH /admin/compliance-profiles/:slug - Update a facility profile (ADMIN+)
+router.patch(
+  '/compliance-profiles/:slug',
+  requireAdmin,
+  validate(updateComplianceProfileSchema),
+  auditLog('UPDATE_COMPLIANCE_PROFILE', 'compliance_profile'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<ComplianceProfile>>) => {
+    const profile = await updateComplianceProfile(req.params['slug']!, req.body);
+    if (!profile) {
+      throw new NotFoundError('Compliance profile', req.params['slug']!);
+    }
+
+    res.json({ success: true, data: profile });
+  })
+);
+
+// DELETE /admin/compliance-profiles/:slug - Deactivate a facility profile (ADMIN+)
+router.delete(
+  '/compliance-profiles/:slug',
+  requireAdmin,
+  auditLog('DEACTIVATE_COMPLIANCE_PROFILE', 'compliance_profile'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<ComplianceProfile>>) => {
+    const profile = await updateComplianceProfile(req.params['slug']!, { isActive: false });
+    if (!profile) {
+      throw new NotFoundError('Compliance profile', req.params['slug']!);
+    }
+
+    res.json({ success: true, data: profile });
+  })
 );
 
 // =====================================================
@@ -171,8 +339,8 @@ const SECURITY_AUDIT = {
       name: 'Cryptographic Failures',
       status: 'pass' as const,
       description: 'Passwords properly hashed with bcrypt',
-      findings: ['bcrypt with configurable rounds', 'JWT tokens for authentication'],
-      recommendations: ['Consider adding token rotation'],
+      findings: ['bcrypt with configurable rounds', 'JWT tokens for authentication', 'Refresh tokens stored as sha256 hashes'],
+      recommendations: [],
     },
     {
       id: 'A03:2021',
@@ -185,10 +353,10 @@ const SECURITY_AUDIT = {
     {
       id: 'A04:2021',
       name: 'Insecure Design',
-      status: 'warning' as const,
-      description: 'Some security design patterns could be improved',
-      findings: ['Token stored in localStorage (XSS vulnerable)'],
-      recommendations: ['Consider httpOnly cookies for tokens', 'Add CSRF protection'],
+      status: 'pass' as const,
+      description: 'Session tokens kept out of reach of page scripts',
+      findings: ['Web sessions use HttpOnly SameSite cookies', 'Double-submit CSRF tokens on state-changing requests'],
+      recommendations: [],
     },
     {
       id: 'A05:2021',
@@ -211,8 +379,15 @@ const SECURITY_AUDIT = {
       name: 'Identification and Authentication Failures',
       status: 'partial' as const,
       description: 'JWT auth implemented with some gaps',
-      findings: ['JWT-based authentication', 'Token blacklisting for logout', 'localStorage token storage'],
-      recommendations: ['Add refresh token rotation', 'Move to httpOnly cookies'],
+      findings: [
+        'Short-lived JWT access tokens',
+        'Rotating refresh tokens with reuse detection',
+        'Token blacklisting for logout',
+        'Per-device session revocation',
+        'Email verification before sharing or transferring pets',
+        'HttpOnly cookie sessions for the web app',
+      ],
+      recommendations: ['Add multi-factor authentication'],
     },
     {
       id: 'A08:2021',
@@ -256,14 +431,14 @@ const SECURITY_AUDIT = {
   categories: [
     {
       name: 'Authentication',
-      score: 7,
+      score: 9,
       maxScore: 10,
-      status: 'warning' as const,
+      status: 'good' as const,
       items: [
-        { name: 'JWT Implementation', status: 'pass' as const, description: 'JWT tokens with expiry', severity: 'low' as const },
+        { name: 'JWT Implementation', status: 'pass' as const, description: 'Short-lived JWTs with rotating refresh tokens', severity: 'low' as const },
         { name: 'Password Hashing', status: 'pass' as const, description: 'bcrypt with proper rounds', severity: 'low' as const },
-        { name: 'Token Storage', status: 'warning' as const, description: 'localStorage is XSS vulnerable', severity: 'medium' as const },
-        { name: 'CSRF Protection', status: 'fail' as const, description: 'No CSRF tokens implemented', severity: 'high' as const },
+        { name: 'Token Storage', status: 'pass' as const, description: 'HttpOnly SameSite cookies', severity: 'low' as const },
+        { name: 'CSRF Protection', status: 'pass' as const, description: 'Double-submit token on state-changing requests', severity: 'low' as const },
       ],
     },
     {
@@ -309,14 +484,14 @@ router.get(
 router.get(
   '/security/metrics',
   requireAdmin,
-  (_req: Request, res: Response<ApiResponse>) => {
+  asyncHandler(async (_req: Request, res: Response<ApiResponse>) => {
     // Get counts for different time periods
-    const counts24h = getSecurityMetricsCounts(24);
-    const counts7d = getSecurityMetricsCounts(168); // 7 days
+    const counts24h = await getSecurityMetricsCounts(24);
+    const counts7d = await getSecurityMetricsCounts(168); // 7 days
 
     // Get recent events
-    const recentFailedLogins = getSecurityMetrics('FAILED_LOGIN', 10);
-    const suspiciousActivity = getSecurityMetrics('SUSPICIOUS_ACTIVITY', 10);
+    const recentFailedLogins = await getSecurityMetrics('FAILED_LOGIN', 10);
+    const suspiciousActivity = await getSecurityMetrics('SUSPICIOUS_ACTIVITY', 10);
 
     const metrics = {
       timestamp: new Date().toISOString(),
@@ -342,6 +517,12 @@ router.get(
         tokensIssued24h: counts24h['TOKEN_ISSUED'] || 0,
         tokensRevoked24h: counts24h['TOKEN_REVOKED'] || 0,
       },
+      passwordResets: {
+        requested24h: counts24h['PASSWORD_RESET_REQUESTED'] || 0,
+        completed24h: counts24h['PASSWORD_RESET_COMPLETED'] || 0,
+        failed24h: counts24h['PASSWORD_RESET_FAILED'] || 0,
+        throttled24h: counts24h['PASSWORD_RESET_THROTTLED'] || 0,
+      },
       suspiciousActivity: suspiciousActivity.map((m) => ({
         id: m.id,
         type: 'suspicious_activity',
@@ -361,7 +542,7 @@ router.get(
       success: true,
       data: metrics,
     });
-  }
+  })
 );
 
 export const adminRoutes = router;
@@ -1,30 +1,65 @@
-import { Router, Request, Response, NextFunction, RequestHandler } from 'express';
+import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
-import { ApiResponse, AuthResponse, User, AuthenticationError, ConflictError } from '@petport/shared';
-import { validate } from '../middleware/validation.js';
-import { authenticate, generateToken } from '../middleware/auth.js';
-import { authLimiter } from '../middleware/rateLimiter.js';
+import {
+  ApiResponse,
+  AuthResponse,
+  AuthTokens,
+  User,
+  UserSession,
+  AuthenticationError,
+  ConflictError,
+} from '@petport/shared';
+import { idParamSchema, validate } from '../middleware/validation.js';
+import { authenticate, generateToken, getTokenLifetime } from '../middleware/auth.js';
+import { authLimiter, standardLimiter } from '../middleware/rateLimiter.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import {
+  clearSessionCookies,
+  readCookie,
+  REFRESH_COOKIE,
+  setSessionCookies,
+  wantsCookieSession,
+} from '../middleware/session.js';
 import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
 import { blacklistToken } from '../services/tokenBlacklist.js';
-import { generateResetToken, consumeResetToken } from '../services/passwordReset.js';
+import { queuePasswordReset, resetPassword } from '../services/passwordReset.js';
+import { RequestContext, rotateRefreshToken } from '../services/refreshTokens.js';
+import { listSessions, revokeAllSessions, revokeSession, startSession } from '../services/sessions.js';
+import { resendVerificationEmail, sendVerificationEmail, verifyEmail } from '../services/emailVerification.js';
 import {
   createUser,
   getUserByEmail,
+  withTransaction,
   userStore,
-  updateUserPassword,
   getPetsByOwner,
   getHealthRecordsByPet,
   getVaccinationsByPet,
+  StoredUser,
 } from '../services/database.js';
 
 const router = Router();
 
-// Wrap async handlers to properly forward errors
-type AsyncHandler = (req: Request, res: Response, next: NextFunction) => Promise<void>;
-const asyncHandler = (fn: AsyncHandler): RequestHandler => (req, res, next) => {
-  Promise.resolve(fn(req, res, next)).catch(next);
-};
+function getRequestContext(req: Request): RequestContext {
+  return { ipAddress: req.ip ?? null, userAgent: req.get('user-agent') ?? null };
+}
+
+// A short-lived access token for the session plus its refresh token
+function issueTokens(user: StoredUser, sessionId: string, refreshToken: string): AuthTokens {
+  const accessToken = generateToken(user.id, user.email, user.role, sessionId);
+  return { accessToken, refreshToken, expiresIn: getTokenLifetime(accessToken) };
+}
+
+// Cookie sessions receive their tokens as HttpOnly cookies, other clients
+// in the response body
+function deliverTokens(req: Request, res: Response, tokens: AuthTokens): AuthTokens | undefined {
+  if (!wantsCookieSession(req)) {
+    return tokens;
+  }
+  setSessionCookies(res, tokens);
+  return undefined;
+}
 
 const registerSchema = z.object({
   email: z.string().email('Invalid email address').transform(e => e.toLowerCase().trim()),
@@ -45,30 +80,38 @@ router.post(
   asyncHandler(async (req: Request, res: Response<ApiResponse<AuthResponse>>) => {
     const { email, password, name, phone } = req.body;
 
-    const existing = getUserByEmail(email);
-    if (existing) {
-      throw new ConflictError('Email already registered');
-    }
-
     const passwordHash = await bcrypt.hash(password, config.bcryptRounds);
-    const user = createUser({
-      email, // Already normalized by zod transform
-      passwordHash,
-      name,
-      phone: phone ?? null,
-      avatarUrl: null,
-      isVerified: false,
-      role: 'USER', // New users get USER role by default
+    const user = await withTransaction(async (tx) => {
+      if (await getUserByEmail(email, tx)) {
+        throw new ConflictError('Email already registered');
+      }
+      return createUser({
+        email, // Already normalized by zod transform
+        passwordHash,
+        name,
+        phone: phone ?? null,
+        avatarUrl: null,
+        isVerified: false,
+        role: 'USER', // New users get USER role by default
+      }, tx);
     });
 
-    const token = generateToken(user.id, user.email, user.role);
+    // The account works without it, so a failed send must not fail registration
+    try {
+      await sendVerificationEmail(user);
+    } catch (error) {
+      logger.error({ msg: 'Failed to send verification email', userId: user.id, error: (error as Error).message });
+    }
+
+    const { session, refreshToken } = await startSession(user.id, getRequestContext(req));
+    const tokens = issueTokens(user, session.id, refreshToken.token);
     const { passwordHash: _, ...userResponse } = user;
 
     res.status(201).json({
       success: true,
       data: {
         user: userResponse as User,
-        tokens: { accessToken: token, expiresIn: 604800 },
+        tokens: deliverTokens(req, res, tokens),
       },
     });
   })
@@ -81,7 +124,7 @@ router.post(
   asyncHandler(async (req: Request, res: Response<ApiResponse<AuthResponse>>) => {
     const { email, password } = req.body;
 
-    const user = getUserByEmail(email);
+    const user = await getUserByEmail(email);
     if (!user) {
       throw new AuthenticationError('Invalid email or password');
     }
@@ -91,35 +134,116 @@ router.post(
       throw new AuthenticationError('Invalid email or password');
     }
 
-    const token = generateToken(user.id, user.email, user.role);
+    const { session, refreshToken } = await startSession(user.id, getRequestContext(req));
+    const tokens = issueTokens(user, session.id, refreshToken.token);
     const { passwordHash: _, ...userResponse } = user;
 
     res.json({
       success: true,
       data: {
         user: userResponse as User,
-        tokens: { accessToken: token, expiresIn: 604800 },
+        tokens: deliverTokens(req, res, tokens),
       },
     });
   })
 );
 
+// Exchange a refresh token for a new access token and refresh token.
+// Cookie sessions send no body and get new cookies back.
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
+router.post(
+  '/refresh',
+  standardLimiter,
+  validate(refreshSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<AuthTokens | Pick<AuthTokens, 'expiresIn'>>>) => {
+    const cookieToken = readCookie(req, REFRESH_COOKIE);
+    const refreshToken: string | undefined = req.body.refreshToken ?? cookieToken;
+    if (!refreshToken) {
+      throw new AuthenticationError('Refresh token is required');
+    }
+
+    try {
+      const rotated = await rotateRefreshToken(refreshToken, getRequestContext(req));
+
+      const user = await userStore.get(rotated.userId);
+      if (!user) {
+        throw new AuthenticationError('User not found');
+      }
+
+      const tokens = issueTokens(user, rotated.familyId, rotated.token);
+      if (refreshToken === cookieToken) {
+        setSessionCookies(res, tokens);
+        res.json({ success: true, data: { expiresIn: tokens.expiresIn } });
+        return;
+      }
+      res.json({ success: true, data: tokens });
+    } catch (error) {
+      // The session is over - drop cookies that can no longer be refreshed
+      if (refreshToken === cookieToken) clearSessionCookies(res);
+      throw error;
+    }
+  })
+);
+
 router.post('/logout', authenticate, asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
   // Blacklist the token until its natural expiry
   if (req.token && req.tokenExp) {
     await blacklistToken(req.token, req.tokenExp);
   }
+  // End the session so its refresh token cannot renew it
+  await revokeSession(req.user!.id, req.sessionId!);
+  clearSessionCookies(res);
   res.json({ success: true, data: { message: 'Logged out successfully' } });
 }));
 
-router.get('/me', authenticate, (req: Request, res: Response<ApiResponse<User>>) => {
-  const user = userStore.get(req.user!.id);
+// Signed-in devices
+router.get('/sessions', authenticate, asyncHandler(async (req: Request, res: Response<ApiResponse<UserSession[]>>) => {
+  const sessions = await listSessions(req.user!.id);
+  res.json({
+    success: true,
+    data: sessions.map((session) => ({
+      id: session.id,
+      device: session.device,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      current: session.id === req.sessionId,
+    })),
+  });
+}));
+
+// Sign out one device
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  validate(idParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    await revokeSession(req.user!.id, req.params['id']!);
+    if (req.params['id'] === req.sessionId) {
+      clearSessionCookies(res);
+    }
+    res.json({ success: true, data: { message: 'Session signed out' } });
+  })
+);
+
+// Sign out everywhere, including this device
+router.delete('/sessions', authenticate, asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+  const count = await revokeAllSessions(req.user!.id);
+  clearSessionCookies(res);
+  res.json({ success: true, data: { message: 'Signed out everywhere', count } });
+}));
+
+router.get('/me', authenticate, asyncHandler(async (req: Request, res: Response<ApiResponse<User>>) => {
+  const user = await userStore.get(req.user!.id);
   if (!user) {
     throw new AuthenticationError('User not found');
   }
   const { passwordHash: _, ...userResponse } = user;
   res.json({ success: true, data: userResponse as User });
-});
+}));
 
 // Password Reset - Request
 const forgotPasswordSchema = z.object({
@@ -131,24 +255,9 @@ router.post(
   authLimiter, // Rate limit to prevent abuse
   validate(forgotPasswordSchema),
   (req: Request, res: Response<ApiResponse>) => {
-    const { email } = req.body;
-    const user = getUserByEmail(email);
-    
-    // Always return success to prevent email enumeration
-    // In production, this would send an email
-    if (user) {
-      const token = generateResetToken(user.id, user.email);
-      const resetUrl = `${config.publicUrl}/reset-password?token=${token}`;
-      
-      // In development, log the reset link
-      // In production, this would send an email via SendGrid/SES/etc.
-      if (config.env !== 'production') {
-        console.log(`\n[Password Reset] Link for ${email}:\n${resetUrl}\n`);
-      }
-      // TODO: In production, call email service here
-      // await emailService.sendPasswordReset(email, resetUrl);
-    }
-    
+    // Always return success, without waiting for the email, to prevent email enumeration
+    queuePasswordReset(req.body.email, getRequestContext(req));
+
     res.json({
       success: true,
       data: {
@@ -171,39 +280,65 @@ router.post(
   asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
     const { token, password } = req.body;
     
-    const tokenData = consumeResetToken(token);
-    if (!tokenData) {
-      throw new AuthenticationError('Invalid or expired reset token');
-    }
-    
     // Hash new password
     const passwordHash = await bcrypt.hash(password, config.bcryptRounds);
     
-    // Update password
-    updateUserPassword(tokenData.userId, passwordHash);
+    // Every session, this browser's included, is signed out
+    await resetPassword(token, passwordHash, getRequestContext(req));
+    clearSessionCookies(res);
     
     res.json({
       success: true,
       data: {
-        message: 'Password has been reset successfully. You can now log in with your new password.',
+        message: 'Password has been reset successfully. You have been signed out on all devices and can now log in with your new password.',
       },
     });
   })
 );
 
+// Email Verification - Complete (no login needed, the link may be opened elsewhere)
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+router.post(
+  '/verify-email',
+  authLimiter,
+  validate(verifyEmailSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    await verifyEmail(req.body.token);
+    res.json({ success: true, data: { message: 'Your email address has been verified.' } });
+  })
+);
+
+// Email Verification - Send another link
+router.post(
+  '/verify-email/resend',
+  authLimiter,
+  authenticate,
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const user = await userStore.get(req.user!.id);
+    if (!user) {
+      throw new AuthenticationError('User not found');
+    }
+    await resendVerificationEmail(user);
+    res.json({ success: true, data: { message: 'A new verification link has been sent.' } });
+  })
+);
+
 // Data Export - GDPR compliant data export
-router.get('/export', authenticate, (req: Request, res: Response<ApiResponse>) => {
-  const user = userStore.get(req.user!.id);
+router.get('/export', authenticate, asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+  const user = await userStore.get(req.user!.id);
   if (!user) {
     throw new AuthenticationError('User not found');
   }
 
   // Get all user's pets with their records
-  const pets = getPetsByOwner(req.user!.id).map((pet) => ({
+  const pets = await Promise.all((await getPetsByOwner(req.user!.id)).map(async (pet) => ({
     ...pet,
-    healthRecords: getHealthRecordsByPet(pet.id),
-    vaccinations: getVaccinationsByPet(pet.id),
-  }));
+    healthRecords: await getHealthRecordsByPet(pet.id),
+    vaccinations: await getVaccinationsByPet(pet.id),
+  })));
 
   // Remove sensitive data
   const { passwordHash: _, ...userExport } = user;
@@ -217,6 +352,6 @@ router.get('/export', authenticate, (req: Request, res: Response<ApiResponse>) =
       format: 'PetPort Data Export v1',
     },
   });
-});
+}));
 
 export const authRoutes = router;
@@ -1,18 +1,14 @@
-import { Router, Request, Response, NextFunction, RequestHandler } from 'express';
+import { Router, Request, Response } from 'express';
 import { ApiResponse } from '@petport/shared';
-import { isDbInitialized } from '../services/sqlite.js';
+import { isDbInitialized } from '../services/db.js';
 import { getStats } from '../services/database.js';
 import { getRedisHealth, isRedisAvailable } from '../services/redis.js';
+import { getBackupStatus } from '../services/backupService.js';
 import { config } from '../config/index.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
 
 const router = Router();
 
-// Async handler wrapper
-type AsyncHandler = (req: Request, res: Response, next: NextFunction) => Promise<void>;
-const asyncHandler = (fn: AsyncHandler): RequestHandler => (req, res, next) => {
-  Promise.resolve(fn(req, res, next)).catch(next);
-};
-
 // Root route - API landing page
 router.get('/', (_req: Request, res: Response) => {
   res.send(`
@@ -102,8 +98,9 @@ router.get('/health', (_req: Request, res: Response<ApiResponse>) => {
 
 router.get('/health/detailed', asyncHandler(async (_req: Request, res: Response<ApiResponse>) => {
   const dbReady = isDbInitialized();
-  const stats = dbReady ? getStats() : { users: 0, pets: 0, vaccinations: 0 };
+  const stats = dbReady ? await getStats() : { users: 0, pets: 0, vaccinations: 0 };
   const redisHealth = await getRedisHealth();
+  const backups = getBackupStatus();
   
   res.json({
     success: true,
@@ -124,6 +121,12 @@ router.get('/health/detailed', asyncHandler(async (_req: Request, res: Response<
           latencyMs: redisHealth.latencyMs,
         },
         storage: 'healthy',
+        backups: {
+          status: backups.state,
+          lastSuccessAt: backups.lastSuccessAt,
+          nextRunAt: backups.nextRunAt,
+          lastError: backups.lastError,
+        },
       },
       stats,
     },
@@ -3,3 +3,4 @@ export { authRoutes } from './auth.js';
 export { petRoutes } from './pets.js';
 export { publicRoutes } from './public.js';
 export { adminRoutes } from './admin.js';
+export { vetRoutes } from './vets.js';
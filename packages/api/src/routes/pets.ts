@@ -1,4 +1,4 @@
-import { Router, Request, Response, NextFunction, RequestHandler } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import {
   ApiResponse,
@@ -6,6 +6,20 @@ import {
   HealthRecord,
   Vaccination,
   RabiesCompliance,
+  ComplianceReport,
+  ComplianceProfile,
+  PetShare,
+  CreatedPetShare,
+  FinderMessage,
+  ScanEvent,
+  PetMember,
+  PetMemberRole,
+  PetPermission,
+  PetInvitation,
+  PetTransfer,
+  PetTransferOffer,
+  PetPhoto,
+  PhotoVariants,
   PetListResponse,
   HealthRecordListResponse,
   VaccinationListResponse,
@@ -16,36 +30,107 @@ import {
   SEX,
   HEALTH_RECORD_TYPES,
   VACCINATION_TYPES,
-  DEFAULT_VACCINATION_VALIDITY_DAYS,
-  daysBetween,
+  SHARE_SCOPES,
+  MAX_SHARE_DURATION_DAYS,
+  MAX_ACTIVE_SHARES_PER_PET,
+  PET_MEMBER_ROLES,
+  PET_ROLE_PERMISSIONS,
+  MAX_PHOTOS_PER_PET,
+  ConflictError,
 } from '@petport/shared';
 import { authenticate } from '../middleware/auth.js';
-import { validate, petIdParamSchema } from '../middleware/validation.js';
+import { requireVerifiedEmail, requireVet } from '../middleware/authorization.js';
+import {
+  validate,
+  paginationSchema,
+  petIdParamSchema,
+  vaccinationIdParamSchema,
+  healthRecordIdParamSchema,
+  shareIdParamSchema,
+  memberIdParamSchema,
+  photoIdParamSchema,
+  idParamSchema,
+} from '../middleware/validation.js';
 import { uploadLimiter } from '../middleware/rateLimiter.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
 import {
   petStore,
   createPet,
   updatePet,
   getPetsByOwner,
+  withTransaction,
   getHealthRecordsByPet,
   getVaccinationsByPet,
   getActivePet,
   createHealthRecord,
   createVaccination,
+  getHealthRecord,
+  updateHealthRecord,
+  deleteHealthRecord,
+  updateVaccination,
+  deleteVaccination,
+  getPetAuditLogs,
+  getTransferHistoryForUser,
+  PetAuditLogEntry,
+  getComplianceProfiles,
+  getComplianceProfileBySlug,
+  createPetShare,
+  getActivePetShares,
+  revokePetShare,
+  setPetLostStatus,
+  getFinderMessagesByPet,
+  markFinderMessagesRead,
+  getScanEventsByPet,
+  countScanEventsByPet,
+  getPetsForUser,
+  getPetRole,
+  getPetMembers,
+  getPetMember,
+  getPetMemberByEmail,
+  createPetMemberInvite,
+  getPendingInvitationsForEmail,
+  getPendingInvitation,
+  acceptPetMemberInvite,
+  updatePetMemberRole,
+  deletePetMember,
+  createPetTransfer,
+  getPendingPetTransfer,
+  getPendingTransferForEmail,
+  getTransferOffersForEmail,
+  closePetTransfer,
+  acceptPetTransfer,
+  getVaccination,
+  getClinicProfile,
+  setVaccinationAttestation,
+  getVaccinationAttestations,
+  getPetPhotos,
+  getPetPhoto,
+  addPetPhoto,
+  setPrimaryPetPhoto,
+  reorderPetPhotos,
+  deletePetPhoto,
   userStore,
 } from '../services/database.js';
-import { generateQRCode, generateQRCodeBuffer } from '../services/qrService.js';
+import { generateQRCode, generateQRCodeBuffer, getQRPayload } from '../services/qrService.js';
 import { generatePassportPDF } from '../services/pdfService.js';
-import { uploadSingle, getPhotoUrl, deletePhoto, getFilenameFromUrl, verifyFileMagicBytes } from '../services/photoService.js';
+import { evaluateCompliance, evaluateProfileCompliance, evaluateVaccine } from '../services/complianceService.js';
+import { uploadSingle, verifyMagicBytes, processPhoto, deletePhotoVariants } from '../services/photoService.js';
+import { refreshVerificationLevel } from '../services/verificationService.js';
+import { sendEmail } from '../services/emailService.js';
+import {
+  uploadDocument,
+  storeRecordDocument,
+  findRecordDocument,
+  readRecordDocument,
+  getRecordDocumentLink,
+  deleteRecordDocument,
+  StoredDocument,
+} from '../services/documentService.js';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
 
 const router = Router();
 
-// Async handler wrapper for proper error forwarding
-type AsyncHandler = (req: Request, res: Response, next: NextFunction) => Promise<void>;
-const asyncHandler = (fn: AsyncHandler): RequestHandler => (req, res, next) => {
-  Promise.resolve(fn(req, res, next)).catch(next);
-};
-
 // Schemas
 const createPetSchema = z.object({
   name: z.string().trim().min(1, 'Pet name is required').max(100),
@@ -70,6 +155,8 @@ const createHealthRecordSchema = z.object({
   expiresAt: z.string().optional().nullable(),
 });
 
+const updateHealthRecordSchema = createHealthRecordSchema.partial();
+
 const createVaccinationSchema = z.object({
   type: z.enum(VACCINATION_TYPES),
   name: z.string().min(1).max(200),
@@ -81,136 +168,251 @@ const createVaccinationSchema = z.object({
   clinicName: z.string().max(200).optional().nullable(),
 });
 
-// Helper to verify pet ownership
-function verifyPetOwnership(petId: string, userId: string): Pet {
-  const pet = getActivePet(petId);
+const updateVaccinationSchema = createVaccinationSchema.partial();
+
+const complianceQuerySchema = z.object({
+  profile: z.string().min(1).max(50).optional(),
+  asOf: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), 'asOf must be a valid date')
+    .optional(),
+});
+
+const createShareSchema = z.object({
+  scope: z.enum(SHARE_SCOPES),
+  expiresInDays: z.number().int().min(1).max(MAX_SHARE_DURATION_DAYS),
+  label: z.string().trim().max(100).optional().nullable(),
+});
+
+const inviteMemberSchema = z.object({
+  email: z.string().email('Invalid email address').transform((e) => e.toLowerCase().trim()),
+  role: z.enum(PET_MEMBER_ROLES),
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum(PET_MEMBER_ROLES),
+});
+
+const transferSchema = z.object({
+  email: z.string().email('Invalid email address').transform((e) => e.toLowerCase().trim()),
+});
+
+const reorderPhotosSchema = z.object({
+  photoIds: z.array(z.string().min(1)).max(MAX_PHOTOS_PER_PET),
+});
+
+const reportLostSchema = z.object({
+  message: z.string().trim().max(500).optional().nullable(),
+});
+
+// Helper to authorize access to a pet by the user's membership role
+async function authorizePet(petId: string, userId: string, permission: PetPermission): Promise<Pet> {
+  const pet = await getActivePet(petId);
   if (!pet) {
     throw new NotFoundError('Pet', petId);
   }
-  if (pet.ownerId !== userId) {
-    throw new AuthorizationError('You do not own this pet');
+  const role = await getPetRole(pet, userId);
+  if (!role) {
+    throw new AuthorizationError('You do not have access to this pet');
+  }
+  if (!PET_ROLE_PERMISSIONS[role].includes(permission)) {
+    throw new AuthorizationError(`Your role on this pet (${role}) does not allow this action`);
   }
   return pet;
 }
 
-// Pet CRUD
-router.get('/', authenticate, (req: Request, res: Response<ApiResponse<PetListResponse>>) => {
-  const pets = getPetsByOwner(req.user!.id);
+// Pet CRUD - includes pets shared with the user through a membership
+router.get('/', authenticate, asyncHandler(async (req: Request, res: Response<ApiResponse<PetListResponse>>) => {
+  const pets = await getPetsForUser(req.user!.id);
   res.json({ success: true, data: { pets, total: pets.length } });
-});
+}));
 
 // Dashboard summary - all pets with stats in single call (prevents N+1)
 interface PetSummary extends Pet {
+  role: PetMemberRole;
   vaccinationCount: number;
   healthRecordCount: number;
   rabiesCompliance: RabiesCompliance;
+  compliance: ComplianceReport;
 }
 
-router.get('/summary', authenticate, (req: Request, res: Response<ApiResponse<{ pets: PetSummary[]; total: number }>>) => {
-  const pets = getPetsByOwner(req.user!.id);
+router.get('/summary', authenticate, asyncHandler(async (req: Request, res: Response<ApiResponse<{ pets: PetSummary[]; total: number }>>) => {
+  const pets = await getPetsForUser(req.user!.id);
   const now = new Date();
   
-  const summaries: PetSummary[] = pets.map(pet => {
-    const vaccinations = getVaccinationsByPet(pet.id);
-    const healthRecords = getHealthRecordsByPet(pet.id);
-    
-    // Calculate rabies compliance
-    const rabiesVax = vaccinations
-      .filter(v => v.type === 'RABIES')
-      .sort((a, b) => new Date(b.administeredAt).getTime() - new Date(a.administeredAt).getTime())[0];
-    
-    let rabiesCompliance: RabiesCompliance;
-    if (!rabiesVax) {
-      rabiesCompliance = {
-        isCompliant: false,
-        vaccination: null,
-        expiresAt: null,
-        daysUntilExpiry: null,
-        message: 'No rabies vaccination on record',
-      };
-    } else {
-      let expiresAt: Date;
-      let usingDefault = false;
-      if (rabiesVax.expiresAt) {
-        expiresAt = new Date(rabiesVax.expiresAt);
-      } else {
-        expiresAt = new Date(rabiesVax.administeredAt);
-        expiresAt.setDate(expiresAt.getDate() + DEFAULT_VACCINATION_VALIDITY_DAYS);
-        usingDefault = true;
-      }
-      const isExpired = expiresAt < now;
-      const daysUntil = daysBetween(now, expiresAt);
-      
-      rabiesCompliance = {
-        isCompliant: !isExpired,
-        vaccination: rabiesVax,
-        expiresAt: expiresAt.toISOString(),
-        daysUntilExpiry: daysUntil,
-        message: isExpired 
-          ? 'Rabies vaccination has expired'
-          : daysUntil <= 30 
-            ? `Expires in ${daysUntil} days${usingDefault ? ' (default)' : ''}`
-            : 'Current',
-      };
-    }
+  const summaries: PetSummary[] = await Promise.all(pets.map(async (pet) => {
+    const vaccinations = await getVaccinationsByPet(pet.id);
+    const healthRecords = await getHealthRecordsByPet(pet.id);
     
     return {
       ...pet,
+      role: (await getPetRole(pet, req.user!.id))!,
       vaccinationCount: vaccinations.length,
       healthRecordCount: healthRecords.length,
-      rabiesCompliance,
+      rabiesCompliance: evaluateVaccine(vaccinations, 'RABIES', now),
+      compliance: evaluateCompliance(pet.species, vaccinations, { asOf: now }),
     };
-  });
+  }));
   
   res.json({ success: true, data: { pets: summaries, total: summaries.length } });
-});
+}));
+
+// Active facility compliance profiles owners can check against
+router.get(
+  '/compliance-profiles',
+  authenticate,
+  asyncHandler(async (_req: Request, res: Response<ApiResponse<{ profiles: ComplianceProfile[]; total: number }>>) => {
+    const profiles = await getComplianceProfiles();
+    res.json({ success: true, data: { profiles, total: profiles.length } });
+  })
+);
 
 // Maximum pets per user
 const MAX_PETS_PER_USER = 50;
 
+// Invitations addressed to the signed-in user's email
+router.get(
+  '/invitations',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response<ApiResponse<{ invitations: PetInvitation[]; total: number }>>) => {
+    const invitations = await getPendingInvitationsForEmail(req.user!.email);
+    res.json({ success: true, data: { invitations, total: invitations.length } });
+  })
+);
+
 router.post(
-  '/',
+  '/invitations/:id/accept',
   authenticate,
-  validate(createPetSchema),
-  (req: Request, res: Response<ApiResponse<Pet>>) => {
-    // Check pet limit
-    const existingPets = getPetsByOwner(req.user!.id);
-    if (existingPets.length >= MAX_PETS_PER_USER) {
+  requireVerifiedEmail,
+  validate(idParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<Pet>>) => {
+    const invite = await getPendingInvitation(req.params['id']!, req.user!.email);
+    const pet = invite ? await getActivePet(invite.petId) : undefined;
+    if (!invite || !pet) {
+      throw new NotFoundError('Invitation', req.params['id']);
+    }
+    await acceptPetMemberInvite(invite, req.user!.id);
+    res.json({ success: true, data: pet });
+  })
+);
+
+router.post(
+  '/invitations/:id/decline',
+  authenticate,
+  validate(idParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const invite = await getPendingInvitation(req.params['id']!, req.user!.email);
+    if (!invite) {
+      throw new NotFoundError('Invitation', req.params['id']);
+    }
+    await deletePetMember(invite, req.user!.id);
+    res.json({ success: true, data: { message: 'Invitation declined' } });
+  })
+);
+
+// Ownership transfers offered to the signed-in user
+router.get(
+  '/transfers',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response<ApiResponse<{ transfers: PetTransferOffer[]; total: number }>>) => {
+    const transfers = await getTransferOffersForEmail(req.user!.email);
+    res.json({ success: true, data: { transfers, total: transfers.length } });
+  })
+);
+
+// Transfers the signed-in user gave or received, including pets they no longer see
+router.get(
+  '/transfers/history',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response<ApiResponse<{ entries: PetAuditLogEntry[]; total: number }>>) => {
+    const entries = await getTransferHistoryForUser(req.user!.id);
+    res.json({ success: true, data: { entries, total: entries.length } });
+  })
+);
+
+router.post(
+  '/transfers/:id/accept',
+  authenticate,
+  requireVerifiedEmail,
+  validate(idParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<Pet>>) => {
+    const transfer = await getPendingTransferForEmail(req.params['id']!, req.user!.email);
+    const pet = transfer ? await getActivePet(transfer.petId) : undefined;
+    // A transfer is void once the offering user no longer owns the pet
+    if (!transfer || !pet || pet.ownerId !== transfer.fromUserId) {
+      throw new NotFoundError('Transfer', req.params['id']);
+    }
+    if ((await getPetsByOwner(req.user!.id)).length >= MAX_PETS_PER_USER) {
       throw new ValidationError(`Maximum ${MAX_PETS_PER_USER} pets allowed per account`);
     }
-    
-    // Check for duplicate pet names (case-insensitive)
-    const normalizedName = (req.body.name as string).toLowerCase().trim();
-    const duplicateName = existingPets.find(
-      p => p.name.toLowerCase().trim() === normalizedName
-    );
-    if (duplicateName) {
-      throw new ValidationError(`You already have a pet named "${duplicateName.name}"`);
+
+    const transferred = await acceptPetTransfer(transfer, req.user!.id);
+    logger.info({ msg: 'Pet ownership transferred', petId: pet.id, from: transfer.fromUserId, to: req.user!.id });
+    res.json({ success: true, data: transferred });
+  })
+);
+
+router.post(
+  '/transfers/:id/decline',
+  authenticate,
+  validate(idParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const transfer = await getPendingTransferForEmail(req.params['id']!, req.user!.email);
+    if (!transfer) {
+      throw new NotFoundError('Transfer', req.params['id']);
     }
-    
-    const pet = createPet(req.user!.id, {
-      name: req.body.name,
-      species: req.body.species,
-      breed: req.body.breed ?? null,
-      sex: req.body.sex ?? 'UNKNOWN',
-      dateOfBirth: req.body.dateOfBirth ?? null,
-      color: req.body.color ?? null,
-      weight: req.body.weight ?? null,
-      microchipId: req.body.microchipId ?? null,
-      photoUrl: null,
+    await closePetTransfer(transfer, 'DECLINED', req.user!.id);
+    res.json({ success: true, data: { message: 'Transfer declined' } });
+  })
+);
+
+
+router.post(
+  '/',
+  authenticate,
+  validate(createPetSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<Pet>>) => {
+    // Check and insert together so concurrent requests cannot both pass the checks
+    const pet = await withTransaction(async (tx) => {
+      // Check pet limit
+      const existingPets = await getPetsByOwner(req.user!.id, tx);
+      if (existingPets.length >= MAX_PETS_PER_USER) {
+        throw new ValidationError(`Maximum ${MAX_PETS_PER_USER} pets allowed per account`);
+      }
+
+      // Check for duplicate pet names (case-insensitive)
+      const normalizedName = (req.body.name as string).toLowerCase().trim();
+      const duplicateName = existingPets.find(
+        p => p.name.toLowerCase().trim() === normalizedName
+      );
+      if (duplicateName) {
+        throw new ValidationError(`You already have a pet named "${duplicateName.name}"`);
+      }
+
+      return createPet(req.user!.id, {
+        name: req.body.name,
+        species: req.body.species,
+        breed: req.body.breed ?? null,
+        sex: req.body.sex ?? 'UNKNOWN',
+        dateOfBirth: req.body.dateOfBirth ?? null,
+        color: req.body.color ?? null,
+        weight: req.body.weight ?? null,
+        microchipId: req.body.microchipId ?? null,
+        photoUrl: null,
+      }, tx);
     });
     res.status(201).json({ success: true, data: pet });
-  }
+  })
 );
 
 router.get(
   '/:petId',
   authenticate,
   validate(petIdParamSchema, 'params'),
-  (req: Request, res: Response<ApiResponse<Pet>>) => {
-    const pet = verifyPetOwnership(req.params['petId']!, req.user!.id);
+  asyncHandler(async (req: Request, res: Response<ApiResponse<Pet>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
     res.json({ success: true, data: pet });
-  }
+  })
 );
 
 router.patch(
@@ -218,96 +420,198 @@ router.patch(
   authenticate,
   validate(petIdParamSchema, 'params'),
   validate(updatePetSchema),
-  (req: Request, res: Response<ApiResponse<Pet>>) => {
-    const currentPet = verifyPetOwnership(req.params['petId']!, req.user!.id);
+  asyncHandler(async (req: Request, res: Response<ApiResponse<Pet>>) => {
+    const currentPet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
     
     // Check for duplicate name if name is being changed
     if (req.body.name !== undefined) {
       const normalizedName = (req.body.name as string).toLowerCase().trim();
-      const existingPets = getPetsByOwner(req.user!.id);
+      // Names are unique among the owner's pets, whoever renames it
+      const existingPets = await getPetsByOwner(currentPet.ownerId);
       const duplicateName = existingPets.find(
         p => p.id !== currentPet.id && p.name.toLowerCase().trim() === normalizedName
       );
       if (duplicateName) {
-        throw new ValidationError(`You already have a pet named "${duplicateName.name}"`);
+        throw new ValidationError(
+          currentPet.ownerId === req.user!.id
+            ? `You already have a pet named "${duplicateName.name}"`
+            : `The owner already has a pet named "${duplicateName.name}"`
+        );
       }
     }
     
-    const pet = updatePet(req.params['petId']!, req.body);
-    res.json({ success: true, data: pet! });
-  }
+    // A microchip is part of the CERTIFIED criteria
+    const pet = await refreshVerificationLevel((await updatePet(req.params['petId']!, req.body))!);
+    res.json({ success: true, data: pet });
+  })
 );
 
 router.delete(
   '/:petId',
   authenticate,
   validate(petIdParamSchema, 'params'),
-  (req: Request, res: Response<ApiResponse>) => {
-    const pet = verifyPetOwnership(req.params['petId']!, req.user!.id);
-    // Delete photo if exists
-    if (pet.photoUrl) {
-      const filename = getFilenameFromUrl(pet.photoUrl);
-      if (filename) deletePhoto(filename);
-    }
-    updatePet(req.params['petId']!, { isActive: false });
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'DELETE');
+    // Delete gallery photo files
+    for (const photo of await getPetPhotos(pet.id)) {
+      await deletePhotoVariants(photo.variants);
+    }
+    await updatePet(req.params['petId']!, { isActive: false });
     res.json({ success: true, data: { message: 'Pet deleted successfully' } });
-  }
+  })
 );
 
-// Photo Upload
+// Reject uploads before multer reads them
+async function requirePhotoSlot(req: Request, _res: Response, next: NextFunction): Promise<void> {
+  const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+  if ((await getPetPhotos(pet.id)).length >= MAX_PHOTOS_PER_PET) {
+    throw new ValidationError(`Maximum ${MAX_PHOTOS_PER_PET} photos allowed per pet`);
+  }
+  next();
+}
+
+// Check an uploaded photo's content and re-encode it into stored variants
+async function storeUploadedPhoto(file: Express.Multer.File | undefined): Promise<PhotoVariants> {
+  if (!file) {
+    throw new ValidationError('No photo file provided');
+  }
+  // Verify file content matches declared MIME type (magic byte check)
+  if (!verifyMagicBytes(file.buffer, file.mimetype)) {
+    throw new ValidationError('File content does not match declared type. Possible file spoofing detected.');
+  }
+  return processPhoto(file.buffer);
+}
+
+// Photo Upload - replaces the primary photo (the rest of the gallery is kept)
 router.post(
   '/:petId/photo',
   authenticate,
   uploadLimiter,
   validate(petIdParamSchema, 'params'),
-  (req: Request, res: Response, next: NextFunction) => {
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
     // First verify ownership before accepting upload
-    verifyPetOwnership(req.params['petId']!, req.user!.id);
+    await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
     next();
-  },
+  }),
   uploadSingle,
   asyncHandler(async (req: Request, res: Response<ApiResponse<{ photoUrl: string }>>) => {
-    const pet = verifyPetOwnership(req.params['petId']!, req.user!.id);
-    
-    if (!req.file) {
-      throw new ValidationError('No photo file provided');
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    const variants = await storeUploadedPhoto(req.file);
+
+    const primary = (await getPetPhotos(pet.id)).find((photo) => photo.isPrimary);
+    if (primary) {
+      await deletePetPhoto(primary, req.user!.id);
+      await deletePhotoVariants(primary.variants);
     }
 
-    // Verify file content matches declared MIME type (magic byte check)
-    if (!verifyFileMagicBytes(req.file.path, req.file.mimetype)) {
-      // Delete the uploaded file - content doesn't match declared type
-      deletePhoto(req.file.filename);
-      throw new ValidationError('File content does not match declared type. Possible file spoofing detected.');
+    const photo = await addPetPhoto(pet.id, variants, req.user!.id, true);
+    res.json({ success: true, data: { photoUrl: photo.url } });
+  })
+);
+
+// Removes the primary photo; the next gallery photo takes its place
+router.delete(
+  '/:petId/photo',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+
+    const primary = (await getPetPhotos(pet.id)).find((photo) => photo.isPrimary);
+    if (primary) {
+      await deletePetPhoto(primary, req.user!.id);
+      await deletePhotoVariants(primary.variants);
     }
 
-    // Delete old photo if exists
-    if (pet.photoUrl) {
-      const oldFilename = getFilenameFromUrl(pet.photoUrl);
-      if (oldFilename) deletePhoto(oldFilename);
+    res.json({ success: true, data: { message: 'Photo deleted successfully' } });
+  })
+);
+
+// Photo gallery
+router.get(
+  '/:petId/photos',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<{ photos: PetPhoto[]; total: number }>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
+    const photos = await getPetPhotos(pet.id);
+    res.json({ success: true, data: { photos, total: photos.length } });
+  })
+);
+
+router.post(
+  '/:petId/photos',
+  authenticate,
+  uploadLimiter,
+  validate(petIdParamSchema, 'params'),
+  asyncHandler(requirePhotoSlot),
+  uploadSingle,
+  asyncHandler(async (req: Request, res: Response<ApiResponse<PetPhoto>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    const variants = await storeUploadedPhoto(req.file);
+
+    // Re-check after processing in case of concurrent requests
+    if ((await getPetPhotos(pet.id)).length >= MAX_PHOTOS_PER_PET) {
+      await deletePhotoVariants(variants);
+      throw new ValidationError(`Maximum ${MAX_PHOTOS_PER_PET} photos allowed per pet`);
     }
 
-    const photoUrl = getPhotoUrl(req.file.filename);
-    updatePet(req.params['petId']!, { photoUrl });
+    const photo = await addPetPhoto(pet.id, variants, req.user!.id);
+    res.status(201).json({ success: true, data: photo });
+  })
+);
 
-    res.json({ success: true, data: { photoUrl } });
+router.put(
+  '/:petId/photos/order',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  validate(reorderPhotosSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<{ photos: PetPhoto[]; total: number }>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    const photoIds: string[] = req.body.photoIds;
+
+    const existingIds = new Set((await getPetPhotos(pet.id)).map((photo) => photo.id));
+    const complete = photoIds.length === existingIds.size && photoIds.every((id) => existingIds.has(id));
+    if (!complete || new Set(photoIds).size !== photoIds.length) {
+      throw new ValidationError('photoIds must list every photo of this pet exactly once');
+    }
+
+    const photos = await reorderPetPhotos(pet.id, photoIds, req.user!.id);
+    res.json({ success: true, data: { photos, total: photos.length } });
+  })
+);
+
+router.post(
+  '/:petId/photos/:photoId/primary',
+  authenticate,
+  validate(photoIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<PetPhoto>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    const photo = await getPetPhoto(pet.id, req.params['photoId']!);
+    if (!photo) {
+      throw new NotFoundError('Photo', req.params['photoId']);
+    }
+
+    await setPrimaryPetPhoto(photo, req.user!.id);
+    res.json({ success: true, data: { ...photo, isPrimary: true } });
   })
 );
 
 router.delete(
-  '/:petId/photo',
+  '/:petId/photos/:photoId',
   authenticate,
-  validate(petIdParamSchema, 'params'),
-  (req: Request, res: Response<ApiResponse>) => {
-    const pet = verifyPetOwnership(req.params['petId']!, req.user!.id);
-    
-    if (pet.photoUrl) {
-      const filename = getFilenameFromUrl(pet.photoUrl);
-      if (filename) deletePhoto(filename);
-      updatePet(req.params['petId']!, { photoUrl: null });
+  validate(photoIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    const photo = await getPetPhoto(pet.id, req.params['photoId']!);
+    if (!photo) {
+      throw new NotFoundError('Photo', req.params['photoId']);
     }
 
+    await deletePetPhoto(photo, req.user!.id);
+    await deletePhotoVariants(photo.variants);
     res.json({ success: true, data: { message: 'Photo deleted successfully' } });
-  }
+  })
 );
 
 // Health Records
@@ -315,11 +619,11 @@ router.get(
   '/:petId/health',
   authenticate,
   validate(petIdParamSchema, 'params'),
-  (req: Request, res: Response<ApiResponse<HealthRecordListResponse>>) => {
-    verifyPetOwnership(req.params['petId']!, req.user!.id);
-    const records = getHealthRecordsByPet(req.params['petId']!);
+  asyncHandler(async (req: Request, res: Response<ApiResponse<HealthRecordListResponse>>) => {
+    await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
+    const records = await getHealthRecordsByPet(req.params['petId']!);
     res.json({ success: true, data: { records, total: records.length } });
-  }
+  })
 );
 
 router.post(
@@ -327,9 +631,9 @@ router.post(
   authenticate,
   validate(petIdParamSchema, 'params'),
   validate(createHealthRecordSchema),
-  (req: Request, res: Response<ApiResponse<HealthRecord>>) => {
-    verifyPetOwnership(req.params['petId']!, req.user!.id);
-    const record = createHealthRecord(req.params['petId']!, {
+  asyncHandler(async (req: Request, res: Response<ApiResponse<HealthRecord>>) => {
+    await authorizePet(req.params['petId']!, req.user!.id, 'EDIT_RECORDS');
+    const record = await createHealthRecord(req.params['petId']!, {
       type: req.body.type,
       title: req.body.title,
       description: req.body.description ?? null,
@@ -340,7 +644,36 @@ router.post(
       documentUrl: null,
     });
     res.status(201).json({ success: true, data: record });
-  }
+  })
+);
+
+router.patch(
+  '/:petId/health/:recordId',
+  authenticate,
+  validate(healthRecordIdParamSchema, 'params'),
+  validate(updateHealthRecordSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<HealthRecord>>) => {
+    await authorizePet(req.params['petId']!, req.user!.id, 'EDIT_RECORDS');
+    const record = await updateHealthRecord(req.params['petId']!, req.params['recordId']!, req.body, req.user!.id);
+    if (!record) {
+      throw new NotFoundError('Health record', req.params['recordId']);
+    }
+    res.json({ success: true, data: record });
+  })
+);
+
+router.delete(
+  '/:petId/health/:recordId',
+  authenticate,
+  validate(healthRecordIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    await authorizePet(req.params['petId']!, req.user!.id, 'EDIT_RECORDS');
+    const deleted = await deleteHealthRecord(req.params['petId']!, req.params['recordId']!, req.user!.id);
+    if (!deleted) {
+      throw new NotFoundError('Health record', req.params['recordId']);
+    }
+    res.json({ success: true, data: { message: 'Health record deleted successfully' } });
+  })
 );
 
 // Vaccinations
@@ -348,11 +681,11 @@ router.get(
   '/:petId/vaccinations',
   authenticate,
   validate(petIdParamSchema, 'params'),
-  (req: Request, res: Response<ApiResponse<VaccinationListResponse>>) => {
-    verifyPetOwnership(req.params['petId']!, req.user!.id);
-    const vaccinations = getVaccinationsByPet(req.params['petId']!);
+  asyncHandler(async (req: Request, res: Response<ApiResponse<VaccinationListResponse>>) => {
+    await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
+    const vaccinations = await getVaccinationsByPet(req.params['petId']!);
     res.json({ success: true, data: { vaccinations, total: vaccinations.length } });
-  }
+  })
 );
 
 router.post(
@@ -360,9 +693,9 @@ router.post(
   authenticate,
   validate(petIdParamSchema, 'params'),
   validate(createVaccinationSchema),
-  (req: Request, res: Response<ApiResponse<Vaccination>>) => {
-    verifyPetOwnership(req.params['petId']!, req.user!.id);
-    const vaccination = createVaccination(req.params['petId']!, {
+  asyncHandler(async (req: Request, res: Response<ApiResponse<Vaccination>>) => {
+    await authorizePet(req.params['petId']!, req.user!.id, 'EDIT_RECORDS');
+    const vaccination = await createVaccination(req.params['petId']!, {
       type: req.body.type,
       name: req.body.name,
       manufacturer: req.body.manufacturer ?? null,
@@ -374,7 +707,255 @@ router.post(
       documentUrl: null,
     });
     res.status(201).json({ success: true, data: vaccination });
+  })
+);
+
+router.patch(
+  '/:petId/vaccinations/:vaccinationId',
+  authenticate,
+  validate(vaccinationIdParamSchema, 'params'),
+  validate(updateVaccinationSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<Vaccination>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'EDIT_RECORDS');
+    const vaccination = await updateVaccination(req.params['petId']!, req.params['vaccinationId']!, req.body, req.user!.id);
+    if (!vaccination) {
+      throw new NotFoundError('Vaccination', req.params['vaccinationId']);
+    }
+    await refreshVerificationLevel(pet);
+    res.json({ success: true, data: vaccination });
+  })
+);
+
+router.delete(
+  '/:petId/vaccinations/:vaccinationId',
+  authenticate,
+  validate(vaccinationIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'EDIT_RECORDS');
+    const deleted = await deleteVaccination(req.params['petId']!, req.params['vaccinationId']!, req.user!.id);
+    if (!deleted) {
+      throw new NotFoundError('Vaccination', req.params['vaccinationId']);
+    }
+    await refreshVerificationLevel(pet);
+    res.json({ success: true, data: { message: 'Vaccination deleted successfully' } });
+  })
+);
+
+// Vet attestation - a VET account invited to the pet as its vet signs off a
+// record. Owners, co-owners and caretakers cannot, even with a VET account.
+router.post(
+  '/:petId/vaccinations/:vaccinationId/attest',
+  authenticate,
+  requireVet,
+  validate(vaccinationIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<Vaccination>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'EDIT_RECORDS');
+    if ((await getPetRole(pet, req.user!.id)) !== 'VET') {
+      throw new AuthorizationError('Only the pet\'s vet can attest its records, not its owners or caretakers');
+    }
+    if (!(await getClinicProfile(req.user!.id))) {
+      throw new ValidationError('Complete your clinic profile before attesting records');
+    }
+
+    const vaccination = await getVaccination(pet.id, req.params['vaccinationId']!);
+    if (!vaccination) {
+      throw new NotFoundError('Vaccination', req.params['vaccinationId']);
+    }
+    if (vaccination.attestedBy) {
+      throw new ConflictError('This vaccination has already been attested');
+    }
+
+    const attested = await setVaccinationAttestation(vaccination, req.user!.id, req.user!.id);
+    await refreshVerificationLevel(pet);
+    res.json({ success: true, data: attested });
+  })
+);
+
+// Only the attesting vet can withdraw their sign-off
+router.delete(
+  '/:petId/vaccinations/:vaccinationId/attest',
+  authenticate,
+  validate(vaccinationIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<Vaccination>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
+    const vaccination = await getVaccination(pet.id, req.params['vaccinationId']!);
+    if (!vaccination) {
+      throw new NotFoundError('Vaccination', req.params['vaccinationId']);
+    }
+    if (vaccination.attestedBy !== req.user!.id) {
+      throw new AuthorizationError('Only the attesting vet can withdraw an attestation');
+    }
+
+    const updated = await setVaccinationAttestation(vaccination, null, req.user!.id);
+    await refreshVerificationLevel(pet);
+    res.json({ success: true, data: updated });
+  })
+);
+
+// Record documents (signed certificates, lab results). Kept in the private
+// documents storage area and only served through these routes or signed links.
+interface RecordDocumentRoute {
+  path: string;
+  params: typeof vaccinationIdParamSchema | typeof healthRecordIdParamSchema;
+  idParam: 'vaccinationId' | 'recordId';
+  resource: string;
+  find: (petId: string, id: string) => Promise<Vaccination | HealthRecord | undefined>;
+  setDocumentUrl: (petId: string, id: string, documentUrl: string | null, userId: string) => Promise<Vaccination | HealthRecord | undefined>;
+}
+
+const RECORD_DOCUMENT_ROUTES: RecordDocumentRoute[] = [
+  {
+    path: '/:petId/vaccinations/:vaccinationId/document',
+    params: vaccinationIdParamSchema,
+    idParam: 'vaccinationId',
+    resource: 'Vaccination',
+    find: getVaccination,
+    setDocumentUrl: (petId, id, documentUrl, userId) => updateVaccination(petId, id, { documentUrl }, userId),
+  },
+  {
+    path: '/:petId/health/:recordId/document',
+    params: healthRecordIdParamSchema,
+    idParam: 'recordId',
+    resource: 'Health record',
+    find: getHealthRecord,
+    setDocumentUrl: (petId, id, documentUrl, userId) => updateHealthRecord(petId, id, { documentUrl }, userId),
+  },
+];
+
+// The stored document of a record, or 404 if either is missing
+async function findAttachedDocument(route: RecordDocumentRoute, petId: string, recordId: string): Promise<StoredDocument> {
+  const record = await route.find(petId, recordId);
+  if (!record) {
+    throw new NotFoundError(route.resource, recordId);
+  }
+  const document = record.documentUrl ? await findRecordDocument(recordId) : null;
+  if (!document) {
+    throw new NotFoundError('Document');
   }
+  return document;
+}
+
+for (const route of RECORD_DOCUMENT_ROUTES) {
+  router.post(
+    route.path,
+    authenticate,
+    uploadLimiter,
+    validate(route.params, 'params'),
+    asyncHandler(async (req: Request, _res: Response, next: NextFunction) => {
+      // Check access before accepting the upload
+      await authorizePet(req.params['petId']!, req.user!.id, 'EDIT_RECORDS');
+      next();
+    }),
+    uploadDocument,
+    asyncHandler(async (req: Request, res: Response<ApiResponse<Vaccination | HealthRecord>>) => {
+      const pet = await authorizePet(req.params['petId']!, req.user!.id, 'EDIT_RECORDS');
+      const recordId = req.params[route.idParam]!;
+
+      if (!req.file) {
+        throw new ValidationError('No document file provided');
+      }
+      if (!(await route.find(pet.id, recordId))) {
+        throw new NotFoundError(route.resource, recordId);
+      }
+
+      await storeRecordDocument(req.file, recordId);
+      const documentUrl = `${config.publicUrl}${req.baseUrl}${req.path}`;
+      const record = await route.setDocumentUrl(pet.id, recordId, documentUrl, req.user!.id);
+      res.json({ success: true, data: record });
+    })
+  );
+
+  router.get(
+    route.path,
+    authenticate,
+    validate(route.params, 'params'),
+    asyncHandler(async (req: Request, res: Response) => {
+      const pet = await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
+      const recordId = req.params[route.idParam]!;
+      const document = await findAttachedDocument(route, pet.id, recordId);
+      const content = await readRecordDocument(document);
+      if (!content) {
+        throw new NotFoundError('Document');
+      }
+
+      res.setHeader('Content-Type', document.mimeType);
+      res.setHeader('Content-Disposition', `inline; filename="${pet.petportId}-${recordId}${document.extension}"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.send(content);
+    })
+  );
+
+  // Signed link for opening the document outside the app (new tab, download)
+  router.get(
+    `${route.path}/link`,
+    authenticate,
+    validate(route.params, 'params'),
+    asyncHandler(async (req: Request, res: Response<ApiResponse<{ url: string; expiresAt: string }>>) => {
+      const pet = await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
+      const document = await findAttachedDocument(route, pet.id, req.params[route.idParam]!);
+
+      const expiresAt = new Date(Date.now() + config.storage.signedUrlTtl * 1000).toISOString();
+      const url = await getRecordDocumentLink(document);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.json({ success: true, data: { url, expiresAt } });
+    })
+  );
+
+  router.delete(
+    route.path,
+    authenticate,
+    validate(route.params, 'params'),
+    asyncHandler(async (req: Request, res: Response<ApiResponse<Vaccination | HealthRecord>>) => {
+      const pet = await authorizePet(req.params['petId']!, req.user!.id, 'EDIT_RECORDS');
+      const recordId = req.params[route.idParam]!;
+      const record = await route.find(pet.id, recordId);
+      if (!record) {
+        throw new NotFoundError(route.resource, recordId);
+      }
+
+      await deleteRecordDocument(recordId);
+      const updated = record.documentUrl ? await route.setDocumentUrl(pet.id, recordId, null, req.user!.id) : record;
+      res.json({ success: true, data: updated });
+    })
+  );
+}
+
+// Record history (edits and deletions of vaccinations and health records)
+router.get(
+  '/:petId/history',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<{ entries: PetAuditLogEntry[]; total: number }>>) => {
+    await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    const entries = await getPetAuditLogs(req.params['petId']!);
+    res.json({ success: true, data: { entries, total: entries.length } });
+  })
+);
+
+// Compliance - species core vaccines, or a named facility profile (?profile=boarding&asOf=2025-06-01)
+router.get(
+  '/:petId/compliance',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  validate(complianceQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<ComplianceReport>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
+    const vaccinations = await getVaccinationsByPet(pet.id);
+    const { profile: slug, asOf } = req.query as z.infer<typeof complianceQuerySchema>;
+    const asOfDate = asOf ? new Date(asOf) : undefined;
+
+    if (!slug) {
+      res.json({ success: true, data: evaluateCompliance(pet.species, vaccinations, { asOf: asOfDate }) });
+      return;
+    }
+
+    const profile = await getComplianceProfileBySlug(slug);
+    if (!profile || !profile.isActive) {
+      throw new NotFoundError('Compliance profile', slug);
+    }
+
+    res.json({ success: true, data: evaluateProfileCompliance(profile, pet.species, vaccinations, asOfDate) });
+  })
 );
 
 // Rabies Compliance
@@ -382,77 +963,295 @@ router.get(
   '/:petId/compliance/rabies',
   authenticate,
   validate(petIdParamSchema, 'params'),
-  (req: Request, res: Response<ApiResponse<RabiesCompliance>>) => {
-    verifyPetOwnership(req.params['petId']!, req.user!.id);
-    const vaccinations = getVaccinationsByPet(req.params['petId']!);
-    const rabiesVax = vaccinations
-      .filter((v) => v.type === 'RABIES')
-      .sort((a, b) => new Date(b.administeredAt).getTime() - new Date(a.administeredAt).getTime())[0];
-
-    if (!rabiesVax) {
-      res.json({
-        success: true,
-        data: {
-          isCompliant: false,
-          vaccination: null,
-          expiresAt: null,
-          daysUntilExpiry: null,
-          message: 'No rabies vaccination on record',
-        },
-      });
-      return;
+  asyncHandler(async (req: Request, res: Response<ApiResponse<RabiesCompliance>>) => {
+    await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
+    const vaccinations = await getVaccinationsByPet(req.params['petId']!);
+    res.json({ success: true, data: evaluateVaccine(vaccinations, 'RABIES') });
+  })
+);
+
+// Lost-pet mode
+router.post(
+  '/:petId/lost',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  validate(reportLostSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<Pet>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    const updated = await setPetLostStatus(pet.id, req.user!.id, true, req.body.message || null);
+    res.json({ success: true, data: updated! });
+  })
+);
+
+router.post(
+  '/:petId/found',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<Pet>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    const updated = await setPetLostStatus(pet.id, req.user!.id, false);
+    res.json({ success: true, data: updated! });
+  })
+);
+
+// Messages relayed from finders via the public profile
+router.get(
+  '/:petId/finder-messages',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<{ messages: FinderMessage[]; total: number; unread: number }>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    const messages = await getFinderMessagesByPet(pet.id);
+    const unread = messages.filter((m) => !m.isRead).length;
+    res.json({ success: true, data: { messages, total: messages.length, unread } });
+  })
+);
+
+router.post(
+  '/:petId/finder-messages/read',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    await markFinderMessagesRead(pet.id);
+    res.json({ success: true, data: { message: 'Messages marked as read' } });
+  })
+);
+
+// Scan history - public verify lookups of this pet's tag
+router.get(
+  '/:petId/scans',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  validate(paginationSchema, 'query'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<{ scans: ScanEvent[]; total: number; page: number; limit: number }>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    const { page, limit } = req.query as unknown as z.infer<typeof paginationSchema>;
+    const scans = await getScanEventsByPet(pet.id, limit, (page - 1) * limit);
+    res.json({ success: true, data: { scans, total: await countScanEventsByPet(pet.id), page, limit } });
+  })
+);
+
+// Ownership transfer - the owner offers the pet, the recipient accepts under /transfers
+router.get(
+  '/:petId/transfer',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<PetTransfer | null>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'TRANSFER');
+    res.json({ success: true, data: (await getPendingPetTransfer(pet.id)) ?? null });
+  })
+);
+
+router.post(
+  '/:petId/transfer',
+  authenticate,
+  requireVerifiedEmail,
+  validate(petIdParamSchema, 'params'),
+  validate(transferSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<PetTransfer>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'TRANSFER');
+    const { email } = req.body as z.infer<typeof transferSchema>;
+
+    if (req.user!.email.toLowerCase() === email) {
+      throw new ValidationError('You already own this pet');
+    }
+    if (await getPendingPetTransfer(pet.id)) {
+      throw new ConflictError('A transfer is already pending for this pet. Cancel it first.');
     }
 
-    const now = new Date();
-    
-    // Calculate expiry date: use explicit expiry or default to 1 year from administration
-    let expiresAt: Date;
-    let usingDefaultExpiry = false;
-    if (rabiesVax.expiresAt) {
-      expiresAt = new Date(rabiesVax.expiresAt);
-    } else {
-      // Default: 1 year from administration date (veterinary standard)
-      expiresAt = new Date(rabiesVax.administeredAt);
-      expiresAt.setDate(expiresAt.getDate() + DEFAULT_VACCINATION_VALIDITY_DAYS);
-      usingDefaultExpiry = true;
+    const transfer = await createPetTransfer(pet.id, req.user!.id, email);
+    res.status(201).json({ success: true, data: transfer });
+  })
+);
+
+router.delete(
+  '/:petId/transfer',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'TRANSFER');
+    const transfer = await getPendingPetTransfer(pet.id);
+    if (!transfer) {
+      throw new NotFoundError('Transfer');
     }
-    
-    const isExpired = expiresAt < now;
-    const daysUntilExpiry = daysBetween(now, expiresAt);
+
+    await closePetTransfer(transfer, 'CANCELLED', req.user!.id);
+    res.json({ success: true, data: { message: 'Transfer cancelled' } });
+  })
+);
+
+// Members - co-owners, caretakers and vets
+router.get(
+  '/:petId/members',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<{
+    owner: { userId: string; name: string };
+    members: PetMember[];
+    myRole: PetMemberRole;
+  }>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
+    const owner = await userStore.get(pet.ownerId);
+    const canManage = PET_ROLE_PERMISSIONS[(await getPetRole(pet, req.user!.id))!].includes('MANAGE_MEMBERS');
+    // Pending invitations are only visible to those who can manage them
+    const members = (await getPetMembers(pet.id)).filter((m) => canManage || m.status === 'ACTIVE');
 
     res.json({
       success: true,
       data: {
-        isCompliant: !isExpired,
-        vaccination: rabiesVax,
-        expiresAt: expiresAt.toISOString(),
-        daysUntilExpiry,
-        message: isExpired
-          ? 'Rabies vaccination has expired'
-          : daysUntilExpiry <= 30
-          ? `Rabies vaccination expires in ${daysUntilExpiry} days${usingDefaultExpiry ? ' (default 1-year validity)' : ''}`
-          : `Rabies vaccination is current${usingDefaultExpiry ? ' (default 1-year validity applied)' : ''}`,
+        owner: { userId: pet.ownerId, name: owner?.name ?? 'Unknown' },
+        members,
+        myRole: (await getPetRole(pet, req.user!.id))!,
       },
     });
-  }
+  })
 );
 
+router.post(
+  '/:petId/members',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  validate(inviteMemberSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<PetMember>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE_MEMBERS');
+    const { email, role } = req.body as z.infer<typeof inviteMemberSchema>;
+
+    if ((await userStore.get(pet.ownerId))?.email.toLowerCase() === email) {
+      throw new ValidationError('The owner already has full access to this pet');
+    }
+    if (await getPetMemberByEmail(pet.id, email)) {
+      throw new ConflictError('This person has already been invited to this pet');
+    }
+
+    const member = await createPetMemberInvite(pet.id, email, role, req.user!.id);
+
+    // The invitation is also listed on the invitee's dashboard, so a failed send must not fail the invite
+    try {
+      await sendEmail(email, 'petInvitation', {
+        inviterName: (await userStore.get(req.user!.id))?.name ?? 'A PetPort user',
+        petName: pet.name,
+        role,
+        acceptUrl: `${config.appUrl}/dashboard`,
+      });
+    } catch (error) {
+      logger.error({ msg: 'Failed to send invitation email', memberId: member.id, error: (error as Error).message });
+    }
+
+    res.status(201).json({ success: true, data: member });
+  })
+);
+
+router.patch(
+  '/:petId/members/:memberId',
+  authenticate,
+  validate(memberIdParamSchema, 'params'),
+  validate(updateMemberSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<PetMember>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE_MEMBERS');
+    const member = await getPetMember(pet.id, req.params['memberId']!);
+    if (!member) {
+      throw new NotFoundError('Member', req.params['memberId']);
+    }
+
+    await updatePetMemberRole(member, req.body.role, req.user!.id);
+    res.json({ success: true, data: (await getPetMember(pet.id, member.id))! });
+  })
+);
+
+// Remove a member or cancel an invitation; members may also remove themselves
+router.delete(
+  '/:petId/members/:memberId',
+  authenticate,
+  validate(memberIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
+    const member = await getPetMember(pet.id, req.params['memberId']!);
+    if (!member) {
+      throw new NotFoundError('Member', req.params['memberId']);
+    }
+    if (member.userId !== req.user!.id) {
+      await authorizePet(pet.id, req.user!.id, 'MANAGE_MEMBERS');
+    }
+
+    await deletePetMember(member, req.user!.id);
+    res.json({ success: true, data: { message: 'Member removed' } });
+  })
+);
+
+// Share links
+router.get(
+  '/:petId/shares',
+  authenticate,
+  validate(petIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<{ shares: PetShare[]; total: number }>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    const shares = await getActivePetShares(pet.id);
+    res.json({ success: true, data: { shares, total: shares.length } });
+  })
+);
+
+router.post(
+  '/:petId/shares',
+  authenticate,
+  requireVerifiedEmail,
+  validate(petIdParamSchema, 'params'),
+  validate(createShareSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<CreatedPetShare>>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+
+    if ((await getActivePetShares(pet.id)).length >= MAX_ACTIVE_SHARES_PER_PET) {
+      throw new ValidationError(`Maximum ${MAX_ACTIVE_SHARES_PER_PET} active share links allowed per pet`);
+    }
+
+    const { scope, expiresInDays, label } = req.body as z.infer<typeof createShareSchema>;
+    const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+
+    const share = await createPetShare({
+      petId: pet.id,
+      scope,
+      label: label || null,
+      expiresAt: expiresAt.toISOString(),
+      createdBy: req.user!.id,
+    });
+    res.status(201).json({ success: true, data: share });
+  })
+);
+
+router.delete(
+  '/:petId/shares/:shareId',
+  authenticate,
+  validate(shareIdParamSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    await authorizePet(req.params['petId']!, req.user!.id, 'MANAGE');
+    if (!(await revokePetShare(req.params['petId']!, req.params['shareId']!, req.user!.id))) {
+      throw new NotFoundError('Share link', req.params['shareId']);
+    }
+    res.json({ success: true, data: { message: 'Share link revoked' } });
+  })
+);
+
+// Rabies expiry embedded in signed QR tags
+async function getRabiesExpiry(pet: Pet): Promise<string | null> {
+  return evaluateVaccine(await getVaccinationsByPet(pet.id), 'RABIES').expiresAt;
+}
+
 // QR Code - Basic data
 router.get(
   '/:petId/qr',
   authenticate,
   validate(petIdParamSchema, 'params'),
-  (req: Request, res: Response<ApiResponse>) => {
-    const pet = verifyPetOwnership(req.params['petId']!, req.user!.id);
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
     res.json({
       success: true,
       data: {
         petportId: pet.petportId,
         verifyUrl: `https://petport.app/verify/${pet.petportId}`,
-        qrData: JSON.stringify({ petportId: pet.petportId, v: 1 }),
+        qrData: getQRPayload(pet.petportId, await getRabiesExpiry(pet)),
       },
     });
-  }
+  })
 );
 
 // QR Code - Image (data URL + SVG)
@@ -461,8 +1260,8 @@ router.get(
   authenticate,
   validate(petIdParamSchema, 'params'),
   asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
-    const pet = verifyPetOwnership(req.params['petId']!, req.user!.id);
-    const qrData = await generateQRCode(pet.petportId);
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
+    const qrData = await generateQRCode(pet.petportId, await getRabiesExpiry(pet));
     res.json({ success: true, data: qrData });
   })
 );
@@ -473,8 +1272,8 @@ router.get(
   authenticate,
   validate(petIdParamSchema, 'params'),
   asyncHandler(async (req: Request, res: Response) => {
-    const pet = verifyPetOwnership(req.params['petId']!, req.user!.id);
-    const buffer = await generateQRCodeBuffer(pet.petportId);
+    const pet = await authorizePet(req.params['petId']!, req.user!.id, 'VIEW');
+    const buffer = await generateQRCodeBuffer(pet.petportId, await getRabiesExpiry(pet));
     res.setHeader('Content-Type', 'image/png');
     res.setHeader('Content-Disposition', `attachment; filename="${pet.petportId}-qr.png"`);
     res.send(buffer);
@@ -487,14 +1286,16 @@ router.get(
   authenticate,
   validate(petIdParamSchema, 'params'),
   asyncHandler(async (req: Request, res: Response) => {
-    const pet = verifyPetOwnership(req.params['petId']!, req.user!.id);
-    const owner = userStore.get(pet.ownerId);
-    const vaccinations = getVaccinationsByPet(pet.id);
+    const pet = await refreshVerificationLevel(await authorizePet(req.params['petId']!, req.user!.id, 'VIEW'));
+    const owner = await userStore.get(pet.ownerId);
+    const vaccinations = await getVaccinationsByPet(pet.id);
     
     const pdfBuffer = await generatePassportPDF({
       pet,
       owner: { name: owner?.name ?? 'Unknown', email: owner?.email ?? '' },
       vaccinations,
+      attestations: await getVaccinationAttestations(vaccinations),
+      compliance: evaluateCompliance(pet.species, vaccinations),
       generatedAt: new Date().toISOString(),
     });
     
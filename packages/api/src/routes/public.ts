@@ -1,9 +1,29 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { ApiResponse, Pet, NotFoundError, DEFAULT_VACCINATION_VALIDITY_DAYS } from '@petport/shared';
+import { ApiResponse, NotFoundError, ValidationError, AuthorizationError, VaccinationType, VaccinationAttestation, SharedPetView, QrVerifyingKey, PhotoVariants, SHARE_SCOPES } from '@petport/shared';
 import { validate } from '../middleware/validation.js';
-import { standardLimiter } from '../middleware/rateLimiter.js';
-import { getPetByPetportId, getVaccinationsByPet, userStore } from '../services/database.js';
+import { standardLimiter, finderContactLimiter } from '../middleware/rateLimiter.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import {
+  getPetByPetportId,
+  getVaccinationsByPet,
+  getHealthRecordsByPet,
+  getActivePet,
+  getValidPetShareByToken,
+  recordPetShareAccess,
+  createScanEvent,
+  getScanEvent,
+  setScanEventLocation,
+  getVaccinationAttestations,
+  getPetPhotos,
+  userStore,
+} from '../services/database.js';
+import { refreshVerificationLevel } from '../services/verificationService.js';
+import { describeDevice } from '../services/userAgent.js';
+import { evaluateCompliance, evaluateVaccine } from '../services/complianceService.js';
+import { getVerifyingKeys } from '../services/qrSigning.js';
+import { relayFinderMessage } from '../services/finderRelay.js';
+import { getStorage, verifyLocalSignature } from '../services/storage.js';
 
 const router = Router();
 
@@ -11,68 +31,267 @@ const verifyParamsSchema = z.object({
   petportId: z.string().regex(/^PP-[A-Z0-9]{4}-[A-Z0-9]{4}$/, 'Invalid PetPort ID format'),
 });
 
+// Finders can attach their location to a scan shortly after it happens
+const SCAN_LOCATION_WINDOW_MS = 60 * 60 * 1000;
+
 interface PublicPetInfo {
+  // Lets the viewer attach a location to this lookup
+  scanId: string;
   petportId: string;
   name: string;
   species: string;
   breed: string | null;
   photoUrl: string | null;
+  // Whole gallery in display order, so finders can match distinguishing marks
+  photos: PhotoVariants[];
   verificationLevel: string;
   ownerName: string;
+  lost: {
+    isLost: boolean;
+    since: string | null;
+    message: string | null;
+  };
   rabiesStatus: {
     isCompliant: boolean;
     expiresAt: string | null;
   };
+  // Status only - vaccination details (batch numbers, clinics) stay private
+  compliance: {
+    isCompliant: boolean;
+    requirements: {
+      type: VaccinationType;
+      isCompliant: boolean;
+      expiresAt: string | null;
+      // Vet sign-off on the record backing this requirement, if any
+      attestation: VaccinationAttestation | null;
+    }[];
+  };
 }
 
 router.get(
   '/verify/:petportId',
   standardLimiter,
   validate(verifyParamsSchema, 'params'),
-  (req: Request, res: Response<ApiResponse<PublicPetInfo>>) => {
-    const pet = getPetByPetportId(req.params['petportId']!);
-    if (!pet) {
+  asyncHandler(async (req: Request, res: Response<ApiResponse<PublicPetInfo>>) => {
+    const found = await getPetByPetportId(req.params['petportId']!);
+    if (!found) {
       throw new NotFoundError('Pet', req.params['petportId']);
     }
 
-    const owner = userStore.get(pet.ownerId);
-    const vaccinations = getVaccinationsByPet(pet.id);
-    const rabiesVax = vaccinations
-      .filter((v) => v.type === 'RABIES')
-      .sort((a, b) => new Date(b.administeredAt).getTime() - new Date(a.administeredAt).getTime())[0];
-
-    const now = new Date();
-    let isRabiesCompliant = false;
-    let rabiesExpiryDate: Date | null = null;
-    
-    if (rabiesVax) {
-      // Calculate expiry: use explicit or default to 1 year from administration
-      if (rabiesVax.expiresAt) {
-        rabiesExpiryDate = new Date(rabiesVax.expiresAt);
-      } else {
-        rabiesExpiryDate = new Date(rabiesVax.administeredAt);
-        rabiesExpiryDate.setDate(rabiesExpiryDate.getDate() + DEFAULT_VACCINATION_VALIDITY_DAYS);
-      }
-      isRabiesCompliant = rabiesExpiryDate >= now;
-    }
+    const pet = await refreshVerificationLevel(found);
+    const scan = await createScanEvent(pet.id, describeDevice(req.headers['user-agent']));
+    const owner = await userStore.get(pet.ownerId);
+    const vaccinations = await getVaccinationsByPet(pet.id);
+    const rabies = evaluateVaccine(vaccinations, 'RABIES');
+    const compliance = evaluateCompliance(pet.species, vaccinations);
+    const attestations = await getVaccinationAttestations(vaccinations);
+    const photos = await getPetPhotos(pet.id);
 
     res.json({
       success: true,
       data: {
+        scanId: scan.id,
         petportId: pet.petportId,
         name: pet.name,
         species: pet.species,
         breed: pet.breed,
         photoUrl: pet.photoUrl,
+        photos: photos.map((photo) => photo.variants),
         verificationLevel: pet.verificationLevel,
         ownerName: owner?.name?.split(' ')[0] ?? 'Unknown', // First name only for privacy
+        lost: {
+          isLost: pet.isLost,
+          since: pet.lostAt,
+          message: pet.lostMessage,
+        },
         rabiesStatus: {
-          isCompliant: isRabiesCompliant,
-          expiresAt: rabiesExpiryDate?.toISOString() ?? null,
+          isCompliant: rabies.isCompliant,
+          expiresAt: rabies.expiresAt,
+        },
+        compliance: {
+          isCompliant: compliance.isCompliant,
+          requirements: compliance.requirements.map(({ type, isCompliant, expiresAt, vaccination }) => ({
+            type,
+            isCompliant,
+            expiresAt,
+            attestation: (vaccination && attestations[vaccination.id]) ?? null,
+          })),
         },
       },
     });
+  })
+);
+
+const scanLocationParamsSchema = verifyParamsSchema.extend({
+  scanId: z.string().min(1),
+});
+
+const scanLocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+// Finder-shared geolocation for a recent scan (set once)
+router.post(
+  '/verify/:petportId/scans/:scanId/location',
+  standardLimiter,
+  validate(scanLocationParamsSchema, 'params'),
+  validate(scanLocationSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const pet = await getPetByPetportId(req.params['petportId']!);
+    const scan = pet ? await getScanEvent(pet.id, req.params['scanId']!) : undefined;
+    if (!scan) {
+      throw new NotFoundError('Scan', req.params['scanId']);
+    }
+    if (scan.latitude !== null || Date.now() - new Date(scan.createdAt).getTime() > SCAN_LOCATION_WINDOW_MS) {
+      throw new ValidationError('Location can no longer be added to this scan');
+    }
+
+    await setScanEventLocation(scan.id, req.body.latitude, req.body.longitude);
+    res.json({ success: true, data: { message: 'Location shared with the owner' } });
+  })
+);
+
+const finderContactSchema = z
+  .object({
+    message: z.string().trim().min(1, 'Message is required').max(1000),
+    contactInfo: z.string().trim().max(200).optional().nullable(),
+    latitude: z.number().min(-90).max(90).optional().nullable(),
+    longitude: z.number().min(-180).max(180).optional().nullable(),
+    locationText: z.string().trim().max(200).optional().nullable(),
+  })
+  .refine((data) => (data.latitude == null) === (data.longitude == null), {
+    message: 'Latitude and longitude must be provided together',
+    path: ['latitude'],
+  });
+
+// Finder contact relay - the owner's email and phone are never returned
+router.post(
+  '/verify/:petportId/contact',
+  finderContactLimiter,
+  validate(verifyParamsSchema, 'params'),
+  validate(finderContactSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse>) => {
+    const pet = await getPetByPetportId(req.params['petportId']!);
+    if (!pet) {
+      throw new NotFoundError('Pet', req.params['petportId']);
+    }
+    if (!pet.isLost) {
+      throw new ValidationError('This pet has not been reported lost');
+    }
+
+    const data = req.body as z.infer<typeof finderContactSchema>;
+    await relayFinderMessage(pet, {
+      message: data.message,
+      contactInfo: data.contactInfo || null,
+      latitude: data.latitude ?? null,
+      longitude: data.longitude ?? null,
+      locationText: data.locationText || null,
+      ipAddress: req.ip || null,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { message: 'Your message has been sent to the owner. Thank you for helping!' },
+    });
+  })
+);
+
+// Public keys for checking signed QR tags offline. Safe to cache.
+router.get(
+  '/keys',
+  standardLimiter,
+  (_req: Request, res: Response<ApiResponse<{ keys: QrVerifyingKey[] }>>) => {
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    res.json({ success: true, data: { keys: getVerifyingKeys() } });
   }
 );
 
+const shareParamsSchema = z.object({
+  token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid share token'),
+});
+
+// Scoped view of a pet through an owner-issued share link
+router.get(
+  '/share/:token',
+  standardLimiter,
+  validate(shareParamsSchema, 'params'),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<SharedPetView>>) => {
+    const share = await getValidPetShareByToken(req.params['token']!);
+    const pet = share ? await getActivePet(share.petId) : undefined;
+    if (!share || !pet) {
+      // Same response for unknown, expired and revoked links
+      throw new NotFoundError('Share link');
+    }
+
+    await recordPetShareAccess(share.id);
+
+    const owner = await userStore.get(pet.ownerId);
+    const scopeLevel = SHARE_SCOPES.indexOf(share.scope);
+    const view: SharedPetView = {
+      scope: share.scope,
+      expiresAt: share.expiresAt,
+      pet: {
+        petportId: pet.petportId,
+        name: pet.name,
+        species: pet.species,
+        breed: pet.breed,
+        sex: pet.sex,
+        dateOfBirth: pet.dateOfBirth,
+        color: pet.color,
+        microchipId: pet.microchipId,
+        photoUrl: pet.photoUrl,
+        verificationLevel: pet.verificationLevel,
+      },
+      ownerName: owner?.name?.split(' ')[0] ?? 'Unknown',
+    };
+
+    if (scopeLevel >= SHARE_SCOPES.indexOf('VACCINATIONS')) {
+      view.vaccinations = await getVaccinationsByPet(pet.id);
+      view.compliance = evaluateCompliance(pet.species, view.vaccinations);
+    }
+    if (scopeLevel >= SHARE_SCOPES.indexOf('HEALTH')) {
+      view.healthRecords = await getHealthRecordsByPet(pet.id);
+    }
+
+    res.json({ success: true, data: view });
+  })
+);
+
+const signedFileParamsSchema = z.object({
+  area: z.literal('documents'),
+  key: z.string().min(1),
+});
+
+const signedFileQuerySchema = z.object({
+  expires: z.coerce.number().int(),
+  signature: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid signature'),
+});
+
+// Signed links to private files on local disk. With S3 storage the
+// links point at the bucket instead.
+router.get(
+  '/files/:area/:key',
+  standardLimiter,
+  validate(signedFileParamsSchema, 'params'),
+  validate(signedFileQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const key = req.params['key']!;
+    const expires = req.query['expires'] as unknown as number;
+    if (!verifyLocalSignature('documents', key, expires, req.query['signature'] as string)) {
+      throw new AuthorizationError('This link is invalid or has expired');
+    }
+
+    const object = await getStorage('documents').get(key);
+    if (!object) {
+      throw new NotFoundError('File');
+    }
+
+    res.setHeader('Content-Type', object.contentType);
+    res.setHeader('Content-Disposition', 'inline');
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.send(object.body);
+  })
+);
+
 export const publicRoutes = router;
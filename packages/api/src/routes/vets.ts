@@ -0,0 +1,36 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { ApiResponse, ClinicProfile } from '@petport/shared';
+import { validate } from '../middleware/validation.js';
+import { authenticate } from '../middleware/auth.js';
+import { requireVet } from '../middleware/authorization.js';
+import { asyncHandler } from '../middleware/asyncHandler.js';
+import { getClinicProfile, upsertClinicProfile } from '../services/database.js';
+
+const router = Router();
+
+// VET accounts are granted by an admin; these routes manage the vet's own practice details
+router.use(authenticate, requireVet);
+
+const clinicProfileSchema = z.object({
+  clinicName: z.string().trim().min(1, 'Clinic name is required').max(200),
+  licenseNumber: z.string().trim().min(1, 'Licence number is required').max(50),
+  licenseRegion: z.string().trim().max(100).optional().nullable(),
+  address: z.string().trim().max(500).optional().nullable(),
+  phone: z.string().trim().max(30).optional().nullable(),
+});
+
+router.get('/me/clinic', asyncHandler(async (req: Request, res: Response<ApiResponse<ClinicProfile | null>>) => {
+  res.json({ success: true, data: (await getClinicProfile(req.user!.id)) ?? null });
+}));
+
+router.put(
+  '/me/clinic',
+  validate(clinicProfileSchema),
+  asyncHandler(async (req: Request, res: Response<ApiResponse<ClinicProfile>>) => {
+    const profile = await upsertClinicProfile(req.user!.id, req.body);
+    res.json({ success: true, data: profile });
+  })
+);
+
+export const vetRoutes = router;
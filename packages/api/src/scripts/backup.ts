@@ -0,0 +1,73 @@
+/**
+ * List database backups and restore one.
+ *
+ * Usage (with the same DATA_DIR and storage settings as the API):
+ *   npm run db:backup -w @petport/api -- list
+ *   npm run db:backup -w @petport/api -- restore <key>
+ *   npm run db:backup -w @petport/api -- restore --at=2026-10-18T12:00:00Z
+ *
+ * --at picks the newest verified backup taken at or before that time.
+ * Stop the API before restoring: the running server keeps the database in
+ * memory and would overwrite the restored file. The replaced database is
+ * kept as petport.db.before-restore-<time>. Pending migrations are applied
+ * to the restored database when the API next starts.
+ */
+
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import { findBackupAt, listBackups, restoreBackup } from '../services/backupService.js';
+
+async function restore(args: string[]): Promise<void> {
+  const at = args.find((a) => a.startsWith('--at='))?.slice('--at='.length);
+  let key = args.find((a) => !a.startsWith('--'));
+
+  if (at) {
+    const time = new Date(at);
+    if (Number.isNaN(time.getTime())) {
+      throw new Error(`Invalid --at time: ${at}`);
+    }
+    const backup = await findBackupAt(time);
+    if (!backup) {
+      throw new Error(`No verified backup taken at or before ${time.toISOString()}`);
+    }
+    key = backup.key;
+  }
+  if (!key) {
+    throw new Error('Name the backup to restore, or pass --at=<time>');
+  }
+
+  const previous = await restoreBackup(key);
+  console.log(`Restored ${key}`);
+  if (previous) console.log(`Previous database kept at ${previous}`);
+}
+
+async function main(): Promise<void> {
+  const [command = 'list', ...args] = process.argv.slice(2);
+
+  if (config.database.type !== 'sqlite') {
+    throw new Error('Backups cover the SQLite database only - use PostgreSQL tooling with DATABASE_URL');
+  }
+
+  switch (command) {
+    case 'list': {
+      console.log('created at                 tier    status      schema  size        key');
+      for (const backup of await listBackups()) {
+        console.log(
+          `${backup.createdAt.padEnd(25)}  ${backup.tier.padEnd(6)}  ${backup.status.padEnd(10)}  ` +
+            `${String(backup.schemaVersion ?? '-').padStart(6)}  ${String(backup.size ?? '-').padStart(10)}  ${backup.key}`
+        );
+      }
+      break;
+    }
+    case 'restore':
+      await restore(args);
+      break;
+    default:
+      throw new Error(`Unknown command "${command}" - expected list or restore`);
+  }
+}
+
+main().catch((error) => {
+  logger.error({ msg: 'Backup command failed', error: (error as Error).message });
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+/**
+ * Measure SQLite insert latency as the pets table grows.
+ *
+ * Usage:
+ *   npm run db:benchmark -w @petport/api -- [--rows=20000] [--batch=2000]
+ *
+ * Runs against a throwaway database in the system temp directory, with the
+ * configured SQLITE_SNAPSHOT_INTERVAL. Each insert is awaited on its own, as
+ * a request would, so the timings include the journal fsync and any
+ * snapshot the insert had to wait for.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import { runMigrations } from '../services/migrations.js';
+import { createSqliteDriver } from '../services/sqlite.js';
+
+function getArg(name: string, defaultValue: number): number {
+  const arg = process.argv.slice(2).find((a) => a.startsWith(`--${name}=`));
+  const value = arg ? parseInt(arg.slice(name.length + 3), 10) : defaultValue;
+  return Number.isNaN(value) || value < 1 ? defaultValue : value;
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))]!;
+}
+
+async function main(): Promise<void> {
+  const rows = getArg('rows', 20000);
+  const batch = getArg('batch', 2000);
+
+  const dir = mkdtempSync(join(tmpdir(), 'petport-benchmark-'));
+  const db = await createSqliteDriver({
+    path: join(dir, 'petport.db'),
+    snapshotInterval: config.database.snapshotInterval ?? 5000,
+  });
+
+  try {
+    await runMigrations(db);
+    const now = new Date().toISOString();
+    await db.run(
+      `INSERT INTO users (id, email, password_hash, name, role, created_at, updated_at)
+       VALUES ('user_bench', 'bench@example.com', '-', 'Bench', 'USER', ?, ?)`,
+      [now, now]
+    );
+
+    console.log('pets      avg ms   p50 ms   p99 ms   max ms');
+    for (let inserted = 0; inserted < rows; ) {
+      const timings: number[] = [];
+      for (let i = 0; i < batch && inserted < rows; i++, inserted++) {
+        const start = process.hrtime.bigint();
+        await db.run(
+          `INSERT INTO pets (id, petport_id, owner_id, name, species, sex, verification_level, is_active, created_at, updated_at)
+           VALUES (?, ?, 'user_bench', ?, 'DOG', 'UNKNOWN', 'BASIC', 1, ?, ?)`,
+          [`pet_bench_${inserted}`, `PP-B${inserted}`, `Pet ${inserted}`, now, now]
+        );
+        timings.push(Number(process.hrtime.bigint() - start) / 1e6);
+      }
+
+      const sorted = [...timings].sort((a, b) => a - b);
+      const avg = timings.reduce((sum, t) => sum + t, 0) / timings.length;
+      console.log(
+        [inserted, avg, percentile(sorted, 0.5), percentile(sorted, 0.99), sorted[sorted.length - 1]!]
+          .map((value, index) => (index === 0 ? String(value) : value.toFixed(3)).padStart(index === 0 ? 6 : 9))
+          .join('')
+      );
+    }
+  } finally {
+    await db.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  logger.error({ msg: 'Benchmark failed', error: (error as Error).message });
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+/**
+ * Inspect and change the database schema version.
+ *
+ * Usage (against the configured DATABASE_URL or DATA_DIR database):
+ *   npm run db:migrate -w @petport/api -- status
+ *   npm run db:migrate -w @petport/api -- up [--to=<version>]
+ *   npm run db:migrate -w @petport/api -- down [--to=<version>]
+ *   npm run db:migrate -w @petport/api -- dry-run [up|down] [--to=<version>]
+ *
+ * `down` without --to rolls back the latest migration only. The API applies
+ * pending migrations when it starts, so roll back with the release that
+ * added the migration still checked out, then deploy the previous release -
+ * otherwise the next start applies it again.
+ */
+
+import { logger } from '../config/logger.js';
+import { connectDatabase } from '../services/db.js';
+import {
+  getMigrationStatus,
+  Migration,
+  rollbackMigrations,
+  runMigrations,
+  splitStatements,
+} from '../services/migrations.js';
+
+const COMMANDS = ['status', 'up', 'down', 'dry-run'];
+
+function getTarget(args: string[]): number | undefined {
+  const arg = args.find((a) => a.startsWith('--to='));
+  if (!arg) return undefined;
+  const value = parseInt(arg.slice('--to='.length), 10);
+  if (Number.isNaN(value) || value < 0) {
+    throw new Error(`Invalid --to version: ${arg.slice('--to='.length)}`);
+  }
+  return value;
+}
+
+function printMigrations(heading: string, migrations: Migration[], sql?: 'up' | 'down'): void {
+  if (migrations.length === 0) {
+    console.log('Nothing to do - the schema is already at the requested version');
+    return;
+  }
+  console.log(heading);
+  for (const migration of migrations) {
+    console.log(`  ${migration.version}  ${migration.name}`);
+    if (!sql) continue;
+    for (const statement of splitStatements(migration[sql])) {
+      console.log(`${statement.replace(/^/gm, '      ')};`);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const command = args[0] ?? 'status';
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`Unknown command "${command}" - expected one of ${COMMANDS.join(', ')}`);
+  }
+  const to = getTarget(args);
+
+  const db = await connectDatabase();
+  try {
+    switch (command) {
+      case 'status': {
+        console.log('version  state      applied at                 name');
+        for (const status of await getMigrationStatus(db)) {
+          console.log(
+            `${String(status.version).padStart(7)}  ${status.state.padEnd(9)}  ${(status.appliedAt ?? '-').padEnd(25)}  ${status.name}`
+          );
+        }
+        break;
+      }
+      case 'up':
+        printMigrations('Applied:', await runMigrations(db, { to }));
+        break;
+      case 'down':
+        printMigrations('Rolled back:', await rollbackMigrations(db, { to }));
+        break;
+      case 'dry-run': {
+        const options = { to, dryRun: true };
+        if (args[1] === 'down') {
+          printMigrations('Would roll back:', await rollbackMigrations(db, options), 'down');
+        } else {
+          printMigrations('Would apply:', await runMigrations(db, options), 'up');
+        }
+        break;
+      }
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch((error) => {
+  logger.error({ msg: 'Migration command failed', error: (error as Error).message });
+  process.exit(1);
+});
@@ -0,0 +1,78 @@
+/**
+ * Copy uploads and database backups from local disk into the configured
+ * object storage.
+ *
+ * Usage (with STORAGE_DRIVER=s3 and the S3_* variables set):
+ *   npm run storage:migrate -w @petport/api -- [--dry-run] [--delete-local]
+ *
+ * Stored photo and document URLs point at the API rather than the bucket,
+ * so no database changes are needed. Files already in the bucket are
+ * skipped, which makes the command safe to re-run.
+ */
+
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import { getLocalStorage, getStorage, StorageArea } from '../services/storage.js';
+
+const AREAS: StorageArea[] = ['uploads', 'documents', 'backups'];
+
+interface MigrationSummary {
+  copied: number;
+  skipped: number;
+  deleted: number;
+  failed: number;
+}
+
+async function migrateArea(area: StorageArea, dryRun: boolean, deleteLocal: boolean): Promise<MigrationSummary> {
+  const source = getLocalStorage(area);
+  const target = getStorage(area);
+  const summary: MigrationSummary = { copied: 0, skipped: 0, deleted: 0, failed: 0 };
+
+  for (const key of await source.list()) {
+    try {
+      if (await target.exists(key)) {
+        summary.skipped++;
+      } else {
+        const object = await source.get(key);
+        if (!object) continue;
+        if (!dryRun) await target.put(key, object.body, object.contentType);
+        summary.copied++;
+      }
+
+      if (deleteLocal && !dryRun) {
+        await source.delete(key);
+        summary.deleted++;
+      }
+    } catch (error) {
+      summary.failed++;
+      logger.error({ msg: 'Failed to migrate file', area, key, error: (error as Error).message });
+    }
+  }
+
+  return summary;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const deleteLocal = args.includes('--delete-local');
+
+  if (config.storage.driver === 'local') {
+    logger.error('STORAGE_DRIVER is local - configure S3 storage before migrating');
+    process.exit(1);
+  }
+
+  let failed = 0;
+  for (const area of AREAS) {
+    const summary = await migrateArea(area, dryRun, deleteLocal);
+    failed += summary.failed;
+    logger.info({ msg: dryRun ? 'Dry run' : 'Migrated', area, ...summary });
+  }
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  logger.error({ msg: 'Storage migration failed', error: (error as Error).message });
+  process.exit(1);
+});
@@ -0,0 +1,364 @@
+/**
+ * Scheduled backups of the SQLite database.
+ *
+ * Each backup is a complete database file in the `backups` storage area,
+ * next to a `.json` manifest written once the stored copy has been read
+ * back, checked against its sha256 and opened with `PRAGMA integrity_check`.
+ * A backup without a manifest was never verified.
+ *
+ * The first backup in any seven days is kept as a weekly one. Retention
+ * keeps the newest BACKUP_KEEP_DAILY daily and BACKUP_KEEP_WEEKLY weekly
+ * backups. PostgreSQL deployments are backed up with their own tooling.
+ *
+ * Restores replace the database file and must run with the API stopped
+ * (see scripts/backup.ts).
+ *
+ * @module backupService
+ */
+
+import { createHash } from 'crypto';
+import { copyFileSync, existsSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import initSqlJs, { SqlJsStatic } from 'sql.js';
+import { NotFoundError } from '@petport/shared';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import { DatabaseDriver, getDb, isDbInitialized } from './db.js';
+import { createSqliteDriver, writeDatabaseFile } from './sqlite.js';
+import { getStorage, StorageBackend } from './storage.js';
+
+export type BackupTier = 'daily' | 'weekly';
+
+export interface BackupInfo {
+  key: string;
+  tier: BackupTier;
+  createdAt: string;
+  status: 'verified' | 'unverified';
+  // From the manifest - null for unverified backups
+  size: number | null;
+  sha256: string | null;
+  schemaVersion: number | null;
+  verifiedAt: string | null;
+}
+
+export interface BackupStatus {
+  // disabled: turned off, or the database is PostgreSQL
+  // stale: no successful backup within two intervals
+  state: 'healthy' | 'stale' | 'failing' | 'disabled';
+  intervalHours: number;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastBackupKey: string | null;
+  lastError: string | null;
+  nextRunAt: string | null;
+}
+
+interface BackupManifest {
+  size: number;
+  sha256: string;
+  schemaVersion: number;
+  verifiedAt: string;
+}
+
+// petport-daily-20261019T185300.123Z.db
+const BACKUP_KEY = /^petport-(daily|weekly)-(\d{8}T\d{6}\.\d{3}Z)\.db$/;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// Let the server finish starting before the first backup
+const STARTUP_DELAY_MS = 60 * 1000;
+
+const status: Omit<BackupStatus, 'state' | 'intervalHours'> = {
+  lastRunAt: null,
+  lastSuccessAt: null,
+  lastBackupKey: null,
+  lastError: null,
+  nextRunAt: null,
+};
+
+let timer: NodeJS.Timeout | null = null;
+let running: Promise<BackupInfo | null> | null = null;
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+function backupKey(tier: BackupTier, date: Date): string {
+  return `petport-${tier}-${date.toISOString().replace(/[-:]/g, '')}.db`;
+}
+
+function parseKey(key: string): { tier: BackupTier; createdAt: string } | null {
+  const match = BACKUP_KEY.exec(key);
+  if (!match) return null;
+  const stamp = match[2]!;
+  const createdAt = `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T` +
+    `${stamp.slice(9, 11)}:${stamp.slice(11, 13)}:${stamp.slice(13)}`;
+  return { tier: match[1] as BackupTier, createdAt };
+}
+
+function sha256(body: Buffer): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+/**
+ * Open a database file and check it is an intact PetPort database.
+ * Returns its schema version; throws if the file is unusable.
+ */
+export async function verifyBackup(body: Buffer): Promise<number> {
+  sqlJs ??= initSqlJs();
+  const database = new (await sqlJs).Database(body);
+  try {
+    const [integrity] = database.exec('PRAGMA integrity_check');
+    const result = integrity?.values.map((row) => String(row[0])).join('; ');
+    if (result !== 'ok') {
+      throw new Error(`Integrity check failed: ${result ?? 'no result'}`);
+    }
+    const [version] = database.exec('SELECT MAX(version) FROM migrations');
+    return Number(version?.values[0]?.[0] ?? 0);
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * Stored backups, newest first
+ */
+export async function listBackups(storage: StorageBackend = getStorage('backups')): Promise<BackupInfo[]> {
+  const keys = await storage.list();
+  const backups: BackupInfo[] = [];
+
+  for (const key of keys) {
+    const parsed = parseKey(key);
+    if (!parsed) continue;
+
+    let manifest: BackupManifest | null = null;
+    const object = keys.includes(`${key}.json`) ? await storage.get(`${key}.json`) : null;
+    if (object) {
+      try {
+        manifest = JSON.parse(object.body.toString('utf8')) as BackupManifest;
+      } catch {
+        logger.warn({ msg: 'Ignoring unreadable backup manifest', key });
+      }
+    }
+
+    backups.push({
+      key,
+      ...parsed,
+      status: manifest ? 'verified' : 'unverified',
+      size: manifest?.size ?? null,
+      sha256: manifest?.sha256 ?? null,
+      schemaVersion: manifest?.schemaVersion ?? null,
+      verifiedAt: manifest?.verifiedAt ?? null,
+    });
+  }
+
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Back the database up to storage and verify the stored copy. A backup
+ * that fails verification is deleted and the error thrown.
+ */
+export async function createBackup(
+  db: DatabaseDriver = getDb(),
+  storage: StorageBackend = getStorage('backups'),
+  now: Date = new Date()
+): Promise<BackupInfo> {
+  if (!db.exportSnapshot) {
+    throw new Error(`Backups are not supported for the ${db.type} driver`);
+  }
+
+  const existing = await listBackups(storage);
+  const weeklyDue = !existing.some(
+    (backup) => backup.tier === 'weekly' && now.getTime() - Date.parse(backup.createdAt) < WEEK_MS
+  );
+  const tier: BackupTier = weeklyDue ? 'weekly' : 'daily';
+  const key = backupKey(tier, now);
+
+  const body = await db.exportSnapshot();
+  const checksum = sha256(body);
+  await storage.put(key, body, 'application/vnd.sqlite3');
+
+  try {
+    const stored = await storage.get(key);
+    if (!stored || sha256(stored.body) !== checksum) {
+      throw new Error('Stored backup does not match the database snapshot');
+    }
+    const manifest: BackupManifest = {
+      size: body.length,
+      sha256: checksum,
+      schemaVersion: await verifyBackup(stored.body),
+      verifiedAt: new Date().toISOString(),
+    };
+    await storage.put(`${key}.json`, Buffer.from(JSON.stringify(manifest)), 'application/json');
+
+    logger.info({ msg: 'Database backup created', key, size: body.length });
+    return { key, tier, createdAt: now.toISOString(), status: 'verified', ...manifest };
+  } catch (error) {
+    await storage.delete(key);
+    throw error;
+  }
+}
+
+/**
+ * Delete backups beyond the retention limits. Returns the deleted keys.
+ */
+export async function pruneBackups(
+  storage: StorageBackend = getStorage('backups'),
+  keep: { daily: number; weekly: number } = { daily: config.backup.keepDaily, weekly: config.backup.keepWeekly }
+): Promise<string[]> {
+  const backups = await listBackups(storage);
+  const expired = [
+    ...backups.filter((backup) => backup.tier === 'daily').slice(keep.daily),
+    ...backups.filter((backup) => backup.tier === 'weekly').slice(keep.weekly),
+  ];
+
+  for (const backup of expired) {
+    await storage.delete(backup.key);
+    await storage.delete(`${backup.key}.json`);
+  }
+  if (expired.length > 0) {
+    logger.info({ msg: 'Pruned database backups', count: expired.length });
+  }
+  return expired.map((backup) => backup.key);
+}
+
+/**
+ * Create a backup and apply retention, recording the outcome for
+ * getBackupStatus. Never throws - failures are logged and reported.
+ * Concurrent calls share the run in progress.
+ */
+export function runBackup(): Promise<BackupInfo | null> {
+  running ??= (async () => {
+    status.lastRunAt = new Date().toISOString();
+    try {
+      const backup = await createBackup();
+      await pruneBackups();
+      status.lastSuccessAt = backup.createdAt;
+      status.lastBackupKey = backup.key;
+      status.lastError = null;
+      return backup;
+    } catch (error) {
+      status.lastError = (error as Error).message;
+      logger.error({ msg: 'Database backup failed', error: status.lastError });
+      return null;
+    } finally {
+      running = null;
+    }
+  })();
+  return running;
+}
+
+/**
+ * Whether the database can be backed up here - PostgreSQL is backed up
+ * with its own tooling
+ */
+export function isBackupSupported(): boolean {
+  return config.database.type === 'sqlite' && (!isDbInitialized() || !!getDb().exportSnapshot);
+}
+
+function scheduleNext(delay: number): void {
+  status.nextRunAt = new Date(Date.now() + delay).toISOString();
+  timer = setTimeout(() => {
+    timer = null;
+    runBackup().finally(() => {
+      if (status.nextRunAt) scheduleNext(config.backup.intervalHours * 60 * 60 * 1000);
+    });
+  }, delay);
+  timer.unref();
+}
+
+/**
+ * Start taking backups every BACKUP_INTERVAL_HOURS, picking up from the
+ * newest stored backup so restarts do not reset the schedule
+ */
+export async function startBackupSchedule(): Promise<void> {
+  if (timer || !config.backup.enabled) return;
+  if (!isBackupSupported()) {
+    logger.info('Scheduled backups only cover SQLite - back PostgreSQL up with its own tooling');
+    return;
+  }
+
+  const interval = config.backup.intervalHours * 60 * 60 * 1000;
+  let delay = STARTUP_DELAY_MS;
+  try {
+    const [latest] = await listBackups();
+    if (latest) {
+      status.lastSuccessAt = latest.createdAt;
+      status.lastBackupKey = latest.key;
+      delay = Math.max(delay, Date.parse(latest.createdAt) + interval - Date.now());
+    }
+  } catch (error) {
+    logger.warn({ msg: 'Could not list existing backups', error: (error as Error).message });
+  }
+
+  scheduleNext(delay);
+  logger.info({ msg: 'Backup schedule started', nextRunAt: status.nextRunAt });
+}
+
+export function stopBackupSchedule(): void {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  status.nextRunAt = null;
+}
+
+export function getBackupStatus(): BackupStatus {
+  const intervalHours = config.backup.intervalHours;
+  let state: BackupStatus['state'] = 'healthy';
+  if (!config.backup.enabled || !isBackupSupported()) {
+    state = 'disabled';
+  } else if (status.lastError) {
+    state = 'failing';
+  } else if (
+    !status.lastSuccessAt ||
+    Date.now() - Date.parse(status.lastSuccessAt) > 2 * intervalHours * 60 * 60 * 1000
+  ) {
+    state = 'stale';
+  }
+  return { state, intervalHours, ...status };
+}
+
+/**
+ * The newest verified backup taken at or before a point in time
+ */
+export async function findBackupAt(
+  time: Date,
+  storage: StorageBackend = getStorage('backups')
+): Promise<BackupInfo | undefined> {
+  return (await listBackups(storage)).find(
+    (backup) => backup.status === 'verified' && Date.parse(backup.createdAt) <= time.getTime()
+  );
+}
+
+/**
+ * Replace the SQLite database file with a backup. The API must not be
+ * running. The current database (with its journal applied) is kept next to
+ * it as `petport.db.before-restore-<time>`; that path is returned.
+ */
+export async function restoreBackup(
+  key: string,
+  path: string = join(config.dataDir, 'petport.db'),
+  storage: StorageBackend = getStorage('backups')
+): Promise<string | null> {
+  const backup = (await listBackups(storage)).find((b) => b.key === key);
+  const object = backup ? await storage.get(key) : null;
+  if (!backup || !object) {
+    throw new NotFoundError('Backup', key);
+  }
+  if (backup.sha256 && sha256(object.body) !== backup.sha256) {
+    throw new Error(`Backup ${key} does not match its manifest checksum`);
+  }
+  await verifyBackup(object.body);
+
+  let previous: string | null = null;
+  if (existsSync(path) || existsSync(`${path}-journal`)) {
+    // Opening and closing the current database folds its journal into the file
+    await (await createSqliteDriver({ path, snapshotInterval: 60_000 })).close();
+    previous = `${path}.before-restore-${new Date().toISOString().replace(/[-:]/g, '')}`;
+    copyFileSync(path, previous);
+  }
+
+  writeDatabaseFile(path, object.body);
+  // A journal left behind would replay newer writes on top of the backup
+  if (existsSync(`${path}-journal`)) unlinkSync(`${path}-journal`);
+
+  logger.info({ msg: 'Database restored from backup', key, previous });
+  return previous;
+}
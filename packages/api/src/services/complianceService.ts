@@ -0,0 +1,137 @@
+import {
+  Species,
+  Vaccination,
+  VaccinationType,
+  VaccineCompliance,
+  ComplianceReport,
+  ComplianceProfile,
+  VACCINATION_TYPE_LABELS,
+  DEFAULT_VACCINATION_VALIDITY_DAYS,
+  COMPLIANCE_WARNING_DAYS,
+  SPECIES_VACCINE_REQUIREMENTS,
+  daysBetween,
+} from '@petport/shared';
+
+export interface ComplianceOptions {
+  /** Vaccine types to evaluate. Defaults to the species requirement profile. */
+  requirements?: readonly VaccinationType[];
+  /** Date to evaluate against. Defaults to now. */
+  asOf?: Date;
+  /** Days each vaccine must remain valid past asOf. Defaults to 0. */
+  minValidityDays?: number;
+  /** Named facility profile the requirements came from, if any. */
+  profile?: { slug: string; name: string };
+}
+
+/**
+ * Get the vaccine types required for a species
+ */
+export function getRequiredVaccines(species: Species): readonly VaccinationType[] {
+  return SPECIES_VACCINE_REQUIREMENTS[species] ?? [];
+}
+
+/**
+ * Resolve the effective expiry date of a vaccination.
+ * Uses the explicit expiry or defaults to 1 year from administration (veterinary standard).
+ */
+export function getVaccinationExpiry(vaccination: Vaccination): { expiresAt: Date; usingDefault: boolean } {
+  if (vaccination.expiresAt) {
+    return { expiresAt: new Date(vaccination.expiresAt), usingDefault: false };
+  }
+  const expiresAt = new Date(vaccination.administeredAt);
+  expiresAt.setDate(expiresAt.getDate() + DEFAULT_VACCINATION_VALIDITY_DAYS);
+  return { expiresAt, usingDefault: true };
+}
+
+/**
+ * Evaluate a single vaccine type against the most recent matching vaccination
+ * administered on or before asOf
+ */
+export function evaluateVaccine(
+  vaccinations: Vaccination[],
+  type: VaccinationType,
+  asOf: Date = new Date(),
+  minValidityDays = 0
+): VaccineCompliance {
+  const label = VACCINATION_TYPE_LABELS[type];
+  const latest = vaccinations
+    .filter((v) => v.type === type && new Date(v.administeredAt) <= asOf)
+    .sort((a, b) => new Date(b.administeredAt).getTime() - new Date(a.administeredAt).getTime())[0];
+
+  if (!latest) {
+    return {
+      type,
+      isCompliant: false,
+      vaccination: null,
+      expiresAt: null,
+      daysUntilExpiry: null,
+      message: `No ${label.toLowerCase()} vaccination on record`,
+    };
+  }
+
+  const { expiresAt, usingDefault } = getVaccinationExpiry(latest);
+  const isExpired = expiresAt < asOf;
+  const daysUntilExpiry = daysBetween(asOf, expiresAt);
+
+  const meetsValidityWindow = daysUntilExpiry >= minValidityDays;
+
+  return {
+    type,
+    isCompliant: !isExpired && meetsValidityWindow,
+    vaccination: latest,
+    expiresAt: expiresAt.toISOString(),
+    daysUntilExpiry,
+    message: isExpired
+      ? `${label} vaccination has expired`
+      : !meetsValidityWindow
+      ? `${label} vaccination must remain valid for ${minValidityDays} days but expires in ${daysUntilExpiry} days`
+      : daysUntilExpiry <= COMPLIANCE_WARNING_DAYS
+      ? `${label} vaccination expires in ${daysUntilExpiry} days${usingDefault ? ' (default 1-year validity)' : ''}`
+      : `${label} vaccination is current${usingDefault ? ' (default 1-year validity applied)' : ''}`,
+  };
+}
+
+/**
+ * Evaluate a pet's vaccinations against a set of required vaccine types
+ */
+export function evaluateCompliance(
+  species: Species,
+  vaccinations: Vaccination[],
+  options: ComplianceOptions = {}
+): ComplianceReport {
+  const asOf = options.asOf ?? new Date();
+  const minValidityDays = options.minValidityDays ?? 0;
+  const required = options.requirements ?? getRequiredVaccines(species);
+  const requirements = required.map((type) => evaluateVaccine(vaccinations, type, asOf, minValidityDays));
+
+  return {
+    species,
+    isCompliant: requirements.every((r) => r.isCompliant),
+    isApplicable: true,
+    asOf: asOf.toISOString(),
+    profile: options.profile ?? null,
+    minValidityDays,
+    requirements,
+  };
+}
+
+/**
+ * Evaluate a pet's vaccinations against a named facility profile. A species
+ * the profile does not list is not admitted, so the report is not applicable
+ * and not compliant rather than vacuously compliant.
+ */
+export function evaluateProfileCompliance(
+  profile: ComplianceProfile,
+  species: Species,
+  vaccinations: Vaccination[],
+  asOf?: Date
+): ComplianceReport {
+  const requirements = profile.requirements[species];
+  const report = evaluateCompliance(species, vaccinations, {
+    requirements: requirements ?? [],
+    minValidityDays: profile.minValidityDays,
+    profile: { slug: profile.slug, name: profile.name },
+    asOf,
+  });
+  return requirements ? report : { ...report, isCompliant: false, isApplicable: false };
+}
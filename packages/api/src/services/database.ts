@@ -4,10 +4,31 @@ import {
   HealthRecord,
   Vaccination,
   UserRole,
+  ComplianceProfile,
+  PetShare,
+  CreatedPetShare,
+  ShareScope,
+  FinderMessage,
+  ScanEvent,
+  PetMember,
+  PetMemberRole,
+  PetInvitation,
+  PetTransfer,
+  PetTransferOffer,
+  ClinicProfile,
+  UpsertClinicProfileInput,
+  VaccinationAttestation,
+  PetPhoto,
+  PhotoVariants,
+  PET_TRANSFER_EXPIRY_DAYS,
+  ConflictError,
   generateId,
   generatePetportId,
 } from '@petport/shared';
-import { getDb, saveDatabase, isDbInitialized } from './sqlite.js';
+import { createHash, randomBytes } from 'crypto';
+import { getDb, isDbInitialized, Queryable, Row } from './db.js';
+
+export type { Queryable } from './db.js';
 
 // Stored user includes passwordHash
 export interface StoredUser extends User {
@@ -30,6 +51,11 @@ function rowToUser(row: Record<string, unknown>): StoredUser {
   };
 }
 
+// Unprocessed photos only have the original file, which stands in for every size
+function toPhotoVariants(full: string, medium: string | null, thumbnail: string | null): PhotoVariants {
+  return { full, medium: medium ?? full, thumbnail: thumbnail ?? full };
+}
+
 function rowToPet(row: Record<string, unknown>): Pet {
   return {
     id: row['id'] as string,
@@ -44,8 +70,14 @@ function rowToPet(row: Record<string, unknown>): Pet {
     weight: row['weight'] as number | null,
     microchipId: row['microchip_id'] as string | null,
     photoUrl: row['photo_url'] as string | null,
+    photoVariants: row['photo_url']
+      ? toPhotoVariants(row['photo_url'] as string, row['photo_medium_url'] as string | null, row['photo_thumbnail_url'] as string | null)
+      : null,
     verificationLevel: (row['verification_level'] as Pet['verificationLevel']) || 'BASIC',
     isActive: Boolean(row['is_active']),
+    isLost: Boolean(row['is_lost']),
+    lostAt: row['lost_at'] as string | null,
+    lostMessage: row['lost_message'] as string | null,
     createdAt: row['created_at'] as string,
     updatedAt: row['updated_at'] as string,
   };
@@ -81,80 +113,70 @@ function rowToVaccination(row: Record<string, unknown>): Vaccination {
     vetName: row['vet_name'] as string | null,
     clinicName: row['clinic_name'] as string | null,
     documentUrl: row['document_url'] as string | null,
+    attestedBy: (row['attested_by'] as string | null) ?? null,
+    attestedAt: (row['attested_at'] as string | null) ?? null,
     createdAt: row['created_at'] as string,
     updatedAt: row['updated_at'] as string,
   };
 }
 
 // Convert query result to array of objects
-function queryToObjects<T>(
+async function queryToObjects<T>(
   sql: string,
   params: unknown[],
-  mapper: (row: Record<string, unknown>) => T
-): T[] {
-  const db = getDb();
-  const stmt = db.prepare(sql);
-  stmt.bind(params);
-  
-  const results: T[] = [];
-  while (stmt.step()) {
-    const row = stmt.getAsObject();
-    results.push(mapper(row as Record<string, unknown>));
-  }
-  stmt.free();
-  return results;
+  mapper: (row: Row) => T,
+  client: Queryable = getDb()
+): Promise<T[]> {
+  const rows = await client.query(sql, params);
+  return rows.map(mapper);
 }
 
-function queryOne<T>(
+async function queryOne<T>(
   sql: string,
   params: unknown[],
-  mapper: (row: Record<string, unknown>) => T
-): T | undefined {
-  const results = queryToObjects(sql, params, mapper);
+  mapper: (row: Row) => T,
+  client: Queryable = getDb()
+): Promise<T | undefined> {
+  const results = await queryToObjects(sql, params, mapper, client);
   return results[0];
 }
 
-// Legacy Store interface for backward compatibility
-class SqliteStore<T extends { id: string }> {
+/**
+ * Run fn in a transaction, rolled back if it throws. Pass the tx it receives
+ * to the repository functions that accept a client so they take part in it.
+ */
+export function withTransaction<T>(fn: (tx: Queryable) => Promise<T>): Promise<T> {
+  return getDb().transaction(fn);
+}
+
+// Primary key lookups for route code
+class RowStore<T extends { id: string }> {
   constructor(
     private tableName: string,
     private mapper: (row: Record<string, unknown>) => T,
     private idColumn = 'id'
   ) {}
 
-  get(id: string): T | undefined {
+  async get(id: string, client?: Queryable): Promise<T | undefined> {
     if (!isDbInitialized()) return undefined;
     return queryOne(
       `SELECT * FROM ${this.tableName} WHERE ${this.idColumn} = ?`,
       [id],
-      this.mapper
+      this.mapper,
+      client
     );
   }
-
-  find(predicate: (item: T) => boolean): T | undefined {
-    return this.all().find(predicate);
-  }
-
-  filter(predicate: (item: T) => boolean): T[] {
-    return this.all().filter(predicate);
-  }
-
-  all(): T[] {
-    if (!isDbInitialized()) return [];
-    return queryToObjects(`SELECT * FROM ${this.tableName}`, [], this.mapper);
-  }
 }
 
-// Store instances (for backward compatibility with route code)
-export const userStore = new SqliteStore<StoredUser>('users', rowToUser);
-export const petStore = new SqliteStore<Pet>('pets', rowToPet);
-export const healthRecordStore = new SqliteStore<HealthRecord>('health_records', rowToHealthRecord);
-export const vaccinationStore = new SqliteStore<Vaccination>('vaccinations', rowToVaccination);
+export const userStore = new RowStore<StoredUser>('users', rowToUser);
+export const petStore = new RowStore<Pet>('pets', rowToPet);
+export const healthRecordStore = new RowStore<HealthRecord>('health_records', rowToHealthRecord);
+export const vaccinationStore = new RowStore<Vaccination>('vaccinations', rowToVaccination);
 
 /**
  * Get pet by ID, respecting soft-delete (only returns active pets)
  */
-export function getActivePet(id: string): Pet | undefined {
+export async function getActivePet(id: string): Promise<Pet | undefined> {
   if (!isDbInitialized()) return undefined;
   return queryOne(
     'SELECT * FROM pets WHERE id = ? AND is_active = 1',
@@ -164,68 +186,74 @@ export function getActivePet(id: string): Pet | undefined {
 }
 
 // User functions
-export function createUser(data: Omit<StoredUser, 'id' | 'createdAt' | 'updatedAt'>): StoredUser {
-  const db = getDb();
+export async function createUser(
+  data: Omit<StoredUser, 'id' | 'createdAt' | 'updatedAt'>,
+  client: Queryable = getDb()
+): Promise<StoredUser> {
   const now = new Date().toISOString();
   const id = generateId('user');
   const role = data.role || 'USER';
+  const email = normalizeEmail(data.email);
 
-  db.run(
+  await client.run(
     `INSERT INTO users (id, email, password_hash, name, phone, avatar_url, is_verified, role, created_at, updated_at)
      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-    [id, data.email, data.passwordHash, data.name, data.phone, data.avatarUrl, data.isVerified ? 1 : 0, role, now, now]
+    [id, email, data.passwordHash, data.name, data.phone, data.avatarUrl, data.isVerified ? 1 : 0, role, now, now]
   );
-  saveDatabase();
 
   return {
     id,
     ...data,
+    email,
     role,
     createdAt: now,
     updatedAt: now,
   };
 }
 
-export function getUserByEmail(email: string): StoredUser | undefined {
+// Emails are stored lowercased so lookups can use the index on users.email
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export async function getUserByEmail(email: string, client: Queryable = getDb()): Promise<StoredUser | undefined> {
   if (!isDbInitialized()) return undefined;
   return queryOne(
-    'SELECT * FROM users WHERE LOWER(email) = LOWER(?)',
-    [email],
-    rowToUser
+    'SELECT * FROM users WHERE email = ?',
+    [normalizeEmail(email)],
+    rowToUser,
+    client
   );
 }
 
-export function updateUserPassword(userId: string, newPasswordHash: string): boolean {
-  if (!isDbInitialized()) return false;
-  const db = getDb();
-  const now = new Date().toISOString();
-  
-  db.run(
-    'UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?',
-    [newPasswordHash, now, userId]
-  );
-  saveDatabase();
-  
-  // Update in-memory store
-  const user = userStore.get(userId);
-  if (user) {
-    user.passwordHash = newPasswordHash;
-    user.updatedAt = now;
-  }
-  
-  return true;
+export async function updateUserPassword(
+  userId: string,
+  newPasswordHash: string,
+  client: Queryable = getDb()
+): Promise<boolean> {
+  const changes = await client.run('UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?', [
+    newPasswordHash,
+    new Date().toISOString(),
+    userId,
+  ]);
+  return changes === 1;
 }
 
 // Pet functions
-export function createPet(
+export async function createPet(
   ownerId: string,
-  data: Omit<Pet, 'id' | 'petportId' | 'ownerId' | 'createdAt' | 'updatedAt' | 'verificationLevel' | 'isActive'>
-): Pet {
-  const db = getDb();
+  data: Omit<Pet, 'id' | 'petportId' | 'ownerId' | 'photoVariants' | 'createdAt' | 'updatedAt' | 'verificationLevel' | 'isActive' | 'isLost' | 'lostAt' | 'lostMessage'>,
+  client?: Queryable
+): Promise<Pet> {
+  // The collision check and insert must not interleave with another insert
+  if (!client) {
+    return withTransaction((tx) => createPet(ownerId, data, tx));
+  }
+
   const now = new Date().toISOString();
   const id = generateId('pet');
   
-  // Generate unique petportId with collision check
+  // Generate unique petportId with collision check (deleted pets keep theirs)
   let petportId: string;
   let attempts = 0;
   const maxAttempts = 10;
@@ -235,9 +263,9 @@ export function createPet(
     if (attempts > maxAttempts) {
       throw new Error('Failed to generate unique PetPort ID after maximum attempts');
     }
-  } while (getPetByPetportId(petportId));
+  } while ((await client.query('SELECT 1 FROM pets WHERE petport_id = ?', [petportId])).length > 0);
 
-  db.run(
+  await client.run(
     `INSERT INTO pets (id, petport_id, owner_id, name, species, breed, sex, date_of_birth, color, weight, microchip_id, photo_url, verification_level, is_active, created_at, updated_at)
      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
@@ -259,7 +287,6 @@ export function createPet(
       now,
     ]
   );
-  saveDatabase();
 
   return {
     id,
@@ -267,16 +294,20 @@ export function createPet(
     ownerId,
     ...data,
     sex: data.sex || 'UNKNOWN',
+    photoVariants: data.photoUrl ? toPhotoVariants(data.photoUrl, null, null) : null,
     verificationLevel: 'BASIC',
     isActive: true,
+    isLost: false,
+    lostAt: null,
+    lostMessage: null,
     createdAt: now,
     updatedAt: now,
   };
 }
 
-export function updatePet(id: string, data: Partial<Pet>): Pet | undefined {
+export async function updatePet(id: string, data: Partial<Pet>): Promise<Pet | undefined> {
   const db = getDb();
-  const existing = getActivePet(id);
+  const existing = await getActivePet(id);
   if (!existing) return undefined;
 
   const now = new Date().toISOString();
@@ -329,22 +360,37 @@ export function updatePet(id: string, data: Partial<Pet>): Pet | undefined {
   }
 
   values.push(id);
-  db.run(`UPDATE pets SET ${updates.join(', ')} WHERE id = ?`, values);
-  saveDatabase();
+  await db.run(`UPDATE pets SET ${updates.join(', ')} WHERE id = ?`, values);
 
   return petStore.get(id);
 }
 
-export function getPetsByOwner(ownerId: string): Pet[] {
+export async function getPetsByOwner(ownerId: string, client: Queryable = getDb()): Promise<Pet[]> {
   if (!isDbInitialized()) return [];
   return queryToObjects(
     'SELECT * FROM pets WHERE owner_id = ? AND is_active = 1 ORDER BY created_at DESC',
     [ownerId],
+    rowToPet,
+    client
+  );
+}
+
+/**
+ * Pets the user owns or is an active member of
+ */
+export async function getPetsForUser(userId: string): Promise<Pet[]> {
+  if (!isDbInitialized()) return [];
+  return queryToObjects(
+    `SELECT p.* FROM pets p
+     WHERE p.is_active = 1
+       AND (p.owner_id = ? OR p.id IN (SELECT pet_id FROM pet_members WHERE user_id = ? AND status = 'ACTIVE'))
+     ORDER BY p.created_at DESC`,
+    [userId, userId],
     rowToPet
   );
 }
 
-export function getPetByPetportId(petportId: string): Pet | undefined {
+export async function getPetByPetportId(petportId: string): Promise<Pet | undefined> {
   if (!isDbInitialized()) return undefined;
   return queryOne(
     'SELECT * FROM pets WHERE petport_id = ? AND is_active = 1',
@@ -353,16 +399,45 @@ export function getPetByPetportId(petportId: string): Pet | undefined {
   );
 }
 
+/**
+ * Toggle lost-pet mode. Reporting found clears the lost message.
+ */
+export async function setPetLostStatus(
+  petId: string,
+  userId: string,
+  isLost: boolean,
+  message: string | null = null
+): Promise<Pet | undefined> {
+  const existing = await getActivePet(petId);
+  if (!existing) return undefined;
+
+  const now = new Date().toISOString();
+  await getDb().run(
+    'UPDATE pets SET is_lost = ?, lost_at = ?, lost_message = ?, updated_at = ? WHERE id = ?',
+    [isLost ? 1 : 0, isLost ? existing.lostAt ?? now : null, isLost ? message : null, now, petId]
+  );
+  await createPetAuditLog({
+    petId,
+    userId,
+    action: isLost ? 'REPORT_LOST' : 'REPORT_FOUND',
+    targetType: 'pet',
+    targetId: petId,
+    details: isLost && message ? JSON.stringify({ message }) : null,
+  });
+
+  return getActivePet(petId);
+}
+
 // Health record functions
-export function createHealthRecord(
+export async function createHealthRecord(
   petId: string,
   data: Omit<HealthRecord, 'id' | 'petId' | 'createdAt' | 'updatedAt'>
-): HealthRecord {
+): Promise<HealthRecord> {
   const db = getDb();
   const now = new Date().toISOString();
   const id = generateId('hr');
 
-  db.run(
+  await db.run(
     `INSERT INTO health_records (id, pet_id, type, title, description, date, vet_name, clinic_name, expires_at, document_url, created_at, updated_at)
      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
@@ -380,7 +455,6 @@ export function createHealthRecord(
       now,
     ]
   );
-  saveDatabase();
 
   return {
     id,
@@ -391,25 +465,94 @@ export function createHealthRecord(
   };
 }
 
-export function getHealthRecordsByPet(petId: string): HealthRecord[] {
+export async function getHealthRecordsByPet(petId: string): Promise<HealthRecord[]> {
   if (!isDbInitialized()) return [];
   return queryToObjects(
-    'SELECT * FROM health_records WHERE pet_id = ? ORDER BY date DESC',
+    'SELECT * FROM health_records WHERE pet_id = ? AND deleted_at IS NULL ORDER BY date DESC',
     [petId],
     rowToHealthRecord
   );
 }
 
+/**
+ * Get a health record belonging to a pet, ignoring soft-deleted records
+ */
+export async function getHealthRecord(petId: string, id: string): Promise<HealthRecord | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne(
+    'SELECT * FROM health_records WHERE id = ? AND pet_id = ? AND deleted_at IS NULL',
+    [id, petId],
+    rowToHealthRecord
+  );
+}
+
+const HEALTH_RECORD_COLUMNS: Partial<Record<keyof HealthRecord, string>> = {
+  type: 'type',
+  title: 'title',
+  description: 'description',
+  date: 'date',
+  vetName: 'vet_name',
+  clinicName: 'clinic_name',
+  expiresAt: 'expires_at',
+  documentUrl: 'document_url',
+};
+
+export async function updateHealthRecord(
+  petId: string,
+  id: string,
+  data: Partial<Omit<HealthRecord, 'id' | 'petId' | 'createdAt' | 'updatedAt'>>,
+  userId: string
+): Promise<HealthRecord | undefined> {
+  const existing = await getHealthRecord(petId, id);
+  if (!existing) return undefined;
+
+  const changes = await applyRecordUpdate('health_records', id, existing, data, HEALTH_RECORD_COLUMNS);
+  if (Object.keys(changes).length > 0) {
+    await createPetAuditLog({
+      petId,
+      userId,
+      action: 'UPDATE',
+      targetType: 'health_record',
+      targetId: id,
+      details: JSON.stringify(changes),
+    });
+  }
+
+  return getHealthRecord(petId, id);
+}
+
+/**
+ * Soft-delete a health record. The row is kept for the audit trail.
+ */
+export async function deleteHealthRecord(petId: string, id: string, userId: string): Promise<boolean> {
+  const existing = await getHealthRecord(petId, id);
+  if (!existing) return false;
+
+  const db = getDb();
+  const now = new Date().toISOString();
+  await db.run('UPDATE health_records SET deleted_at = ?, updated_at = ? WHERE id = ?', [now, now, id]);
+  await createPetAuditLog({
+    petId,
+    userId,
+    action: 'DELETE',
+    targetType: 'health_record',
+    targetId: id,
+    details: JSON.stringify({ title: existing.title, type: existing.type, date: existing.date }),
+  });
+
+  return true;
+}
+
 // Vaccination functions
-export function createVaccination(
+export async function createVaccination(
   petId: string,
-  data: Omit<Vaccination, 'id' | 'petId' | 'createdAt' | 'updatedAt'>
-): Vaccination {
+  data: Omit<Vaccination, 'id' | 'petId' | 'attestedBy' | 'attestedAt' | 'createdAt' | 'updatedAt'>
+): Promise<Vaccination> {
   const db = getDb();
   const now = new Date().toISOString();
   const id = generateId('vax');
 
-  db.run(
+  await db.run(
     `INSERT INTO vaccinations (id, pet_id, type, name, manufacturer, batch_number, administered_at, expires_at, vet_name, clinic_name, document_url, created_at, updated_at)
      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
@@ -428,68 +571,199 @@ export function createVaccination(
       now,
     ]
   );
-  saveDatabase();
 
   return {
     id,
     petId,
     ...data,
+    attestedBy: null,
+    attestedAt: null,
     createdAt: now,
     updatedAt: now,
   };
 }
 
-export function getVaccinationsByPet(petId: string): Vaccination[] {
+export async function getVaccinationsByPet(petId: string): Promise<Vaccination[]> {
   if (!isDbInitialized()) return [];
   return queryToObjects(
-    'SELECT * FROM vaccinations WHERE pet_id = ? ORDER BY administered_at DESC',
+    'SELECT * FROM vaccinations WHERE pet_id = ? AND deleted_at IS NULL ORDER BY administered_at DESC',
     [petId],
     rowToVaccination
   );
 }
 
+/**
+ * Get a vaccination belonging to a pet, ignoring soft-deleted records
+ */
+export async function getVaccination(petId: string, id: string): Promise<Vaccination | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne(
+    'SELECT * FROM vaccinations WHERE id = ? AND pet_id = ? AND deleted_at IS NULL',
+    [id, petId],
+    rowToVaccination
+  );
+}
+
+const VACCINATION_COLUMNS: Partial<Record<keyof Vaccination, string>> = {
+  type: 'type',
+  name: 'name',
+  manufacturer: 'manufacturer',
+  batchNumber: 'batch_number',
+  administeredAt: 'administered_at',
+  expiresAt: 'expires_at',
+  vetName: 'vet_name',
+  clinicName: 'clinic_name',
+  documentUrl: 'document_url',
+};
+
+export async function updateVaccination(
+  petId: string,
+  id: string,
+  data: Partial<Omit<Vaccination, 'id' | 'petId' | 'createdAt' | 'updatedAt'>>,
+  userId: string
+): Promise<Vaccination | undefined> {
+  const existing = await getVaccination(petId, id);
+  if (!existing) return undefined;
+
+  const changes: Record<string, unknown> = await applyRecordUpdate('vaccinations', id, existing, data, VACCINATION_COLUMNS);
+  if (Object.keys(changes).length > 0) {
+    // A vet signed off the old values, not the edited ones. Attaching a
+    // certificate leaves the recorded values alone.
+    const valuesChanged = Object.keys(changes).some((field) => field !== 'documentUrl');
+    if (existing.attestedBy && valuesChanged) {
+      await getDb().run('UPDATE vaccinations SET attested_by = NULL, attested_at = NULL WHERE id = ?', [id]);
+      changes['attestedBy'] = { from: existing.attestedBy, to: null };
+    }
+    await createPetAuditLog({
+      petId,
+      userId,
+      action: 'UPDATE',
+      targetType: 'vaccination',
+      targetId: id,
+      details: JSON.stringify(changes),
+    });
+  }
+
+  return getVaccination(petId, id);
+}
+
+/**
+ * Soft-delete a vaccination. The row is kept for the audit trail.
+ */
+export async function deleteVaccination(petId: string, id: string, userId: string): Promise<boolean> {
+  const existing = await getVaccination(petId, id);
+  if (!existing) return false;
+
+  const db = getDb();
+  const now = new Date().toISOString();
+  await db.run('UPDATE vaccinations SET deleted_at = ?, updated_at = ? WHERE id = ?', [now, now, id]);
+  await createPetAuditLog({
+    petId,
+    userId,
+    action: 'DELETE',
+    targetType: 'vaccination',
+    targetId: id,
+    details: JSON.stringify({ name: existing.name, type: existing.type, administeredAt: existing.administeredAt }),
+  });
+
+  return true;
+}
+
+/**
+ * Write changed fields of a record and return a { field: { from, to } } diff
+ * of what actually changed, for the audit trail.
+ */
+async function applyRecordUpdate<T extends object>(
+  tableName: string,
+  id: string,
+  existing: T,
+  data: Partial<T>,
+  columns: Partial<Record<keyof T, string>>
+): Promise<Record<string, { from: unknown; to: unknown }>> {
+  const now = new Date().toISOString();
+  const updates: string[] = ['updated_at = ?'];
+  const values: unknown[] = [now];
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const key of Object.keys(columns) as (keyof T)[]) {
+    const value = data[key];
+    if (value === undefined || value === existing[key]) continue;
+    updates.push(`${columns[key]} = ?`);
+    values.push(value);
+    changes[String(key)] = { from: existing[key], to: value };
+  }
+
+  if (Object.keys(changes).length > 0) {
+    values.push(id);
+    await getDb().run(`UPDATE ${tableName} SET ${updates.join(', ')} WHERE id = ?`, values);
+  }
+
+  return changes;
+}
+
 // Statistics
-export function getStats(): { users: number; pets: number; vaccinations: number } {
+export async function getStats(): Promise<{ users: number; pets: number; vaccinations: number }> {
   if (!isDbInitialized()) return { users: 0, pets: 0, vaccinations: 0 };
-  const db = getDb();
+  const count = async (sql: string) => (await queryOne(sql, [], (row) => Number(row['count']))) ?? 0;
 
-  const users = db.exec('SELECT COUNT(*) as count FROM users')[0]?.values[0]?.[0] as number || 0;
-  const pets = db.exec('SELECT COUNT(*) as count FROM pets WHERE is_active = 1')[0]?.values[0]?.[0] as number || 0;
-  const vaccinations = db.exec('SELECT COUNT(*) as count FROM vaccinations')[0]?.values[0]?.[0] as number || 0;
+  const users = await count('SELECT COUNT(*) as count FROM users');
+  const pets = await count('SELECT COUNT(*) as count FROM pets WHERE is_active = 1');
+  const vaccinations = await count('SELECT COUNT(*) as count FROM vaccinations WHERE deleted_at IS NULL');
 
   return { users, pets, vaccinations };
 }
 
 // Role management functions
-export function updateUserRole(userId: string, role: UserRole): boolean {
+export async function updateUserRole(userId: string, role: UserRole): Promise<boolean> {
   if (!isDbInitialized()) return false;
   const db = getDb();
   const now = new Date().toISOString();
 
-  db.run(
+  await db.run(
     'UPDATE users SET role = ?, updated_at = ? WHERE id = ?',
     [role, now, userId]
   );
-  saveDatabase();
   return true;
 }
 
-export function getUsersByRole(role: UserRole): StoredUser[] {
-  if (!isDbInitialized()) return [];
-  return queryToObjects(
-    'SELECT * FROM users WHERE role = ?',
-    [role],
-    rowToUser
-  );
+export async function markUserVerified(userId: string, client: Queryable = getDb()): Promise<void> {
+  await client.run('UPDATE users SET is_verified = 1, updated_at = ? WHERE id = ?', [
+    new Date().toISOString(),
+    userId,
+  ]);
 }
 
-export function getAllUsers(): StoredUser[] {
-  if (!isDbInitialized()) return [];
-  return queryToObjects(
-    'SELECT * FROM users ORDER BY created_at DESC',
-    [],
+export interface UserFilter {
+  role?: UserRole;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * A page of users, newest first, with the total matching the filter
+ */
+export async function listUsers(filter: UserFilter): Promise<{ users: StoredUser[]; total: number }> {
+  if (!isDbInitialized()) return { users: [], total: 0 };
+  const where = filter.role ? 'WHERE role = ?' : '';
+  const params = filter.role ? [filter.role] : [];
+
+  const users = await queryToObjects(
+    `SELECT * FROM users ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+    [...params, filter.limit, filter.offset],
     rowToUser
   );
+  const total = await queryOne(`SELECT COUNT(*) AS count FROM users ${where}`, params, (row) => Number(row['count']));
+  return { users, total: total ?? 0 };
+}
+
+export async function countUsersByRole(): Promise<Record<UserRole, number>> {
+  const counts: Record<UserRole, number> = { USER: 0, VET: 0, ADMIN: 0, SUPER_ADMIN: 0 };
+  if (!isDbInitialized()) return counts;
+  const rows = await getDb().query('SELECT role, COUNT(*) AS count FROM users GROUP BY role');
+  for (const row of rows) {
+    counts[row['role'] as UserRole] = Number(row['count']);
+  }
+  return counts;
 }
 
 // Audit logging
@@ -519,22 +793,21 @@ function rowToAuditLog(row: Record<string, unknown>): AuditLogEntry {
   };
 }
 
-export function createAuditLog(data: Omit<AuditLogEntry, 'id' | 'createdAt'>): AuditLogEntry {
+export async function createAuditLog(data: Omit<AuditLogEntry, 'id' | 'createdAt'>): Promise<AuditLogEntry> {
   const db = getDb();
   const now = new Date().toISOString();
   const id = generateId('audit');
 
-  db.run(
+  await db.run(
     `INSERT INTO admin_audit_log (id, admin_user_id, action, target_type, target_id, details, ip_address, user_agent, created_at)
      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [id, data.adminUserId, data.action, data.targetType, data.targetId, data.details, data.ipAddress, data.userAgent, now]
   );
-  saveDatabase();
 
   return { id, ...data, createdAt: now };
 }
 
-export function getAuditLogs(limit = 100, offset = 0): AuditLogEntry[] {
+export async function getAuditLogs(limit = 100, offset = 0): Promise<AuditLogEntry[]> {
   if (!isDbInitialized()) return [];
   return queryToObjects(
     'SELECT * FROM admin_audit_log ORDER BY created_at DESC LIMIT ? OFFSET ?',
@@ -543,78 +816,1370 @@ export function getAuditLogs(limit = 100, offset = 0): AuditLogEntry[] {
   );
 }
 
-// Security metrics
-export interface SecurityMetric {
+// Pet audit trail (owner-facing history of record changes)
+export interface PetAuditLogEntry {
   id: string;
-  eventType: string;
-  email: string | null;
-  ipAddress: string | null;
-  userAgent: string | null;
+  petId: string;
+  userId: string;
+  action: string;
+  targetType: string;
+  targetId: string | null;
   details: string | null;
   createdAt: string;
 }
 
-function rowToSecurityMetric(row: Record<string, unknown>): SecurityMetric {
+function rowToPetAuditLog(row: Record<string, unknown>): PetAuditLogEntry {
   return {
     id: row['id'] as string,
-    eventType: row['event_type'] as string,
-    email: row['email'] as string | null,
-    ipAddress: row['ip_address'] as string | null,
-    userAgent: row['user_agent'] as string | null,
+    petId: row['pet_id'] as string,
+    userId: row['user_id'] as string,
+    action: row['action'] as string,
+    targetType: row['target_type'] as string,
+    targetId: row['target_id'] as string | null,
     details: row['details'] as string | null,
     createdAt: row['created_at'] as string,
   };
 }
 
-export function createSecurityMetric(data: Omit<SecurityMetric, 'id' | 'createdAt'>): SecurityMetric {
-  const db = getDb();
+async function insertPetAuditLog(
+  data: Omit<PetAuditLogEntry, 'id' | 'createdAt'>,
+  client: Queryable = getDb()
+): Promise<PetAuditLogEntry> {
   const now = new Date().toISOString();
-  const id = generateId('sec');
+  const id = generateId('paudit');
 
-  db.run(
-    `INSERT INTO security_metrics (id, event_type, email, ip_address, user_agent, details, created_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
-    [id, data.eventType, data.email, data.ipAddress, data.userAgent, data.details, now]
+  await client.run(
+    `INSERT INTO pet_audit_log (id, pet_id, user_id, action, target_type, target_id, details, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [id, data.petId, data.userId, data.action, data.targetType, data.targetId, data.details, now]
   );
-  saveDatabase();
 
   return { id, ...data, createdAt: now };
 }
 
-export function getSecurityMetrics(eventType?: string, limit = 100, offset = 0): SecurityMetric[] {
+export async function createPetAuditLog(data: Omit<PetAuditLogEntry, 'id' | 'createdAt'>): Promise<PetAuditLogEntry> {
+  const entry = await insertPetAuditLog(data);
+  return entry;
+}
+
+export async function getPetAuditLogs(petId: string, limit = 100, offset = 0): Promise<PetAuditLogEntry[]> {
   if (!isDbInitialized()) return [];
+  return queryToObjects(
+    'SELECT * FROM pet_audit_log WHERE pet_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?',
+    [petId, limit, offset],
+    rowToPetAuditLog
+  );
+}
 
-  if (eventType) {
-    return queryToObjects(
-      'SELECT * FROM security_metrics WHERE event_type = ? ORDER BY created_at DESC LIMIT ? OFFSET ?',
-      [eventType, limit, offset],
-      rowToSecurityMetric
-    );
-  }
+// Transfers stay in the user's history after they lose access to the pet
+export async function getTransferHistoryForUser(userId: string, limit = 100): Promise<PetAuditLogEntry[]> {
+  return queryToObjects(
+    "SELECT * FROM pet_audit_log WHERE user_id = ? AND action IN ('TRANSFER_OUT', 'TRANSFER_IN') ORDER BY created_at DESC LIMIT ?",
+    [userId, limit],
+    rowToPetAuditLog
+  );
+}
+
+// Compliance profiles
+function rowToComplianceProfile(row: Record<string, unknown>): ComplianceProfile {
+  return {
+    id: row['id'] as string,
+    slug: row['slug'] as string,
+    name: row['name'] as string,
+    description: row['description'] as string | null,
+    requirements: JSON.parse(row['requirements'] as string) as ComplianceProfile['requirements'],
+    minValidityDays: row['min_validity_days'] as number,
+    isActive: Boolean(row['is_active']),
+    createdAt: row['created_at'] as string,
+    updatedAt: row['updated_at'] as string,
+  };
+}
 
+export async function getComplianceProfiles(includeInactive = false): Promise<ComplianceProfile[]> {
+  if (!isDbInitialized()) return [];
   return queryToObjects(
-    'SELECT * FROM security_metrics ORDER BY created_at DESC LIMIT ? OFFSET ?',
-    [limit, offset],
-    rowToSecurityMetric
+    `SELECT * FROM compliance_profiles${includeInactive ? '' : ' WHERE is_active = 1'} ORDER BY name ASC`,
+    [],
+    rowToComplianceProfile
   );
 }
 
-export function getSecurityMetricsCounts(hoursAgo = 24): Record<string, number> {
-  if (!isDbInitialized()) return {};
+export async function getComplianceProfileBySlug(slug: string): Promise<ComplianceProfile | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne(
+    'SELECT * FROM compliance_profiles WHERE slug = ?',
+    [slug],
+    rowToComplianceProfile
+  );
+}
+
+export async function createComplianceProfile(
+  data: Omit<ComplianceProfile, 'id' | 'isActive' | 'createdAt' | 'updatedAt'>
+): Promise<ComplianceProfile> {
   const db = getDb();
+  const now = new Date().toISOString();
+  const id = generateId('cprof');
 
-  const cutoff = new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString();
-  const result = db.exec(
-    `SELECT event_type, COUNT(*) as count FROM security_metrics
-     WHERE created_at >= ? GROUP BY event_type`,
-    [cutoff]
+  await db.run(
+    `INSERT INTO compliance_profiles (id, slug, name, description, requirements, min_validity_days, is_active, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)`,
+    [id, data.slug, data.name, data.description, JSON.stringify(data.requirements), data.minValidityDays, now, now]
+  );
+
+  return { id, ...data, isActive: true, createdAt: now, updatedAt: now };
+}
+
+export async function updateComplianceProfile(
+  slug: string,
+  data: Partial<Omit<ComplianceProfile, 'id' | 'slug' | 'createdAt' | 'updatedAt'>>
+): Promise<ComplianceProfile | undefined> {
+  const existing = await getComplianceProfileBySlug(slug);
+  if (!existing) return undefined;
+
+  const now = new Date().toISOString();
+  const updates: string[] = ['updated_at = ?'];
+  const values: unknown[] = [now];
+
+  if (data.name !== undefined) {
+    updates.push('name = ?');
+    values.push(data.name);
+  }
+  if (data.description !== undefined) {
+    updates.push('description = ?');
+    values.push(data.description);
+  }
+  if (data.requirements !== undefined) {
+    updates.push('requirements = ?');
+    values.push(JSON.stringify(data.requirements));
+  }
+  if (data.minValidityDays !== undefined) {
+    updates.push('min_validity_days = ?');
+    values.push(data.minValidityDays);
+  }
+  if (data.isActive !== undefined) {
+    updates.push('is_active = ?');
+    values.push(data.isActive ? 1 : 0);
+  }
+
+  values.push(existing.id);
+  await getDb().run(`UPDATE compliance_profiles SET ${updates.join(', ')} WHERE id = ?`, values);
+
+  return getComplianceProfileBySlug(slug);
+}
+
+// Share links
+function rowToPetShare(row: Record<string, unknown>): PetShare {
+  return {
+    id: row['id'] as string,
+    petId: row['pet_id'] as string,
+    scope: row['scope'] as ShareScope,
+    label: row['label'] as string | null,
+    expiresAt: row['expires_at'] as string,
+    revokedAt: row['revoked_at'] as string | null,
+    accessCount: row['access_count'] as number,
+    lastAccessedAt: row['last_accessed_at'] as string | null,
+    createdBy: row['created_by'] as string,
+    createdAt: row['created_at'] as string,
+  };
+}
+
+function hashShareToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a share link. Only the token's hash is stored, so the returned
+ * token cannot be read back later.
+ */
+export async function createPetShare(
+  data: Pick<PetShare, 'petId' | 'scope' | 'label' | 'expiresAt' | 'createdBy'>
+): Promise<CreatedPetShare> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const id = generateId('share');
+  const token = randomBytes(32).toString('hex');
+
+  await db.run(
+    `INSERT INTO pet_shares (id, pet_id, token_hash, scope, label, expires_at, created_by, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [id, data.petId, hashShareToken(token), data.scope, data.label, data.expiresAt, data.createdBy, now]
+  );
+  await createPetAuditLog({
+    petId: data.petId,
+    userId: data.createdBy,
+    action: 'CREATE',
+    targetType: 'share',
+    targetId: id,
+    details: JSON.stringify({ scope: data.scope, expiresAt: data.expiresAt }),
+  });
+
+  return {
+    id,
+    token,
+    ...data,
+    revokedAt: null,
+    accessCount: 0,
+    lastAccessedAt: null,
+    createdAt: now,
+  };
+}
+
+/**
+ * Unrevoked, unexpired share links for a pet, newest first
+ */
+export async function getActivePetShares(petId: string): Promise<PetShare[]> {
+  if (!isDbInitialized()) return [];
+  return queryToObjects(
+    'SELECT * FROM pet_shares WHERE pet_id = ? AND revoked_at IS NULL AND expires_at > ? ORDER BY created_at DESC',
+    [petId, new Date().toISOString()],
+    rowToPetShare
+  );
+}
+
+export async function getPetShare(petId: string, id: string): Promise<PetShare | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne(
+    'SELECT * FROM pet_shares WHERE id = ? AND pet_id = ?',
+    [id, petId],
+    rowToPetShare
   );
+}
 
-  if (!result.length || !result[0]) return {};
+/**
+ * Resolve a share token, returning undefined when revoked or expired
+ */
+export async function getValidPetShareByToken(token: string): Promise<PetShare | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne(
+    'SELECT * FROM pet_shares WHERE token_hash = ? AND revoked_at IS NULL AND expires_at > ?',
+    [hashShareToken(token), new Date().toISOString()],
+    rowToPetShare
+  );
+}
+
+export async function recordPetShareAccess(id: string): Promise<void> {
+  await getDb().run(
+    'UPDATE pet_shares SET access_count = access_count + 1, last_accessed_at = ? WHERE id = ?',
+    [new Date().toISOString(), id]
+  );
+}
+
+export async function revokePetShare(petId: string, id: string, userId: string): Promise<boolean> {
+  const existing = await getPetShare(petId, id);
+  if (!existing || existing.revokedAt) return false;
+
+  await getDb().run('UPDATE pet_shares SET revoked_at = ? WHERE id = ?', [new Date().toISOString(), id]);
+  await createPetAuditLog({
+    petId,
+    userId,
+    action: 'REVOKE',
+    targetType: 'share',
+    targetId: id,
+    details: JSON.stringify({ scope: existing.scope }),
+  });
+
+  return true;
+}
+
+// Finder messages (lost-pet contact relay)
+function rowToFinderMessage(row: Record<string, unknown>): FinderMessage {
+  return {
+    id: row['id'] as string,
+    petId: row['pet_id'] as string,
+    message: row['message'] as string,
+    contactInfo: row['contact_info'] as string | null,
+    latitude: row['latitude'] as number | null,
+    longitude: row['longitude'] as number | null,
+    locationText: row['location_text'] as string | null,
+    isRead: Boolean(row['is_read']),
+    createdAt: row['created_at'] as string,
+  };
+}
+
+export async function createFinderMessage(
+  data: Omit<FinderMessage, 'id' | 'isRead' | 'createdAt'> & { ipAddress: string | null }
+): Promise<FinderMessage> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const id = generateId('fmsg');
+  const { ipAddress, ...message } = data;
+
+  await db.run(
+    `INSERT INTO finder_messages (id, pet_id, message, contact_info, latitude, longitude, location_text, ip_address, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [id, message.petId, message.message, message.contactInfo, message.latitude, message.longitude, message.locationText, ipAddress, now]
+  );
+
+  return { id, ...message, isRead: false, createdAt: now };
+}
+
+export async function getFinderMessagesByPet(petId: string): Promise<FinderMessage[]> {
+  if (!isDbInitialized()) return [];
+  return queryToObjects(
+    'SELECT * FROM finder_messages WHERE pet_id = ? ORDER BY created_at DESC',
+    [petId],
+    rowToFinderMessage
+  );
+}
+
+export async function markFinderMessagesRead(petId: string): Promise<void> {
+  await getDb().run('UPDATE finder_messages SET is_read = 1 WHERE pet_id = ? AND is_read = 0', [petId]);
+}
+
+// Scan events (public verify lookups)
+function rowToScanEvent(row: Record<string, unknown>): ScanEvent {
+  return {
+    id: row['id'] as string,
+    petId: row['pet_id'] as string,
+    device: row['device'] as string | null,
+    latitude: row['latitude'] as number | null,
+    longitude: row['longitude'] as number | null,
+    createdAt: row['created_at'] as string,
+  };
+}
+
+export async function createScanEvent(petId: string, device: string | null): Promise<ScanEvent> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const id = generateId('scan');
+
+  await db.run(
+    'INSERT INTO scan_events (id, pet_id, device, created_at) VALUES (?, ?, ?, ?)',
+    [id, petId, device, now]
+  );
+
+  return { id, petId, device, latitude: null, longitude: null, createdAt: now };
+}
+
+export async function getScanEvent(petId: string, id: string): Promise<ScanEvent | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne(
+    'SELECT * FROM scan_events WHERE id = ? AND pet_id = ?',
+    [id, petId],
+    rowToScanEvent
+  );
+}
+
+export async function setScanEventLocation(id: string, latitude: number, longitude: number): Promise<void> {
+  await getDb().run(
+    'UPDATE scan_events SET latitude = ?, longitude = ? WHERE id = ?',
+    [latitude, longitude, id]
+  );
+}
+
+export async function getScanEventsByPet(petId: string, limit = 100, offset = 0): Promise<ScanEvent[]> {
+  if (!isDbInitialized()) return [];
+  return queryToObjects(
+    'SELECT * FROM scan_events WHERE pet_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?',
+    [petId, limit, offset],
+    rowToScanEvent
+  );
+}
+
+export async function countScanEventsByPet(petId: string): Promise<number> {
+  if (!isDbInitialized()) return 0;
+  return (await queryOne(
+    'SELECT COUNT(*) AS count FROM scan_events WHERE pet_id = ?',
+    [petId],
+    (row) => row['count'] as number
+  )) ?? 0;
+}
+
+// Pet memberships
+function rowToPetMember(row: Record<string, unknown>): PetMember {
+  return {
+    id: row['id'] as string,
+    petId: row['pet_id'] as string,
+    userId: row['user_id'] as string | null,
+    email: row['email'] as string,
+    name: (row['user_name'] as string | null) ?? null,
+    role: row['role'] as PetMember['role'],
+    status: row['status'] as PetMember['status'],
+    invitedBy: row['invited_by'] as string,
+    createdAt: row['created_at'] as string,
+    acceptedAt: row['accepted_at'] as string | null,
+  };
+}
+
+const PET_MEMBER_SELECT = `SELECT m.*, u.name AS user_name FROM pet_members m LEFT JOIN users u ON u.id = m.user_id`;
+
+export async function getPetMembers(petId: string): Promise<PetMember[]> {
+  if (!isDbInitialized()) return [];
+  return queryToObjects(
+    `${PET_MEMBER_SELECT} WHERE m.pet_id = ? ORDER BY m.created_at ASC`,
+    [petId],
+    rowToPetMember
+  );
+}
+
+export async function getPetMember(petId: string, id: string): Promise<PetMember | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne(
+    `${PET_MEMBER_SELECT} WHERE m.pet_id = ? AND m.id = ?`,
+    [petId, id],
+    rowToPetMember
+  );
+}
+
+export async function getPetMemberByEmail(petId: string, email: string): Promise<PetMember | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne(
+    `${PET_MEMBER_SELECT} WHERE m.pet_id = ? AND m.email = ?`,
+    [petId, email.toLowerCase()],
+    rowToPetMember
+  );
+}
+
+/**
+ * The user's role on a pet, or undefined when they have no access
+ */
+export async function getPetRole(pet: Pet, userId: string): Promise<PetMemberRole | undefined> {
+  if (pet.ownerId === userId) return 'OWNER';
+  return queryOne(
+    "SELECT role FROM pet_members WHERE pet_id = ? AND user_id = ? AND status = 'ACTIVE'",
+    [pet.id, userId],
+    (row) => row['role'] as PetMemberRole
+  );
+}
+
+export async function createPetMemberInvite(
+  petId: string,
+  email: string,
+  role: PetMember['role'],
+  invitedBy: string
+): Promise<PetMember> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const id = generateId('member');
+  const normalizedEmail = email.toLowerCase();
+
+  await db.run(
+    `INSERT INTO pet_members (id, pet_id, email, role, status, invited_by, created_at)
+     VALUES (?, ?, ?, ?, 'PENDING', ?, ?)`,
+    [id, petId, normalizedEmail, role, invitedBy, now]
+  );
+  await createPetAuditLog({
+    petId,
+    userId: invitedBy,
+    action: 'INVITE',
+    targetType: 'member',
+    targetId: id,
+    details: JSON.stringify({ email: normalizedEmail, role }),
+  });
+
+  return {
+    id,
+    petId,
+    userId: null,
+    email: normalizedEmail,
+    name: null,
+    role,
+    status: 'PENDING',
+    invitedBy,
+    createdAt: now,
+    acceptedAt: null,
+  };
+}
+
+/**
+ * Pending invitations addressed to an email, with pet and inviter details
+ */
+export async function getPendingInvitationsForEmail(email: string): Promise<PetInvitation[]> {
+  if (!isDbInitialized()) return [];
+  return queryToObjects(
+    `SELECT m.id, m.pet_id, m.role, m.created_at, p.name AS pet_name, p.species, u.name AS invited_by_name
+     FROM pet_members m
+     JOIN pets p ON p.id = m.pet_id AND p.is_active = 1
+     JOIN users u ON u.id = m.invited_by
+     WHERE m.email = ? AND m.status = 'PENDING'
+     ORDER BY m.created_at DESC`,
+    [email.toLowerCase()],
+    (row) => ({
+      id: row['id'] as string,
+      petId: row['pet_id'] as string,
+      petName: row['pet_name'] as string,
+      species: row['species'] as Pet['species'],
+      role: row['role'] as PetMember['role'],
+      invitedByName: row['invited_by_name'] as string,
+      createdAt: row['created_at'] as string,
+    })
+  );
+}
+
+export async function getPendingInvitation(id: string, email: string): Promise<PetMember | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne(
+    `${PET_MEMBER_SELECT} WHERE m.id = ? AND m.email = ? AND m.status = 'PENDING'`,
+    [id, email.toLowerCase()],
+    rowToPetMember
+  );
+}
+
+export async function acceptPetMemberInvite(invite: PetMember, userId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await getDb().run(
+    "UPDATE pet_members SET user_id = ?, status = 'ACTIVE', accepted_at = ? WHERE id = ?",
+    [userId, now, invite.id]
+  );
+  await createPetAuditLog({
+    petId: invite.petId,
+    userId,
+    action: 'ACCEPT_INVITE',
+    targetType: 'member',
+    targetId: invite.id,
+    details: JSON.stringify({ role: invite.role }),
+  });
+}
+
+export async function updatePetMemberRole(member: PetMember, role: PetMember['role'], userId: string): Promise<void> {
+  await getDb().run('UPDATE pet_members SET role = ? WHERE id = ?', [role, member.id]);
+  await createPetAuditLog({
+    petId: member.petId,
+    userId,
+    action: 'UPDATE',
+    targetType: 'member',
+    targetId: member.id,
+    details: JSON.stringify({ role: { from: member.role, to: role } }),
+  });
+}
+
+/**
+ * Remove a membership or decline/cancel an invitation
+ */
+export async function deletePetMember(member: PetMember, userId: string): Promise<void> {
+  await getDb().run('DELETE FROM pet_members WHERE id = ?', [member.id]);
+  await createPetAuditLog({
+    petId: member.petId,
+    userId,
+    action: member.status === 'PENDING' ? 'CANCEL_INVITE' : 'REMOVE',
+    targetType: 'member',
+    targetId: member.id,
+    details: JSON.stringify({ email: member.email, role: member.role }),
+  });
+}
+
+// Ownership transfers
+function rowToPetTransfer(row: Record<string, unknown>): PetTransfer {
+  return {
+    id: row['id'] as string,
+    petId: row['pet_id'] as string,
+    fromUserId: row['from_user_id'] as string,
+    toEmail: row['to_email'] as string,
+    toUserId: row['to_user_id'] as string | null,
+    status: row['status'] as PetTransfer['status'],
+    createdAt: row['created_at'] as string,
+    expiresAt: row['expires_at'] as string,
+    resolvedAt: row['resolved_at'] as string | null,
+  };
+}
+
+export async function createPetTransfer(petId: string, fromUserId: string, toEmail: string): Promise<PetTransfer> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + PET_TRANSFER_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+  const transfer: PetTransfer = {
+    id: generateId('transfer'),
+    petId,
+    fromUserId,
+    toEmail: toEmail.toLowerCase(),
+    toUserId: null,
+    status: 'PENDING',
+    createdAt: now.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+    resolvedAt: null,
+  };
+
+  await getDb().run(
+    `INSERT INTO pet_transfers (id, pet_id, from_user_id, to_email, status, created_at, expires_at)
+     VALUES (?, ?, ?, ?, 'PENDING', ?, ?)`,
+    [transfer.id, petId, fromUserId, transfer.toEmail, transfer.createdAt, transfer.expiresAt]
+  );
+  await createPetAuditLog({
+    petId,
+    userId: fromUserId,
+    action: 'TRANSFER_REQUEST',
+    targetType: 'transfer',
+    targetId: transfer.id,
+    details: JSON.stringify({ toEmail: transfer.toEmail }),
+  });
+
+  return transfer;
+}
+
+/**
+ * The unexpired pending transfer for a pet, if any
+ */
+export async function getPendingPetTransfer(petId: string): Promise<PetTransfer | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne(
+    `SELECT * FROM pet_transfers WHERE pet_id = ? AND status = 'PENDING' AND expires_at > ?
+     ORDER BY created_at DESC LIMIT 1`,
+    [petId, new Date().toISOString()],
+    rowToPetTransfer
+  );
+}
+
+/**
+ * An unexpired pending transfer addressed to the given email
+ */
+export async function getPendingTransferForEmail(id: string, email: string): Promise<PetTransfer | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne(
+    `SELECT * FROM pet_transfers WHERE id = ? AND to_email = ? AND status = 'PENDING' AND expires_at > ?`,
+    [id, email.toLowerCase(), new Date().toISOString()],
+    rowToPetTransfer
+  );
+}
+
+export async function getTransferOffersForEmail(email: string): Promise<PetTransferOffer[]> {
+  if (!isDbInitialized()) return [];
+  return queryToObjects(
+    `SELECT t.id, t.pet_id, t.created_at, t.expires_at, p.name AS pet_name, p.species, p.petport_id,
+            u.name AS from_name
+     FROM pet_transfers t
+     JOIN pets p ON p.id = t.pet_id AND p.is_active = 1 AND p.owner_id = t.from_user_id
+     JOIN users u ON u.id = t.from_user_id
+     WHERE t.to_email = ? AND t.status = 'PENDING' AND t.expires_at > ?
+     ORDER BY t.created_at DESC`,
+    [email.toLowerCase(), new Date().toISOString()],
+    (row) => ({
+      id: row['id'] as string,
+      petId: row['pet_id'] as string,
+      petName: row['pet_name'] as string,
+      species: row['species'] as Pet['species'],
+      petportId: row['petport_id'] as string,
+      fromName: row['from_name'] as string,
+      createdAt: row['created_at'] as string,
+      expiresAt: row['expires_at'] as string,
+    })
+  );
+}
+
+/**
+ * Close a pending transfer without moving ownership (declined by the recipient
+ * or cancelled by the owner)
+ */
+export async function closePetTransfer(
+  transfer: PetTransfer,
+  status: 'DECLINED' | 'CANCELLED',
+  userId: string
+): Promise<void> {
+  await getDb().run(
+    'UPDATE pet_transfers SET status = ?, resolved_at = ? WHERE id = ?',
+    [status, new Date().toISOString(), transfer.id]
+  );
+  await createPetAuditLog({
+    petId: transfer.petId,
+    userId,
+    action: status === 'DECLINED' ? 'TRANSFER_DECLINE' : 'TRANSFER_CANCEL',
+    targetType: 'transfer',
+    targetId: transfer.id,
+    details: JSON.stringify({ toEmail: transfer.toEmail }),
+  });
+}
+
+/**
+ * Move a pet to the recipient in a single transaction. Memberships and share
+ * links granted by the previous owner are dropped so the new owner starts with
+ * sole access, and both parties get an audit entry.
+ */
+export async function acceptPetTransfer(transfer: PetTransfer, toUserId: string): Promise<Pet> {
+  const now = new Date().toISOString();
+
+  await withTransaction(async (tx) => {
+    const currentOwner = await queryOne('SELECT owner_id FROM pets WHERE id = ?', [transfer.petId], (row) => row['owner_id'] as string, tx);
+    if (currentOwner !== transfer.fromUserId) {
+      throw new ConflictError('Pet owner changed since the transfer was offered');
+    }
+    await tx.run('UPDATE pets SET owner_id = ?, updated_at = ? WHERE id = ?', [toUserId, now, transfer.petId]);
+    await tx.run(
+      "UPDATE pet_transfers SET status = 'ACCEPTED', to_user_id = ?, resolved_at = ? WHERE id = ?",
+      [toUserId, now, transfer.id]
+    );
+    await tx.run('DELETE FROM pet_members WHERE pet_id = ?', [transfer.petId]);
+    await tx.run(
+      'UPDATE pet_shares SET revoked_at = ? WHERE pet_id = ? AND revoked_at IS NULL',
+      [now, transfer.petId]
+    );
+    await insertPetAuditLog({
+      petId: transfer.petId,
+      userId: transfer.fromUserId,
+      action: 'TRANSFER_OUT',
+      targetType: 'transfer',
+      targetId: transfer.id,
+      details: JSON.stringify({ toUserId }),
+    }, tx);
+    await insertPetAuditLog({
+      petId: transfer.petId,
+      userId: toUserId,
+      action: 'TRANSFER_IN',
+      targetType: 'transfer',
+      targetId: transfer.id,
+      details: JSON.stringify({ fromUserId: transfer.fromUserId }),
+    }, tx);
+  });
+
+  return (await getActivePet(transfer.petId))!;
+}
+
+// Photo gallery
+function rowToPetPhoto(row: Record<string, unknown>): PetPhoto {
+  return {
+    id: row['id'] as string,
+    petId: row['pet_id'] as string,
+    url: row['url'] as string,
+    variants: toPhotoVariants(row['url'] as string, row['medium_url'] as string | null, row['thumbnail_url'] as string | null),
+    position: row['position'] as number,
+    // 1 from SQLite, true from PostgreSQL
+    isPrimary: Boolean(row['is_primary']),
+    uploadedBy: row['uploaded_by'] as string,
+    createdAt: row['created_at'] as string,
+  };
+}
+
+const PET_PHOTO_SELECT = `SELECT ph.*, (ph.url = p.photo_url) AS is_primary FROM pet_photos ph JOIN pets p ON p.id = ph.pet_id`;
+
+const SET_PRIMARY_PHOTO_SQL = 'UPDATE pets SET photo_url = ?, photo_medium_url = ?, photo_thumbnail_url = ?, updated_at = ? WHERE id = ?';
+
+// Point pets.photo_url and its variants at a gallery photo (or clear them)
+async function setPrimaryPhotoColumns(petId: string, variants: PhotoVariants | null, condition = ''): Promise<void> {
+  await getDb().run(`${SET_PRIMARY_PHOTO_SQL}${condition}`, [
+    variants?.full ?? null,
+    variants?.medium ?? null,
+    variants?.thumbnail ?? null,
+    new Date().toISOString(),
+    petId,
+  ]);
+}
+
+export async function getPetPhotos(petId: string): Promise<PetPhoto[]> {
+  if (!isDbInitialized()) return [];
+  return queryToObjects(
+    `${PET_PHOTO_SELECT} WHERE ph.pet_id = ? ORDER BY ph.position ASC, ph.created_at ASC`,
+    [petId],
+    rowToPetPhoto
+  );
+}
+
+export async function getPetPhoto(petId: string, id: string): Promise<PetPhoto | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne(
+    `${PET_PHOTO_SELECT} WHERE ph.pet_id = ? AND ph.id = ?`,
+    [petId, id],
+    rowToPetPhoto
+  );
+}
+
+/**
+ * Append a photo to the end of a pet's gallery. The first photo, or one
+ * uploaded with makePrimary, becomes the pet's photoUrl.
+ */
+export async function addPetPhoto(petId: string, variants: PhotoVariants, userId: string, makePrimary = false): Promise<PetPhoto> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const id = generateId('photo');
+  const position = await queryOne(
+    'SELECT COALESCE(MAX(position) + 1, 0) AS next FROM pet_photos WHERE pet_id = ?',
+    [petId],
+    (row) => row['next'] as number
+  ) ?? 0;
+
+  await db.run(
+    `INSERT INTO pet_photos (id, pet_id, url, medium_url, thumbnail_url, position, uploaded_by, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [id, petId, variants.full, variants.medium, variants.thumbnail, position, userId, now]
+  );
+  await setPrimaryPhotoColumns(petId, variants, makePrimary ? '' : ' AND photo_url IS NULL');
+  await createPetAuditLog({
+    petId,
+    userId,
+    action: 'CREATE',
+    targetType: 'photo',
+    targetId: id,
+    details: null,
+  });
+
+  return (await getPetPhoto(petId, id))!;
+}
+
+export async function setPrimaryPetPhoto(photo: PetPhoto, userId: string): Promise<void> {
+  await setPrimaryPhotoColumns(photo.petId, photo.variants);
+  await createPetAuditLog({
+    petId: photo.petId,
+    userId,
+    action: 'SET_PRIMARY',
+    targetType: 'photo',
+    targetId: photo.id,
+    details: null,
+  });
+}
+
+/**
+ * Set gallery order. photoIds must list every photo of the pet exactly once.
+ */
+export async function reorderPetPhotos(petId: string, photoIds: string[], userId: string): Promise<PetPhoto[]> {
+  await withTransaction(async (tx) => {
+    for (const [position, id] of photoIds.entries()) {
+      await tx.run('UPDATE pet_photos SET position = ? WHERE id = ? AND pet_id = ?', [position, id, petId]);
+    }
+    await insertPetAuditLog({
+      petId,
+      userId,
+      action: 'REORDER',
+      targetType: 'photo',
+      targetId: null,
+      details: JSON.stringify({ order: photoIds }),
+    }, tx);
+  });
+
+  return getPetPhotos(petId);
+}
+
+/**
+ * Remove a photo from the gallery. If it was the primary photo the next one
+ * in order takes its place.
+ */
+export async function deletePetPhoto(photo: PetPhoto, userId: string): Promise<void> {
+  const db = getDb();
+  await db.run('DELETE FROM pet_photos WHERE id = ?', [photo.id]);
+  if (photo.isPrimary) {
+    await setPrimaryPhotoColumns(photo.petId, (await getPetPhotos(photo.petId))[0]?.variants ?? null);
+  }
+  await createPetAuditLog({
+    petId: photo.petId,
+    userId,
+    action: 'DELETE',
+    targetType: 'photo',
+    targetId: photo.id,
+    details: null,
+  });
+}
+
+// Clinic profiles and vet attestation
+function rowToClinicProfile(row: Record<string, unknown>): ClinicProfile {
+  return {
+    userId: row['user_id'] as string,
+    clinicName: row['clinic_name'] as string,
+    licenseNumber: row['license_number'] as string,
+    licenseRegion: row['license_region'] as string | null,
+    address: row['address'] as string | null,
+    phone: row['phone'] as string | null,
+    createdAt: row['created_at'] as string,
+    updatedAt: row['updated_at'] as string,
+  };
+}
+
+export async function getClinicProfile(userId: string): Promise<ClinicProfile | undefined> {
+  if (!isDbInitialized()) return undefined;
+  return queryOne('SELECT * FROM clinic_profiles WHERE user_id = ?', [userId], rowToClinicProfile);
+}
+
+export async function upsertClinicProfile(userId: string, data: UpsertClinicProfileInput): Promise<ClinicProfile> {
+  const now = new Date().toISOString();
+  await getDb().run(
+    `INSERT INTO clinic_profiles (user_id, clinic_name, license_number, license_region, address, phone, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(user_id) DO UPDATE SET
+       clinic_name = excluded.clinic_name,
+       license_number = excluded.license_number,
+       license_region = excluded.license_region,
+       address = excluded.address,
+       phone = excluded.phone,
+       updated_at = excluded.updated_at`,
+    [
+      userId,
+      data.clinicName,
+      data.licenseNumber,
+      data.licenseRegion ?? null,
+      data.address ?? null,
+      data.phone ?? null,
+      now,
+      now,
+    ]
+  );
+
+  return (await getClinicProfile(userId))!;
+}
+
+/**
+ * Record (vetId) or withdraw (null) a vet's sign-off on a vaccination
+ */
+export async function setVaccinationAttestation(vaccination: Vaccination, vetId: string | null, userId: string): Promise<Vaccination> {
+  const attestedAt = vetId ? new Date().toISOString() : null;
+  await getDb().run(
+    'UPDATE vaccinations SET attested_by = ?, attested_at = ? WHERE id = ?',
+    [vetId, attestedAt, vaccination.id]
+  );
+  await createPetAuditLog({
+    petId: vaccination.petId,
+    userId,
+    action: vetId ? 'ATTEST' : 'REVOKE_ATTESTATION',
+    targetType: 'vaccination',
+    targetId: vaccination.id,
+    details: null,
+  });
+
+  return { ...vaccination, attestedBy: vetId, attestedAt };
+}
+
+/**
+ * Public attestation details for the attested vaccinations in a list, keyed by vaccination id
+ */
+export async function getVaccinationAttestations(vaccinations: Vaccination[]): Promise<Record<string, VaccinationAttestation>> {
+  const attestations: Record<string, VaccinationAttestation> = {};
+  for (const vaccination of vaccinations) {
+    if (!vaccination.attestedBy || !vaccination.attestedAt) continue;
+    const attestation = await queryOne(
+      `SELECT u.name, c.clinic_name, c.license_number FROM users u
+       JOIN clinic_profiles c ON c.user_id = u.id WHERE u.id = ?`,
+      [vaccination.attestedBy],
+      (row) => ({
+        vetName: row['name'] as string,
+        clinicName: row['clinic_name'] as string,
+        licenseNumber: row['license_number'] as string,
+        attestedAt: vaccination.attestedAt!,
+      })
+    );
+    if (attestation) attestations[vaccination.id] = attestation;
+  }
+  return attestations;
+}
+
+// Vaccination reminders (see services/vaccinationReminders.ts)
+export interface DueVaccinationReminder {
+  vaccination: Vaccination;
+  petName: string;
+  ownerEmail: string;
+  ownerName: string;
+}
+
+/**
+ * Vaccinations of active pets that expire in (asOf, expiringBefore] and
+ * have not been reminded about. Records without an expiry date expire
+ * validityDays after they were given. Only a pet's latest record of each
+ * vaccine type counts, so a renewed vaccine is not reminded about.
+ */
+export async function getVaccinationsDueForReminder(
+  asOf: Date,
+  expiringBefore: Date,
+  validityDays: number
+): Promise<DueVaccinationReminder[]> {
+  const validityMs = validityDays * 24 * 60 * 60 * 1000;
+  return queryToObjects(
+    `SELECT v.*, p.name AS pet_name, u.email AS owner_email, u.name AS owner_name
+     FROM vaccinations v
+     JOIN pets p ON p.id = v.pet_id AND p.is_active = 1
+     JOIN users u ON u.id = p.owner_id
+     WHERE v.deleted_at IS NULL AND v.reminder_sent_at IS NULL
+       AND (
+         (v.expires_at IS NOT NULL AND v.expires_at > ? AND v.expires_at <= ?)
+         OR (v.expires_at IS NULL AND v.administered_at > ? AND v.administered_at <= ?)
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM vaccinations newer
+         WHERE newer.pet_id = v.pet_id AND newer.type = v.type AND newer.deleted_at IS NULL
+           AND newer.administered_at > v.administered_at
+       )
+     ORDER BY p.id, v.expires_at`,
+    [
+      asOf.toISOString(),
+      expiringBefore.toISOString(),
+      new Date(asOf.getTime() - validityMs).toISOString(),
+      new Date(expiringBefore.getTime() - validityMs).toISOString(),
+    ],
+    (row) => ({
+      vaccination: rowToVaccination(row),
+      petName: row['pet_name'] as string,
+      ownerEmail: row['owner_email'] as string,
+      ownerName: row['owner_name'] as string,
+    })
+  );
+}
+
+export async function markVaccinationRemindersSent(ids: string[], sentAt: string): Promise<void> {
+  if (ids.length === 0) return;
+  await getDb().run(
+    `UPDATE vaccinations SET reminder_sent_at = ? WHERE id IN (${ids.map(() => '?').join(', ')})`,
+    [sentAt, ...ids]
+  );
+}
+
+// Refresh tokens (see services/refreshTokens.ts)
+export interface RefreshToken {
+  id: string;
+  userId: string;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: string;
+  createdAt: string;
+  usedAt: string | null;
+  revokedAt: string | null;
+}
+
+function rowToRefreshToken(row: Record<string, unknown>): RefreshToken {
+  return {
+    id: row['id'] as string,
+    userId: row['user_id'] as string,
+    familyId: row['family_id'] as string,
+    tokenHash: row['token_hash'] as string,
+    expiresAt: row['expires_at'] as string,
+    createdAt: row['created_at'] as string,
+    usedAt: row['used_at'] as string | null,
+    revokedAt: row['revoked_at'] as string | null,
+  };
+}
+
+export async function createRefreshToken(
+  data: Pick<RefreshToken, 'userId' | 'familyId' | 'tokenHash' | 'expiresAt'>,
+  client: Queryable = getDb()
+): Promise<RefreshToken> {
+  const token: RefreshToken = {
+    id: generateId('rt'),
+    ...data,
+    createdAt: new Date().toISOString(),
+    usedAt: null,
+    revokedAt: null,
+  };
+  await client.run(
+    `INSERT INTO refresh_tokens (id, user_id, family_id, token_hash, expires_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [token.id, token.userId, token.familyId, token.tokenHash, token.expiresAt, token.createdAt]
+  );
+  return token;
+}
+
+export async function getRefreshTokenByHash(tokenHash: string, client: Queryable = getDb()): Promise<RefreshToken | undefined> {
+  return queryOne('SELECT * FROM refresh_tokens WHERE token_hash = ?', [tokenHash], rowToRefreshToken, client);
+}
+
+/**
+ * Mark a token as exchanged. False if it was already used or revoked, so of
+ * two concurrent refreshes with the same token only one succeeds.
+ */
+export async function markRefreshTokenUsed(id: string, client: Queryable = getDb()): Promise<boolean> {
+  const changes = await client.run(
+    'UPDATE refresh_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL AND revoked_at IS NULL',
+    [new Date().toISOString(), id]
+  );
+  return changes === 1;
+}
+
+export async function revokeRefreshTokenFamily(familyId: string, client: Queryable = getDb()): Promise<number> {
+  return client.run(
+    'UPDATE refresh_tokens SET revoked_at = ? WHERE family_id = ? AND revoked_at IS NULL',
+    [new Date().toISOString(), familyId]
+  );
+}
+
+export async function revokeUserRefreshTokens(userId: string, client: Queryable = getDb()): Promise<number> {
+  return client.run(
+    'UPDATE refresh_tokens SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL',
+    [new Date().toISOString(), userId]
+  );
+}
+
+// Email verification tokens (see services/emailVerification.ts)
+export interface EmailVerificationToken {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: string;
+  createdAt: string;
+  usedAt: string | null;
+}
+
+function rowToEmailVerificationToken(row: Record<string, unknown>): EmailVerificationToken {
+  return {
+    id: row['id'] as string,
+    userId: row['user_id'] as string,
+    tokenHash: row['token_hash'] as string,
+    expiresAt: row['expires_at'] as string,
+    createdAt: row['created_at'] as string,
+    usedAt: row['used_at'] as string | null,
+  };
+}
+
+/**
+ * Store a verification token, deleting the user's unused ones
+ */
+export async function replaceEmailVerificationToken(
+  data: Pick<EmailVerificationToken, 'userId' | 'tokenHash' | 'expiresAt'>,
+  client: Queryable = getDb()
+): Promise<EmailVerificationToken> {
+  const token: EmailVerificationToken = {
+    id: generateId('evt'),
+    ...data,
+    createdAt: new Date().toISOString(),
+    usedAt: null,
+  };
+  await client.run('DELETE FROM email_verification_tokens WHERE user_id = ? AND used_at IS NULL', [token.userId]);
+  await client.run(
+    `INSERT INTO email_verification_tokens (id, user_id, token_hash, expires_at, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [token.id, token.userId, token.tokenHash, token.expiresAt, token.createdAt]
+  );
+  return token;
+}
+
+export async function getEmailVerificationTokenByHash(
+  tokenHash: string,
+  client: Queryable = getDb()
+): Promise<EmailVerificationToken | undefined> {
+  return queryOne('SELECT * FROM email_verification_tokens WHERE token_hash = ?', [tokenHash], rowToEmailVerificationToken, client);
+}
+
+export async function getLatestEmailVerificationToken(userId: string): Promise<EmailVerificationToken | undefined> {
+  return queryOne(
+    'SELECT * FROM email_verification_tokens WHERE user_id = ? ORDER BY created_at DESC LIMIT 1',
+    [userId],
+    rowToEmailVerificationToken
+  );
+}
+
+/**
+ * Mark a token as used. False if it already was, so a link verifies once.
+ */
+export async function markEmailVerificationTokenUsed(id: string, client: Queryable = getDb()): Promise<boolean> {
+  const changes = await client.run(
+    'UPDATE email_verification_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL',
+    [new Date().toISOString(), id]
+  );
+  return changes === 1;
+}
+
+// Password reset tokens (see services/passwordReset.ts)
+export interface PasswordResetToken {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: string;
+  createdAt: string;
+  usedAt: string | null;
+}
+
+function rowToPasswordResetToken(row: Record<string, unknown>): PasswordResetToken {
+  return {
+    id: row['id'] as string,
+    userId: row['user_id'] as string,
+    tokenHash: row['token_hash'] as string,
+    expiresAt: row['expires_at'] as string,
+    createdAt: row['created_at'] as string,
+    usedAt: row['used_at'] as string | null,
+  };
+}
+
+export async function createPasswordResetToken(
+  data: Pick<PasswordResetToken, 'userId' | 'tokenHash' | 'expiresAt'>,
+  client: Queryable = getDb()
+): Promise<PasswordResetToken> {
+  const token: PasswordResetToken = {
+    id: generateId('prt'),
+    ...data,
+    createdAt: new Date().toISOString(),
+    usedAt: null,
+  };
+  await client.run(
+    `INSERT INTO password_reset_tokens (id, user_id, token_hash, expires_at, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [token.id, token.userId, token.tokenHash, token.expiresAt, token.createdAt]
+  );
+  return token;
+}
+
+export async function getPasswordResetTokenByHash(
+  tokenHash: string,
+  client: Queryable = getDb()
+): Promise<PasswordResetToken | undefined> {
+  return queryOne('SELECT * FROM password_reset_tokens WHERE token_hash = ?', [tokenHash], rowToPasswordResetToken, client);
+}
+
+export async function countPasswordResetTokensSince(
+  userId: string,
+  since: string,
+  client: Queryable = getDb()
+): Promise<number> {
+  const count = await queryOne(
+    'SELECT COUNT(*) AS count FROM password_reset_tokens WHERE user_id = ? AND created_at >= ?',
+    [userId, since],
+    (row) => Number(row['count']),
+    client
+  );
+  return count ?? 0;
+}
+
+/**
+ * Expire the user's unused tokens so older links stop working
+ */
+export async function expirePasswordResetTokens(userId: string, client: Queryable = getDb()): Promise<number> {
+  const now = new Date().toISOString();
+  return client.run(
+    'UPDATE password_reset_tokens SET expires_at = ? WHERE user_id = ? AND used_at IS NULL AND expires_at > ?',
+    [now, userId, now]
+  );
+}
+
+export async function deletePasswordResetTokensExpiredBefore(before: string, client: Queryable = getDb()): Promise<number> {
+  return client.run('DELETE FROM password_reset_tokens WHERE expires_at < ?', [before]);
+}
+
+/**
+ * Mark a token as used. False if it already was, so a link resets once.
+ */
+export async function markPasswordResetTokenUsed(id: string, client: Queryable = getDb()): Promise<boolean> {
+  const changes = await client.run(
+    'UPDATE password_reset_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL',
+    [new Date().toISOString(), id]
+  );
+  return changes === 1;
+}
+
+// Sessions (see services/sessions.ts)
+export interface Session {
+  id: string;
+  userId: string;
+  device: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  revokedAt: string | null;
+}
+
+function rowToSession(row: Record<string, unknown>): Session {
+  return {
+    id: row['id'] as string,
+    userId: row['user_id'] as string,
+    device: row['device'] as string | null,
+    ipAddress: row['ip_address'] as string | null,
+    createdAt: row['created_at'] as string,
+    lastSeenAt: row['last_seen_at'] as string,
+    revokedAt: row['revoked_at'] as string | null,
+  };
+}
+
+export async function createSession(
+  data: Pick<Session, 'userId' | 'device' | 'ipAddress'>,
+  client: Queryable = getDb()
+): Promise<Session> {
+  const now = new Date().toISOString();
+  const session: Session = { id: generateId('ses'), ...data, createdAt: now, lastSeenAt: now, revokedAt: null };
+  await client.run(
+    `INSERT INTO sessions (id, user_id, device, ip_address, created_at, last_seen_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [session.id, session.userId, session.device, session.ipAddress, session.createdAt, session.lastSeenAt]
+  );
+  return session;
+}
+
+export async function getSession(id: string, client: Queryable = getDb()): Promise<Session | undefined> {
+  return queryOne('SELECT * FROM sessions WHERE id = ?', [id], rowToSession, client);
+}
+
+/**
+ * Unrevoked sessions seen since a point in time, most recently seen first
+ */
+export async function getActiveSessionsByUser(userId: string, seenSince: string): Promise<Session[]> {
+  return queryToObjects(
+    `SELECT * FROM sessions
+     WHERE user_id = ? AND revoked_at IS NULL AND last_seen_at > ?
+     ORDER BY last_seen_at DESC`,
+    [userId, seenSince],
+    rowToSession
+  );
+}
+
+export async function touchSession(
+  id: string,
+  data: Pick<Session, 'ipAddress'>,
+  client: Queryable = getDb()
+): Promise<void> {
+  await client.run('UPDATE sessions SET last_seen_at = ?, ip_address = ? WHERE id = ?', [
+    new Date().toISOString(),
+    data.ipAddress,
+    id,
+  ]);
+}
+
+export async function revokeSessionById(id: string, client: Queryable = getDb()): Promise<boolean> {
+  const changes = await client.run('UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL', [
+    new Date().toISOString(),
+    id,
+  ]);
+  return changes === 1;
+}
+
+export async function revokeUserSessions(userId: string, client: Queryable = getDb()): Promise<number> {
+  return client.run('UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL', [
+    new Date().toISOString(),
+    userId,
+  ]);
+}
+
+// Security metrics
+export interface SecurityMetric {
+  id: string;
+  eventType: string;
+  email: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  details: string | null;
+  createdAt: string;
+}
+
+function rowToSecurityMetric(row: Record<string, unknown>): SecurityMetric {
+  return {
+    id: row['id'] as string,
+    eventType: row['event_type'] as string,
+    email: row['email'] as string | null,
+    ipAddress: row['ip_address'] as string | null,
+    userAgent: row['user_agent'] as string | null,
+    details: row['details'] as string | null,
+    createdAt: row['created_at'] as string,
+  };
+}
+
+export async function createSecurityMetric(data: Omit<SecurityMetric, 'id' | 'createdAt'>): Promise<SecurityMetric> {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const id = generateId('sec');
+
+  await db.run(
+    `INSERT INTO security_metrics (id, event_type, email, ip_address, user_agent, details, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [id, data.eventType, data.email, data.ipAddress, data.userAgent, data.details, now]
+  );
+
+  return { id, ...data, createdAt: now };
+}
+
+export async function getSecurityMetrics(eventType?: string, limit = 100, offset = 0): Promise<SecurityMetric[]> {
+  if (!isDbInitialized()) return [];
+
+  if (eventType) {
+    return queryToObjects(
+      'SELECT * FROM security_metrics WHERE event_type = ? ORDER BY created_at DESC LIMIT ? OFFSET ?',
+      [eventType, limit, offset],
+      rowToSecurityMetric
+    );
+  }
+
+  return queryToObjects(
+    'SELECT * FROM security_metrics ORDER BY created_at DESC LIMIT ? OFFSET ?',
+    [limit, offset],
+    rowToSecurityMetric
+  );
+}
+
+export async function getSecurityMetricsCounts(hoursAgo = 24): Promise<Record<string, number>> {
+  if (!isDbInitialized()) return {};
+  const cutoff = new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString();
+  const rows = await getDb().query(
+    `SELECT event_type, COUNT(*) as count FROM security_metrics
+     WHERE created_at >= ? GROUP BY event_type`,
+    [cutoff]
+  );
 
   const counts: Record<string, number> = {};
-  for (const row of result[0].values) {
-    counts[row[0] as string] = row[1] as number;
+  for (const row of rows) {
+    counts[row['event_type'] as string] = Number(row['count']);
   }
   return counts;
 }
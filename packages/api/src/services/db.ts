@@ -0,0 +1,94 @@
+/**
+ * Database driver selection.
+ *
+ * DATABASE_TYPE=postgres (the default when DATABASE_URL is set) selects
+ * PostgreSQL; otherwise the embedded sql.js database in DATA_DIR is used. Both drivers accept SQL with `?` placeholders and
+ * apply the same migrations, so the repository functions in database.ts
+ * run unchanged on either.
+ *
+ * @module db
+ */
+
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import { runMigrations } from './migrations.js';
+import { createSqliteDriver } from './sqlite.js';
+import { createPostgresDriver } from './postgres.js';
+
+export type Row = Record<string, unknown>;
+
+export interface Queryable {
+  query(sql: string, params?: unknown[]): Promise<Row[]>;
+  // Returns the number of rows changed
+  run(sql: string, params?: unknown[]): Promise<number>;
+}
+
+export interface DatabaseDriver extends Queryable {
+  readonly type: 'sqlite' | 'postgres';
+  /**
+   * Run fn in a transaction, rolled back if it throws. Only use the tx
+   * handed to fn inside it - other queries are not part of the transaction.
+   */
+  transaction<T>(fn: (tx: Queryable) => Promise<T>): Promise<T>;
+  /**
+   * A consistent copy of the whole database as a SQLite file. Only the
+   * sqlite driver has this - PostgreSQL is backed up with its own tooling.
+   */
+  exportSnapshot?(): Promise<Buffer>;
+  close(): Promise<void>;
+}
+
+let driver: DatabaseDriver | null = null;
+
+/**
+ * Open a driver for the configured database without migrating it. Used by
+ * initDatabase and by tools that manage the schema themselves.
+ */
+export function connectDatabase(): Promise<DatabaseDriver> {
+  return config.database.type === 'postgres'
+    ? createPostgresDriver(config.database)
+    : createSqliteDriver();
+}
+
+/**
+ * Connect to the configured database and apply pending migrations
+ */
+export async function initDatabase(): Promise<void> {
+  if (driver) return;
+
+  try {
+    const next = await connectDatabase();
+    await runMigrations(next);
+    driver = next;
+    logger.info({ msg: 'Database initialized successfully', type: next.type });
+  } catch (error) {
+    logger.error('Failed to initialize database:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the database driver
+ */
+export function getDb(): DatabaseDriver {
+  if (!driver) throw new Error('Database not initialized. Call initDatabase() first.');
+  return driver;
+}
+
+/**
+ * Check if database is initialized
+ */
+export function isDbInitialized(): boolean {
+  return driver !== null;
+}
+
+/**
+ * Close the database
+ */
+export async function closeDatabase(): Promise<void> {
+  if (!driver) return;
+  const closing = driver;
+  driver = null;
+  await closing.close();
+  logger.info('Database closed');
+}
@@ -0,0 +1,100 @@
+import multer from 'multer';
+import { ValidationError } from '@petport/shared';
+import { config } from '../config/index.js';
+import { verifyMagicBytes } from './photoService.js';
+import { getStorage } from './storage.js';
+
+// Allowed MIME types and the extension stored on disk
+const DOCUMENT_TYPES: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+};
+
+// Held in memory until the content is verified and tied to a record.
+// Documents go to the private `documents` storage area, never to uploads.
+const storage = multer.memoryStorage();
+
+const fileFilter: multer.Options['fileFilter'] = (_req, file, cb) => {
+  if (DOCUMENT_TYPES[file.mimetype]) {
+    cb(null, true);
+  } else {
+    cb(new ValidationError(`Invalid file type. Allowed: ${Object.keys(DOCUMENT_TYPES).join(', ')}`));
+  }
+};
+
+export const uploadDocument = multer({
+  storage,
+  fileFilter,
+  limits: {
+    fileSize: config.maxFileSize,
+    files: 1,
+  },
+}).single('document');
+
+export interface StoredDocument {
+  key: string;
+  mimeType: string;
+  extension: string;
+}
+
+function documentKey(recordId: string, extension: string): string {
+  // Record ids are generated server-side, but never build a key from anything else
+  if (!/^[a-zA-Z0-9_-]+$/.test(recordId)) {
+    throw new ValidationError('Invalid record id');
+  }
+  return `${recordId}${extension}`;
+}
+
+/**
+ * Find the document attached to a record, if any
+ */
+export async function findRecordDocument(recordId: string): Promise<StoredDocument | null> {
+  for (const [mimeType, extension] of Object.entries(DOCUMENT_TYPES)) {
+    const key = documentKey(recordId, extension);
+    if (await getStorage('documents').exists(key)) return { key, mimeType, extension };
+  }
+  return null;
+}
+
+/**
+ * Read a record's document
+ */
+export async function readRecordDocument(document: StoredDocument): Promise<Buffer | null> {
+  const object = await getStorage('documents').get(document.key);
+  return object?.body ?? null;
+}
+
+/**
+ * Short-lived link to a record's document that works without the API token
+ */
+export function getRecordDocumentLink(document: StoredDocument): Promise<string> {
+  return getStorage('documents').getSignedUrl(document.key);
+}
+
+/**
+ * Remove a record's document. Returns false if there was none.
+ */
+export async function deleteRecordDocument(recordId: string): Promise<boolean> {
+  const existing = await findRecordDocument(recordId);
+  if (!existing) return false;
+  return getStorage('documents').delete(existing.key);
+}
+
+/**
+ * Verify an uploaded file and attach it to a record, replacing any
+ * previous document. The upload is rejected if its content does not
+ * match the declared type.
+ */
+export async function storeRecordDocument(file: Express.Multer.File, recordId: string): Promise<StoredDocument> {
+  const extension = DOCUMENT_TYPES[file.mimetype];
+  if (!extension || !verifyMagicBytes(file.buffer, file.mimetype)) {
+    throw new ValidationError('File content does not match declared type. Possible file spoofing detected.');
+  }
+
+  await deleteRecordDocument(recordId);
+  const key = documentKey(recordId, extension);
+  await getStorage('documents').put(key, file.buffer, file.mimetype);
+  return { key, mimeType: file.mimetype, extension };
+}
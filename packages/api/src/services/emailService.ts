@@ -0,0 +1,179 @@
+/**
+ * Outbound email.
+ *
+ * Messages are rendered from the templates in emailTemplates.ts and handed
+ * to the configured transport (EMAIL_TRANSPORT):
+ * - smtp: delivered through SMTP_HOST with nodemailer
+ * - file: captured as JSON files in DATA_DIR/mail, the default without SMTP_HOST
+ * - memory: captured in process, the test default
+ *
+ * Captured messages are listed at GET /admin/emails outside production so
+ * links in them can be followed without a mail server.
+ *
+ * @module emailService
+ */
+
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { Transporter } from 'nodemailer';
+import { generateId } from '@petport/shared';
+import { config, EmailConfig, SmtpConfig } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import { EmailContent, EmailTemplateData, EmailTemplateName, emailTemplates } from './emailTemplates.js';
+
+export interface EmailMessage {
+  id: string;
+  template: EmailTemplateName;
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  sentAt: string;
+}
+
+export interface EmailTransport {
+  readonly type: EmailConfig['transport'];
+  send(message: EmailMessage): Promise<void>;
+  // Capturing transports only - newest first
+  list?(limit: number): Promise<EmailMessage[]>;
+}
+
+// Messages kept by the memory transport
+const MEMORY_LIMIT = 200;
+
+let transport: EmailTransport | null = null;
+
+export function createSmtpTransport(smtp: SmtpConfig): EmailTransport {
+  let transporter: Promise<Transporter> | null = null;
+
+  return {
+    type: 'smtp',
+    async send(message) {
+      transporter ??= import('nodemailer').then(({ default: nodemailer }) =>
+        nodemailer.createTransport({
+          host: smtp.host,
+          port: smtp.port,
+          secure: smtp.secure,
+          auth: smtp.user ? { user: smtp.user, pass: smtp.password } : undefined,
+        })
+      );
+      await (await transporter).sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        messageId: `<${message.id}@petport>`,
+      });
+    },
+  };
+}
+
+export function createFileTransport(dir: string): EmailTransport {
+  return {
+    type: 'file',
+    async send(message) {
+      mkdirSync(dir, { recursive: true });
+      // Timestamped names list in the order the messages were sent
+      const path = join(dir, `${message.sentAt.replace(/[-:.]/g, '')}-${message.id}.json`);
+      writeFileSync(path, JSON.stringify(message, null, 2));
+      logger.info({ msg: 'Email captured', template: message.template, path });
+    },
+    async list(limit) {
+      let files: string[];
+      try {
+        files = readdirSync(dir).filter((file) => file.endsWith('.json'));
+      } catch {
+        return [];
+      }
+      return files
+        .sort()
+        .reverse()
+        .slice(0, limit)
+        .map((file) => JSON.parse(readFileSync(join(dir, file), 'utf8')) as EmailMessage);
+    },
+  };
+}
+
+export function createMemoryTransport(): EmailTransport {
+  const messages: EmailMessage[] = [];
+
+  return {
+    type: 'memory',
+    async send(message) {
+      messages.unshift(message);
+      messages.length = Math.min(messages.length, MEMORY_LIMIT);
+    },
+    async list(limit) {
+      return messages.slice(0, limit);
+    },
+  };
+}
+
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    switch (config.email.transport) {
+      case 'smtp':
+        transport = createSmtpTransport(config.email.smtp!);
+        break;
+      case 'file':
+        transport = createFileTransport(join(config.dataDir, 'mail'));
+        break;
+      case 'memory':
+        transport = createMemoryTransport();
+        break;
+    }
+  }
+  return transport;
+}
+
+/**
+ * Replace the transport, or go back to the configured one with null.
+ * Used for testing.
+ */
+export function setEmailTransport(next: EmailTransport | null): void {
+  transport = next;
+}
+
+/**
+ * Render a template and send it. Throws if the transport fails - callers
+ * decide whether that should fail the request.
+ */
+export async function sendEmail<K extends EmailTemplateName>(
+  to: string,
+  template: K,
+  data: EmailTemplateData[K]
+): Promise<EmailMessage> {
+  // TypeScript cannot correlate the template with its data through the union
+  const render = emailTemplates[template] as unknown as (data: EmailTemplateData[K]) => EmailContent;
+  const message: EmailMessage = {
+    id: generateId('eml'),
+    template,
+    from: config.email.from,
+    to,
+    ...render(data),
+    sentAt: new Date().toISOString(),
+  };
+
+  const current = getEmailTransport();
+  await current.send(message);
+  logger.info({ msg: 'Email sent', template, transport: current.type, id: message.id });
+  return message;
+}
+
+/**
+ * Whether sent messages are captured rather than delivered, and may be
+ * listed (never in production)
+ */
+export function isCapturingEmail(): boolean {
+  return config.env !== 'production' && !!getEmailTransport().list;
+}
+
+/**
+ * Captured messages, newest first. Empty when mail is really delivered.
+ */
+export async function listCapturedEmails(limit: number = 100): Promise<EmailMessage[]> {
+  if (!isCapturingEmail()) return [];
+  return getEmailTransport().list!(limit);
+}
@@ -0,0 +1,172 @@
+/**
+ * Outbound email templates. Each template renders its data to a subject
+ * with plain-text and HTML bodies; send them with sendEmail in
+ * emailService.ts.
+ *
+ * @module emailTemplates
+ */
+
+import { formatDate, PetMemberRole } from '@petport/shared';
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface ReminderVaccine {
+  name: string;
+  expiresAt: string;
+}
+
+// What each invited role can do, as it reads after "as a"
+const INVITED_ROLE_DESCRIPTIONS: Record<Exclude<PetMemberRole, 'OWNER'>, string> = {
+  CO_OWNER: 'co-owner, with full access to its records',
+  CARETAKER: 'caretaker, able to view its records',
+  VET: 'vet, able to view and add to its records',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Wrap paragraphs (already escaped) and a call-to-action link in the shared layout
+function layout(paragraphs: string[], action: { label: string; url: string }): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f7f7f5;font-family:Helvetica,Arial,sans-serif;color:#1f2937">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px">
+      <p style="font-weight:bold;font-size:20px;margin:0 0 24px">PetPort</p>
+      ${paragraphs.map((p) => `<p style="line-height:1.5">${p}</p>`).join('\n      ')}
+      <p style="margin:32px 0">
+        <a href="${escapeHtml(action.url)}" style="background:#000000;color:#ffffff;padding:12px 20px;border-radius:8px;text-decoration:none">${escapeHtml(action.label)}</a>
+      </p>
+      <p style="font-size:12px;color:#6b7280">If the button does not work, copy this link into your browser:<br>${escapeHtml(action.url)}</p>
+    </div>
+  </body>
+</html>`;
+}
+
+export const emailTemplates = {
+  passwordReset: (data: { name: string; resetUrl: string; expiresInMinutes: number }): EmailContent => ({
+    subject: 'Reset your PetPort password',
+    text: [
+      `Hi ${data.name},`,
+      'We received a request to reset the password for your PetPort account. Use this link to choose a new one:',
+      data.resetUrl,
+      `The link expires in ${data.expiresInMinutes} minutes. If you did not ask to reset your password, you can ignore this email.`,
+    ].join('\n\n'),
+    html: layout(
+      [
+        `Hi ${escapeHtml(data.name)},`,
+        'We received a request to reset the password for your PetPort account.',
+        `The link expires in ${data.expiresInMinutes} minutes. If you did not ask to reset your password, you can ignore this email.`,
+      ],
+      { label: 'Reset password', url: data.resetUrl }
+    ),
+  }),
+
+  emailVerification: (data: { name: string; verifyUrl: string }): EmailContent => ({
+    subject: 'Verify your email address',
+    text: [
+      `Hi ${data.name},`,
+      'Welcome to PetPort! Please confirm your email address by opening this link:',
+      data.verifyUrl,
+      'The link expires in 24 hours.',
+    ].join('\n\n'),
+    html: layout(
+      [
+        `Hi ${escapeHtml(data.name)},`,
+        'Welcome to PetPort! Please confirm your email address. The link expires in 24 hours.',
+      ],
+      { label: 'Verify email address', url: data.verifyUrl }
+    ),
+  }),
+
+  petInvitation: (data: {
+    inviterName: string;
+    petName: string;
+    role: Exclude<PetMemberRole, 'OWNER'>;
+    acceptUrl: string;
+  }): EmailContent => {
+    const invitation = `${data.inviterName} has invited you to ${data.petName}'s PetPort passport as a ${INVITED_ROLE_DESCRIPTIONS[data.role]}.`;
+    const howTo = 'Sign in, or create an account with this email address, to accept the invitation:';
+    return {
+      subject: `${data.inviterName} invited you to ${data.petName}'s PetPort passport`,
+      text: ['Hi,', invitation, howTo, data.acceptUrl].join('\n\n'),
+      html: layout(['Hi,', escapeHtml(invitation), escapeHtml(howTo)], { label: 'Accept invitation', url: data.acceptUrl }),
+    };
+  },
+
+  vaccinationReminder: (data: {
+    name: string;
+    petName: string;
+    vaccines: ReminderVaccine[];
+    petUrl: string;
+  }): EmailContent => {
+    const lines = data.vaccines.map((v) => `${v.name} - expires ${formatDate(v.expiresAt)}`);
+    return {
+      subject: `${data.petName}'s vaccinations are due soon`,
+      text: [
+        `Hi ${data.name},`,
+        `These vaccinations for ${data.petName} expire soon:`,
+        lines.map((line) => `- ${line}`).join('\n'),
+        `Book a visit with your vet, then add the new records to ${data.petName}'s passport:`,
+        data.petUrl,
+      ].join('\n\n'),
+      html: layout(
+        [
+          `Hi ${escapeHtml(data.name)},`,
+          `These vaccinations for ${escapeHtml(data.petName)} expire soon:<br>${lines.map(escapeHtml).join('<br>')}`,
+          `Book a visit with your vet, then add the new records to ${escapeHtml(data.petName)}'s passport.`,
+        ],
+        { label: `View ${data.petName}'s passport`, url: data.petUrl }
+      ),
+    };
+  },
+
+  finderMessage: (data: {
+    name: string;
+    petName: string;
+    message: string;
+    contactInfo: string | null;
+    location: string | null;
+    petUrl: string;
+  }): EmailContent => {
+    const details = [
+      data.contactInfo && `Contact: ${data.contactInfo}`,
+      data.location && `Location: ${data.location}`,
+    ].filter((line): line is string => !!line);
+    return {
+      subject: `Someone may have found ${data.petName}`,
+      text: [
+        `Hi ${data.name},`,
+        `Someone who scanned ${data.petName}'s tag sent you a message:`,
+        data.message,
+        ...(details.length > 0 ? [details.join('\n')] : []),
+        `All messages are on ${data.petName}'s page:`,
+        data.petUrl,
+      ].join('\n\n'),
+      html: layout(
+        [
+          `Hi ${escapeHtml(data.name)},`,
+          `Someone who scanned ${escapeHtml(data.petName)}'s tag sent you a message:`,
+          escapeHtml(data.message),
+          ...(details.length > 0 ? [details.map(escapeHtml).join('<br>')] : []),
+        ],
+        { label: `View ${data.petName}'s page`, url: data.petUrl }
+      ),
+    };
+  },
+};
+
+export type EmailTemplateName = keyof typeof emailTemplates;
+
+export type EmailTemplateData = {
+  [K in EmailTemplateName]: Parameters<(typeof emailTemplates)[K]>[0];
+};
@@ -0,0 +1,90 @@
+/**
+ * Email address verification.
+ *
+ * Registering sends a link with a single-use token, stored only as a sha256
+ * hash. Following the link marks the account verified. Until then, actions
+ * that hand a pet or its records to someone identified by email are refused
+ * (see requireVerifiedEmail).
+ *
+ * @module emailVerification
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { ConflictError, RateLimitError, ValidationError } from '@petport/shared';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import {
+  getEmailVerificationTokenByHash,
+  getLatestEmailVerificationToken,
+  markEmailVerificationTokenUsed,
+  markUserVerified,
+  Queryable,
+  replaceEmailVerificationToken,
+  StoredUser,
+  withTransaction,
+} from './database.js';
+import { sendEmail } from './emailService.js';
+
+// Links are valid for 24 hours
+const TOKEN_VALIDITY_MS = 24 * 60 * 60 * 1000;
+// Minimum time between verification emails to one account
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a verification token for a user, replacing any unused one
+ */
+export async function issueVerificationToken(userId: string, client?: Queryable): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + TOKEN_VALIDITY_MS).toISOString();
+  await replaceEmailVerificationToken({ userId, tokenHash: hashToken(token), expiresAt }, client);
+  return token;
+}
+
+/**
+ * Send a user a fresh verification link
+ */
+export async function sendVerificationEmail(user: Pick<StoredUser, 'id' | 'email' | 'name'>): Promise<void> {
+  const token = await issueVerificationToken(user.id);
+  await sendEmail(user.email, 'emailVerification', {
+    name: user.name,
+    verifyUrl: `${config.appUrl}/verify-email?token=${token}`,
+  });
+}
+
+/**
+ * Send another verification link, at most once a minute
+ */
+export async function resendVerificationEmail(user: StoredUser): Promise<void> {
+  if (user.isVerified) {
+    throw new ConflictError('Email address is already verified');
+  }
+  const latest = await getLatestEmailVerificationToken(user.id);
+  if (latest && Date.now() - Date.parse(latest.createdAt) < RESEND_INTERVAL_MS) {
+    throw new RateLimitError('Please wait a minute before requesting another verification email');
+  }
+  await sendVerificationEmail(user);
+}
+
+/**
+ * Verify the account a token was issued for. Returns the user id; throws
+ * ValidationError if the token is unknown, expired or already used.
+ */
+export async function verifyEmail(token: string): Promise<string> {
+  return withTransaction(async (tx) => {
+    const stored = await getEmailVerificationTokenByHash(hashToken(token), tx);
+    if (
+      !stored ||
+      Date.parse(stored.expiresAt) <= Date.now() ||
+      !(await markEmailVerificationTokenUsed(stored.id, tx))
+    ) {
+      throw new ValidationError('Invalid or expired verification link');
+    }
+    await markUserVerified(stored.userId, tx);
+    logger.info({ msg: 'Email address verified', userId: stored.userId });
+    return stored.userId;
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Lost-pet finder contact relay.
+ *
+ * A finder's message is stored for the owner's pet page and emailed to the
+ * owner. The finder never sees the owner's email address or phone number -
+ * it is up to the owner to use the contact details the finder left.
+ *
+ * @module finderRelay
+ */
+
+import type { FinderMessage, Pet } from '@petport/shared';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import { createFinderMessage, userStore } from './database.js';
+import { sendEmail } from './emailService.js';
+
+export type FinderContact = Omit<FinderMessage, 'id' | 'petId' | 'isRead' | 'createdAt'> & { ipAddress: string | null };
+
+function describeLocation(message: FinderMessage): string | null {
+  if (message.locationText) return message.locationText;
+  if (message.latitude == null || message.longitude == null) return null;
+  return `${message.latitude}, ${message.longitude}`;
+}
+
+/**
+ * Store a finder's message and email it to the pet's owner
+ */
+export async function relayFinderMessage(pet: Pet, contact: FinderContact): Promise<FinderMessage> {
+  const message = await createFinderMessage({ petId: pet.id, ...contact });
+  logger.info({ msg: 'Finder message relayed', petId: pet.id, messageId: message.id });
+
+  // The message is already on the pet page, so a failed send must not fail the finder
+  const owner = await userStore.get(pet.ownerId);
+  if (owner) {
+    try {
+      await sendEmail(owner.email, 'finderMessage', {
+        name: owner.name,
+        petName: pet.name,
+        message: message.message,
+        contactInfo: message.contactInfo,
+        location: describeLocation(message),
+        petUrl: `${config.appUrl}/pets/${pet.id}`,
+      });
+    } catch (error) {
+      logger.error({ msg: 'Failed to email finder message', messageId: message.id, error: (error as Error).message });
+    }
+  }
+  return message;
+}
@@ -0,0 +1,308 @@
+/**
+ * Schema migrations, stored as SQL files in packages/api/migrations:
+ *
+ *   013_normalize_user_emails.up.sql
+ *   013_normalize_user_emails.down.sql
+ *
+ * Files are written in SQLite syntax - the PostgreSQL driver translates the
+ * few differences (see toPostgresSql). The migrations table records a
+ * checksum of each applied up file, so editing a migration after it has
+ * shipped is detected instead of silently diverging between databases.
+ * Add a new migration rather than changing an applied one.
+ *
+ * Pending migrations are applied on startup; `npm run db:migrate` shows
+ * status, rolls back and previews changes (see scripts/migrate.ts).
+ *
+ * @module migrations
+ */
+
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { logger } from '../config/logger.js';
+import type { DatabaseDriver } from './db.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+  // sha256 of the up SQL
+  checksum: string;
+}
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string | null;
+  appliedAt: string;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing' | 'untracked';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  // modified: the up file changed after it was applied
+  // missing: applied, but this build has no file for it (rolled back code)
+  // untracked: applied before checksums were recorded; `up` records them
+  state: MigrationState;
+  appliedAt: string | null;
+}
+
+export interface MigrateOptions {
+  // Stop at this version (inclusive when applying, exclusive when rolling back)
+  to?: number;
+  // Work out what would run without executing anything
+  dryRun?: boolean;
+}
+
+// Resolves to packages/api/migrations from both src/ and dist/
+export const MIGRATIONS_DIR = fileURLToPath(new URL('../../migrations', import.meta.url));
+
+const MIGRATION_FILE = /^(\d+)_(\w+)\.(up|down)\.sql$/;
+
+/**
+ * Read the migration files in dir, ordered by version. Every version needs
+ * both an up and a down file.
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const files = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of readdirSync(dir)) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) continue;
+    const version = parseInt(match[1]!, 10);
+    const name = match[2]!;
+    const entry = files.get(version) ?? { name };
+    if (entry.name !== name) {
+      throw new Error(`Migration ${version} has files with different names: ${entry.name}, ${name}`);
+    }
+    entry[match[3] as 'up' | 'down'] = readFileSync(join(dir, file), 'utf8');
+    files.set(version, entry);
+  }
+
+  return [...files.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, { name, up, down }]) => {
+      if (up === undefined || down === undefined) {
+        throw new Error(`Migration ${version}_${name} needs both an up and a down file`);
+      }
+      return { version, name, up, down, checksum: createHash('sha256').update(up).digest('hex') };
+    });
+}
+
+/**
+ * Split a migration file into statements. Comment lines are dropped first so
+ * they may contain semicolons; a file with nothing but comments (e.g. a down
+ * file with nothing to undo) has no statements.
+ */
+export function splitStatements(sql: string): string[] {
+  return sql
+    .split('\n')
+    .filter((line) => !line.trim().startsWith('--'))
+    .join('\n')
+    .split(';')
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+/**
+ * Create the migrations table, or add the checksum column to one created
+ * before checksums were tracked
+ */
+async function ensureMigrationsTable(db: DatabaseDriver): Promise<void> {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  try {
+    await db.query('SELECT checksum FROM migrations WHERE version = 0');
+  } catch {
+    await db.run('ALTER TABLE migrations ADD COLUMN checksum TEXT');
+  }
+}
+
+/**
+ * Rows of the migrations table, without changing anything: no table yet
+ * means nothing is applied, and a table without the checksum column reads
+ * as if no checksums were recorded
+ */
+async function getAppliedMigrations(db: DatabaseDriver): Promise<AppliedMigration[]> {
+  let rows;
+  try {
+    rows = await db.query('SELECT version, name, checksum, applied_at FROM migrations ORDER BY version');
+  } catch {
+    try {
+      rows = await db.query('SELECT version, name, NULL AS checksum, applied_at FROM migrations ORDER BY version');
+    } catch {
+      return [];
+    }
+  }
+  return rows.map((row) => ({
+    version: Number(row['version']),
+    name: row['name'] as string,
+    checksum: (row['checksum'] as string | null) ?? null,
+    appliedAt: row['applied_at'] as string,
+  }));
+}
+
+/**
+ * Record checksums for migrations applied before they were tracked. The
+ * files are trusted as they are now - there is nothing older to compare to.
+ */
+async function recordMissingChecksums(
+  db: DatabaseDriver,
+  applied: AppliedMigration[],
+  migrations: Migration[]
+): Promise<void> {
+  let recorded = 0;
+  for (const row of applied) {
+    const migration = migrations.find((m) => m.version === row.version);
+    if (row.checksum !== null || !migration) continue;
+    await db.run('UPDATE migrations SET checksum = ? WHERE version = ?', [migration.checksum, row.version]);
+    recorded++;
+  }
+  if (recorded > 0) {
+    logger.info({ msg: 'Recorded checksums for existing migrations', count: recorded });
+  }
+}
+
+function compareMigrations(applied: AppliedMigration[], migrations: Migration[]): MigrationStatus[] {
+  const statuses: MigrationStatus[] = migrations.map((migration) => {
+    const row = applied.find((a) => a.version === migration.version);
+    let state: MigrationState = 'pending';
+    if (row) {
+      state = row.checksum === null ? 'untracked' : row.checksum === migration.checksum ? 'applied' : 'modified';
+    }
+    return { version: migration.version, name: migration.name, state, appliedAt: row?.appliedAt ?? null };
+  });
+
+  for (const row of applied) {
+    if (!migrations.some((m) => m.version === row.version)) {
+      statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.appliedAt });
+    }
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * State of every migration known to this build or to the database. Only
+ * reads - safe to run against any database.
+ */
+export async function getMigrationStatus(
+  db: DatabaseDriver,
+  migrations: Migration[] = loadMigrations()
+): Promise<MigrationStatus[]> {
+  return compareMigrations(await getAppliedMigrations(db), migrations);
+}
+
+async function execute(db: DatabaseDriver, migration: Migration, direction: 'up' | 'down'): Promise<void> {
+  await db.transaction(async (tx) => {
+    for (const statement of splitStatements(migration[direction])) {
+      await tx.run(statement);
+    }
+
+    if (direction === 'up') {
+      await tx.run(
+        'INSERT INTO migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)',
+        [migration.version, migration.name, migration.checksum, new Date().toISOString()]
+      );
+    } else {
+      await tx.run('DELETE FROM migrations WHERE version = ?', [migration.version]);
+    }
+  });
+}
+
+/**
+ * Apply pending migrations, oldest first. Each migration runs in its own
+ * transaction so a failure leaves the schema at the previous version.
+ *
+ * Refuses to run if an applied migration's file has been edited. Applied
+ * migrations this build does not know about (left by a newer release) are
+ * only logged, so an older build can still start after a rollback.
+ *
+ * Returns the migrations applied, or that would be applied for a dry run.
+ */
+export async function runMigrations(
+  db: DatabaseDriver,
+  options: MigrateOptions = {},
+  migrations: Migration[] = loadMigrations()
+): Promise<Migration[]> {
+  if (!options.dryRun) {
+    await ensureMigrationsTable(db);
+    await recordMissingChecksums(db, await getAppliedMigrations(db), migrations);
+  }
+  const statuses = await getMigrationStatus(db, migrations);
+
+  const modified = statuses.filter((s) => s.state === 'modified');
+  if (modified.length > 0) {
+    throw new Error(
+      `Applied migrations have been edited: ${modified.map((s) => s.version).join(', ')}. ` +
+        'Restore the original files and add a new migration instead.'
+    );
+  }
+
+  const missing = statuses.filter((s) => s.state === 'missing');
+  if (missing.length > 0) {
+    logger.warn({ msg: 'Database has migrations this build does not know about', versions: missing.map((s) => s.version) });
+  }
+
+  const pending = migrations.filter((migration) =>
+    statuses.some((s) => s.version === migration.version && s.state === 'pending') &&
+    (options.to === undefined || migration.version <= options.to)
+  );
+
+  if (options.dryRun) return pending;
+
+  for (const migration of pending) {
+    logger.info(`Applying migration ${migration.version}: ${migration.name}`);
+    await execute(db, migration, 'up');
+    logger.info(`Migration ${migration.version} applied successfully`);
+  }
+
+  return pending;
+}
+
+/**
+ * Roll back applied migrations, newest first, until the schema is at
+ * options.to (by default, undo only the latest one). Down migrations drop
+ * tables and columns along with their data - take a backup first.
+ *
+ * Returns the migrations rolled back, or that would be for a dry run.
+ */
+export async function rollbackMigrations(
+  db: DatabaseDriver,
+  options: MigrateOptions = {},
+  migrations: Migration[] = loadMigrations()
+): Promise<Migration[]> {
+  const statuses = await getMigrationStatus(db, migrations);
+  const applied = statuses.filter((s) => s.state !== 'pending');
+  if (applied.length === 0) return [];
+
+  const target = options.to ?? (applied.length > 1 ? applied[applied.length - 2]!.version : 0);
+  const toRollBack = applied.filter((s) => s.version > target).reverse();
+
+  const unknown = toRollBack.find((s) => s.state === 'missing');
+  if (unknown) {
+    throw new Error(`Cannot roll back migration ${unknown.version}: this build has no down file for it`);
+  }
+
+  const rollback = toRollBack.map((status) => migrations.find((m) => m.version === status.version)!);
+  if (options.dryRun) return rollback;
+
+  for (const migration of rollback) {
+    logger.info(`Rolling back migration ${migration.version}: ${migration.name}`);
+    await execute(db, migration, 'down');
+    logger.info(`Migration ${migration.version} rolled back`);
+  }
+
+  return rollback;
+}
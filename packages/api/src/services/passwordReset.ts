@@ -1,165 +1,165 @@
 /**
- * Password reset token management.
- * 
- * LIMITATIONS:
- * - In-memory storage, tokens cleared on server restart
- * - For production, upgrade to Redis or database storage
- * 
+ * Password reset.
+ *
+ * A reset link carries a single-use token, stored only as a sha256 hash and
+ * valid for an hour. Requesting a new link expires the previous one, and an
+ * account is sent at most MAX_REQUESTS_PER_HOUR links.
+ *
+ * The forgot-password route queues requests rather than waiting for them,
+ * so its response time does not reveal whether an address has an account.
+ *
+ * Completing a reset signs the account out everywhere: its sessions and
+ * refresh tokens are revoked and access tokens issued before the reset are
+ * blacklisted. Every request and use is recorded as a security metric.
+ *
  * @module passwordReset
  */
 
-import { randomBytes } from 'crypto';
-
-interface ResetToken {
-  userId: string;
-  email: string;
-  token: string;
-  expiresAt: number; // Unix timestamp (ms)
-  createdAt: number;
+import { createHash, randomBytes } from 'crypto';
+import { AuthenticationError } from '@petport/shared';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import {
+  countPasswordResetTokensSince,
+  createPasswordResetToken,
+  createSecurityMetric,
+  deletePasswordResetTokensExpiredBefore,
+  expirePasswordResetTokens,
+  getPasswordResetTokenByHash,
+  getUserByEmail,
+  markPasswordResetTokenUsed,
+  revokeUserRefreshTokens,
+  revokeUserSessions,
+  updateUserPassword,
+  withTransaction,
+} from './database.js';
+import { sendEmail } from './emailService.js';
+import { RequestContext } from './refreshTokens.js';
+import { blacklistUserTokens } from './tokenBlacklist.js';
+
+// Links are valid for an hour
+export const RESET_TOKEN_VALIDITY_MINUTES = 60;
+const TOKEN_VALIDITY_MS = RESET_TOKEN_VALIDITY_MINUTES * 60 * 1000;
+// Reset emails sent to one account per hour
+const MAX_REQUESTS_PER_HOUR = 3;
+const HOUR_MS = 60 * 60 * 1000;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
 }
 
-// Token validity period (1 hour)
-const TOKEN_VALIDITY_MS = 60 * 60 * 1000;
-
-// Store reset tokens: token -> ResetToken
-const resetTokens = new Map<string, ResetToken>();
-
-// Also index by userId to invalidate old tokens
-const userTokens = new Map<string, string>();
+async function recordMetric(eventType: string, context: RequestContext, email: string | null, details: string): Promise<void> {
+  await createSecurityMetric({
+    eventType,
+    email,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    details,
+  }).catch((error: Error) => logger.error({ msg: 'Failed to record security metric', error: error.message }));
+}
 
 /**
- * Generate a password reset token for a user.
- * Invalidates any existing token for the user.
- * 
- * @param userId - The user's ID
- * @param email - The user's email
- * @returns The reset token
+ * Create a reset token for a user, expiring their unused ones. Returns null
+ * if the account already had MAX_REQUESTS_PER_HOUR links this hour.
  */
-export function generateResetToken(userId: string, email: string): string {
-  // Invalidate any existing token for this user
-  const existingToken = userTokens.get(userId);
-  if (existingToken) {
-    resetTokens.delete(existingToken);
-  }
-  
-  // Generate a secure random token (32 bytes = 64 hex chars)
-  const token = randomBytes(32).toString('hex');
+export async function issueResetToken(userId: string): Promise<string | null> {
+  const token = randomBytes(32).toString('base64url');
   const now = Date.now();
-  
-  const resetToken: ResetToken = {
-    userId,
-    email,
-    token,
-    expiresAt: now + TOKEN_VALIDITY_MS,
-    createdAt: now,
-  };
-  
-  resetTokens.set(token, resetToken);
-  userTokens.set(userId, token);
-  
-  return token;
+  const hourAgo = new Date(now - HOUR_MS).toISOString();
+
+  const issued = await withTransaction(async (tx) => {
+    // Expired tokens are kept for an hour to count towards the limit
+    await deletePasswordResetTokensExpiredBefore(hourAgo, tx);
+    if ((await countPasswordResetTokensSince(userId, hourAgo, tx)) >= MAX_REQUESTS_PER_HOUR) {
+      return false;
+    }
+    await expirePasswordResetTokens(userId, tx);
+    await createPasswordResetToken(
+      { userId, tokenHash: hashToken(token), expiresAt: new Date(now + TOKEN_VALIDITY_MS).toISOString() },
+      tx
+    );
+    return true;
+  });
+
+  return issued ? token : null;
 }
 
 /**
- * Validate a reset token and return the associated user info.
- * 
- * @param token - The reset token to validate
- * @returns The userId if valid, null if invalid or expired
+ * Email a reset link to the account with this address. Unknown addresses
+ * and throttled accounts are not reported, so callers respond the same way
+ * whether or not a link was sent.
  */
-export function validateResetToken(token: string): { userId: string; email: string } | null {
-  const resetToken = resetTokens.get(token);
-  
-  if (!resetToken) {
-    return null;
+export async function requestPasswordReset(email: string, context: RequestContext): Promise<void> {
+  const user = await getUserByEmail(email);
+  if (!user) {
+    await recordMetric('PASSWORD_RESET_REQUESTED', context, email, 'No account with this email address');
+    return;
   }
-  
-  // Check if expired
-  if (Date.now() > resetToken.expiresAt) {
-    // Clean up expired token
-    resetTokens.delete(token);
-    userTokens.delete(resetToken.userId);
-    return null;
-  }
-  
-  return { userId: resetToken.userId, email: resetToken.email };
-}
 
-/**
- * Consume a reset token (use it and invalidate).
- * 
- * @param token - The reset token to consume
- * @returns The userId if valid, null if invalid
- */
-export function consumeResetToken(token: string): { userId: string; email: string } | null {
-  const result = validateResetToken(token);
-  
-  if (result) {
-    // Invalidate the token
-    resetTokens.delete(token);
-    userTokens.delete(result.userId);
+  const token = await issueResetToken(user.id);
+  if (!token) {
+    logger.warn({ msg: 'Password reset requests throttled', userId: user.id });
+    await recordMetric('PASSWORD_RESET_THROTTLED', context, user.email, `More than ${MAX_REQUESTS_PER_HOUR} requests in an hour`);
+    return;
   }
-  
-  return result;
+
+  await recordMetric('PASSWORD_RESET_REQUESTED', context, user.email, 'Reset link sent');
+  await sendEmail(user.email, 'passwordReset', {
+    name: user.name,
+    resetUrl: `${config.appUrl}/reset-password?token=${token}`,
+    expiresInMinutes: RESET_TOKEN_VALIDITY_MINUTES,
+  });
 }
 
+let queue: Promise<void> = Promise.resolve();
+
 /**
- * Get the reset token for a user (for testing/debugging).
+ * Start requestPasswordReset without waiting for it. Queued requests run
+ * one at a time, in order; failures are logged.
  */
-export function getTokenForUser(userId: string): string | null {
-  return userTokens.get(userId) ?? null;
+export function queuePasswordReset(email: string, context: RequestContext): void {
+  queue = queue
+    .then(() => requestPasswordReset(email, context))
+    .catch((error: Error) => logger.error({ msg: 'Failed to send password reset email', error: error.message }));
 }
 
 /**
- * Clear all reset tokens (for testing).
+ * Resolves once every queued request has been handled. Used for testing.
  */
-export function clearResetTokens(): void {
-  resetTokens.clear();
-  userTokens.clear();
+export function waitForPasswordResets(): Promise<void> {
+  return queue;
 }
 
 /**
- * Get count of active reset tokens (for monitoring).
+ * Set a new password with a reset token and sign the account out
+ * everywhere. Returns the user id; throws AuthenticationError if the token
+ * is unknown, expired or already used.
  */
-export function getResetTokenCount(): number {
-  return resetTokens.size;
-}
-
-// Cleanup expired tokens periodically (every 10 minutes)
-const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
-
-function cleanupExpiredTokens(): void {
-  const now = Date.now();
-  let removed = 0;
-  
-  for (const [token, resetToken] of resetTokens.entries()) {
-    if (now > resetToken.expiresAt) {
-      resetTokens.delete(token);
-      userTokens.delete(resetToken.userId);
-      removed++;
+export async function resetPassword(token: string, passwordHash: string, context: RequestContext): Promise<string> {
+  const userId = await withTransaction(async (tx) => {
+    const stored = await getPasswordResetTokenByHash(hashToken(token), tx);
+    if (
+      !stored ||
+      Date.parse(stored.expiresAt) <= Date.now() ||
+      !(await markPasswordResetTokenUsed(stored.id, tx))
+    ) {
+      return null;
     }
+    await updateUserPassword(stored.userId, passwordHash, tx);
+    await expirePasswordResetTokens(stored.userId, tx);
+    await revokeUserSessions(stored.userId, tx);
+    await revokeUserRefreshTokens(stored.userId, tx);
+    return stored.userId;
+  });
+
+  if (!userId) {
+    await recordMetric('PASSWORD_RESET_FAILED', context, null, 'Invalid or expired reset token');
+    throw new AuthenticationError('Invalid or expired reset token');
   }
-  
-  if (removed > 0) {
-    console.log(`[PasswordReset] Cleaned up ${removed} expired tokens. Remaining: ${resetTokens.size}`);
-  }
-}
-
-let cleanupTimer: NodeJS.Timeout | null = null;
-
-export function startResetTokenCleanup(): void {
-  if (cleanupTimer) return;
-  cleanupTimer = setInterval(cleanupExpiredTokens, CLEANUP_INTERVAL_MS);
-  cleanupTimer.unref();
-}
-
-export function stopResetTokenCleanup(): void {
-  if (cleanupTimer) {
-    clearInterval(cleanupTimer);
-    cleanupTimer = null;
-  }
-}
 
-// Auto-start cleanup on module load (except in test environment)
-if (process.env['NODE_ENV'] !== 'test') {
-  startResetTokenCleanup();
+  // Access tokens never outlive the refresh tokens that renew them
+  await blacklistUserTokens(userId, config.refreshTokenTtlDays * 24 * 60 * 60);
+  logger.info({ msg: 'Password reset, all sessions revoked', userId });
+  await recordMetric('PASSWORD_RESET_COMPLETED', context, null, `Password reset for user ${userId}; all sessions revoked`);
+  return userId;
 }
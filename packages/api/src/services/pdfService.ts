@@ -1,10 +1,15 @@
 import PDFDocument from 'pdfkit';
-import type { Pet, Vaccination } from '@petport/shared';
+import { VACCINATION_TYPE_LABELS } from '@petport/shared';
+import type { Pet, Vaccination, VaccinationAttestation, ComplianceReport } from '@petport/shared';
+import { getVaccinationExpiry } from './complianceService.js';
 
 export interface PassportData {
   pet: Pet;
   owner: { name: string; email: string };
   vaccinations: Vaccination[];
+  // Vet sign-offs keyed by vaccination id
+  attestations: Record<string, VaccinationAttestation>;
+  compliance: ComplianceReport;
   generatedAt: string;
 }
 
@@ -80,6 +85,7 @@ export async function generatePassportPDF(data: PassportData): Promise<Buffer> {
         ['Date of Birth', data.pet.dateOfBirth || 'Unknown'],
         ['Color', data.pet.color || 'Not specified'],
         ['Microchip ID', data.pet.microchipId || 'None'],
+        ['Verification', data.pet.verificationLevel],
       ];
 
       for (const row of infoRows) {
@@ -107,6 +113,43 @@ export async function generatePassportPDF(data: PassportData): Promise<Buffer> {
       doc.fillColor(charcoal).fontSize(12).font('Helvetica-Bold').text(data.owner.email, 150, y);
       y += 35;
 
+      // Vaccine Compliance
+      doc.fillColor(charcoal)
+        .fontSize(18)
+        .font('Helvetica-Bold')
+        .text('Vaccine Compliance', 50, y);
+
+      y += 30;
+      doc.moveTo(50, y).lineTo(doc.page.width - 50, y).stroke(forest);
+      y += 20;
+
+      if (data.compliance.requirements.length === 0) {
+        doc.fillColor(stone)
+          .fontSize(12)
+          .font('Helvetica-Oblique')
+          .text(`No required vaccines for ${data.pet.species.toLowerCase()}s`, 50, y);
+        y += 30;
+      } else {
+        for (const requirement of data.compliance.requirements) {
+          const status = requirement.isCompliant
+            ? 'COMPLIANT'
+            : !requirement.vaccination
+            ? 'MISSING'
+            : (requirement.daysUntilExpiry ?? 0) < 0
+            ? 'EXPIRED'
+            : 'EXPIRING';
+
+          doc.fillColor(charcoal).fontSize(10).font('Helvetica-Bold')
+            .text(VACCINATION_TYPE_LABELS[requirement.type], 50, y, { width: 95 });
+          doc.fillColor(requirement.isCompliant ? '#4A6B5D' : '#B8533E')
+            .text(status, 150, y, { width: 80 });
+          doc.fillColor(stone).fontSize(9).font('Helvetica')
+            .text(requirement.message, 240, y, { width: doc.page.width - 290 });
+          y += 20;
+        }
+        y += 15;
+      }
+
       // Vaccination Records
       doc.fillColor(charcoal)
         .fontSize(18)
@@ -137,14 +180,15 @@ export async function generatePassportPDF(data: PassportData): Promise<Buffer> {
         y += 10;
 
         for (const vax of data.vaccinations) {
-          const isExpired = vax.expiresAt ? new Date(vax.expiresAt) < new Date() : false;
-          const status = vax.expiresAt ? (isExpired ? 'EXPIRED' : 'VALID') : 'N/A';
+          const { expiresAt, usingDefault } = getVaccinationExpiry(vax);
+          const isExpired = expiresAt < new Date(data.compliance.asOf);
+          const status = isExpired ? 'EXPIRED' : 'VALID';
 
           doc.fillColor(charcoal).fontSize(9).font('Helvetica');
           doc.text(vax.type, 50, y, { width: 75 });
           doc.text(vax.name, 130, y, { width: 145 });
           doc.text(new Date(vax.administeredAt).toLocaleDateString(), 280, y);
-          doc.text(vax.expiresAt ? new Date(vax.expiresAt).toLocaleDateString() : '-', 380, y);
+          doc.text(`${expiresAt.toLocaleDateString()}${usingDefault ? '*' : ''}`, 380, y);
           
           doc.fillColor(isExpired ? '#B8533E' : '#4A6B5D')
             .font('Helvetica-Bold')
@@ -152,12 +196,31 @@ export async function generatePassportPDF(data: PassportData): Promise<Buffer> {
           
           y += 25;
 
+          const attestation = data.attestations[vax.id];
+          if (attestation) {
+            doc.fillColor(forest).fontSize(8).font('Helvetica-Oblique')
+              .text(
+                `Attested by ${attestation.vetName}, ${attestation.clinicName} (licence ${attestation.licenseNumber}) on ${new Date(attestation.attestedAt).toLocaleDateString()}`,
+                130,
+                y - 10,
+                { width: doc.page.width - 180 }
+              );
+            y += 8;
+          }
+
           // Check for page break
           if (y > doc.page.height - 100) {
             doc.addPage();
             y = 50;
           }
         }
+
+        if (data.vaccinations.some((vax) => !vax.expiresAt)) {
+          doc.fillColor(stone)
+            .fontSize(8)
+            .font('Helvetica-Oblique')
+            .text('* No expiry recorded - default 1-year validity applied', 50, y);
+        }
       }
 
       // Footer
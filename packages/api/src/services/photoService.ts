@@ -1,15 +1,11 @@
+import express, { RequestHandler } from 'express';
 import multer from 'multer';
+import sharp from 'sharp';
 import { randomUUID } from 'crypto';
-import { existsSync, mkdirSync, unlinkSync, readFileSync } from 'fs';
-import { join, extname, resolve } from 'path';
-import { ValidationError } from '@petport/shared';
+import { readFileSync } from 'fs';
+import { ValidationError, PhotoVariants } from '@petport/shared';
 import { config } from '../config/index.js';
-
-// Ensure upload directory exists
-const uploadDir = resolve(config.uploadDir);
-if (!existsSync(uploadDir)) {
-  mkdirSync(uploadDir, { recursive: true });
-}
+import { getStorage } from './storage.js';
 
 // Allowed MIME types and their magic bytes
 const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
@@ -17,23 +13,21 @@ const MAGIC_BYTES: Record<string, number[][]> = {
   'image/jpeg': [[0xFF, 0xD8, 0xFF]],
   'image/png': [[0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]],
   'image/webp': [[0x52, 0x49, 0x46, 0x46]], // RIFF header (WebP starts with RIFF)
+  'application/pdf': [[0x25, 0x50, 0x44, 0x46, 0x2D]], // %PDF- (documents only, not accepted as photos)
 };
 
 const MAX_FILE_SIZE = config.maxFileSize; // 10MB default
 
-// Multer storage configuration
-const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => {
-    cb(null, uploadDir);
-  },
-  filename: (_req, file, cb) => {
-    const uniqueId = randomUUID();
-    // Sanitize extension - only allow known extensions
-    const ext = extname(file.originalname).toLowerCase();
-    const safeExt = ['.jpg', '.jpeg', '.png', '.webp'].includes(ext) ? ext : '.jpg';
-    cb(null, `${uniqueId}${safeExt}`);
-  },
-});
+// Uploads are held in memory and only stored once re-encoded, so originals
+// (and their EXIF data) never reach public storage
+const storage = multer.memoryStorage();
+
+// Longest edge for each variant. Thumbnails are cropped square for avatars.
+const PHOTO_VARIANT_SIZES = {
+  thumbnail: 200,
+  medium: 800,
+  full: 2048,
+} as const;
 
 // File filter
 const fileFilter: multer.Options['fileFilter'] = (_req, file, cb) => {
@@ -57,74 +51,125 @@ export const upload = multer({
 // Single file upload middleware
 export const uploadSingle = upload.single('photo');
 
+/**
+ * Verify content matches declared MIME type using magic bytes
+ */
+export function verifyMagicBytes(buffer: Buffer, declaredMime: string): boolean {
+  const expectedPatterns = MAGIC_BYTES[declaredMime];
+  if (!expectedPatterns) return false;
+
+  return expectedPatterns.some(pattern => {
+    for (let i = 0; i < pattern.length; i++) {
+      if (buffer[i] !== pattern[i]) return false;
+    }
+    return true;
+  });
+}
+
 /**
  * Verify file content matches declared MIME type using magic bytes
  */
 export function verifyFileMagicBytes(filepath: string, declaredMime: string): boolean {
   try {
-    const buffer = readFileSync(filepath);
-    const expectedPatterns = MAGIC_BYTES[declaredMime];
-    if (!expectedPatterns) return false;
-    
-    return expectedPatterns.some(pattern => {
-      for (let i = 0; i < pattern.length; i++) {
-        if (buffer[i] !== pattern[i]) return false;
-      }
-      return true;
-    });
+    return verifyMagicBytes(readFileSync(filepath), declaredMime);
   } catch {
     return false;
   }
 }
 
 /**
- * Sanitize filename - only allow safe characters
+ * Re-encode an uploaded photo into JPEG variants. Orientation is applied
+ * from EXIF and all metadata (including GPS) is dropped from the output.
+ * Returns the public URL of each variant.
+ */
+export async function processPhoto(buffer: Buffer): Promise<PhotoVariants> {
+  const id = randomUUID();
+  // rotate() with no angle applies the EXIF orientation
+  const base = sharp(buffer, { failOn: 'error' }).rotate().flatten({ background: '#ffffff' });
+
+  let outputs: [keyof PhotoVariants, Buffer][];
+  try {
+    outputs = await Promise.all(
+      (Object.keys(PHOTO_VARIANT_SIZES) as (keyof PhotoVariants)[]).map(async (variant) => {
+        const size = PHOTO_VARIANT_SIZES[variant];
+        const resized = variant === 'thumbnail'
+          ? base.clone().resize(size, size, { fit: 'cover' })
+          : base.clone().resize(size, size, { fit: 'inside', withoutEnlargement: true });
+        const output = await resized.jpeg({ quality: 82, mozjpeg: true }).toBuffer();
+        return [variant, output] as [keyof PhotoVariants, Buffer];
+      })
+    );
+  } catch {
+    throw new ValidationError('Image could not be processed. Please upload a valid JPEG, PNG, or WebP photo.');
+  }
+
+  const storage = getStorage('uploads');
+  const variants = {} as PhotoVariants;
+  for (const [variant, output] of outputs) {
+    const filename = `${id}-${variant}.jpg`;
+    await storage.put(filename, output, 'image/jpeg');
+    variants[variant] = getPhotoUrl(filename);
+  }
+  return variants;
+}
+
+/**
+ * Delete every stored size of a photo
  */
-function sanitizeFilename(filename: string): string | null {
-  // Only allow alphanumeric, dash, underscore, dot
-  const sanitized = filename.replace(/[^a-zA-Z0-9._-]/g, '');
-  // Reject if different from original or contains path traversal
-  if (sanitized !== filename || filename.includes('..')) {
-    return null;
+export async function deletePhotoVariants(variants: PhotoVariants): Promise<void> {
+  for (const url of new Set(Object.values(variants))) {
+    const filename = getFilenameFromUrl(url);
+    if (filename) await deletePhoto(filename);
   }
-  return sanitized;
 }
 
 /**
- * Get the public URL for an uploaded file
+ * Get the public URL for an uploaded file. Photos are always addressed
+ * through the API so stored URLs survive a change of storage driver.
  */
 export function getPhotoUrl(filename: string): string {
   return `${config.publicUrl}/uploads/${filename}`;
 }
 
 /**
- * Delete a photo file (with path traversal protection)
+ * Delete a photo file. Storage keys are validated, so names with path
+ * separators or traversal are refused.
  */
-export function deletePhoto(filename: string): boolean {
-  // Sanitize filename to prevent path traversal
-  const sanitized = sanitizeFilename(filename);
-  if (!sanitized) {
-    return false;
-  }
-  
-  const filePath = join(uploadDir, sanitized);
-  const resolvedPath = resolve(filePath);
-  
-  // Verify resolved path is still within upload directory
-  if (!resolvedPath.startsWith(uploadDir)) {
-    return false; // Path traversal attempt blocked
+export async function deletePhoto(filename: string): Promise<boolean> {
+  return getStorage('uploads').delete(filename);
+}
+
+const serveLocalPhotos = express.static(config.uploadDir, {
+  maxAge: '1d',
+  etag: true,
+});
+
+/**
+ * Serve /uploads from the configured storage
+ */
+export const servePhotos: RequestHandler = (req, res, next) => {
+  if (getStorage('uploads').driver === 'local') {
+    serveLocalPhotos(req, res, next);
+    return;
   }
-  
-  try {
-    if (existsSync(resolvedPath)) {
-      unlinkSync(resolvedPath);
-      return true;
-    }
-    return false;
-  } catch {
-    return false;
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    next();
+    return;
   }
-}
+
+  getStorage('uploads').get(req.path.slice(1))
+    .then((object) => {
+      if (!object) {
+        next();
+        return;
+      }
+      res.setHeader('Content-Type', object.contentType);
+      // Photo names are unique per upload, so the content never changes
+      res.setHeader('Cache-Control', 'public, max-age=86400');
+      res.send(object.body);
+    })
+    .catch(next);
+};
 
 /**
  * Extract filename from URL
@@ -0,0 +1,117 @@
+/**
+ * PostgreSQL driver, used when DATABASE_TYPE is postgres.
+ *
+ * Repository SQL and migration files are written for SQLite; toPostgresSql
+ * rewrites the placeholders and the handful of SQLite-only constructs
+ * they use before each statement is sent.
+ *
+ * @module postgres
+ */
+
+import type { Pool, PoolClient } from 'pg';
+import type { DatabaseConfig } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import type { DatabaseDriver, Queryable } from './db.js';
+
+const SQLITE_NOW = /strftime\('%Y-%m-%dT%H:%M:%fZ', 'now'\)/g;
+const POSTGRES_NOW = `to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')`;
+
+/**
+ * Translate a statement from SQLite to PostgreSQL syntax
+ */
+export function toPostgresSql(sql: string): string {
+  let translated = sql
+    // SQLite REAL is 8 bytes - PostgreSQL REAL is only 4
+    .replace(/\bREAL\b/g, 'DOUBLE PRECISION')
+    .replace(SQLITE_NOW, POSTGRES_NOW);
+
+  if (/\bINSERT OR IGNORE INTO\b/i.test(translated)) {
+    translated = `${translated.replace(/\bINSERT OR IGNORE INTO\b/i, 'INSERT INTO')} ON CONFLICT DO NOTHING`;
+  }
+
+  // ? placeholders become $1, $2, ... (skipping quoted strings and comments)
+  let index = 0;
+  let result = '';
+  for (let i = 0; i < translated.length; i++) {
+    const char = translated[i]!;
+    if (char === "'") {
+      const end = translated.indexOf("'", i + 1);
+      const stop = end === -1 ? translated.length : end + 1;
+      result += translated.slice(i, stop);
+      i = stop - 1;
+    } else if (char === '-' && translated[i + 1] === '-') {
+      const end = translated.indexOf('\n', i);
+      const stop = end === -1 ? translated.length : end;
+      result += translated.slice(i, stop);
+      i = stop - 1;
+    } else {
+      result += char === '?' ? `$${++index}` : char;
+    }
+  }
+  return result;
+}
+
+function createClient(target: Pool | PoolClient): Queryable {
+  return {
+    async query(sql, params = []) {
+      const result = await target.query(toPostgresSql(sql), params);
+      return result.rows;
+    },
+    async run(sql, params = []) {
+      const result = await target.query(toPostgresSql(sql), params);
+      return result.rowCount ?? 0;
+    },
+  };
+}
+
+export async function createPostgresDriver(options: DatabaseConfig): Promise<DatabaseDriver> {
+  // Dynamic import - pg is an optional dependency
+  const { default: pg } = await import('pg');
+
+  // COUNT(*) is a bigint, returned as a string by default
+  pg.types.setTypeParser(pg.types.builtins.INT8, (value: string) => Number(value));
+
+  const pool = new pg.Pool({
+    connectionString: options.url,
+    host: options.host,
+    port: options.port,
+    database: options.database,
+    user: options.user,
+    password: options.password,
+    ssl: options.ssl,
+    min: options.poolMin,
+    max: options.poolMax,
+  });
+  pool.on('error', (error) => {
+    logger.error({ msg: 'PostgreSQL pool error', error: error.message });
+  });
+
+  // Fail at startup rather than on the first request
+  const connection = await pool.connect();
+  connection.release();
+  logger.info('Connected to PostgreSQL');
+
+  return {
+    type: 'postgres',
+    ...createClient(pool),
+
+    async transaction(fn) {
+      const connection = await pool.connect();
+      try {
+        await connection.query('BEGIN');
+        const result = await fn(createClient(connection));
+        await connection.query('COMMIT');
+        return result;
+      } catch (error) {
+        await connection.query('ROLLBACK');
+        throw error;
+      } finally {
+        connection.release();
+      }
+    },
+
+    async close() {
+      await pool.end();
+    },
+  };
+}
@@ -1,18 +1,29 @@
 import QRCode from 'qrcode';
+import { buildQrPayload } from './qrSigning.js';
 
 export interface QRCodeData {
   petportId: string;
   verifyUrl: string;
+  // The signed v2 payload encoded in the image
+  qrData: string;
   dataUrl: string;
   svg: string;
 }
 
+/**
+ * Signed payload for a pet's tag. Carries the rabies expiry so the tag can
+ * be checked offline against the published verifying key.
+ */
+export function getQRPayload(petportId: string, rabiesExpiresAt: string | null): string {
+  return JSON.stringify(buildQrPayload(petportId, rabiesExpiresAt));
+}
+
 /**
  * Generate QR code as data URL and SVG
  */
-export async function generateQRCode(petportId: string): Promise<QRCodeData> {
+export async function generateQRCode(petportId: string, rabiesExpiresAt: string | null): Promise<QRCodeData> {
   const verifyUrl = `https://petport.app/verify/${petportId}`;
-  const qrData = JSON.stringify({ petportId, v: 1 });
+  const qrData = getQRPayload(petportId, rabiesExpiresAt);
 
   const [dataUrl, svg] = await Promise.all([
     QRCode.toDataURL(qrData, {
@@ -39,6 +50,7 @@ export async function generateQRCode(petportId: string): Promise<QRCodeData> {
   return {
     petportId,
     verifyUrl,
+    qrData,
     dataUrl,
     svg,
   };
@@ -47,8 +59,8 @@ export async function generateQRCode(petportId: string): Promise<QRCodeData> {
 /**
  * Generate QR code as PNG buffer for download
  */
-export async function generateQRCodeBuffer(petportId: string): Promise<Buffer> {
-  const qrData = JSON.stringify({ petportId, v: 1 });
+export async function generateQRCodeBuffer(petportId: string, rabiesExpiresAt: string | null): Promise<Buffer> {
+  const qrData = getQRPayload(petportId, rabiesExpiresAt);
 
   return QRCode.toBuffer(qrData, {
     width: 600,
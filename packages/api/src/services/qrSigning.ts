@@ -0,0 +1,131 @@
+/**
+ * Ed25519 signing for QR tag payloads (v2).
+ *
+ * A token is `<claims>.<signature>` where claims is compact JSON and both
+ * parts are base64url. Verifiers fetch the public key once from
+ * GET /public/keys and can then check tags offline.
+ *
+ * The signing key comes from QR_SIGNING_KEY. Outside production a key is
+ * generated on first use and kept in DATA_DIR so tags survive restarts.
+ *
+ * @module qrSigning
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  KeyObject,
+} from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { QrTokenClaims, QrPayloadV2, QrVerifyingKey } from '@petport/shared';
+import { config } from '../config/index.js';
+
+interface SigningKey {
+  privateKey: KeyObject;
+  publicJwk: QrVerifyingKey;
+}
+
+// Compact claim names keep the QR code small
+interface EncodedClaims {
+  p: string;
+  r: string | null;
+  i: string;
+  k: string;
+}
+
+let signingKey: SigningKey | null = null;
+
+function loadPrivateKey(): KeyObject {
+  if (config.qrSigningKey) {
+    return createPrivateKey(config.qrSigningKey);
+  }
+
+  const keyPath = join(config.dataDir, 'qr-signing-key.pem');
+  if (existsSync(keyPath)) {
+    return createPrivateKey(readFileSync(keyPath, 'utf8'));
+  }
+
+  const { privateKey } = generateKeyPairSync('ed25519');
+  mkdirSync(config.dataDir, { recursive: true });
+  writeFileSync(keyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  return privateKey;
+}
+
+function getSigningKey(): SigningKey {
+  if (signingKey) return signingKey;
+
+  const privateKey = loadPrivateKey();
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error('QR_SIGNING_KEY must be an Ed25519 private key');
+  }
+
+  const { x } = createPublicKey(privateKey).export({ format: 'jwk' });
+  // Key id: short fingerprint of the raw public key
+  const kid = createHash('sha256').update(Buffer.from(x!, 'base64url')).digest('hex').slice(0, 16);
+  signingKey = {
+    privateKey,
+    publicJwk: { kty: 'OKP', crv: 'Ed25519', x: x!, kid, alg: 'EdDSA', use: 'sig' },
+  };
+  return signingKey;
+}
+
+/**
+ * Verifying keys to publish. A list so a new key can be rolled in alongside the old one.
+ */
+export function getVerifyingKeys(): QrVerifyingKey[] {
+  return [getSigningKey().publicJwk];
+}
+
+/**
+ * Sign a tag for a pet
+ */
+export function signQrToken(petportId: string, rabiesExpiresAt: string | null, issuedAt = new Date()): string {
+  const key = getSigningKey();
+  const claims: EncodedClaims = {
+    p: petportId,
+    r: rabiesExpiresAt ? rabiesExpiresAt.slice(0, 10) : null,
+    i: issuedAt.toISOString().slice(0, 10),
+    k: key.publicJwk.kid,
+  };
+  const encoded = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = sign(null, Buffer.from(encoded), key.privateKey).toString('base64url');
+  return `${encoded}.${signature}`;
+}
+
+/**
+ * Check a token against our own key. Returns the claims, or null if the
+ * token is malformed or the signature does not match.
+ */
+export function verifyQrToken(token: string): QrTokenClaims | null {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) return null;
+
+  const key = getSigningKey();
+  const valid = verify(
+    null,
+    Buffer.from(encoded),
+    createPublicKey(key.privateKey),
+    Buffer.from(signature, 'base64url')
+  );
+  if (!valid) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as EncodedClaims;
+    if (claims.k !== key.publicJwk.kid) return null;
+    return { petportId: claims.p, rabiesExpiresAt: claims.r, issuedAt: claims.i, keyId: claims.k };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The JSON encoded into a v2 QR code
+ */
+export function buildQrPayload(petportId: string, rabiesExpiresAt: string | null): QrPayloadV2 {
+  return { petportId, v: 2, t: signQrToken(petportId, rabiesExpiresAt) };
+}
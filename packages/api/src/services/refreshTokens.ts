@@ -0,0 +1,111 @@
+/**
+ * Rotating refresh tokens.
+ *
+ * Access JWTs are short-lived (JWT_EXPIRY). A login also issues an opaque
+ * refresh token, stored only as a sha256 hash, which POST /auth/refresh
+ * exchanges for a new access token and a new refresh token. Each refresh
+ * token works once.
+ *
+ * Tokens descending from one login form a family, whose id is the login's
+ * session id (see sessions.ts). Presenting a token that
+ * was already exchanged means two parties hold it - the legitimate client
+ * and whoever copied it - so the whole family is revoked and both must log
+ * in again, and the session is revoked with it.
+ *
+ * @module refreshTokens
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { AuthenticationError } from '@petport/shared';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import {
+  createRefreshToken,
+  createSecurityMetric,
+  getRefreshTokenByHash,
+  getSession,
+  markRefreshTokenUsed,
+  Queryable,
+  revokeRefreshTokenFamily,
+  revokeSessionById,
+  touchSession,
+  withTransaction,
+} from './database.js';
+
+export interface IssuedRefreshToken {
+  token: string;
+  familyId: string;
+  expiresAt: string;
+}
+
+export interface RequestContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a refresh token in a session's family
+ */
+export async function issueRefreshToken(
+  userId: string,
+  familyId: string,
+  client?: Queryable
+): Promise<IssuedRefreshToken> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + config.refreshTokenTtlDays * 24 * 60 * 60 * 1000).toISOString();
+  await createRefreshToken({ userId, familyId, tokenHash: hashToken(token), expiresAt }, client);
+  return { token, familyId, expiresAt };
+}
+
+/**
+ * Exchange a refresh token for its successor. Throws AuthenticationError if
+ * the token is unknown, expired or revoked or its session has ended, and
+ * revokes the family and session if it has been used before.
+ */
+export async function rotateRefreshToken(
+  token: string,
+  context: RequestContext
+): Promise<IssuedRefreshToken & { userId: string }> {
+  const outcome = await withTransaction(async (tx) => {
+    const stored = await getRefreshTokenByHash(hashToken(token), tx);
+    if (!stored || stored.revokedAt || Date.parse(stored.expiresAt) <= Date.now()) {
+      return { status: 'invalid' as const };
+    }
+    const session = await getSession(stored.familyId, tx);
+    if (!session || session.revokedAt) {
+      return { status: 'invalid' as const };
+    }
+
+    if (stored.usedAt || !(await markRefreshTokenUsed(stored.id, tx))) {
+      await revokeRefreshTokenFamily(stored.familyId, tx);
+      await revokeSessionById(session.id, tx);
+      return { status: 'reused' as const, userId: stored.userId, familyId: stored.familyId };
+    }
+
+    await touchSession(session.id, { ipAddress: context.ipAddress }, tx);
+    const next = await issueRefreshToken(stored.userId, stored.familyId, tx);
+    return { status: 'rotated' as const, userId: stored.userId, ...next };
+  });
+
+  if (outcome.status === 'rotated') {
+    const { status: _, ...rotated } = outcome;
+    return rotated;
+  }
+
+  if (outcome.status === 'reused') {
+    logger.warn({ msg: 'Refresh token reuse detected, family revoked', userId: outcome.userId, familyId: outcome.familyId });
+    await createSecurityMetric({
+      eventType: 'SUSPICIOUS_ACTIVITY',
+      email: null,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      details: `Refresh token reused for user ${outcome.userId}; all sessions from that login were revoked`,
+    }).catch((error: Error) => logger.error({ msg: 'Failed to record security metric', error: error.message }));
+  }
+
+  throw new AuthenticationError('Invalid or expired refresh token');
+}
@@ -21,12 +21,12 @@ export async function seedSuperAdmin(): Promise<void> {
     return;
   }
 
-  const existingUser = getUserByEmail(email);
+  const existingUser = await getUserByEmail(email);
 
   if (existingUser) {
     // User exists - promote to SUPER_ADMIN if not already
     if (existingUser.role !== 'SUPER_ADMIN') {
-      updateUserRole(existingUser.id, 'SUPER_ADMIN');
+      await updateUserRole(existingUser.id, 'SUPER_ADMIN');
       logger.info(`Promoted existing user ${email} to SUPER_ADMIN`);
     } else {
       logger.debug(`User ${email} is already SUPER_ADMIN`);
@@ -49,7 +49,7 @@ export async function seedSuperAdmin(): Promise<void> {
     }
 
     const passwordHash = await bcrypt.hash(tempPassword, config.bcryptRounds);
-    createUser({
+    await createUser({
       email,
       passwordHash,
       name: 'Super Admin',
@@ -0,0 +1,99 @@
+/**
+ * Login sessions.
+ *
+ * Every login starts a session recording the device and IP address it came
+ * from. The session id is carried in the session's access tokens (`sid`)
+ * and is the family id of its refresh tokens, so revoking a session signs
+ * that device out: `authenticate` rejects its access tokens at once and its
+ * refresh token stops working.
+ *
+ * A session not refreshed within REFRESH_TOKEN_TTL_DAYS has expired with its
+ * refresh token and is no longer listed.
+ *
+ * @module sessions
+ */
+
+import { NotFoundError } from '@petport/shared';
+import { config } from '../config/index.js';
+import {
+  createSession,
+  getActiveSessionsByUser,
+  getSession,
+  revokeRefreshTokenFamily,
+  revokeSessionById,
+  revokeUserRefreshTokens,
+  revokeUserSessions,
+  Session,
+  touchSession,
+  withTransaction,
+} from './database.js';
+import { IssuedRefreshToken, issueRefreshToken, RequestContext } from './refreshTokens.js';
+import { describeDevice } from './userAgent.js';
+
+// Last seen is recorded at most this often per session
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Start a session for a login, with the first refresh token of its family
+ */
+export async function startSession(
+  userId: string,
+  context: RequestContext
+): Promise<{ session: Session; refreshToken: IssuedRefreshToken }> {
+  return withTransaction(async (tx) => {
+    const session = await createSession(
+      { userId, device: describeDevice(context.userAgent), ipAddress: context.ipAddress },
+      tx
+    );
+    const refreshToken = await issueRefreshToken(userId, session.id, tx);
+    return { session, refreshToken };
+  });
+}
+
+/**
+ * Whether a session is still active for the user, recording it as seen
+ */
+export async function checkSession(sessionId: string, userId: string, ipAddress: string | null): Promise<boolean> {
+  const session = await getSession(sessionId);
+  if (!session || session.revokedAt || session.userId !== userId) {
+    return false;
+  }
+  if (Date.now() - Date.parse(session.lastSeenAt) > TOUCH_INTERVAL_MS) {
+    await touchSession(session.id, { ipAddress });
+  }
+  return true;
+}
+
+/**
+ * The user's sessions that can still be used, most recently seen first
+ */
+export async function listSessions(userId: string): Promise<Session[]> {
+  const seenSince = new Date(Date.now() - config.refreshTokenTtlDays * 24 * 60 * 60 * 1000).toISOString();
+  return getActiveSessionsByUser(userId, seenSince);
+}
+
+/**
+ * Sign one of the user's sessions out. Throws NotFoundError for sessions
+ * belonging to someone else.
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<void> {
+  await withTransaction(async (tx) => {
+    const session = await getSession(sessionId, tx);
+    if (!session || session.userId !== userId) {
+      throw new NotFoundError('Session', sessionId);
+    }
+    await revokeSessionById(session.id, tx);
+    await revokeRefreshTokenFamily(session.id, tx);
+  });
+}
+
+/**
+ * Sign the user out everywhere. Returns the number of sessions ended.
+ */
+export async function revokeAllSessions(userId: string): Promise<number> {
+  return withTransaction(async (tx) => {
+    const revoked = await revokeUserSessions(userId, tx);
+    await revokeUserRefreshTokens(userId, tx);
+    return revoked;
+  });
+}
@@ -1,275 +1,267 @@
+/**
+ * Embedded sql.js driver, used when DATABASE_URL is not set.
+ *
+ * sql.js keeps the database in memory, so persistence is done in two parts:
+ * - every committed write is appended to a journal (`petport.db-journal`)
+ *   and fsynced before the caller continues. The cost depends only on the
+ *   size of the statement, not of the database.
+ * - the whole database is snapshotted at most once per snapshot interval,
+ *   written to a temp file and renamed over `petport.db`, so the file on
+ *   disk is always a complete snapshot. The journal is then cleared.
+ *
+ * On startup the snapshot is loaded and any journal entries it does not
+ * contain are replayed. Entries carry a sequence number and the snapshot
+ * records the last one it includes (in PRAGMA user_version), so a crash
+ * between the rename and clearing the journal does not apply writes twice.
+ *
+ * Writes are replayed as SQL, so they must be deterministic - pass
+ * timestamps and ids as parameters rather than computing them in SQL.
+ *
+ * @module sqlite
+ */
+
 import initSqlJs, { Database } from 'sql.js';
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  ftruncateSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeSync,
+} from 'fs';
 import { dirname, join } from 'path';
 import { config } from '../config/index.js';
 import { logger } from '../config/logger.js';
+import type { DatabaseDriver, Queryable, Row } from './db.js';
 
-let db: Database | null = null;
-let initialized = false;
-
-const DB_PATH = join(config.dataDir, 'petport.db');
-
-// Schema migrations
-const MIGRATIONS = [
-  {
-    version: 1,
-    name: 'initial_schema',
-    sql: `
-      CREATE TABLE IF NOT EXISTS users (
-        id TEXT PRIMARY KEY,
-        email TEXT UNIQUE NOT NULL,
-        password_hash TEXT NOT NULL,
-        name TEXT NOT NULL,
-        phone TEXT,
-        avatar_url TEXT,
-        is_verified INTEGER DEFAULT 0,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-
-      CREATE TABLE IF NOT EXISTS pets (
-        id TEXT PRIMARY KEY,
-        petport_id TEXT UNIQUE NOT NULL,
-        owner_id TEXT NOT NULL,
-        name TEXT NOT NULL,
-        species TEXT NOT NULL,
-        breed TEXT,
-        sex TEXT DEFAULT 'UNKNOWN',
-        date_of_birth TEXT,
-        color TEXT,
-        weight REAL,
-        microchip_id TEXT,
-        photo_url TEXT,
-        verification_level TEXT DEFAULT 'BASIC',
-        is_active INTEGER DEFAULT 1,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        FOREIGN KEY (owner_id) REFERENCES users(id)
-      );
-
-      CREATE TABLE IF NOT EXISTS health_records (
-        id TEXT PRIMARY KEY,
-        pet_id TEXT NOT NULL,
-        type TEXT NOT NULL,
-        title TEXT NOT NULL,
-        description TEXT,
-        date TEXT NOT NULL,
-        vet_name TEXT,
-        clinic_name TEXT,
-        expires_at TEXT,
-        document_url TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        FOREIGN KEY (pet_id) REFERENCES pets(id)
-      );
-
-      CREATE TABLE IF NOT EXISTS vaccinations (
-        id TEXT PRIMARY KEY,
-        pet_id TEXT NOT NULL,
-        type TEXT NOT NULL,
-        name TEXT NOT NULL,
-        manufacturer TEXT,
-        batch_number TEXT,
-        administered_at TEXT NOT NULL,
-        expires_at TEXT,
-        vet_name TEXT,
-        clinic_name TEXT,
-        document_url TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        FOREIGN KEY (pet_id) REFERENCES pets(id)
-      );
-
-      CREATE TABLE IF NOT EXISTS migrations (
-        version INTEGER PRIMARY KEY,
-        name TEXT NOT NULL,
-        applied_at TEXT NOT NULL
-      );
+export interface SqliteOptions {
+  path: string;
+  // Milliseconds between the first unsaved write and the next snapshot
+  snapshotInterval: number;
+}
 
-      CREATE INDEX IF NOT EXISTS idx_pets_owner ON pets(owner_id);
-      CREATE INDEX IF NOT EXISTS idx_pets_petport_id ON pets(petport_id);
-      CREATE INDEX IF NOT EXISTS idx_health_records_pet ON health_records(pet_id);
-      CREATE INDEX IF NOT EXISTS idx_vaccinations_pet ON vaccinations(pet_id);
-      CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
-    `,
-  },
-  {
-    version: 2,
-    name: 'add_user_roles_and_audit',
-    sql: `
-      -- Add role column with default 'USER' for backward compatibility
-      ALTER TABLE users ADD COLUMN role TEXT DEFAULT 'USER' NOT NULL;
+type Statement = [sql: string, params: unknown[]];
 
-      -- Create admin audit log table for tracking admin actions
-      CREATE TABLE IF NOT EXISTS admin_audit_log (
-        id TEXT PRIMARY KEY,
-        admin_user_id TEXT NOT NULL,
-        action TEXT NOT NULL,
-        target_type TEXT NOT NULL,
-        target_id TEXT,
-        details TEXT,
-        ip_address TEXT,
-        user_agent TEXT,
-        created_at TEXT NOT NULL,
-        FOREIGN KEY (admin_user_id) REFERENCES users(id)
-      );
+interface JournalEntry {
+  seq: number;
+  statements: Statement[];
+}
 
-      -- Create security metrics table for tracking security events
-      CREATE TABLE IF NOT EXISTS security_metrics (
-        id TEXT PRIMARY KEY,
-        event_type TEXT NOT NULL,
-        email TEXT,
-        ip_address TEXT,
-        user_agent TEXT,
-        details TEXT,
-        created_at TEXT NOT NULL
-      );
+function defaultOptions(): SqliteOptions {
+  return {
+    path: join(config.dataDir, 'petport.db'),
+    snapshotInterval: config.database.snapshotInterval ?? 5000,
+  };
+}
 
-      CREATE INDEX IF NOT EXISTS idx_audit_admin ON admin_audit_log(admin_user_id);
-      CREATE INDEX IF NOT EXISTS idx_audit_created ON admin_audit_log(created_at);
-      CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
-      CREATE INDEX IF NOT EXISTS idx_security_metrics_type ON security_metrics(event_type);
-      CREATE INDEX IF NOT EXISTS idx_security_metrics_created ON security_metrics(created_at);
-    `,
-  },
-];
+// Flush a file (or directory entry) to disk
+function fsyncPath(path: string): void {
+  const fd = openSync(path, 'r');
+  try {
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+}
 
 /**
- * Initialize the database
+ * Write a database file atomically: readers see either the old file or the
+ * complete new one, never a partial write.
  */
-export async function initDatabase(): Promise<void> {
-  if (initialized) return;
-
+export function writeDatabaseFile(path: string, contents: Uint8Array): void {
+  const tempPath = `${path}.tmp`;
+  const fd = openSync(tempPath, 'w');
   try {
-    // Ensure data directory exists
-    const dataDir = dirname(DB_PATH);
-    if (!existsSync(dataDir)) {
-      mkdirSync(dataDir, { recursive: true });
-    }
-
-    // Initialize sql.js
-    const SQL = await initSqlJs();
+    writeSync(fd, contents);
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+  renameSync(tempPath, path);
+  try {
+    // Persist the rename itself - not supported on every platform
+    fsyncPath(dirname(path));
+  } catch {
+    // The rename is still atomic, only its durability is weaker
+  }
+}
 
-    // Load existing database or create new one
-    if (existsSync(DB_PATH)) {
-      const fileBuffer = readFileSync(DB_PATH);
-      db = new SQL.Database(fileBuffer);
-      logger.info('Loaded existing database');
-    } else {
-      db = new SQL.Database();
-      logger.info('Created new database');
+/**
+ * Journal entries in order. A torn last line (crash mid-append) is ignored -
+ * that write was never acknowledged.
+ */
+function readJournal(path: string): JournalEntry[] {
+  if (!existsSync(path)) return [];
+  const entries: JournalEntry[] = [];
+  for (const line of readFileSync(path, 'utf8').split('\n')) {
+    if (!line) continue;
+    try {
+      entries.push(JSON.parse(line) as JournalEntry);
+    } catch {
+      logger.warn({ msg: 'Ignoring incomplete journal entry', path });
+      break;
     }
-
-    // Run migrations
-    await runMigrations();
-
-    initialized = true;
-    logger.info('Database initialized successfully');
-  } catch (error) {
-    logger.error('Failed to initialize database:', error);
-    throw error;
   }
+  return entries;
+}
+
+function getSnapshotSeq(database: Database): number {
+  const [result] = database.exec('PRAGMA user_version');
+  return Number(result?.values[0]?.[0] ?? 0);
 }
 
 /**
- * Run pending migrations
+ * Open the sql.js database (or create it) and replay its journal
  */
-async function runMigrations(): Promise<void> {
-  if (!db) throw new Error('Database not initialized');
+export async function createSqliteDriver(options: SqliteOptions = defaultOptions()): Promise<DatabaseDriver> {
+  const { path, snapshotInterval } = options;
+  const journalPath = `${path}-journal`;
 
-  // Get applied migrations
-  let appliedVersions: number[] = [];
-  try {
-    const result = db.exec('SELECT version FROM migrations');
-    if (result.length > 0 && result[0]) {
-      appliedVersions = result[0].values.map((row: unknown[]) => row[0] as number);
-    }
-  } catch {
-    // migrations table doesn't exist yet, will be created
+  const dataDir = dirname(path);
+  if (!existsSync(dataDir)) {
+    mkdirSync(dataDir, { recursive: true });
   }
 
-  // Apply pending migrations
-  for (const migration of MIGRATIONS) {
-    if (!appliedVersions.includes(migration.version)) {
-      logger.info(`Applying migration ${migration.version}: ${migration.name}`);
-      
-      // Split by semicolons and execute each statement
-      const statements = migration.sql
-        .split(';')
-        .map((s) => s.trim())
-        .filter((s) => s.length > 0);
+  const SQL = await initSqlJs();
 
-      for (const statement of statements) {
-        db.run(statement);
-      }
-
-      // Record migration
-      db.run(
-        'INSERT INTO migrations (version, name, applied_at) VALUES (?, ?, ?)',
-        [migration.version, migration.name, new Date().toISOString()]
-      );
+  let database: Database;
+  if (existsSync(path)) {
+    database = new SQL.Database(readFileSync(path));
+    logger.info('Loaded existing database');
+  } else {
+    database = new SQL.Database();
+    logger.info('Created new database');
+  }
 
-      logger.info(`Migration ${migration.version} applied successfully`);
+  // Bring the snapshot up to date with writes made since it was taken
+  let seq = getSnapshotSeq(database);
+  const pending = readJournal(journalPath).filter((entry) => entry.seq > seq);
+  for (const entry of pending) {
+    database.run('BEGIN');
+    for (const [sql, params] of entry.statements) {
+      database.run(sql, params);
     }
+    database.run('COMMIT');
+    seq = entry.seq;
+  }
+  if (pending.length > 0) {
+    logger.info({ msg: 'Replayed database journal', entries: pending.length });
   }
 
-  // Save after migrations
-  saveDatabase();
-}
+  let dirty = pending.length > 0;
+  const journal = openSync(journalPath, 'a');
 
-/**
- * Save database to disk
- */
-export function saveDatabase(): void {
-  if (!db) return;
-  const data = db.export();
-  const buffer = Buffer.from(data);
-  writeFileSync(DB_PATH, buffer);
-}
+  const appendJournal = (statements: Statement[]): void => {
+    const line = JSON.stringify({ seq: seq + 1, statements } satisfies JournalEntry);
+    writeSync(journal, `${line}\n`);
+    fsyncSync(journal);
+    seq++;
+    dirty = true;
+  };
 
-/**
- * Get the database instance
- */
-export function getDb(): Database {
-  if (!db) throw new Error('Database not initialized. Call initDatabase() first.');
-  return db;
-}
+  const snapshot = (): void => {
+    if (!dirty) return;
+    database.run(`PRAGMA user_version = ${seq}`);
+    writeDatabaseFile(path, database.export());
+    ftruncateSync(journal, 0);
+    dirty = false;
+  };
 
-/**
- * Check if database is initialized
- */
-export function isDbInitialized(): boolean {
-  return initialized;
-}
+  const execute = (sql: string, params: unknown[] = []): number => {
+    database.run(sql, params);
+    return database.getRowsModified();
+  };
 
-/**
- * Close the database
- */
-export function closeDatabase(): void {
-  if (db) {
-    saveDatabase();
-    db.close();
-    db = null;
-    initialized = false;
-    logger.info('Database closed');
-  }
-}
+  const query = async (sql: string, params: unknown[] = []): Promise<Row[]> => {
+    const stmt = database.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: Row[] = [];
+      while (stmt.step()) {
+        rows.push(stmt.getAsObject() as Row);
+      }
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  };
 
-// Auto-save interval (every 30 seconds)
-let saveInterval: NodeJS.Timeout | null = null;
+  // sql.js has a single connection, so a transaction holds it until it
+  // finishes. Other statements queue behind it instead of joining it.
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <T>(fn: () => Promise<T>): Promise<T> => {
+    const result = queue.then(fn);
+    queue = result.catch(() => undefined);
+    return result;
+  };
 
-export function startAutoSave(): void {
-  if (saveInterval) return;
-  saveInterval = setInterval(() => {
-    if (initialized) {
-      saveDatabase();
+  let snapshotTimer: NodeJS.Timeout | null = null;
+  const scheduleSnapshot = (): void => {
+    if (snapshotTimer) return;
+    snapshotTimer = setTimeout(() => {
+      snapshotTimer = null;
+      exclusive(async () => snapshot()).catch((error: Error) => {
+        logger.error({ msg: 'Database snapshot failed', error: error.message });
+      });
+    }, snapshotInterval);
+    // Unsaved writes are in the journal, so this need not keep the process alive
+    snapshotTimer.unref();
+  };
+
+  if (dirty) scheduleSnapshot();
+
+  const transaction = <T>(fn: (tx: Queryable) => Promise<T>): Promise<T> => exclusive(async () => {
+    const statements: Statement[] = [];
+    const tx: Queryable = {
+      query,
+      async run(sql, params = []) {
+        const changes = execute(sql, params);
+        statements.push([sql, params]);
+        return changes;
+      },
+    };
+
+    database.run('BEGIN');
+    try {
+      const result = await fn(tx);
+      // Journal before committing so a failed append rolls the writes back
+      if (statements.length > 0) appendJournal(statements);
+      database.run('COMMIT');
+      if (statements.length > 0) scheduleSnapshot();
+      return result;
+    } catch (error) {
+      database.run('ROLLBACK');
+      throw error;
     }
-  }, 30000);
-}
+  });
 
-export function stopAutoSave(): void {
-  if (saveInterval) {
-    clearInterval(saveInterval);
-    saveInterval = null;
-  }
+  return {
+    type: 'sqlite',
+
+    query: (sql, params) => exclusive(() => query(sql, params)),
+
+    run: (sql, params) => transaction((tx) => tx.run(sql, params)),
+
+    transaction,
+
+    exportSnapshot: () => exclusive(async () => Buffer.from(database.export())),
+
+    async close() {
+      if (snapshotTimer) {
+        clearTimeout(snapshotTimer);
+        snapshotTimer = null;
+      }
+      await exclusive(async () => {
+        snapshot();
+        closeSync(journal);
+        // Everything is in the snapshot now
+        unlinkSync(journalPath);
+        database.close();
+      });
+    },
+  };
 }
@@ -0,0 +1,283 @@
+/**
+ * Object storage for uploaded files.
+ *
+ * Files are grouped into areas: `uploads` holds public pet photos,
+ * `documents` holds private record attachments and `backups` holds database
+ * backups (never served over HTTP). The local driver keeps each
+ * area in its own directory. The S3 driver keeps them under a prefix in one
+ * bucket so every API instance sees the same files.
+ *
+ * Private files are handed out through short-lived signed URLs - presigned
+ * by S3, or HMAC-signed links to GET /public/files for local disk.
+ *
+ * @module storage
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { existsSync, mkdirSync } from 'fs';
+import { readFile, readdir, unlink, writeFile } from 'fs/promises';
+import { extname, join, resolve } from 'path';
+import type { S3Client } from '@aws-sdk/client-s3';
+import { API_PREFIX } from '@petport/shared';
+import { config, S3Config } from '../config/index.js';
+
+export type StorageArea = 'uploads' | 'documents' | 'backups';
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface StorageBackend {
+  readonly driver: 'local' | 's3';
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  exists(key: string): Promise<boolean>;
+  // Returns false if there was nothing to delete
+  delete(key: string): Promise<boolean>;
+  list(): Promise<string[]>;
+  getSignedUrl(key: string, expiresIn?: number): Promise<string>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.db': 'application/vnd.sqlite3',
+  '.json': 'application/json',
+};
+
+/**
+ * Keys are flat file names - never anything that could escape the area
+ */
+export function isValidKey(key: string): boolean {
+  return /^[a-zA-Z0-9_-][a-zA-Z0-9._-]*$/.test(key) && !key.includes('..');
+}
+
+function assertValidKey(key: string): void {
+  if (!isValidKey(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+function contentTypeFor(key: string): string {
+  return CONTENT_TYPES[extname(key).toLowerCase()] ?? 'application/octet-stream';
+}
+
+// ============================================
+// LOCAL DISK
+// ============================================
+
+function signLocalUrl(area: StorageArea, key: string, expires: number): string {
+  return createHmac('sha256', config.jwtSecret).update(`files:${area}/${key}:${expires}`).digest('hex');
+}
+
+/**
+ * Check a signed link issued by the local driver
+ */
+export function verifyLocalSignature(area: StorageArea, key: string, expires: number, signature: string): boolean {
+  if (!Number.isInteger(expires) || expires * 1000 < Date.now()) return false;
+  const expected = Buffer.from(signLocalUrl(area, key, expires), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function createLocalStorage(area: StorageArea, directory: string): StorageBackend {
+  const root = resolve(directory);
+  if (!existsSync(root)) {
+    mkdirSync(root, { recursive: true });
+  }
+
+  const pathFor = (key: string) => join(root, key);
+
+  return {
+    driver: 'local',
+
+    async put(key, body) {
+      assertValidKey(key);
+      await writeFile(pathFor(key), body);
+    },
+
+    async get(key) {
+      if (!isValidKey(key)) return null;
+      try {
+        return { body: await readFile(pathFor(key)), contentType: contentTypeFor(key) };
+      } catch {
+        return null;
+      }
+    },
+
+    async exists(key) {
+      return isValidKey(key) && existsSync(pathFor(key));
+    },
+
+    async delete(key) {
+      if (!isValidKey(key)) return false;
+      try {
+        await unlink(pathFor(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async list() {
+      const entries = await readdir(root, { withFileTypes: true });
+      return entries.filter((entry) => entry.isFile() && isValidKey(entry.name)).map((entry) => entry.name);
+    },
+
+    async getSignedUrl(key, expiresIn = config.storage.signedUrlTtl) {
+      assertValidKey(key);
+      const expires = Math.floor(Date.now() / 1000) + expiresIn;
+      const signature = signLocalUrl(area, key, expires);
+      return `${config.publicUrl}${API_PREFIX}/public/files/${area}/${key}?expires=${expires}&signature=${signature}`;
+    },
+  };
+}
+
+// ============================================
+// S3-COMPATIBLE
+// ============================================
+
+function isNotFound(error: unknown): boolean {
+  const err = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return err.name === 'NoSuchKey' || err.name === 'NotFound' || err.$metadata?.httpStatusCode === 404;
+}
+
+export function createS3Storage(options: S3Config, prefix: string): StorageBackend {
+  // The SDK is an optional dependency, only loaded when S3 is in use
+  let client: Promise<S3Client> | null = null;
+  const getClient = (): Promise<S3Client> => {
+    client ??= import('@aws-sdk/client-s3').then(({ S3Client }) => new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+      // Many S3-compatible services reject the newer default checksums
+      requestChecksumCalculation: 'WHEN_REQUIRED',
+      responseChecksumValidation: 'WHEN_REQUIRED',
+    }));
+    return client;
+  };
+  const objectKey = (key: string) => `${prefix}/${key}`;
+
+  const backend: StorageBackend = {
+    driver: 's3',
+
+    async put(key, body, contentType) {
+      assertValidKey(key);
+      const { PutObjectCommand } = await import('@aws-sdk/client-s3');
+      await (await getClient()).send(new PutObjectCommand({
+        Bucket: options.bucket,
+        Key: objectKey(key),
+        Body: body,
+        ContentType: contentType,
+      }));
+    },
+
+    async get(key) {
+      if (!isValidKey(key)) return null;
+      const { GetObjectCommand } = await import('@aws-sdk/client-s3');
+      try {
+        const result = await (await getClient()).send(new GetObjectCommand({ Bucket: options.bucket, Key: objectKey(key) }));
+        if (!result.Body) return null;
+        return {
+          body: Buffer.from(await result.Body.transformToByteArray()),
+          contentType: result.ContentType ?? contentTypeFor(key),
+        };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async exists(key) {
+      if (!isValidKey(key)) return false;
+      const { HeadObjectCommand } = await import('@aws-sdk/client-s3');
+      try {
+        await (await getClient()).send(new HeadObjectCommand({ Bucket: options.bucket, Key: objectKey(key) }));
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      // S3 deletes succeed whether or not the object exists
+      if (!(await backend.exists(key))) return false;
+      const { DeleteObjectCommand } = await import('@aws-sdk/client-s3');
+      await (await getClient()).send(new DeleteObjectCommand({ Bucket: options.bucket, Key: objectKey(key) }));
+      return true;
+    },
+
+    async list() {
+      const { ListObjectsV2Command } = await import('@aws-sdk/client-s3');
+      const keys: string[] = [];
+      let continuationToken: string | undefined;
+      do {
+        const page = await (await getClient()).send(new ListObjectsV2Command({
+          Bucket: options.bucket,
+          Prefix: `${prefix}/`,
+          ContinuationToken: continuationToken,
+        }));
+        for (const object of page.Contents ?? []) {
+          const key = object.Key?.slice(prefix.length + 1);
+          if (key && isValidKey(key)) keys.push(key);
+        }
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (continuationToken);
+      return keys;
+    },
+
+    async getSignedUrl(key, expiresIn = config.storage.signedUrlTtl) {
+      assertValidKey(key);
+      const { GetObjectCommand } = await import('@aws-sdk/client-s3');
+      const { getSignedUrl } = await import('@aws-sdk/s3-request-presigner');
+      return getSignedUrl(
+        await getClient(),
+        new GetObjectCommand({ Bucket: options.bucket, Key: objectKey(key) }),
+        { expiresIn }
+      );
+    },
+  };
+  return backend;
+}
+
+// ============================================
+// CONFIGURED BACKENDS
+// ============================================
+
+// Where each area lives on local disk
+const LOCAL_DIRECTORIES: Record<StorageArea, () => string> = {
+  uploads: () => config.uploadDir,
+  documents: () => join(config.dataDir, 'documents'),
+  backups: () => join(config.dataDir, 'backups'),
+};
+
+const backends = new Map<StorageArea, StorageBackend>();
+
+/**
+ * The local-disk backend for an area, whatever driver is configured
+ */
+export function getLocalStorage(area: StorageArea): StorageBackend {
+  return createLocalStorage(area, LOCAL_DIRECTORIES[area]());
+}
+
+/**
+ * The configured backend for an area
+ */
+export function getStorage(area: StorageArea): StorageBackend {
+  let backend = backends.get(area);
+  if (!backend) {
+    backend = config.storage.driver === 's3' && config.storage.s3
+      ? createS3Storage(config.storage.s3, area)
+      : getLocalStorage(area);
+    backends.set(area, backend);
+  }
+  return backend;
+}
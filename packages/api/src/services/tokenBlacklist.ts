@@ -9,9 +9,11 @@
  * @module tokenBlacklist
  */
 
+import { logger } from '../config/logger.js';
 import * as redis from './redis.js';
 
 const BLACKLIST_PREFIX = 'token:blacklist:';
+const USER_BLACKLIST_PREFIX = 'token:blacklist:user:';
 
 // In-memory fallback store
 interface BlacklistEntry {
@@ -20,6 +22,13 @@ interface BlacklistEntry {
 }
 const memoryBlacklist = new Map<string, BlacklistEntry>();
 
+// userId -> tokens issued at or before this Unix timestamp (ms) are revoked
+interface UserBlacklistEntry {
+  issuedBefore: number;
+  expiresAt: number; // Unix timestamp (ms)
+}
+const memoryUserBlacklist = new Map<string, UserBlacklistEntry>();
+
 // Cleanup interval (run every 5 minutes)
 const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
 
@@ -71,6 +80,47 @@ export async function isTokenBlacklisted(token: string): Promise<boolean> {
   return true;
 }
 
+/**
+ * Revoke every token issued to a user until now, e.g. after a password reset.
+ * The cutoff is in milliseconds, so tokens issued earlier in the same second
+ * are revoked while a login right after the reset works.
+ *
+ * @param userId - The user whose tokens to revoke
+ * @param ttlSeconds - How long to remember it; at least the token lifetime
+ */
+export async function blacklistUserTokens(userId: string, ttlSeconds: number): Promise<void> {
+  const issuedBefore = Date.now();
+
+  if (redis.isRedisAvailable()) {
+    await redis.set(USER_BLACKLIST_PREFIX + userId, String(issuedBefore), ttlSeconds);
+  }
+
+  memoryUserBlacklist.set(userId, { issuedBefore, expiresAt: Date.now() + ttlSeconds * 1000 });
+}
+
+/**
+ * Check if a user's token was revoked by blacklistUserTokens.
+ *
+ * @param userId - The user the token was issued to
+ * @param issuedAt - When the token was issued (Unix timestamp, ms)
+ */
+export async function isUserTokenBlacklisted(userId: string, issuedAt: number): Promise<boolean> {
+  if (redis.isRedisAvailable()) {
+    const issuedBefore = await redis.get(USER_BLACKLIST_PREFIX + userId);
+    if (issuedBefore && issuedAt <= Number(issuedBefore)) return true;
+  }
+
+  const entry = memoryUserBlacklist.get(userId);
+  if (!entry) return false;
+
+  if (Date.now() > entry.expiresAt) {
+    memoryUserBlacklist.delete(userId);
+    return false;
+  }
+
+  return issuedAt <= entry.issuedBefore;
+}
+
 /**
  * Synchronous check for backward compatibility.
  * Uses memory store only - for use in sync contexts.
@@ -109,9 +159,15 @@ function cleanupExpiredTokens(): void {
       removed++;
     }
   }
+
+  for (const [userId, entry] of memoryUserBlacklist.entries()) {
+    if (now > entry.expiresAt) {
+      memoryUserBlacklist.delete(userId);
+    }
+  }
   
   if (removed > 0) {
-    console.log(`[TokenBlacklist] Cleaned up ${removed} expired tokens. Remaining: ${memoryBlacklist.size}`);
+    logger.info({ msg: 'Expired blacklisted tokens removed', removed, remaining: memoryBlacklist.size });
   }
 }
 
@@ -121,6 +177,7 @@ function cleanupExpiredTokens(): void {
  */
 export function clearBlacklist(): void {
   memoryBlacklist.clear();
+  memoryUserBlacklist.clear();
 }
 
 // Start cleanup interval
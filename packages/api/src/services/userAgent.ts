@@ -0,0 +1,38 @@
+/**
+ * Reduce a raw user-agent header to a coarse "Browser on OS" label, used for
+ * both scan history and login sessions. Scan history is shown to owners, so
+ * nothing more identifying than this is kept.
+ */
+export function describeDevice(userAgent: string | null | undefined): string | null {
+  if (!userAgent) return null;
+
+  const os = /iPhone|iPad|iPod/.test(userAgent)
+    ? 'iOS'
+    : /Android/.test(userAgent)
+    ? 'Android'
+    : /Windows/.test(userAgent)
+    ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent)
+    ? 'macOS'
+    : /Linux/.test(userAgent)
+    ? 'Linux'
+    : null;
+
+  // Order matters: Edge and Opera include "Chrome", Chrome includes "Safari"
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent)
+    ? 'Opera'
+    : /Firefox\/|FxiOS/.test(userAgent)
+    ? 'Firefox'
+    : /Chrome\/|CriOS/.test(userAgent)
+    ? 'Chrome'
+    : /Safari\//.test(userAgent)
+    ? 'Safari'
+    : null;
+
+  if (!os && !browser) return 'Unknown device';
+  if (!browser) return os;
+  if (!os) return browser;
+  return `${browser} on ${os}`;
+}
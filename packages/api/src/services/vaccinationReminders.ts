@@ -0,0 +1,105 @@
+/**
+ * Vaccination reminder emails.
+ *
+ * Once a day, owners are emailed about vaccinations that expire within
+ * COMPLIANCE_WARNING_DAYS - one email per pet, listing its vaccines. Each
+ * record is reminded about once; a renewed vaccine is not reminded about.
+ * Admins can also send the due reminders at once (POST /admin/reminders).
+ *
+ * @module vaccinationReminders
+ */
+
+import { COMPLIANCE_WARNING_DAYS, DEFAULT_VACCINATION_VALIDITY_DAYS } from '@petport/shared';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import { getVaccinationExpiry } from './complianceService.js';
+import { DueVaccinationReminder, getVaccinationsDueForReminder, markVaccinationRemindersSent } from './database.js';
+import { sendEmail } from './emailService.js';
+
+export interface ReminderRun {
+  emails: number;
+  vaccinations: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Let the server finish starting before the first run
+const STARTUP_DELAY_MS = 5 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let running: Promise<ReminderRun> | null = null;
+
+/**
+ * Email owners about vaccinations that expire within COMPLIANCE_WARNING_DAYS
+ * of asOf. A failed send is logged and retried on the next run. Concurrent
+ * calls share the run in progress.
+ */
+export function sendVaccinationReminders(asOf: Date = new Date()): Promise<ReminderRun> {
+  running ??= (async () => {
+    try {
+      const due = await getVaccinationsDueForReminder(
+        asOf,
+        new Date(asOf.getTime() + COMPLIANCE_WARNING_DAYS * DAY_MS),
+        DEFAULT_VACCINATION_VALIDITY_DAYS
+      );
+
+      const byPet = new Map<string, DueVaccinationReminder[]>();
+      for (const reminder of due) {
+        const petId = reminder.vaccination.petId;
+        byPet.set(petId, [...(byPet.get(petId) ?? []), reminder]);
+      }
+
+      const result: ReminderRun = { emails: 0, vaccinations: 0 };
+      for (const [petId, reminders] of byPet) {
+        const { petName, ownerEmail, ownerName } = reminders[0]!;
+        try {
+          await sendEmail(ownerEmail, 'vaccinationReminder', {
+            name: ownerName,
+            petName,
+            vaccines: reminders.map(({ vaccination }) => ({
+              name: vaccination.name,
+              expiresAt: getVaccinationExpiry(vaccination).expiresAt.toISOString(),
+            })),
+            petUrl: `${config.appUrl}/pets/${petId}`,
+          });
+        } catch (error) {
+          logger.error({ msg: 'Failed to send vaccination reminder', petId, error: (error as Error).message });
+          continue;
+        }
+        await markVaccinationRemindersSent(reminders.map(({ vaccination }) => vaccination.id), new Date().toISOString());
+        result.emails++;
+        result.vaccinations += reminders.length;
+      }
+
+      if (result.emails > 0) {
+        logger.info({ msg: 'Vaccination reminders sent', ...result });
+      }
+      return result;
+    } finally {
+      running = null;
+    }
+  })();
+  return running;
+}
+
+function scheduleNext(delay: number): void {
+  timer = setTimeout(() => {
+    sendVaccinationReminders()
+      .catch((error: Error) => logger.error({ msg: 'Vaccination reminder run failed', error: error.message }))
+      .finally(() => {
+        if (timer) scheduleNext(DAY_MS);
+      });
+  }, delay);
+  timer.unref();
+}
+
+export function startReminderSchedule(): void {
+  if (timer) return;
+  scheduleNext(STARTUP_DELAY_MS);
+}
+
+export function stopReminderSchedule(): void {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
@@ -0,0 +1,35 @@
+import type { Pet, Vaccination, VerificationLevel } from '@petport/shared';
+import { evaluateCompliance } from './complianceService.js';
+import { getVaccinationsByPet, updatePet } from './database.js';
+
+/**
+ * Derive a pet's verification level from its vet-attested records:
+ * - VERIFIED: at least one vaccination has been attested by a vet
+ * - CERTIFIED: a microchip is recorded and every required vaccine for the
+ *   species is current on the strength of attested records alone. Species
+ *   with no required vaccines cannot be certified, since there is nothing to
+ *   certify against.
+ * - BASIC: otherwise (owner-entered data only)
+ */
+export function computeVerificationLevel(
+  pet: Pet,
+  vaccinations: Vaccination[],
+  asOf: Date = new Date()
+): VerificationLevel {
+  const attested = vaccinations.filter((v) => v.attestedBy);
+  if (attested.length === 0) return 'BASIC';
+
+  const compliance = evaluateCompliance(pet.species, attested, { asOf });
+  const certified = compliance.requirements.length > 0 && compliance.isCompliant;
+  return pet.microchipId && certified ? 'CERTIFIED' : 'VERIFIED';
+}
+
+/**
+ * Recompute and persist a pet's verification level. Called after attested
+ * records change and on read, since attested vaccines can expire.
+ */
+export async function refreshVerificationLevel(pet: Pet): Promise<Pet> {
+  const level = computeVerificationLevel(pet, await getVaccinationsByPet(pet.id));
+  if (level === pet.verificationLevel) return pet;
+  return (await updatePet(pet.id, { verificationLevel: level })) ?? pet;
+}
@@ -18,6 +18,7 @@ declare module 'sql.js' {
   export class Database {
     constructor(data?: ArrayLike<number>);
     run(sql: string, params?: unknown[]): void;
+    getRowsModified(): number;
     exec(sql: string): QueryExecResult[];
     prepare(sql: string): Statement;
     export(): Uint8Array;
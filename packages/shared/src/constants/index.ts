@@ -1,3 +1,5 @@
+import type { Species, VaccinationType, PetMemberRole, PetPermission } from '../types/index.js';
+
 export const API_VERSION = 'v1';
 export const API_PREFIX = `/api/${API_VERSION}`;
 
@@ -9,9 +11,51 @@ export const VERIFICATION_LEVELS = ['BASIC', 'VERIFIED', 'CERTIFIED'] as const;
 export const HEALTH_RECORD_TYPES = ['CHECKUP', 'SURGERY', 'MEDICATION', 'LAB_RESULT', 'OTHER'] as const;
 export const VACCINATION_TYPES = ['RABIES', 'DHPP', 'BORDETELLA', 'LEPTOSPIROSIS', 'LYME', 'FVRCP', 'FELV', 'OTHER'] as const;
 
+export const VACCINATION_TYPE_LABELS: Record<VaccinationType, string> = {
+  RABIES: 'Rabies',
+  DHPP: 'DHPP',
+  BORDETELLA: 'Bordetella',
+  LEPTOSPIROSIS: 'Leptospirosis',
+  LYME: 'Lyme',
+  FVRCP: 'FVRCP',
+  FELV: 'FeLV',
+  OTHER: 'Other',
+};
+
 // Default expiry for vaccinations without explicit expiry date (veterinary standard: 1 year)
 export const DEFAULT_VACCINATION_VALIDITY_DAYS = 365;
 
+// Vaccinations expiring within this many days are flagged as expiring soon
+export const COMPLIANCE_WARNING_DAYS = 30;
+
+// Core vaccines required per species (boarding kennel / cat hotel baseline)
+export const SPECIES_VACCINE_REQUIREMENTS: Record<Species, readonly VaccinationType[]> = {
+  DOG: ['RABIES', 'DHPP', 'BORDETELLA'],
+  CAT: ['RABIES', 'FVRCP'],
+  BIRD: [],
+  RABBIT: [],
+  REPTILE: [],
+  OTHER: [],
+};
+
+// Share link scopes, narrowest first - each scope includes the data of the ones before it
+export const SHARE_SCOPES = ['IDENTITY', 'VACCINATIONS', 'HEALTH'] as const;
+export const MAX_SHARE_DURATION_DAYS = 90;
+export const MAX_ACTIVE_SHARES_PER_PET = 20;
+
+// Roles that can be granted by invitation (OWNER is the pet's creator)
+export const PET_MEMBER_ROLES = ['CO_OWNER', 'CARETAKER', 'VET'] as const;
+
+export const PET_ROLE_PERMISSIONS: Record<PetMemberRole, readonly PetPermission[]> = {
+  OWNER: ['VIEW', 'EDIT_RECORDS', 'MANAGE', 'MANAGE_MEMBERS', 'TRANSFER', 'DELETE'],
+  CO_OWNER: ['VIEW', 'EDIT_RECORDS', 'MANAGE', 'MANAGE_MEMBERS'],
+  VET: ['VIEW', 'EDIT_RECORDS'],
+  CARETAKER: ['VIEW'],
+};
+
+// Days a recipient has to accept an ownership transfer
+export const PET_TRANSFER_EXPIRY_DAYS = 14;
+
 export const JWT_EXPIRY = '7d';
 export const BCRYPT_ROUNDS = 12;
 
@@ -19,6 +63,7 @@ export const RATE_LIMITS = {
   STANDARD: { windowMs: 60000, max: 100 },
   AUTH: { windowMs: 60000, max: 10 },
   UPLOAD: { windowMs: 60000, max: 20 },
+  FINDER_CONTACT: { windowMs: 3600000, max: 5 },
 } as const;
 
 export const MAX_NAME_LENGTH = 100;
@@ -15,12 +15,38 @@ export interface Pet {
   weight: number | null;
   microchipId: string | null;
   photoUrl: string | null;
+  // Resized copies of the primary photo for lists and cards
+  photoVariants: PhotoVariants | null;
   verificationLevel: VerificationLevel;
   isActive: boolean;
+  // Lost-pet mode: shown on the public profile so finders can contact the owner
+  isLost: boolean;
+  lostAt: string | null;
+  lostMessage: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Re-encoded sizes of an uploaded photo. Photos from before processing was
+// added have a single file, so all three point at it.
+export interface PhotoVariants {
+  thumbnail: string;
+  medium: string;
+  full: string;
+}
+
+// Gallery photo. The primary photo's URL is mirrored in Pet.photoUrl.
+export interface PetPhoto {
+  id: string;
+  petId: string;
+  url: string;
+  variants: PhotoVariants;
+  position: number;
+  isPrimary: boolean;
+  uploadedBy: string;
+  createdAt: string;
+}
+
 export interface CreatePetInput {
   name: string;
   species: Species;
@@ -84,10 +110,21 @@ export interface Vaccination {
   vetName: string | null;
   clinicName: string | null;
   documentUrl: string | null;
+  // Set when a VET account signs off the record; cleared if the record is edited
+  attestedBy: string | null;
+  attestedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Public summary of who attested a vaccination
+export interface VaccinationAttestation {
+  vetName: string;
+  clinicName: string;
+  licenseNumber: string;
+  attestedAt: string;
+}
+
 export interface CreateVaccinationInput {
   type: VaccinationType;
   name: string;
@@ -106,3 +143,182 @@ export interface RabiesCompliance {
   daysUntilExpiry: number | null;
   message: string;
 }
+
+export interface VaccineCompliance extends RabiesCompliance {
+  type: VaccinationType;
+}
+
+export interface ComplianceReport {
+  species: Species;
+  isCompliant: boolean;
+  // False when the profile does not cover the species at all (e.g. a
+  // dog-only daycare checked against a cat) - never compliant
+  isApplicable: boolean;
+  asOf: string;
+  profile: { slug: string; name: string } | null;
+  // Vaccines must remain valid at least this many days past asOf
+  minValidityDays: number;
+  requirements: VaccineCompliance[];
+}
+
+export interface ComplianceProfile {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  requirements: Partial<Record<Species, VaccinationType[]>>;
+  minValidityDays: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Time-limited share links
+export type ShareScope = 'IDENTITY' | 'VACCINATIONS' | 'HEALTH';
+
+export interface PetShare {
+  id: string;
+  petId: string;
+  scope: ShareScope;
+  label: string | null;
+  expiresAt: string;
+  revokedAt: string | null;
+  accessCount: number;
+  lastAccessedAt: string | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+// Only a hash of the token is stored, so the link is returned once, on creation
+export interface CreatedPetShare extends PetShare {
+  token: string;
+}
+
+export interface SharedPetView {
+  scope: ShareScope;
+  expiresAt: string;
+  pet: {
+    petportId: string;
+    name: string;
+    species: Species;
+    breed: string | null;
+    sex: Sex;
+    dateOfBirth: string | null;
+    color: string | null;
+    microchipId: string | null;
+    photoUrl: string | null;
+    verificationLevel: VerificationLevel;
+  };
+  ownerName: string;
+  compliance?: ComplianceReport;
+  vaccinations?: Vaccination[];
+  healthRecords?: HealthRecord[];
+}
+
+// Message from someone who found a lost pet, relayed to the owner
+export interface FinderMessage {
+  id: string;
+  petId: string;
+  message: string;
+  contactInfo: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  locationText: string | null;
+  isRead: boolean;
+  createdAt: string;
+}
+
+// Anonymous lookup of a pet's public profile (QR tag scan)
+export interface ScanEvent {
+  id: string;
+  petId: string;
+  // Coarse browser/OS summary, never the raw user-agent or IP
+  device: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  createdAt: string;
+}
+
+// Pet memberships - the primary owner is pets.ownerId, everyone else is invited
+export type PetMemberRole = 'OWNER' | 'CO_OWNER' | 'CARETAKER' | 'VET';
+export type PetMemberStatus = 'PENDING' | 'ACTIVE';
+export type PetPermission = 'VIEW' | 'EDIT_RECORDS' | 'MANAGE' | 'MANAGE_MEMBERS' | 'TRANSFER' | 'DELETE';
+
+export interface PetMember {
+  id: string;
+  petId: string;
+  userId: string | null;
+  email: string;
+  // Null until the invitation is accepted
+  name: string | null;
+  role: Exclude<PetMemberRole, 'OWNER'>;
+  status: PetMemberStatus;
+  invitedBy: string;
+  createdAt: string;
+  acceptedAt: string | null;
+}
+
+export interface PetInvitation {
+  id: string;
+  petId: string;
+  petName: string;
+  species: Species;
+  role: Exclude<PetMemberRole, 'OWNER'>;
+  invitedByName: string;
+  createdAt: string;
+}
+
+// Two-step ownership transfer - the recipient must accept before owner_id changes
+export type PetTransferStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED';
+
+export interface PetTransfer {
+  id: string;
+  petId: string;
+  fromUserId: string;
+  toEmail: string;
+  // Set when the recipient accepts
+  toUserId: string | null;
+  status: PetTransferStatus;
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+}
+
+// A pending transfer as seen by the recipient
+export interface PetTransferOffer {
+  id: string;
+  petId: string;
+  petName: string;
+  species: Species;
+  petportId: string;
+  fromName: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// Signed QR tag payload (v2). The token is `<claims>.<signature>`, both
+// base64url, signed with Ed25519 so it can be checked without calling the API.
+export interface QrTokenClaims {
+  petportId: string;
+  // Expiry of the latest rabies vaccination when the tag was issued (YYYY-MM-DD)
+  rabiesExpiresAt: string | null;
+  issuedAt: string;
+  // Id of the signing key in GET /public/keys
+  keyId: string;
+}
+
+export interface QrPayloadV2 {
+  petportId: string;
+  v: 2;
+  t: string;
+}
+
+// Published verifying key (JWK for an Ed25519 public key)
+export interface QrVerifyingKey {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  x: string;
+  kid: string;
+  alg: 'EdDSA';
+  use: 'sig';
+}
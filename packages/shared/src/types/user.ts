@@ -1,6 +1,7 @@
 // User role types
 export const UserRole = {
   USER: 'USER',
+  VET: 'VET',
   ADMIN: 'ADMIN',
   SUPER_ADMIN: 'SUPER_ADMIN',
 } as const;
@@ -10,8 +11,9 @@ export type UserRole = (typeof UserRole)[keyof typeof UserRole];
 // Role hierarchy for permission checks (higher number = more permissions)
 export const ROLE_HIERARCHY: Record<UserRole, number> = {
   USER: 0,
-  ADMIN: 1,
-  SUPER_ADMIN: 2,
+  VET: 1,
+  ADMIN: 2,
+  SUPER_ADMIN: 3,
 };
 
 export interface User {
@@ -26,6 +28,26 @@ export interface User {
   updatedAt: string;
 }
 
+// Practice details a VET account attaches to the records it attests
+export interface ClinicProfile {
+  userId: string;
+  clinicName: string;
+  licenseNumber: string;
+  licenseRegion: string | null;
+  address: string | null;
+  phone: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpsertClinicProfileInput {
+  clinicName: string;
+  licenseNumber: string;
+  licenseRegion?: string | null;
+  address?: string | null;
+  phone?: string | null;
+}
+
 export interface CreateUserInput {
   email: string;
   password: string;
@@ -44,7 +66,19 @@ export interface AuthTokens {
   expiresIn: number;
 }
 
+export interface UserSession {
+  id: string;
+  // e.g. "Firefox on Windows"
+  device: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  // The session making the request
+  current: boolean;
+}
+
 export interface AuthResponse {
   user: User;
-  tokens: AuthTokens;
+  // Omitted for cookie sessions, which receive the tokens as cookies
+  tokens?: AuthTokens;
 }
@@ -1,8 +1,9 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Menu, X, User, LogOut, Home, List, Plus, Settings, Twitter, Instagram, Facebook, Shield } from 'lucide-react';
+import { Menu, X, User, LogOut, Home, List, Plus, Settings, Twitter, Instagram, Facebook, Shield, Mail } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
-import { Button } from './ui';
+import { auth, ApiError } from '@/lib/api';
+import { Button, useToast } from './ui';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -258,6 +259,8 @@ export function DashboardLayout({ children }: LayoutProps) {
     { to: '/settings', icon: Settings, label: 'Settings' },
     // Admin-only items
     ...(isAdmin ? [{ to: '/security-report', icon: Shield, label: 'Security Report' }] : []),
+    // Captured emails are only served outside production
+    ...(isAdmin && import.meta.env.DEV ? [{ to: '/admin/emails', icon: Mail, label: 'Outbox' }] : []),
   ];
 
   return (
@@ -340,6 +343,7 @@ export function DashboardLayout({ children }: LayoutProps) {
         {/* Main content */}
         <main className="flex-1 min-h-screen lg:min-h-[calc(100vh)]">
           <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            {user && !user.isVerified && <VerifyEmailBanner email={user.email} />}
             {children}
           </div>
         </main>
@@ -347,3 +351,34 @@ export function DashboardLayout({ children }: LayoutProps) {
     </div>
   );
 }
+
+// Shown until the user follows the link sent when they registered
+function VerifyEmailBanner({ email }: { email: string }) {
+  const { toast } = useToast();
+  const [sending, setSending] = React.useState(false);
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      await auth.resendVerification();
+      toast.success(`Verification link sent to ${email}`);
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to send verification link');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+      <Mail className="h-5 w-5 flex-shrink-0" />
+      <p className="flex-1 text-sm">
+        Please verify your email address. Until you do, you can't share pets or transfer them to someone else.
+        Check {email} for the link we sent.
+      </p>
+      <Button variant="outline" size="sm" onClick={handleResend} loading={sending}>
+        Resend Link
+      </Button>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
-import { Share2, Copy, Check, MessageCircle, Mail, Twitter, Facebook, Link2, Download, Loader2 } from 'lucide-react';
-import { Button, Modal, useToast } from '@/components/ui';
-import { Pet, pets } from '@/lib/api';
+import React, { useState, useEffect } from 'react';
+import { Share2, Copy, Check, MessageCircle, Mail, Twitter, Facebook, Link2, Download, Loader2, Lock, Trash2 } from 'lucide-react';
+import { Button, Input, Select, Modal, useToast } from '@/components/ui';
+import { Pet, PetShare, ShareScope, pets, ApiError } from '@/lib/api';
+import { SHARE_SCOPE_LABELS, formatDate } from '@/lib/utils';
 
 interface ShareSheetProps {
   pet: Pet;
@@ -164,6 +165,9 @@ export function ShareSheet({ pet, qrDataUrl, isOpen, onClose }: ShareSheetProps)
           </span>
         </button>
 
+        {/* Private, time-limited links */}
+        {isOpen && <ShareLinks pet={pet} />}
+
         {/* Download QR */}
         <button
           onClick={handleDownloadQR}
@@ -233,6 +237,155 @@ export function ShareSheet({ pet, qrDataUrl, isOpen, onClose }: ShareSheetProps)
   );
 }
 
+const SHARE_DURATION_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+];
+
+function getShareUrl(token: string): string {
+  return `${window.location.origin}/s/${token}`;
+}
+
+// Create, list and revoke scoped share links
+function ShareLinks({ pet }: { pet: Pet }) {
+  const { toast } = useToast();
+  const [shares, setShares] = useState<PetShare[]>([]);
+  // Links can only be copied while open - the API returns a token just once
+  const [createdTokens, setCreatedTokens] = useState<Record<string, string>>({});
+  const [scope, setScope] = useState<ShareScope>('VACCINATIONS');
+  const [expiresInDays, setExpiresInDays] = useState('7');
+  const [label, setLabel] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    loadShares();
+  }, [pet.id]);
+
+  const loadShares = async () => {
+    try {
+      const data = await pets.getShares(pet.id);
+      setShares(data.shares);
+    } catch {
+      toast.error('Failed to load share links');
+    }
+  };
+
+  const copyShareLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(token));
+      toast.success('Share link copied!');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const share = await pets.createShare(pet.id, {
+        scope,
+        expiresInDays: parseInt(expiresInDays, 10),
+        label: label || null,
+      });
+      setShares((prev) => [share, ...prev]);
+      setCreatedTokens((prev) => ({ ...prev, [share.id]: share.token }));
+      setLabel('');
+      await copyShareLink(share.token);
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to create share link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (share: PetShare) => {
+    if (!confirm('Revoke this link? Anyone using it will lose access immediately.')) return;
+    try {
+      await pets.revokeShare(pet.id, share.id);
+      setShares((prev) => prev.filter((s) => s.id !== share.id));
+      toast.success('Share link revoked');
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to revoke link');
+    }
+  };
+
+  return (
+    <div className="border border-sand rounded-xl p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <Lock className="h-4 w-4 text-forest" />
+        <p className="font-medium">Private share links</p>
+      </div>
+
+      <form onSubmit={handleCreate} className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <Select
+            label="Shares"
+            value={scope}
+            onChange={(e) => setScope(e.target.value as ShareScope)}
+            options={Object.entries(SHARE_SCOPE_LABELS).map(([value, label]) => ({ value, label }))}
+          />
+          <Select
+            label="Expires after"
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            options={SHARE_DURATION_OPTIONS}
+          />
+        </div>
+        <Input
+          label="Label (optional)"
+          placeholder="e.g. Happy Paws Boarding"
+          value={label}
+          maxLength={100}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <Button type="submit" fullWidth variant="outline" loading={creating}>
+          {!creating && <Link2 className="h-4 w-4" />}
+          Create & copy link
+        </Button>
+      </form>
+
+      {shares.length > 0 && (
+        <div className="space-y-2">
+          {shares.map((share) => {
+            const token = createdTokens[share.id];
+            return (
+              <div key={share.id} className="flex items-center justify-between p-3 bg-sand/30 rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{share.label || SHARE_SCOPE_LABELS[share.scope]}</p>
+                  <p className="text-xs text-stone">
+                    {SHARE_SCOPE_LABELS[share.scope]} • Expires {formatDate(share.expiresAt)} • {share.accessCount} views
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  {token && (
+                    <button
+                      onClick={() => copyShareLink(token)}
+                      className="p-2 hover:bg-forest/10 rounded-lg transition-colors"
+                      aria-label="Copy share link"
+                    >
+                      <Copy className="h-4 w-4 text-forest" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRevoke(share)}
+                    className="p-2 hover:bg-rust/10 rounded-lg transition-colors"
+                    aria-label="Revoke share link"
+                  >
+                    <Trash2 className="h-4 w-4 text-rust" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Social button component
 function SocialButton({ 
   icon, 
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
-import { auth, User, UserRole } from '@/lib/api';
+import { auth, hasSession, User, UserRole } from '@/lib/api';
 
 interface AuthState {
   user: User | null;
@@ -11,6 +11,8 @@ interface AuthContextType extends AuthState {
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, name: string) => Promise<void>;
   logout: () => Promise<void>;
+  // Reload the user, e.g. after verifying their email address
+  refreshUser: () => Promise<void>;
   // Role helpers
   isAdmin: boolean;
   isSuperAdmin: boolean;
@@ -27,8 +29,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   });
 
   const loadUser = useCallback(async () => {
-    const token = localStorage.getItem('token');
-    if (!token) {
+    // Tokens kept by versions of the app before cookie sessions
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+
+    if (!hasSession()) {
       setState({ user: null, isLoading: false, isAuthenticated: false });
       return;
     }
@@ -37,7 +42,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const user = await auth.me();
       setState({ user, isLoading: false, isAuthenticated: true });
     } catch {
-      localStorage.removeItem('token');
       setState({ user: null, isLoading: false, isAuthenticated: false });
     }
   }, []);
@@ -48,13 +52,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const login = async (email: string, password: string) => {
     const result = await auth.login(email, password);
-    localStorage.setItem('token', result.tokens.accessToken);
     setState({ user: result.user, isLoading: false, isAuthenticated: true });
   };
 
   const register = async (email: string, password: string, name: string) => {
     const result = await auth.register(email, password, name);
-    localStorage.setItem('token', result.tokens.accessToken);
     setState({ user: result.user, isLoading: false, isAuthenticated: true });
   };
 
@@ -64,7 +66,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } catch {
       // Ignore errors
     }
-    localStorage.removeItem('token');
     setState({ user: null, isLoading: false, isAuthenticated: false });
   };
 
@@ -79,7 +80,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const hasRole = useCallback(
     (role: UserRole): boolean => {
       if (!state.user) return false;
-      const hierarchy: Record<UserRole, number> = { USER: 0, ADMIN: 1, SUPER_ADMIN: 2 };
+      const hierarchy: Record<UserRole, number> = { USER: 0, VET: 1, ADMIN: 2, SUPER_ADMIN: 3 };
       return hierarchy[state.user.role] >= hierarchy[role];
     },
     [state.user]
@@ -87,7 +88,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   return (
     <AuthContext.Provider
-      value={{ ...state, login, register, logout, isAdmin, isSuperAdmin, hasRole }}
+      value={{ ...state, login, register, logout, refreshUser: loadUser, isAdmin, isSuperAdmin, hasRole }}
     >
       {children}
     </AuthContext.Provider>
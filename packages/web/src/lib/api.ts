@@ -19,23 +19,74 @@ class ApiError extends Error {
   }
 }
 
+// The session lives in HttpOnly cookies set by the API. State-changing
+// requests repeat the readable CSRF cookie in a header.
+const CSRF_COOKIE = 'petport_csrf';
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+// Endpoints whose 401s mean bad credentials, not an expired session
+const NO_REFRESH = ['/auth/login', '/auth/register', '/auth/refresh'];
+
+function readCookie(name: string): string | null {
+  const cookie = document.cookie.split('; ').find((c) => c.startsWith(`${name}=`));
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : null;
+}
+
+// The CSRF cookie lasts as long as the session, so it shows one exists
+export function hasSession(): boolean {
+  return readCookie(CSRF_COOKIE) !== null;
+}
+
+function send(endpoint: string, options: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(options.headers);
+  const csrfToken = readCookie(CSRF_COOKIE);
+  if (csrfToken && !SAFE_METHODS.includes((options.method ?? 'GET').toUpperCase())) {
+    headers.set('X-CSRF-Token', csrfToken);
+  }
+  return fetch(`${API_BASE}${endpoint}`, { ...options, headers, credentials: 'include' });
+}
+
+// Refresh tokens work once, so refreshes are serialized across tabs
+let refreshing: Promise<boolean> | null = null;
+
+function refreshSession(staleCsrfToken: string): Promise<boolean> {
+  refreshing ??= (async () => {
+    try {
+      return await navigator.locks.request('petport-refresh', async () => {
+        // Every refresh issues a new CSRF token - if it changed, another tab
+        // already refreshed
+        if (readCookie(CSRF_COOKIE) !== staleCsrfToken) return true;
+        return (await send('/auth/refresh', { method: 'POST' })).ok;
+      });
+    } catch {
+      return false;
+    } finally {
+      refreshing = null;
+    }
+  })();
+  return refreshing;
+}
+
+// fetch with the session cookies, refreshing the session once if the
+// access token has expired
+async function fetchWithAuth(endpoint: string, options: RequestInit = {}): Promise<Response> {
+  const csrfToken = readCookie(CSRF_COOKIE);
+  const response = await send(endpoint, options);
+  if (response.status !== 401 || !csrfToken || NO_REFRESH.includes(endpoint)) {
+    return response;
+  }
+  return (await refreshSession(csrfToken)) ? send(endpoint, options) : response;
+}
+
 async function request<T>(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<T> {
-  const token = localStorage.getItem('token');
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    ...(options.headers as Record<string, string>),
-  };
-
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  }
-
-  const response = await fetch(`${API_BASE}${endpoint}`, {
+  const response = await fetchWithAuth(endpoint, {
     ...options,
-    headers,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.headers as Record<string, string>),
+    },
   });
 
   const data: ApiResponse<T> = await response.json();
@@ -58,18 +109,11 @@ async function uploadFile<T>(
   file: File,
   fieldName: string = 'photo'
 ): Promise<T> {
-  const token = localStorage.getItem('token');
   const formData = new FormData();
   formData.append(fieldName, file);
 
-  const headers: Record<string, string> = {};
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  }
-
-  const response = await fetch(`${API_BASE}${endpoint}`, {
+  const response = await fetchWithAuth(endpoint, {
     method: 'POST',
-    headers,
     body: formData,
   });
 
@@ -88,20 +132,18 @@ async function uploadFile<T>(
 }
 
 // Binary download helper
-async function downloadBlob(endpoint: string, filename: string): Promise<void> {
-  const token = localStorage.getItem('token');
-  const headers: Record<string, string> = {};
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  }
-
-  const response = await fetch(`${API_BASE}${endpoint}`, { headers });
+async function fetchBlob(endpoint: string): Promise<Blob> {
+  const response = await fetchWithAuth(endpoint);
   
   if (!response.ok) {
     throw new ApiError('DOWNLOAD_ERROR', 'Failed to download file', response.status);
   }
 
-  const blob = await response.blob();
+  return response.blob();
+}
+
+async function downloadBlob(endpoint: string, filename: string): Promise<void> {
+  const blob = await fetchBlob(endpoint);
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -129,14 +171,16 @@ function downloadJson(data: unknown, filename: string): void {
 // Auth
 export const auth = {
   register: (email: string, password: string, name: string) =>
-    request<{ user: User; tokens: { accessToken: string } }>('/auth/register', {
+    request<{ user: User }>('/auth/register', {
       method: 'POST',
+      headers: { 'X-Session-Mode': 'cookie' },
       body: JSON.stringify({ email, password, name }),
     }),
 
   login: (email: string, password: string) =>
-    request<{ user: User; tokens: { accessToken: string } }>('/auth/login', {
+    request<{ user: User }>('/auth/login', {
       method: 'POST',
+      headers: { 'X-Session-Mode': 'cookie' },
       body: JSON.stringify({ email, password }),
     }),
 
@@ -144,6 +188,25 @@ export const auth = {
 
   me: () => request<User>('/auth/me'),
 
+  // Email verification
+  verifyEmail: (token: string) =>
+    request<{ message: string }>('/auth/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    }),
+
+  resendVerification: () =>
+    request<{ message: string }>('/auth/verify-email/resend', { method: 'POST' }),
+
+  // Signed-in devices
+  sessions: () => request<UserSession[]>('/auth/sessions'),
+
+  revokeSession: (sessionId: string) =>
+    request<{ message: string }>(`/auth/sessions/${sessionId}`, { method: 'DELETE' }),
+
+  revokeAllSessions: () =>
+    request<{ message: string; count: number }>('/auth/sessions', { method: 'DELETE' }),
+
   // Password reset
   forgotPassword: (email: string) =>
     request<{ message: string }>('/auth/forgot-password', {
@@ -199,6 +262,25 @@ export const pets = {
   deletePhoto: (petId: string) =>
     request(`/pets/${petId}/photo`, { method: 'DELETE' }),
 
+  // Photo gallery
+  getPhotos: (petId: string) =>
+    request<{ photos: PetPhoto[]; total: number }>(`/pets/${petId}/photos`),
+
+  addPhoto: (petId: string, file: File) =>
+    uploadFile<PetPhoto>(`/pets/${petId}/photos`, file),
+
+  reorderPhotos: (petId: string, photoIds: string[]) =>
+    request<{ photos: PetPhoto[]; total: number }>(`/pets/${petId}/photos/order`, {
+      method: 'PUT',
+      body: JSON.stringify({ photoIds }),
+    }),
+
+  setPrimaryPhoto: (petId: string, photoId: string) =>
+    request<PetPhoto>(`/pets/${petId}/photos/${photoId}/primary`, { method: 'POST' }),
+
+  removePhoto: (petId: string, photoId: string) =>
+    request(`/pets/${petId}/photos/${photoId}`, { method: 'DELETE' }),
+
   // Health records
   getHealth: (petId: string) =>
     request<{ records: HealthRecord[]; total: number }>(`/pets/${petId}/health`),
@@ -209,6 +291,15 @@ export const pets = {
       body: JSON.stringify(data),
     }),
 
+  updateHealth: (petId: string, recordId: string, data: Partial<CreateHealthRecordInput>) =>
+    request<HealthRecord>(`/pets/${petId}/health/${recordId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  deleteHealth: (petId: string, recordId: string) =>
+    request(`/pets/${petId}/health/${recordId}`, { method: 'DELETE' }),
+
   // Vaccinations
   getVaccinations: (petId: string) =>
     request<{ vaccinations: Vaccination[]; total: number }>(`/pets/${petId}/vaccinations`),
@@ -219,7 +310,131 @@ export const pets = {
       body: JSON.stringify(data),
     }),
 
+  updateVaccination: (petId: string, vaccinationId: string, data: Partial<CreateVaccinationInput>) =>
+    request<Vaccination>(`/pets/${petId}/vaccinations/${vaccinationId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  attestVaccination: (petId: string, vaccinationId: string) =>
+    request<Vaccination>(`/pets/${petId}/vaccinations/${vaccinationId}/attest`, { method: 'POST' }),
+
+  revokeAttestation: (petId: string, vaccinationId: string) =>
+    request<Vaccination>(`/pets/${petId}/vaccinations/${vaccinationId}/attest`, { method: 'DELETE' }),
+
+  deleteVaccination: (petId: string, vaccinationId: string) =>
+    request(`/pets/${petId}/vaccinations/${vaccinationId}`, { method: 'DELETE' }),
+
+  // Record documents (certificates, lab results) - only served to users with access
+  uploadDocument: (petId: string, kind: RecordDocumentKind, recordId: string, file: File) =>
+    uploadFile<Vaccination | HealthRecord>(`/pets/${petId}/${kind}/${recordId}/document`, file, 'document'),
+
+  getDocument: (petId: string, kind: RecordDocumentKind, recordId: string) =>
+    fetchBlob(`/pets/${petId}/${kind}/${recordId}/document`),
+
+  getDocumentLink: (petId: string, kind: RecordDocumentKind, recordId: string) =>
+    request<{ url: string; expiresAt: string }>(`/pets/${petId}/${kind}/${recordId}/document/link`),
+
+  deleteDocument: (petId: string, kind: RecordDocumentKind, recordId: string) =>
+    request<Vaccination | HealthRecord>(`/pets/${petId}/${kind}/${recordId}/document`, { method: 'DELETE' }),
+
   // Compliance
+  getCompliance: (petId: string, options: { profile?: string; asOf?: string } = {}) => {
+    const params = new URLSearchParams();
+    if (options.profile) params.set('profile', options.profile);
+    if (options.asOf) params.set('asOf', options.asOf);
+    const query = params.toString();
+    return request<ComplianceReport>(`/pets/${petId}/compliance${query ? `?${query}` : ''}`);
+  },
+
+  getComplianceProfiles: () =>
+    request<{ profiles: ComplianceProfile[]; total: number }>('/pets/compliance-profiles'),
+
+  // Lost-pet mode
+  reportLost: (petId: string, message?: string) =>
+    request<Pet>(`/pets/${petId}/lost`, {
+      method: 'POST',
+      body: JSON.stringify({ message: message || null }),
+    }),
+
+  reportFound: (petId: string) =>
+    request<Pet>(`/pets/${petId}/found`, { method: 'POST' }),
+
+  getFinderMessages: (petId: string) =>
+    request<{ messages: FinderMessage[]; total: number; unread: number }>(`/pets/${petId}/finder-messages`),
+
+  markFinderMessagesRead: (petId: string) =>
+    request(`/pets/${petId}/finder-messages/read`, { method: 'POST' }),
+
+  // Scan history
+  getScans: (petId: string, page = 1, limit = 20) =>
+    request<{ scans: ScanEvent[]; total: number; page: number; limit: number }>(
+      `/pets/${petId}/scans?page=${page}&limit=${limit}`
+    ),
+
+  // Members
+  getMembers: (petId: string) =>
+    request<PetMembersResponse>(`/pets/${petId}/members`),
+
+  inviteMember: (petId: string, data: { email: string; role: PetMember['role'] }) =>
+    request<PetMember>(`/pets/${petId}/members`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  updateMember: (petId: string, memberId: string, role: PetMember['role']) =>
+    request<PetMember>(`/pets/${petId}/members/${memberId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    }),
+
+  removeMember: (petId: string, memberId: string) =>
+    request(`/pets/${petId}/members/${memberId}`, { method: 'DELETE' }),
+
+  getInvitations: () =>
+    request<{ invitations: PetInvitation[]; total: number }>('/pets/invitations'),
+
+  acceptInvitation: (invitationId: string) =>
+    request<Pet>(`/pets/invitations/${invitationId}/accept`, { method: 'POST' }),
+
+  declineInvitation: (invitationId: string) =>
+    request(`/pets/invitations/${invitationId}/decline`, { method: 'POST' }),
+
+  // Ownership transfer
+  getTransfer: (petId: string) =>
+    request<PetTransfer | null>(`/pets/${petId}/transfer`),
+
+  startTransfer: (petId: string, email: string) =>
+    request<PetTransfer>(`/pets/${petId}/transfer`, {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    }),
+
+  cancelTransfer: (petId: string) =>
+    request(`/pets/${petId}/transfer`, { method: 'DELETE' }),
+
+  getTransferOffers: () =>
+    request<{ transfers: PetTransferOffer[]; total: number }>('/pets/transfers'),
+
+  acceptTransfer: (transferId: string) =>
+    request<Pet>(`/pets/transfers/${transferId}/accept`, { method: 'POST' }),
+
+  declineTransfer: (transferId: string) =>
+    request(`/pets/transfers/${transferId}/decline`, { method: 'POST' }),
+
+  // Share links
+  getShares: (petId: string) =>
+    request<{ shares: PetShare[]; total: number }>(`/pets/${petId}/shares`),
+
+  createShare: (petId: string, data: CreatePetShareInput) =>
+    request<CreatedPetShare>(`/pets/${petId}/shares`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  revokeShare: (petId: string, shareId: string) =>
+    request(`/pets/${petId}/shares/${shareId}`, { method: 'DELETE' }),
+
   getRabiesCompliance: (petId: string) =>
     request<RabiesCompliance>(`/pets/${petId}/compliance/rabies`),
 
@@ -238,14 +453,43 @@ export const pets = {
     downloadBlob(`/pets/${petId}/passport`, `${petportId}-passport.pdf`),
 };
 
+// Vets - practice details for VET accounts
+export const vets = {
+  getClinic: () => request<ClinicProfile | null>('/vets/me/clinic'),
+
+  saveClinic: (data: ClinicProfileInput) =>
+    request<ClinicProfile>('/vets/me/clinic', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+};
+
 // Public
 export const publicApi = {
   verify: (petportId: string) =>
     request<PublicPetInfo>(`/public/verify/${petportId}`),
+
+  contactOwner: (petportId: string, data: FinderContactInput) =>
+    request<{ message: string }>(`/public/verify/${petportId}/contact`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  shareScanLocation: (petportId: string, scanId: string, coords: { latitude: number; longitude: number }) =>
+    request<{ message: string }>(`/public/verify/${petportId}/scans/${scanId}/location`, {
+      method: 'POST',
+      body: JSON.stringify(coords),
+    }),
+
+  getShare: (token: string) =>
+    request<SharedPetView>(`/public/share/${token}`),
+
+  getKeys: () =>
+    request<{ keys: QrVerifyingKey[] }>('/public/keys'),
 };
 
 // Types
-export type UserRole = 'USER' | 'ADMIN' | 'SUPER_ADMIN';
+export type UserRole = 'USER' | 'VET' | 'ADMIN' | 'SUPER_ADMIN';
 
 export interface User {
   id: string;
@@ -259,6 +503,15 @@ export interface User {
   updatedAt: string;
 }
 
+export interface UserSession {
+  id: string;
+  device: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
 // Role helper functions
 export function isAdmin(user: User | null): boolean {
   return user?.role === 'ADMIN' || user?.role === 'SUPER_ADMIN';
@@ -268,6 +521,25 @@ export function isSuperAdmin(user: User | null): boolean {
   return user?.role === 'SUPER_ADMIN';
 }
 
+export interface ClinicProfile {
+  userId: string;
+  clinicName: string;
+  licenseNumber: string;
+  licenseRegion: string | null;
+  address: string | null;
+  phone: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClinicProfileInput {
+  clinicName: string;
+  licenseNumber: string;
+  licenseRegion?: string | null;
+  address?: string | null;
+  phone?: string | null;
+}
+
 export interface Pet {
   id: string;
   petportId: string;
@@ -281,12 +553,35 @@ export interface Pet {
   weight: number | null;
   microchipId: string | null;
   photoUrl: string | null;
+  photoVariants: PhotoVariants | null;
   verificationLevel: 'BASIC' | 'VERIFIED' | 'CERTIFIED';
   isActive: boolean;
+  isLost: boolean;
+  lostAt: string | null;
+  lostMessage: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Re-encoded sizes of an uploaded photo
+export interface PhotoVariants {
+  thumbnail: string;
+  medium: string;
+  full: string;
+}
+
+// Gallery photo; the primary one is mirrored in Pet.photoUrl
+export interface PetPhoto {
+  id: string;
+  petId: string;
+  url: string;
+  variants: PhotoVariants;
+  position: number;
+  isPrimary: boolean;
+  uploadedBy: string;
+  createdAt: string;
+}
+
 export interface CreatePetInput {
   name: string;
   species: Pet['species'];
@@ -335,10 +630,19 @@ export interface Vaccination {
   vetName: string | null;
   clinicName: string | null;
   documentUrl: string | null;
+  attestedBy: string | null;
+  attestedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface VaccinationAttestation {
+  vetName: string;
+  clinicName: string;
+  licenseNumber: string;
+  attestedAt: string;
+}
+
 export interface CreateVaccinationInput {
   type: Vaccination['type'];
   name: string;
@@ -358,34 +662,218 @@ export interface RabiesCompliance {
   message: string;
 }
 
+export interface VaccineCompliance extends RabiesCompliance {
+  type: Vaccination['type'];
+}
+
+export interface ComplianceReport {
+  species: Pet['species'];
+  isCompliant: boolean;
+  isApplicable: boolean;
+  asOf: string;
+  profile: { slug: string; name: string } | null;
+  minValidityDays: number;
+  requirements: VaccineCompliance[];
+}
+
+export interface ComplianceProfile {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  requirements: Partial<Record<Pet['species'], Vaccination['type'][]>>;
+  minValidityDays: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Summary type for dashboard (includes computed stats)
 export interface PetWithSummary extends Pet {
+  role: PetMemberRole;
   vaccinationCount: number;
   healthRecordCount: number;
   rabiesCompliance: RabiesCompliance;
+  compliance: ComplianceReport;
 }
 
 export interface PublicPetInfo {
+  scanId: string;
   petportId: string;
   name: string;
   species: string;
   breed: string | null;
   photoUrl: string | null;
+  photos: PhotoVariants[];
   verificationLevel: string;
   ownerName: string;
+  lost: {
+    isLost: boolean;
+    since: string | null;
+    message: string | null;
+  };
   rabiesStatus: {
     isCompliant: boolean;
     expiresAt: string | null;
   };
+  compliance: {
+    isCompliant: boolean;
+    requirements: Array<{
+      type: Vaccination['type'];
+      isCompliant: boolean;
+      expiresAt: string | null;
+      attestation: VaccinationAttestation | null;
+    }>;
+  };
+}
+
+export type PetMemberRole = 'OWNER' | 'CO_OWNER' | 'CARETAKER' | 'VET';
+export type PetPermission = 'VIEW' | 'EDIT_RECORDS' | 'MANAGE' | 'MANAGE_MEMBERS' | 'TRANSFER' | 'DELETE';
+
+export interface PetMember {
+  id: string;
+  petId: string;
+  userId: string | null;
+  email: string;
+  name: string | null;
+  role: Exclude<PetMemberRole, 'OWNER'>;
+  status: 'PENDING' | 'ACTIVE';
+  invitedBy: string;
+  createdAt: string;
+  acceptedAt: string | null;
 }
 
+export interface PetMembersResponse {
+  owner: { userId: string; name: string };
+  members: PetMember[];
+  myRole: PetMemberRole;
+}
+
+export interface PetInvitation {
+  id: string;
+  petId: string;
+  petName: string;
+  species: Pet['species'];
+  role: PetMember['role'];
+  invitedByName: string;
+  createdAt: string;
+}
+
+export interface PetTransfer {
+  id: string;
+  petId: string;
+  fromUserId: string;
+  toEmail: string;
+  toUserId: string | null;
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED';
+  createdAt: string;
+  expiresAt: string;
+  resolvedAt: string | null;
+}
+
+export interface PetTransferOffer {
+  id: string;
+  petId: string;
+  petName: string;
+  species: Pet['species'];
+  petportId: string;
+  fromName: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ScanEvent {
+  id: string;
+  petId: string;
+  device: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  createdAt: string;
+}
+
+export interface FinderMessage {
+  id: string;
+  petId: string;
+  message: string;
+  contactInfo: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  locationText: string | null;
+  isRead: boolean;
+  createdAt: string;
+}
+
+export interface FinderContactInput {
+  message: string;
+  contactInfo?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  locationText?: string | null;
+}
+
+export type ShareScope = 'IDENTITY' | 'VACCINATIONS' | 'HEALTH';
+
+export interface PetShare {
+  id: string;
+  petId: string;
+  scope: ShareScope;
+  label: string | null;
+  expiresAt: string;
+  revokedAt: string | null;
+  accessCount: number;
+  lastAccessedAt: string | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+// The token is only returned when the link is created
+export interface CreatedPetShare extends PetShare {
+  token: string;
+}
+
+export interface CreatePetShareInput {
+  scope: ShareScope;
+  expiresInDays: number;
+  label?: string | null;
+}
+
+export interface SharedPetView {
+  scope: ShareScope;
+  expiresAt: string;
+  pet: Pick<Pet, 'petportId' | 'name' | 'species' | 'breed' | 'sex' | 'dateOfBirth' | 'color' | 'microchipId' | 'photoUrl' | 'verificationLevel'>;
+  ownerName: string;
+  compliance?: ComplianceReport;
+  vaccinations?: Vaccination[];
+  healthRecords?: HealthRecord[];
+}
+
+export type RecordDocumentKind = 'vaccinations' | 'health';
+
 export interface QRCodeData {
   petportId: string;
   verifyUrl: string;
+  qrData: string;
   dataUrl: string;
   svg: string;
 }
 
+// Ed25519 public key (JWK) for checking signed QR tags
+export interface QrVerifyingKey {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  x: string;
+  kid: string;
+  alg: 'EdDSA';
+  use: 'sig';
+}
+
+export interface QrTokenClaims {
+  petportId: string;
+  rabiesExpiresAt: string | null;
+  issuedAt: string;
+  keyId: string;
+}
+
 export interface DataExport {
   user: User;
   pets: Array<Pet & {
@@ -443,6 +931,7 @@ export interface AdminStats {
   vaccinations: number;
   usersByRole: {
     USER: number;
+    VET: number;
     ADMIN: number;
     SUPER_ADMIN: number;
   };
@@ -524,6 +1013,12 @@ export interface SecurityMetrics {
     tokensIssued24h: number;
     tokensRevoked24h: number;
   };
+  passwordResets: {
+    requested24h: number;
+    completed24h: number;
+    failed24h: number;
+    throttled24h: number;
+  };
   suspiciousActivity: SuspiciousActivityItem[];
   rateLimiting: {
     enabled: boolean;
@@ -532,13 +1027,32 @@ export interface SecurityMetrics {
   };
 }
 
+// An email captured by the API's file or memory transport
+export interface CapturedEmail {
+  id: string;
+  template: string;
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  sentAt: string;
+}
+
 // =====================================================
 // ADMIN API
 // =====================================================
 
 export const admin = {
   // User management
-  getUsers: () => request<{ users: User[]; total: number }>('/admin/users'),
+  getUsers: (options: { role?: UserRole; page?: number; limit?: number } = {}) => {
+    const params = new URLSearchParams();
+    if (options.role) params.set('role', options.role);
+    if (options.page) params.set('page', String(options.page));
+    if (options.limit) params.set('limit', String(options.limit));
+    const query = params.toString();
+    return request<{ users: User[]; total: number; page: number; limit: number }>(`/admin/users${query ? `?${query}` : ''}`);
+  },
 
   getUser: (userId: string) => request<User>(`/admin/users/${userId}`),
 
@@ -561,6 +1075,10 @@ export const admin = {
   getSecurityAudit: () => request<SecurityAudit>('/admin/security/audit'),
 
   getSecurityMetrics: () => request<SecurityMetrics>('/admin/security/metrics'),
+
+  // Outbox (development only)
+  getEmails: (limit?: number) =>
+    request<{ emails: CapturedEmail[]; transport: string }>(`/admin/emails?limit=${limit || 50}`),
 };
 
 export { ApiError };
@@ -0,0 +1,127 @@
+import { publicApi, QrVerifyingKey, QrTokenClaims } from './api';
+
+// Verifying keys are cached so tags can still be checked with no connection
+const KEYS_STORAGE_KEY = 'petport_qr_keys';
+
+export interface ScannedPayload {
+  petportId: string;
+  // Signed token from a v2 tag; null for legacy v1 tags
+  token: string | null;
+}
+
+export type OfflineVerification =
+  | { status: 'valid'; claims: QrTokenClaims }
+  | { status: 'invalid' }
+  | { status: 'unsigned' }
+  | { status: 'no-keys' }
+  // Browser lacks Ed25519 in Web Crypto
+  | { status: 'unsupported' };
+
+/**
+ * Read the contents of a scanned QR code. Accepts the JSON payload printed
+ * on tags or a bare signed token.
+ */
+export function parseQrPayload(input: string): ScannedPayload | null {
+  const text = input.trim();
+
+  if (text.startsWith('{')) {
+    try {
+      const payload = JSON.parse(text) as { petportId?: unknown; v?: unknown; t?: unknown };
+      if (typeof payload.petportId !== 'string') return null;
+      return {
+        petportId: payload.petportId,
+        token: payload.v === 2 && typeof payload.t === 'string' ? payload.t : null,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  const claims = decodeClaims(text);
+  return claims ? { petportId: claims.p, token: text } : null;
+}
+
+interface EncodedClaims {
+  p: string;
+  r: string | null;
+  i: string;
+  k: string;
+}
+
+function base64UrlToBytes(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function decodeClaims(token: string): EncodedClaims | null {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) return null;
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlToBytes(encoded))) as EncodedClaims;
+    return typeof claims.p === 'string' && typeof claims.k === 'string' ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+function getCachedKeys(): QrVerifyingKey[] {
+  try {
+    return JSON.parse(localStorage.getItem(KEYS_STORAGE_KEY) ?? '[]') as QrVerifyingKey[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Fetch the published verifying keys, falling back to the last cached set
+ */
+export async function loadVerifyingKeys(): Promise<QrVerifyingKey[]> {
+  try {
+    const { keys } = await publicApi.getKeys();
+    localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(keys));
+    return keys;
+  } catch {
+    return getCachedKeys();
+  }
+}
+
+/**
+ * Check a scanned tag's signature locally with Web Crypto
+ */
+export async function verifyScannedPayload(
+  payload: ScannedPayload,
+  keys: QrVerifyingKey[]
+): Promise<OfflineVerification> {
+  if (!payload.token) return { status: 'unsigned' };
+
+  const claims = decodeClaims(payload.token);
+  if (!claims || claims.p !== payload.petportId) return { status: 'invalid' };
+
+  const key = keys.find((k) => k.kid === claims.k);
+  if (!key) return { status: keys.length === 0 ? 'no-keys' : 'invalid' };
+
+  const [encoded, signature] = payload.token.split('.') as [string, string];
+  let publicKey: CryptoKey;
+  try {
+    publicKey = await crypto.subtle.importKey('jwk', key, { name: 'Ed25519' }, false, ['verify']);
+  } catch {
+    return { status: 'unsupported' };
+  }
+
+  try {
+    const valid = await crypto.subtle.verify(
+      { name: 'Ed25519' },
+      publicKey,
+      base64UrlToBytes(signature),
+      new TextEncoder().encode(encoded)
+    );
+    if (!valid) return { status: 'invalid' };
+  } catch {
+    return { status: 'invalid' };
+  }
+
+  return {
+    status: 'valid',
+    claims: { petportId: claims.p, rabiesExpiresAt: claims.r, issuedAt: claims.i, keyId: claims.k },
+  };
+}
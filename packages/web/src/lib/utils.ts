@@ -2,6 +2,8 @@
  * Shared utility functions for the web app
  */
 
+import type { PetMemberRole, PetPermission } from './api';
+
 // Species emoji mapping - covers all species from @petport/shared constants
 export const SPECIES_EMOJI: Record<string, string> = {
   DOG: '🐕',
@@ -12,6 +14,55 @@ export const SPECIES_EMOJI: Record<string, string> = {
   OTHER: '🐾',
 };
 
+// Display labels for vaccination types
+export const VACCINATION_LABELS: Record<string, string> = {
+  RABIES: 'Rabies',
+  DHPP: 'DHPP',
+  BORDETELLA: 'Bordetella',
+  LEPTOSPIROSIS: 'Leptospirosis',
+  LYME: 'Lyme',
+  FVRCP: 'FVRCP',
+  FELV: 'FeLV',
+  OTHER: 'Other',
+};
+
+// Display labels for share link scopes
+export const SHARE_SCOPE_LABELS: Record<string, string> = {
+  IDENTITY: 'Identity only',
+  VACCINATIONS: 'Identity + vaccinations',
+  HEALTH: 'Full health history',
+};
+
+// What each verification level means to someone checking a pet
+export const VERIFICATION_LEVEL_DESCRIPTIONS: Record<string, string> = {
+  BASIC: 'Records entered by the owner',
+  VERIFIED: 'Some records attested by a veterinarian',
+  CERTIFIED: 'Microchipped with all required vaccines attested by a veterinarian',
+};
+
+// Display labels for pet member roles
+export const PET_ROLE_LABELS: Record<PetMemberRole, string> = {
+  OWNER: 'Owner',
+  CO_OWNER: 'Co-owner',
+  CARETAKER: 'Caretaker',
+  VET: 'Veterinarian',
+};
+
+// Mirrors PET_ROLE_PERMISSIONS in @petport/shared - the API enforces these
+const PET_ROLE_PERMISSIONS: Record<PetMemberRole, PetPermission[]> = {
+  OWNER: ['VIEW', 'EDIT_RECORDS', 'MANAGE', 'MANAGE_MEMBERS', 'TRANSFER', 'DELETE'],
+  CO_OWNER: ['VIEW', 'EDIT_RECORDS', 'MANAGE', 'MANAGE_MEMBERS'],
+  VET: ['VIEW', 'EDIT_RECORDS'],
+  CARETAKER: ['VIEW'],
+};
+
+/**
+ * Check whether a role on a pet grants a permission
+ */
+export function hasPetPermission(role: PetMemberRole | null | undefined, permission: PetPermission): boolean {
+  return role ? PET_ROLE_PERMISSIONS[role].includes(permission) : false;
+}
+
 /**
  * Get emoji for a pet species
  * @param species - The species string (DOG, CAT, etc.)
@@ -18,7 +18,12 @@ import { EditPetPage } from '@/pages/EditPet';
 import { VerifyPage } from '@/pages/Verify';
 import { SettingsPage } from '@/pages/Settings';
 import { PublicProfilePage } from '@/pages/PublicProfile';
+import { SharedProfilePage } from '@/pages/SharedProfile';
 import { SecurityReportPage } from '@/pages/SecurityReport';
+import { VerifyEmailPage } from '@/pages/VerifyEmail';
+import { ForgotPasswordPage } from '@/pages/ForgotPassword';
+import { ResetPasswordPage } from '@/pages/ResetPassword';
+import { OutboxPage } from '@/pages/Outbox';
 
 // Styles
 import '@/styles/globals.css';
@@ -56,6 +61,10 @@ function App() {
             <Route path="/verify" element={<VerifyPage />} />
             <Route path="/verify/:petportId" element={<VerifyPage />} />
             <Route path="/p/:petportId" element={<PublicProfilePage />} />
+            <Route path="/s/:token" element={<SharedProfilePage />} />
+            <Route path="/verify-email" element={<VerifyEmailPage />} />
+            <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+            <Route path="/reset-password" element={<ResetPasswordPage />} />
 
             {/* Protected Routes */}
             <Route path="/dashboard" element={<ProtectedRoute><DashboardPage /></ProtectedRoute>} />
@@ -68,6 +77,9 @@ function App() {
 
             {/* Admin Routes */}
             <Route path="/security-report" element={<AdminRoute><SecurityReportPage /></AdminRoute>} />
+            {import.meta.env.DEV && (
+              <Route path="/admin/emails" element={<AdminRoute><OutboxPage /></AdminRoute>} />
+            )}
 
             {/* Fallback */}
             <Route path="*" element={<Navigate to="/" replace />} />
@@ -1,27 +1,69 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { PawPrint, Plus, Syringe, FileText, AlertTriangle, Download, Loader2, QrCode } from 'lucide-react';
+import { PawPrint, Plus, Syringe, FileText, AlertTriangle, Download, Loader2, QrCode, Users } from 'lucide-react';
 import { DashboardLayout } from '@/components/Layout';
 import { Card, Button, Badge, LoadingState, ErrorState, Alert, useToast } from '@/components/ui';
 import { OnboardingWizard, useOnboarding } from '@/components/OnboardingWizard';
 import { NotificationCenter } from '@/components/NotificationCenter';
 import { useAuth } from '@/hooks/useAuth';
-import { pets, auth, PetWithSummary } from '@/lib/api';
-import { getSpeciesEmoji } from '@/lib/utils';
+import { pets, auth, PetWithSummary, PetInvitation, PetTransferOffer, ApiError } from '@/lib/api';
+import { getSpeciesEmoji, formatDate, PET_ROLE_LABELS } from '@/lib/utils';
 
 export function DashboardPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const { showOnboarding, completeOnboarding, skipOnboarding, isChecked } = useOnboarding();
   const [petList, setPetList] = useState<PetWithSummary[]>([]);
+  const [invitations, setInvitations] = useState<PetInvitation[]>([]);
+  const [transferOffers, setTransferOffers] = useState<PetTransferOffer[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [exporting, setExporting] = useState(false);
 
   useEffect(() => {
     loadPets();
+    loadInvitations();
   }, []);
 
+  const loadInvitations = () => {
+    pets.getInvitations()
+      .then((data) => setInvitations(data.invitations))
+      .catch(() => setInvitations([]));
+    pets.getTransferOffers()
+      .then((data) => setTransferOffers(data.transfers))
+      .catch(() => setTransferOffers([]));
+  };
+
+  const handleTransfer = async (offer: PetTransferOffer, accept: boolean) => {
+    try {
+      if (accept) {
+        await pets.acceptTransfer(offer.id);
+        toast.success(`You are now ${offer.petName}'s owner`);
+        loadPets();
+      } else {
+        await pets.declineTransfer(offer.id);
+      }
+      setTransferOffers((prev) => prev.filter((t) => t.id !== offer.id));
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to respond to transfer');
+    }
+  };
+
+  const handleInvitation = async (invitation: PetInvitation, accept: boolean) => {
+    try {
+      if (accept) {
+        await pets.acceptInvitation(invitation.id);
+        toast.success(`${invitation.petName} has been added to your pets`);
+        loadPets();
+      } else {
+        await pets.declineInvitation(invitation.id);
+      }
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to respond to invitation');
+    }
+  };
+
   const loadPets = async () => {
     try {
       setLoading(true);
@@ -124,6 +166,45 @@ export function DashboardPage() {
           </div>
         </div>
 
+        {/* Pending invitations to co-own, care for or take over someone else's pet */}
+        {invitations.length + transferOffers.length > 0 && (
+          <Card>
+            <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <Users className="h-5 w-5 text-forest" />
+              Invitations
+            </h2>
+            <div className="space-y-3">
+              {transferOffers.map((offer) => (
+                <div key={offer.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-sand/30 rounded-lg">
+                  <p>
+                    <span className="mr-2">{getSpeciesEmoji(offer.species)}</span>
+                    <strong>{offer.fromName}</strong> wants to transfer ownership of{' '}
+                    <strong>{offer.petName}</strong> ({offer.petportId}) to you
+                    <span className="block text-sm text-stone">Offer expires {formatDate(offer.expiresAt)}</span>
+                  </p>
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleTransfer(offer, true)}>Accept</Button>
+                    <Button size="sm" variant="outline" onClick={() => handleTransfer(offer, false)}>Decline</Button>
+                  </div>
+                </div>
+              ))}
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-sand/30 rounded-lg">
+                  <p>
+                    <span className="mr-2">{getSpeciesEmoji(invitation.species)}</span>
+                    <strong>{invitation.invitedByName}</strong> invited you to join{' '}
+                    <strong>{invitation.petName}</strong> as {PET_ROLE_LABELS[invitation.role]}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleInvitation(invitation, true)}>Accept</Button>
+                    <Button size="sm" variant="outline" onClick={() => handleInvitation(invitation, false)}>Decline</Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* Alerts */}
         {upcomingExpirations.length > 0 && (
           <Alert variant="warning">
@@ -223,9 +304,9 @@ export function DashboardPage() {
                   <div className="flex items-start gap-4">
                     {/* Pet Photo/Avatar */}
                     <Link to={`/pets/${pet.id}`} className="flex-shrink-0">
-                      {pet.photoUrl ? (
+                      {pet.photoVariants ? (
                         <img
-                          src={pet.photoUrl}
+                          src={pet.photoVariants.thumbnail}
                           alt={pet.name}
                           className="h-16 w-16 rounded-xl object-cover"
                         />
@@ -260,6 +341,7 @@ export function DashboardPage() {
                       </div>
                       
                       <div className="flex items-center gap-2 mt-2 flex-wrap">
+                        {pet.role !== 'OWNER' && <Badge>{PET_ROLE_LABELS[pet.role]}</Badge>}
                         <Badge variant={pet.verificationLevel === 'BASIC' ? 'default' : 'success'}>
                           {pet.verificationLevel}
                         </Badge>
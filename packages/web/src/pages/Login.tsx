@@ -76,6 +76,11 @@ export function LoginPage() {
             required
             autoComplete="current-password"
           />
+          <div className="text-right -mt-2">
+            <Link to="/forgot-password" className="text-sm text-forest hover:underline">
+              Forgot password?
+            </Link>
+          </div>
           <Button type="submit" fullWidth loading={loading}>
             Sign In
           </Button>
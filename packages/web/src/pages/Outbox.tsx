@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { DashboardLayout } from '@/components/Layout';
+import { Card, Button, Badge, LoadingState, ErrorState, EmptyState } from '@/components/ui';
+import { admin, CapturedEmail } from '@/lib/api';
+import { Mail, RefreshCw } from 'lucide-react';
+
+const URL_PATTERN = /(https?:\/\/[^\s]+)/g;
+
+// Emails sent while the API captures mail instead of delivering it, so links
+// such as password resets can be followed. Only reachable in development.
+export function OutboxPage() {
+  const [emails, setEmails] = useState<CapturedEmail[]>([]);
+  const [transport, setTransport] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEmails = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await admin.getEmails();
+      setEmails(data.emails);
+      setTransport(data.transport);
+    } catch (err) {
+      setError('Failed to load captured emails. Mail is only captured when EMAIL_TRANSPORT is file or memory.');
+      console.error('Outbox error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEmails();
+  }, []);
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <LoadingState message="Loading outbox..." />
+      </DashboardLayout>
+    );
+  }
+
+  if (error) {
+    return (
+      <DashboardLayout>
+        <ErrorState message={error} onRetry={loadEmails} />
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-display font-bold text-forest">Outbox</h1>
+            <p className="text-stone mt-1">
+              Emails captured by the <code>{transport}</code> transport instead of being delivered
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadEmails}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {emails.length === 0 ? (
+          <Card>
+            <EmptyState
+              icon={<Mail className="h-8 w-8 text-stone" />}
+              title="No emails yet"
+              description="Register, request a password reset or resend a verification link to see it here"
+            />
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {emails.map((email) => (
+              <Card key={email.id} padding="sm">
+                <button
+                  className="w-full text-left flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"
+                  onClick={() => setSelectedId(selectedId === email.id ? null : email.id)}
+                >
+                  <div>
+                    <p className="font-medium text-charcoal">{email.subject}</p>
+                    <p className="text-sm text-stone">To {email.to}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Badge>{email.template}</Badge>
+                    <span className="text-sm text-stone">{new Date(email.sentAt).toLocaleString()}</span>
+                  </div>
+                </button>
+                {selectedId === email.id && <EmailBody text={email.text} />}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
+
+// The plain-text body, with its links made clickable
+function EmailBody({ text }: { text: string }) {
+  return (
+    <pre className="mt-4 pt-4 border-t border-sand whitespace-pre-wrap break-words font-sans text-sm text-charcoal">
+      {text.split(URL_PATTERN).map((part, index) =>
+        index % 2 === 1 ? (
+          <a key={index} href={part} className="text-forest underline">
+            {part}
+          </a>
+        ) : (
+          part
+        )
+      )}
+    </pre>
+  );
+}
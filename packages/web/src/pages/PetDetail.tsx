@@ -1,26 +1,37 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate, Link, useSearchParams } from 'react-router-dom';
-import { ArrowLeft, Syringe, FileText, Plus, Trash2, CheckCircle, XCircle, QrCode, Download, Camera, Edit, Loader2, Share2, Copy, Check } from 'lucide-react';
+import { ArrowLeft, Syringe, FileText, Plus, Trash2, CheckCircle, XCircle, QrCode, Download, Camera, Edit, Pencil, Loader2, Share2, Copy, Check, AlertTriangle, MapPin, ScanLine, Smartphone, Users, UserMinus, ArrowRightLeft, BadgeCheck, Paperclip, Star, ChevronLeft, ChevronRight, ImagePlus, ExternalLink } from 'lucide-react';
 import { DashboardLayout } from '@/components/Layout';
 import { Card, Button, Badge, Modal, Input, Select, Alert, LoadingState, ErrorState, useToast } from '@/components/ui';
 import { ProfileProgress } from '@/components/ProfileProgress';
-import { pets, Pet, Vaccination, HealthRecord, RabiesCompliance, QRCodeData, ApiError } from '@/lib/api';
-import { getSpeciesEmoji } from '@/lib/utils';
+import { ShareSheet } from '@/components/ShareSheet';
+import { useAuth } from '@/hooks/useAuth';
+import { pets, Pet, Vaccination, HealthRecord, ComplianceReport, ComplianceProfile, FinderMessage, ScanEvent, QRCodeData, PetMember, PetMembersResponse, PetTransfer, PetPhoto, RecordDocumentKind, ApiError } from '@/lib/api';
+import { getSpeciesEmoji, formatDate, formatDateTime, VACCINATION_LABELS, PET_ROLE_LABELS, hasPetPermission } from '@/lib/utils';
 
 export function PetDetailPage() {
   const { petId } = useParams<{ petId: string }>();
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user } = useAuth();
   const [pet, setPet] = useState<Pet | null>(null);
+  const [membership, setMembership] = useState<PetMembersResponse | null>(null);
   const [vaccinations, setVaccinations] = useState<Vaccination[]>([]);
   const [healthRecords, setHealthRecords] = useState<HealthRecord[]>([]);
-  const [rabiesCompliance, setRabiesCompliance] = useState<RabiesCompliance | null>(null);
+  const [compliance, setCompliance] = useState<ComplianceReport | null>(null);
+  const [complianceProfiles, setComplianceProfiles] = useState<ComplianceProfile[]>([]);
+  const [complianceProfile, setComplianceProfile] = useState('');
+  const [complianceAsOf, setComplianceAsOf] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showVaxModal, setShowVaxModal] = useState(false);
   const [showHealthModal, setShowHealthModal] = useState(false);
+  const [editingVax, setEditingVax] = useState<Vaccination | null>(null);
+  const [editingRecord, setEditingRecord] = useState<HealthRecord | null>(null);
   const [showQRModal, setShowQRModal] = useState(false);
+  const [showShareSheet, setShowShareSheet] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
 
   // Auto-open QR modal if showQR query param is present
   useEffect(() => {
@@ -36,20 +47,34 @@ export function PetDetailPage() {
     if (petId) loadPetData();
   }, [petId]);
 
+  useEffect(() => {
+    pets.getComplianceProfiles()
+      .then((data) => setComplianceProfiles(data.profiles))
+      .catch(() => setComplianceProfiles([]));
+  }, []);
+
+  // Re-evaluate whenever records change or the owner picks another facility/date
+  useEffect(() => {
+    if (!petId) return;
+    pets.getCompliance(petId, { profile: complianceProfile || undefined, asOf: complianceAsOf || undefined })
+      .then(setCompliance)
+      .catch((err) => toast.error(err instanceof ApiError ? err.message : 'Failed to check compliance'));
+  }, [petId, vaccinations, complianceProfile, complianceAsOf]);
+
   const loadPetData = async () => {
     if (!petId) return;
     try {
       setLoading(true);
-      const [petData, vaxData, healthData, complianceData] = await Promise.all([
+      const [petData, vaxData, healthData, memberData] = await Promise.all([
         pets.get(petId),
         pets.getVaccinations(petId),
         pets.getHealth(petId),
-        pets.getRabiesCompliance(petId),
+        pets.getMembers(petId),
       ]);
       setPet(petData);
+      setMembership(memberData);
       setVaccinations(vaxData.vaccinations);
       setHealthRecords(healthData.records);
-      setRabiesCompliance(complianceData);
       setError(null);
     } catch (err) {
       if (err instanceof ApiError) {
@@ -73,6 +98,44 @@ export function PetDetailPage() {
     }
   };
 
+  const handleDeleteVaccination = async (vax: Vaccination) => {
+    if (!petId || !confirm(`Delete the ${vax.name} vaccination record?`)) return;
+    try {
+      await pets.deleteVaccination(petId, vax.id);
+      toast.success('Vaccination deleted');
+      loadPetData();
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to delete vaccination');
+    }
+  };
+
+  const handleAttestation = async (vax: Vaccination) => {
+    if (!petId) return;
+    try {
+      if (vax.attestedBy) {
+        await pets.revokeAttestation(petId, vax.id);
+        toast.success('Attestation withdrawn');
+      } else {
+        await pets.attestVaccination(petId, vax.id);
+        toast.success(`${vax.name} attested`);
+      }
+      loadPetData();
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to update attestation');
+    }
+  };
+
+  const handleDeleteHealthRecord = async (record: HealthRecord) => {
+    if (!petId || !confirm(`Delete the "${record.title}" health record?`)) return;
+    try {
+      await pets.deleteHealth(petId, record.id);
+      toast.success('Health record deleted');
+      loadPetData();
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to delete health record');
+    }
+  };
+
   const handleDownloadPassport = async () => {
     if (!pet) return;
     try {
@@ -90,6 +153,13 @@ export function PetDetailPage() {
     return <DashboardLayout><ErrorState message={error || 'Pet not found'} onRetry={loadPetData} /></DashboardLayout>;
   }
 
+  // Controls are hidden for roles the API would reject anyway
+  const myRole = membership?.myRole;
+  const canEditRecords = hasPetPermission(myRole, 'EDIT_RECORDS');
+  const canManage = hasPetPermission(myRole, 'MANAGE');
+  // Vets attest records on pets they have been invited to, never their own
+  const canAttest = user?.role === 'VET' && myRole !== 'OWNER' && canEditRecords;
+
   return (
     <DashboardLayout>
       <div className="space-y-8">
@@ -102,28 +172,43 @@ export function PetDetailPage() {
             <h1 className="text-3xl font-display font-bold text-forest">{pet.name}</h1>
             <p className="text-stone font-mono">{pet.petportId}</p>
           </div>
-          <Link to={`/pets/${pet.id}/edit`}>
-            <Button variant="outline" size="sm">
-              <Edit className="h-4 w-4" /> Edit
+          {myRole && myRole !== 'OWNER' && <Badge>{PET_ROLE_LABELS[myRole]}</Badge>}
+          {canManage && (
+            <Link to={`/pets/${pet.id}/edit`}>
+              <Button variant="outline" size="sm">
+                <Edit className="h-4 w-4" /> Edit
+              </Button>
+            </Link>
+          )}
+          {hasPetPermission(myRole, 'DELETE') && (
+            <Button variant="ghost" onClick={handleDelete} className="text-rust hover:bg-red-50">
+              <Trash2 className="h-5 w-5" />
             </Button>
-          </Link>
-          <Button variant="ghost" onClick={handleDelete} className="text-rust hover:bg-red-50">
-            <Trash2 className="h-5 w-5" />
-          </Button>
+          )}
         </div>
 
         {/* Pet Profile with Photo */}
         <div className="grid lg:grid-cols-3 gap-6">
           {/* Photo & Actions Card */}
           <Card>
-            <PhotoUpload pet={pet} onPhotoChange={loadPetData} />
+            <PhotoUpload pet={pet} onPhotoChange={loadPetData} readOnly={!canManage} />
             <div className="mt-4 space-y-2">
               <Button fullWidth variant="outline" onClick={() => setShowQRModal(true)}>
                 <QrCode className="h-4 w-4" /> View QR Code
               </Button>
+              {canManage && (
+                <Button fullWidth variant="outline" onClick={() => setShowShareSheet(true)}>
+                  <Share2 className="h-4 w-4" /> Share
+                </Button>
+              )}
               <Button fullWidth variant="outline" onClick={handleDownloadPassport}>
                 <Download className="h-4 w-4" /> Download Passport
               </Button>
+              {hasPetPermission(myRole, 'TRANSFER') && (
+                <Button fullWidth variant="ghost" onClick={() => setShowTransferModal(true)}>
+                  <ArrowRightLeft className="h-4 w-4" /> Transfer Ownership
+                </Button>
+              )}
             </div>
           </Card>
 
@@ -150,6 +235,22 @@ export function PetDetailPage() {
           </Card>
         </div>
 
+        {/* Photo Gallery */}
+        <PhotoGallery pet={pet} canManage={canManage} onPrimaryChange={loadPetData} />
+
+        {canManage && (
+          <>
+            {/* Lost-Pet Mode */}
+            <LostPetPanel pet={pet} onChange={setPet} />
+
+            {/* Scan History */}
+            <ScanHistory petId={pet.id} />
+          </>
+        )}
+
+        {/* Co-owners, caretakers and vets */}
+        {membership && <MembersPanel petId={pet.id} membership={membership} onChange={loadPetData} />}
+
         {/* Profile Completion */}
         <Card>
           <h2 className="text-lg font-semibold mb-4">Profile Completion</h2>
@@ -160,32 +261,88 @@ export function PetDetailPage() {
           />
         </Card>
 
-        {/* Rabies Status */}
+        {/* Vaccine Compliance */}
         <Card>
-          <h2 className="text-lg font-semibold mb-4">Rabies Compliance Status</h2>
-          {rabiesCompliance && (
-            <div className="flex items-center gap-6">
-              <div className={`h-16 w-16 rounded-full flex items-center justify-center ${
-                rabiesCompliance.isCompliant ? 'bg-green-100' : 'bg-red-100'
-              }`}>
-                {rabiesCompliance.isCompliant ? (
-                  <CheckCircle className="h-8 w-8 text-green-600" />
-                ) : (
-                  <XCircle className="h-8 w-8 text-rust" />
-                )}
-              </div>
-              <div>
-                <p className="font-medium text-lg">
-                  {rabiesCompliance.isCompliant ? 'Travel Ready' : 'Not Compliant'}
-                </p>
-                <p className="text-stone">{rabiesCompliance.message}</p>
-                {rabiesCompliance.daysUntilExpiry !== null && rabiesCompliance.daysUntilExpiry <= 30 && (
-                  <Badge variant="warning" className="mt-2">
-                    Expires in {rabiesCompliance.daysUntilExpiry} days
-                  </Badge>
-                )}
+          <h2 className="text-lg font-semibold mb-4">Vaccine Compliance</h2>
+          <div className="grid gap-4 sm:grid-cols-2 mb-6">
+            <Select
+              label="Check against"
+              value={complianceProfile}
+              onChange={(e) => setComplianceProfile(e.target.value)}
+              options={[
+                { value: '', label: 'Core vaccines for species' },
+                ...complianceProfiles.map((profile) => ({ value: profile.slug, label: profile.name })),
+              ]}
+            />
+            <Input
+              label="Visit date"
+              type="date"
+              value={complianceAsOf}
+              onChange={(e) => setComplianceAsOf(e.target.value)}
+            />
+          </div>
+          {compliance && (
+            !compliance.isApplicable ? (
+              <p className="text-stone">
+                {`${compliance.profile?.name ?? 'This profile'} does not admit this species.`}
+              </p>
+            ) : compliance.requirements.length === 0 ? (
+              <p className="text-stone">
+                {compliance.profile
+                  ? `${compliance.profile.name} has no vaccine requirements for this species.`
+                  : 'No core vaccines are required for this species.'}
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-center gap-6">
+                  <div className={`h-16 w-16 rounded-full flex items-center justify-center ${
+                    compliance.isCompliant ? 'bg-green-100' : 'bg-red-100'
+                  }`}>
+                    {compliance.isCompliant ? (
+                      <CheckCircle className="h-8 w-8 text-green-600" />
+                    ) : (
+                      <XCircle className="h-8 w-8 text-rust" />
+                    )}
+                  </div>
+                  <div>
+                    <p className="font-medium text-lg">
+                      {compliance.isCompliant ? 'All Required Vaccines Current' : 'Not Compliant'}
+                    </p>
+                    <p className="text-stone">
+                      {compliance.requirements.filter((r) => r.isCompliant).length} of {compliance.requirements.length} required vaccines current
+                      {complianceAsOf && ` on ${new Date(compliance.asOf).toLocaleDateString()}`}
+                    </p>
+                    {compliance.minValidityDays > 0 && (
+                      <p className="text-sm text-stone">
+                        {compliance.profile?.name} requires vaccines to remain valid {compliance.minValidityDays} days past the visit
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {compliance.requirements.map((requirement) => (
+                    <div key={requirement.type} className="flex items-center justify-between p-3 bg-sand/30 rounded-lg">
+                      <div className="flex items-center gap-3">
+                        {requirement.isCompliant ? (
+                          <CheckCircle className="h-5 w-5 text-green-600" />
+                        ) : (
+                          <XCircle className="h-5 w-5 text-rust" />
+                        )}
+                        <div>
+                          <p className="font-medium">{VACCINATION_LABELS[requirement.type]}</p>
+                          <p className="text-sm text-stone">{requirement.message}</p>
+                        </div>
+                      </div>
+                      {requirement.isCompliant && requirement.daysUntilExpiry !== null && requirement.daysUntilExpiry <= 30 && (
+                        <Badge variant="warning">
+                          Expires in {requirement.daysUntilExpiry} days
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
               </div>
-            </div>
+            )
           )}
         </Card>
 
@@ -196,9 +353,11 @@ export function PetDetailPage() {
               <Syringe className="h-5 w-5 text-forest" />
               Vaccinations ({vaccinations.length})
             </h2>
-            <Button size="sm" onClick={() => setShowVaxModal(true)}>
-              <Plus className="h-4 w-4" /> Add
-            </Button>
+            {canEditRecords && (
+              <Button size="sm" onClick={() => setShowVaxModal(true)}>
+                <Plus className="h-4 w-4" /> Add
+              </Button>
+            )}
           </div>
           {vaccinations.length === 0 ? (
             <p className="text-stone text-center py-8">No vaccinations recorded yet</p>
@@ -210,11 +369,38 @@ export function PetDetailPage() {
                     <p className="font-medium">{vax.name}</p>
                     <p className="text-sm text-stone">{vax.type} • {new Date(vax.administeredAt).toLocaleDateString()}</p>
                   </div>
-                  {vax.expiresAt && (
-                    <Badge variant={new Date(vax.expiresAt) > new Date() ? 'success' : 'error'}>
-                      Exp: {new Date(vax.expiresAt).toLocaleDateString()}
-                    </Badge>
-                  )}
+                  <div className="flex items-center gap-2">
+                    {vax.attestedAt && (
+                      <Badge variant="success">
+                        <BadgeCheck className="h-3 w-3 mr-1" /> Vet-attested
+                      </Badge>
+                    )}
+                    {vax.expiresAt && (
+                      <Badge variant={new Date(vax.expiresAt) > new Date() ? 'success' : 'error'}>
+                        Exp: {new Date(vax.expiresAt).toLocaleDateString()}
+                      </Badge>
+                    )}
+                    <RecordDocument
+                      petId={pet.id}
+                      kind="vaccinations"
+                      record={vax}
+                      label={vax.name}
+                      canEdit={canEditRecords}
+                      onChange={loadPetData}
+                    />
+                    {canAttest && (!vax.attestedBy || vax.attestedBy === user?.id) && (
+                      <Button size="sm" variant="outline" onClick={() => handleAttestation(vax)}>
+                        {vax.attestedBy ? 'Withdraw' : 'Attest'}
+                      </Button>
+                    )}
+                    {canEditRecords && (
+                      <RecordActions
+                        label={vax.name}
+                        onEdit={() => setEditingVax(vax)}
+                        onDelete={() => handleDeleteVaccination(vax)}
+                      />
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
@@ -228,9 +414,11 @@ export function PetDetailPage() {
               <FileText className="h-5 w-5 text-terracotta" />
               Health Records ({healthRecords.length})
             </h2>
-            <Button size="sm" onClick={() => setShowHealthModal(true)}>
-              <Plus className="h-4 w-4" /> Add
-            </Button>
+            {canEditRecords && (
+              <Button size="sm" onClick={() => setShowHealthModal(true)}>
+                <Plus className="h-4 w-4" /> Add
+              </Button>
+            )}
           </div>
           {healthRecords.length === 0 ? (
             <p className="text-stone text-center py-8">No health records yet</p>
@@ -242,7 +430,24 @@ export function PetDetailPage() {
                     <p className="font-medium">{record.title}</p>
                     <p className="text-sm text-stone">{record.type} • {new Date(record.date).toLocaleDateString()}</p>
                   </div>
-                  {record.clinicName && <span className="text-sm text-stone">{record.clinicName}</span>}
+                  <div className="flex items-center gap-2">
+                    {record.clinicName && <span className="text-sm text-stone">{record.clinicName}</span>}
+                    <RecordDocument
+                      petId={pet.id}
+                      kind="health"
+                      record={record}
+                      label={record.title}
+                      canEdit={canEditRecords}
+                      onChange={loadPetData}
+                    />
+                    {canEditRecords && (
+                      <RecordActions
+                        label={record.title}
+                        onEdit={() => setEditingRecord(record)}
+                        onDelete={() => handleDeleteHealthRecord(record)}
+                      />
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
@@ -251,29 +456,411 @@ export function PetDetailPage() {
       </div>
 
       {/* Modals */}
-      <AddVaccinationModal
-        isOpen={showVaxModal}
-        onClose={() => setShowVaxModal(false)}
+      <VaccinationModal
+        isOpen={showVaxModal || editingVax !== null}
+        onClose={() => { setShowVaxModal(false); setEditingVax(null); }}
         petId={petId!}
-        onSuccess={() => { setShowVaxModal(false); loadPetData(); }}
+        vaccination={editingVax}
+        onSuccess={() => { setShowVaxModal(false); setEditingVax(null); loadPetData(); }}
       />
-      <AddHealthRecordModal
-        isOpen={showHealthModal}
-        onClose={() => setShowHealthModal(false)}
+      <HealthRecordModal
+        isOpen={showHealthModal || editingRecord !== null}
+        onClose={() => { setShowHealthModal(false); setEditingRecord(null); }}
         petId={petId!}
-        onSuccess={() => { setShowHealthModal(false); loadPetData(); }}
+        record={editingRecord}
+        onSuccess={() => { setShowHealthModal(false); setEditingRecord(null); loadPetData(); }}
       />
       <QRCodeModal
         isOpen={showQRModal}
         onClose={() => setShowQRModal(false)}
         pet={pet}
       />
+      <ShareSheet
+        isOpen={showShareSheet}
+        onClose={() => setShowShareSheet(false)}
+        pet={pet}
+      />
+      <TransferModal
+        isOpen={showTransferModal}
+        onClose={() => setShowTransferModal(false)}
+        pet={pet}
+      />
     </DashboardLayout>
   );
 }
 
+// Lost-pet mode toggle and messages relayed from finders
+function LostPetPanel({ pet, onChange }: { pet: Pet; onChange: (pet: Pet) => void }) {
+  const { toast } = useToast();
+  const [lostMessage, setLostMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [messages, setMessages] = useState<FinderMessage[]>([]);
+
+  useEffect(() => {
+    pets.getFinderMessages(pet.id)
+      .then((data) => {
+        setMessages(data.messages);
+        if (data.unread > 0) pets.markFinderMessagesRead(pet.id).catch(() => undefined);
+      })
+      .catch(() => setMessages([]));
+  }, [pet.id]);
+
+  const handleReportLost = async () => {
+    if (!confirm(`Report ${pet.name} as lost? Their public profile will show a lost banner and a contact form.`)) return;
+    setSaving(true);
+    try {
+      onChange(await pets.reportLost(pet.id, lostMessage));
+      setLostMessage('');
+      toast.warning(`${pet.name} is now marked as lost`);
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to report lost');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReportFound = async () => {
+    setSaving(true);
+    try {
+      onChange(await pets.reportFound(pet.id));
+      toast.success(`Welcome home, ${pet.name}!`);
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to report found');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className={pet.isLost ? 'border-2 border-rust' : ''}>
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <AlertTriangle className={`h-5 w-5 ${pet.isLost ? 'text-rust' : 'text-stone'}`} />
+        Lost-Pet Mode
+      </h2>
+      {pet.isLost ? (
+        <div className="space-y-4">
+          <Alert variant="error" title={`${pet.name} is reported lost`}>
+            Anyone scanning {pet.name}'s tag sees a lost banner and can message you here. Your email and phone stay private.
+          </Alert>
+          <Button onClick={handleReportFound} loading={saving}>
+            <CheckCircle className="h-4 w-4" /> Mark as Found
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+          <div className="flex-1">
+            <Input
+              label="Note for finders (optional)"
+              placeholder="e.g. Nervous around strangers, reward offered"
+              value={lostMessage}
+              maxLength={500}
+              onChange={(e) => setLostMessage(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={handleReportLost} loading={saving}>
+            <AlertTriangle className="h-4 w-4" /> Report Lost
+          </Button>
+        </div>
+      )}
+
+      {messages.length > 0 && (
+        <div className="mt-6 space-y-3">
+          <h3 className="font-medium">Messages from finders ({messages.length})</h3>
+          {messages.map((msg) => (
+            <div key={msg.id} className={`p-3 rounded-lg ${msg.isRead ? 'bg-sand/30' : 'bg-terracotta/10'}`}>
+              <div className="flex justify-between items-start gap-3">
+                <p className="text-charcoal whitespace-pre-line">{msg.message}</p>
+                {!msg.isRead && <Badge variant="warning">New</Badge>}
+              </div>
+              <div className="mt-2 text-sm text-stone space-y-1">
+                {msg.contactInfo && <p>Contact: {msg.contactInfo}</p>}
+                {msg.locationText && <p>Location: {msg.locationText}</p>}
+                {msg.latitude !== null && msg.longitude !== null && (
+                  <a
+                    href={`https://www.openstreetmap.org/?mlat=${msg.latitude}&mlon=${msg.longitude}#map=17/${msg.latitude}/${msg.longitude}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-forest hover:underline"
+                  >
+                    <MapPin className="h-3 w-3" /> View shared location
+                  </a>
+                )}
+                <p>{formatDateTime(msg.createdAt)}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// Timeline of public lookups of the pet's tag
+const SCANS_PAGE_SIZE = 10;
+
+function ScanHistory({ petId }: { petId: string }) {
+  const [scans, setScans] = useState<ScanEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    pets.getScans(petId, page, SCANS_PAGE_SIZE)
+      .then((data) => {
+        setScans((prev) => (page === 1 ? data.scans : [...prev, ...data.scans]));
+        setTotal(data.total);
+      })
+      .catch(() => undefined)
+      .finally(() => setLoading(false));
+  }, [petId, page]);
+
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <ScanLine className="h-5 w-5 text-forest" />
+        Tag Scans ({total})
+      </h2>
+      {scans.length === 0 ? (
+        <p className="text-stone text-center py-8">
+          {loading ? 'Loading scan history...' : 'No one has looked up this pet yet'}
+        </p>
+      ) : (
+        <ol className="relative border-l-2 border-sand ml-2 space-y-4">
+          {scans.map((scan) => (
+            <li key={scan.id} className="ml-4">
+              <span className="absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full bg-forest" />
+              <p className="font-medium">{formatDateTime(scan.createdAt)}</p>
+              <p className="text-sm text-stone flex items-center gap-1">
+                <Smartphone className="h-3 w-3" /> {scan.device || 'Unknown device'}
+              </p>
+              {scan.latitude !== null && scan.longitude !== null && (
+                <a
+                  href={`https://www.openstreetmap.org/?mlat=${scan.latitude}&mlon=${scan.longitude}#map=17/${scan.latitude}/${scan.longitude}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-sm text-forest hover:underline"
+                >
+                  <MapPin className="h-3 w-3" /> Location shared by finder
+                </a>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+      {scans.length < total && (
+        <Button variant="ghost" size="sm" className="mt-4" loading={loading} onClick={() => setPage((p) => p + 1)}>
+          Show older scans
+        </Button>
+      )}
+    </Card>
+  );
+}
+
+// People who share access to the pet and pending invitations
+const MEMBER_ROLE_OPTIONS = (['CO_OWNER', 'CARETAKER', 'VET'] as const).map((role) => ({
+  value: role,
+  label: PET_ROLE_LABELS[role],
+}));
+
+function MembersPanel({ petId, membership, onChange }: { petId: string; membership: PetMembersResponse; onChange: () => void }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<PetMember['role']>('CARETAKER');
+  const [inviting, setInviting] = useState(false);
+  const canManageMembers = hasPetPermission(membership.myRole, 'MANAGE_MEMBERS');
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    try {
+      await pets.inviteMember(petId, { email, role });
+      toast.success(`Invitation sent to ${email}`);
+      setEmail('');
+      onChange();
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to send invitation');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: PetMember, newRole: PetMember['role']) => {
+    try {
+      await pets.updateMember(petId, member.id, newRole);
+      onChange();
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to update role');
+    }
+  };
+
+  const handleRemove = async (member: PetMember) => {
+    const isSelf = member.userId === user?.id;
+    const prompt = isSelf
+      ? 'Leave this pet? You will lose access to its records.'
+      : member.status === 'PENDING'
+      ? `Cancel the invitation for ${member.email}?`
+      : `Remove ${member.name || member.email} from this pet?`;
+    if (!confirm(prompt)) return;
+    try {
+      await pets.removeMember(petId, member.id);
+      if (isSelf) {
+        toast.success('You left this pet');
+        navigate('/pets');
+        return;
+      }
+      onChange();
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to remove member');
+    }
+  };
+
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Users className="h-5 w-5 text-forest" />
+        People
+      </h2>
+      <div className="space-y-3">
+        <div className="flex items-center justify-between p-3 bg-sand/30 rounded-lg">
+          <p className="font-medium">{membership.owner.name}</p>
+          <Badge>{PET_ROLE_LABELS.OWNER}</Badge>
+        </div>
+        {membership.members.map((member) => (
+          <div key={member.id} className="flex items-center justify-between gap-3 p-3 bg-sand/30 rounded-lg">
+            <div className="min-w-0">
+              <p className="font-medium truncate">{member.name || member.email}</p>
+              <p className="text-sm text-stone truncate">
+                {member.status === 'PENDING' ? `Invited ${formatDateTime(member.createdAt)}` : member.email}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {member.status === 'PENDING' && <Badge variant="warning">Pending</Badge>}
+              {canManageMembers ? (
+                <Select
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member, e.target.value as PetMember['role'])}
+                  options={MEMBER_ROLE_OPTIONS}
+                  aria-label={`Role for ${member.email}`}
+                />
+              ) : (
+                <Badge>{PET_ROLE_LABELS[member.role]}</Badge>
+              )}
+              {(canManageMembers || member.userId === user?.id) && (
+                <button
+                  onClick={() => handleRemove(member)}
+                  className="p-1.5 text-stone hover:text-rust hover:bg-red-50 rounded"
+                  aria-label={`Remove ${member.email}`}
+                >
+                  <UserMinus className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {canManageMembers && (
+        <form onSubmit={handleInvite} className="mt-4 grid sm:grid-cols-[1fr_auto_auto] gap-3 items-end">
+          <Input
+            label="Invite by email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="name@example.com"
+            required
+          />
+          <Select
+            label="Role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as PetMember['role'])}
+            options={MEMBER_ROLE_OPTIONS}
+          />
+          <Button type="submit" loading={inviting}>Invite</Button>
+        </form>
+      )}
+    </Card>
+  );
+}
+
+// Offer the pet to another account - ownership moves only when they accept
+function TransferModal({ isOpen, onClose, pet }: { isOpen: boolean; onClose: () => void; pet: Pet }) {
+  const { toast } = useToast();
+  const [transfer, setTransfer] = useState<PetTransfer | null>(null);
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    pets.getTransfer(pet.id).then(setTransfer).catch(() => setTransfer(null));
+  }, [isOpen, pet.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm(`Transfer ${pet.name} to ${email}? You will lose access once they accept.`)) return;
+    setLoading(true);
+    try {
+      setTransfer(await pets.startTransfer(pet.id, email));
+      setEmail('');
+      toast.success('Transfer offered');
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to start transfer');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setLoading(true);
+    try {
+      await pets.cancelTransfer(pet.id);
+      setTransfer(null);
+      toast.success('Transfer cancelled');
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to cancel transfer');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Transfer Ownership">
+      {transfer ? (
+        <div className="space-y-4">
+          <Alert variant="info">
+            Waiting for <strong>{transfer.toEmail}</strong> to accept. The offer expires {formatDate(transfer.expiresAt)}.
+          </Alert>
+          <Button fullWidth variant="outline" onClick={handleCancel} loading={loading}>
+            Cancel Transfer
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-stone">
+            {pet.name}'s PetPort ID, vaccinations and health records move to the new owner when they accept.
+            Co-owners, caretakers and share links you set up are removed.
+          </p>
+          <Input
+            label="New owner's email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="They need a PetPort account with this email"
+            required
+          />
+          <Button type="submit" fullWidth loading={loading}>
+            Offer Transfer
+          </Button>
+        </form>
+      )}
+    </Modal>
+  );
+}
+
 // Photo Upload Component
-function PhotoUpload({ pet, onPhotoChange }: { pet: Pet; onPhotoChange: () => void }) {
+function PhotoUpload({ pet, onPhotoChange, readOnly = false }: { pet: Pet; onPhotoChange: () => void; readOnly?: boolean }) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -331,9 +918,9 @@ function PhotoUpload({ pet, onPhotoChange }: { pet: Pet; onPhotoChange: () => vo
       />
       
       <div className="relative inline-block">
-        {pet.photoUrl ? (
+        {pet.photoVariants ? (
           <img
-            src={pet.photoUrl}
+            src={pet.photoVariants.medium}
             alt={pet.name}
             className="w-32 h-32 rounded-2xl object-cover mx-auto"
           />
@@ -343,13 +930,15 @@ function PhotoUpload({ pet, onPhotoChange }: { pet: Pet; onPhotoChange: () => vo
           </div>
         )}
         
-        <button
-          onClick={() => fileInputRef.current?.click()}
-          disabled={uploading}
-          className="absolute bottom-0 right-0 h-10 w-10 bg-forest text-white rounded-full flex items-center justify-center shadow-lg hover:bg-forest/90 disabled:opacity-50"
-        >
-          {uploading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Camera className="h-5 w-5" />}
-        </button>
+        {!readOnly && (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            className="absolute bottom-0 right-0 h-10 w-10 bg-forest text-white rounded-full flex items-center justify-center shadow-lg hover:bg-forest/90 disabled:opacity-50"
+          >
+            {uploading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Camera className="h-5 w-5" />}
+          </button>
+        )}
       </div>
       
       <h3 className="mt-3 font-semibold text-lg">{pet.name}</h3>
@@ -357,7 +946,7 @@ function PhotoUpload({ pet, onPhotoChange }: { pet: Pet; onPhotoChange: () => vo
       
       {error && <Alert variant="error" className="mt-3 text-sm">{error}</Alert>}
       
-      {pet.photoUrl && (
+      {pet.photoUrl && !readOnly && (
         <button
           onClick={handleDeletePhoto}
           className="mt-2 text-sm text-rust hover:underline"
@@ -369,6 +958,161 @@ function PhotoUpload({ pet, onPhotoChange }: { pet: Pet; onPhotoChange: () => vo
   );
 }
 
+// Several angles and distinguishing marks help identify a lost pet
+const MAX_PHOTOS_PER_PET = 20;
+
+function PhotoGallery({ pet, canManage, onPrimaryChange }: { pet: Pet; canManage: boolean; onPrimaryChange: () => void }) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [photos, setPhotos] = useState<PetPhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+
+  const loadPhotos = () => {
+    pets.getPhotos(pet.id)
+      .then((data) => setPhotos(data.photos))
+      .catch(() => setPhotos([]))
+      .finally(() => setLoading(false));
+  };
+
+  // Reload when the primary photo changes from the photo card
+  useEffect(loadPhotos, [pet.id, pet.photoUrl]);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_PHOTOS_PER_PET - photos.length);
+    if (files.length === 0) return;
+
+    if (files.some((file) => !['image/jpeg', 'image/png', 'image/webp'].includes(file.type))) {
+      toast.error('Please select JPEG, PNG, or WebP images');
+      return;
+    }
+    if (files.some((file) => file.size > 10 * 1024 * 1024)) {
+      toast.error('Images must be smaller than 10MB');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      for (const file of files) {
+        await pets.addPhoto(pet.id, file);
+      }
+      toast.success(files.length === 1 ? 'Photo added' : `${files.length} photos added`);
+      // The first photo of an empty gallery becomes the primary photo
+      if (!pet.photoUrl) onPrimaryChange();
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to upload photo');
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      loadPhotos();
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const order = photos.map((photo) => photo.id);
+    const [moved] = order.splice(index, 1);
+    order.splice(index + offset, 0, moved!);
+    try {
+      const data = await pets.reorderPhotos(pet.id, order);
+      setPhotos(data.photos);
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to reorder photos');
+    }
+  };
+
+  const handleSetPrimary = async (photo: PetPhoto) => {
+    try {
+      await pets.setPrimaryPhoto(pet.id, photo.id);
+      toast.success('Primary photo updated');
+      onPrimaryChange();
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to set primary photo');
+    }
+  };
+
+  const handleRemove = async (photo: PetPhoto) => {
+    if (!confirm('Delete this photo?')) return;
+    try {
+      await pets.removePhoto(pet.id, photo.id);
+      if (photo.isPrimary) {
+        onPrimaryChange();
+      } else {
+        loadPhotos();
+      }
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to delete photo');
+    }
+  };
+
+  if (loading || (photos.length === 0 && !canManage)) return null;
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Camera className="h-5 w-5 text-forest" />
+          Photos ({photos.length}/{MAX_PHOTOS_PER_PET})
+        </h2>
+        {canManage && photos.length < MAX_PHOTOS_PER_PET && (
+          <Button size="sm" onClick={() => fileInputRef.current?.click()} loading={uploading}>
+            <ImagePlus className="h-4 w-4" /> Add
+          </Button>
+        )}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        multiple
+        className="hidden"
+        onChange={handleFileSelect}
+      />
+      {photos.length === 0 ? (
+        <p className="text-stone text-center py-8">
+          Add photos from several angles and of any distinguishing marks - they help finders identify {pet.name}.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-5 gap-3">
+          {photos.map((photo, index) => (
+            <div key={photo.id} className="relative group">
+              <a href={photo.variants.full} target="_blank" rel="noopener noreferrer">
+                <img src={photo.variants.thumbnail} alt={`${pet.name} photo ${index + 1}`} className="w-full aspect-square object-cover rounded-lg" />
+              </a>
+              {photo.isPrimary && (
+                <Badge variant="success" className="absolute top-2 left-2">
+                  <Star className="h-3 w-3 mr-1" /> Primary
+                </Badge>
+              )}
+              {canManage && (
+                <div className="absolute bottom-0 inset-x-0 flex justify-between p-1 bg-charcoal/60 rounded-b-lg opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  <div className="flex">
+                    <button onClick={() => handleMove(index, -1)} disabled={index === 0} className="p-1 text-white disabled:opacity-30" aria-label="Move earlier">
+                      <ChevronLeft className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => handleMove(index, 1)} disabled={index === photos.length - 1} className="p-1 text-white disabled:opacity-30" aria-label="Move later">
+                      <ChevronRight className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="flex">
+                    {!photo.isPrimary && (
+                      <button onClick={() => handleSetPrimary(photo)} className="p-1 text-white" aria-label="Make primary photo">
+                        <Star className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button onClick={() => handleRemove(photo)} className="p-1 text-white" aria-label="Delete photo">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
+
 // QR Code Modal with Enhanced Sharing
 function QRCodeModal({ isOpen, onClose, pet }: { isOpen: boolean; onClose: () => void; pet: Pet }) {
   const { toast } = useToast();
@@ -503,91 +1247,306 @@ function QRCodeModal({ isOpen, onClose, pet }: { isOpen: boolean; onClose: () =>
   );
 }
 
-// Add Vaccination Modal
-function AddVaccinationModal({ isOpen, onClose, petId, onSuccess }: { isOpen: boolean; onClose: () => void; petId: string; onSuccess: () => void }) {
+// Attached certificate or lab result on a record row: view for anyone with
+// access, attach/replace/remove for those who can edit records
+const DOCUMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+
+function RecordDocument({ petId, kind, record, label, canEdit, onChange }: {
+  petId: string;
+  kind: RecordDocumentKind;
+  record: Vaccination | HealthRecord;
+  label: string;
+  canEdit: boolean;
+  onChange: () => void;
+}) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [showViewer, setShowViewer] = useState(false);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!DOCUMENT_TYPES.includes(file.type)) {
+      toast.error('Please select a PDF, JPEG, PNG, or WebP file');
+      return;
+    }
+    if (file.size > 10 * 1024 * 1024) {
+      toast.error('Document must be smaller than 10MB');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      await pets.uploadDocument(petId, kind, record.id, file);
+      toast.success('Document attached');
+      setShowViewer(false);
+      onChange();
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to attach document');
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm(`Remove the document attached to ${label}?`)) return;
+    try {
+      await pets.deleteDocument(petId, kind, record.id);
+      toast.success('Document removed');
+      setShowViewer(false);
+      onChange();
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to remove document');
+    }
+  };
+
+  if (!record.documentUrl && !canEdit) return null;
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={DOCUMENT_TYPES.join(',')}
+        className="hidden"
+        onChange={handleFileSelect}
+      />
+      <button
+        onClick={() => (record.documentUrl ? setShowViewer(true) : fileInputRef.current?.click())}
+        disabled={uploading}
+        className={`p-1.5 rounded hover:bg-sand disabled:opacity-50 ${record.documentUrl ? 'text-forest' : 'text-stone hover:text-forest'}`}
+        aria-label={record.documentUrl ? `View document for ${label}` : `Attach document to ${label}`}
+        title={record.documentUrl ? 'View document' : 'Attach document'}
+      >
+        {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
+      </button>
+      <DocumentViewerModal
+        isOpen={showViewer}
+        onClose={() => setShowViewer(false)}
+        petId={petId}
+        kind={kind}
+        recordId={record.id}
+        title={label}
+        actions={canEdit && (
+          <>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} loading={uploading}>Replace</Button>
+            <Button variant="outline" onClick={handleRemove}>
+              <Trash2 className="h-4 w-4" /> Remove
+            </Button>
+          </>
+        )}
+      />
+    </>
+  );
+}
+
+// Fetches the document with the user's credentials - it has no public URL,
+// only short-lived signed links
+function DocumentViewerModal({ isOpen, onClose, petId, kind, recordId, title, actions }: {
+  isOpen: boolean;
+  onClose: () => void;
+  petId: string;
+  kind: RecordDocumentKind;
+  recordId: string;
+  title: string;
+  actions: React.ReactNode;
+}) {
+  const [document, setDocument] = useState<{ url: string; type: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let url: string | null = null;
+    setError(null);
+    pets.getDocument(petId, kind, recordId)
+      .then((blob) => {
+        url = URL.createObjectURL(blob);
+        setDocument({ url, type: blob.type });
+      })
+      .catch(() => setError('Failed to load document'));
+
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+      setDocument(null);
+    };
+  }, [isOpen, petId, kind, recordId]);
+
+  // Signed links expire quickly, so fetch one per click. The tab is opened
+  // first so the browser does not treat it as an unrequested popup.
+  const openInNewTab = async () => {
+    const tab = window.open('', '_blank');
+    if (tab) tab.opener = null;
+    try {
+      const { url } = await pets.getDocumentLink(petId, kind, recordId);
+      if (tab) tab.location.href = url;
+    } catch {
+      tab?.close();
+      setError('Failed to open document');
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title}>
+      {error ? (
+        <ErrorState message={error} />
+      ) : !document ? (
+        <LoadingState message="Loading document..." />
+      ) : document.type === 'application/pdf' ? (
+        <iframe src={document.url} title={title} className="w-full h-[60vh] rounded-lg border border-sand" />
+      ) : (
+        <img src={document.url} alt={title} className="max-h-[60vh] mx-auto rounded-lg" />
+      )}
+      <div className="flex flex-wrap gap-3 pt-4">
+        {document && (
+          <a href={document.url} download={`${title}${document.type === 'application/pdf' ? '.pdf' : ''}`}>
+            <Button variant="outline">
+              <Download className="h-4 w-4" /> Download
+            </Button>
+          </a>
+        )}
+        {document && (
+          <Button variant="outline" onClick={openInNewTab}>
+            <ExternalLink className="h-4 w-4" /> Open in new tab
+          </Button>
+        )}
+        {actions}
+      </div>
+    </Modal>
+  );
+}
+
+// Edit/delete buttons shown on each vaccination and health record row
+function RecordActions({ label, onEdit, onDelete }: { label: string; onEdit: () => void; onDelete: () => void }) {
+  return (
+    <div className="flex items-center">
+      <button onClick={onEdit} className="p-1.5 text-stone hover:text-forest hover:bg-sand rounded" aria-label={`Edit ${label}`}>
+        <Pencil className="h-4 w-4" />
+      </button>
+      <button onClick={onDelete} className="p-1.5 text-stone hover:text-rust hover:bg-red-50 rounded" aria-label={`Delete ${label}`}>
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+// Add/Edit Vaccination Modal
+const EMPTY_VAX_FORM = { type: 'RABIES', name: '', batchNumber: '', administeredAt: '', expiresAt: '' };
+
+function VaccinationModal({ isOpen, onClose, petId, vaccination, onSuccess }: { isOpen: boolean; onClose: () => void; petId: string; vaccination: Vaccination | null; onSuccess: () => void }) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [form, setForm] = useState({ type: 'RABIES', name: '', administeredAt: '', expiresAt: '' });
+  const [form, setForm] = useState(EMPTY_VAX_FORM);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setForm(vaccination ? {
+      type: vaccination.type,
+      name: vaccination.name,
+      batchNumber: vaccination.batchNumber ?? '',
+      administeredAt: vaccination.administeredAt.slice(0, 10),
+      expiresAt: vaccination.expiresAt?.slice(0, 10) ?? '',
+    } : EMPTY_VAX_FORM);
+  }, [isOpen, vaccination]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
+    const data = {
+      type: form.type as Vaccination['type'],
+      name: form.name,
+      batchNumber: form.batchNumber || null,
+      administeredAt: form.administeredAt,
+      expiresAt: form.expiresAt || null,
+    };
     try {
-      await pets.createVaccination(petId, {
-        type: form.type as Vaccination['type'],
-        name: form.name,
-        administeredAt: form.administeredAt,
-        expiresAt: form.expiresAt || null,
-      });
-      setForm({ type: 'RABIES', name: '', administeredAt: '', expiresAt: '' });
+      if (vaccination) {
+        await pets.updateVaccination(petId, vaccination.id, data);
+      } else {
+        await pets.createVaccination(petId, data);
+      }
+      setForm(EMPTY_VAX_FORM);
       onSuccess();
     } catch (err) {
-      setError(err instanceof ApiError ? err.message : 'Failed to add vaccination');
+      setError(err instanceof ApiError ? err.message : `Failed to ${vaccination ? 'update' : 'add'} vaccination`);
     } finally {
       setLoading(false);
     }
   };
 
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Add Vaccination">
+    <Modal isOpen={isOpen} onClose={onClose} title={vaccination ? 'Edit Vaccination' : 'Add Vaccination'}>
       {error && <Alert variant="error" className="mb-4">{error}</Alert>}
       <form onSubmit={handleSubmit} className="space-y-4">
         <Select
           label="Type"
           value={form.type}
           onChange={(e) => setForm({ ...form, type: e.target.value })}
-          options={[
-            { value: 'RABIES', label: 'Rabies' },
-            { value: 'DHPP', label: 'DHPP' },
-            { value: 'BORDETELLA', label: 'Bordetella' },
-            { value: 'LEPTOSPIROSIS', label: 'Leptospirosis' },
-            { value: 'LYME', label: 'Lyme' },
-            { value: 'FVRCP', label: 'FVRCP' },
-            { value: 'FELV', label: 'FeLV' },
-            { value: 'OTHER', label: 'Other' },
-          ]}
+          options={Object.entries(VACCINATION_LABELS).map(([value, label]) => ({ value, label }))}
         />
         <Input label="Vaccine Name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} required />
+        <Input label="Batch Number" value={form.batchNumber} onChange={(e) => setForm({ ...form, batchNumber: e.target.value })} />
         <Input label="Date Administered" type="date" value={form.administeredAt} onChange={(e) => setForm({ ...form, administeredAt: e.target.value })} required />
         <Input label="Expiration Date" type="date" value={form.expiresAt} onChange={(e) => setForm({ ...form, expiresAt: e.target.value })} />
         <div className="flex gap-4 pt-2">
           <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
-          <Button type="submit" loading={loading}>Add Vaccination</Button>
+          <Button type="submit" loading={loading}>{vaccination ? 'Save Changes' : 'Add Vaccination'}</Button>
         </div>
       </form>
     </Modal>
   );
 }
 
-// Add Health Record Modal
-function AddHealthRecordModal({ isOpen, onClose, petId, onSuccess }: { isOpen: boolean; onClose: () => void; petId: string; onSuccess: () => void }) {
+// Add/Edit Health Record Modal
+const EMPTY_HEALTH_FORM = { type: 'CHECKUP', title: '', date: '', clinicName: '' };
+
+function HealthRecordModal({ isOpen, onClose, petId, record, onSuccess }: { isOpen: boolean; onClose: () => void; petId: string; record: HealthRecord | null; onSuccess: () => void }) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [form, setForm] = useState({ type: 'CHECKUP', title: '', date: '', clinicName: '' });
+  const [form, setForm] = useState(EMPTY_HEALTH_FORM);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setForm(record ? {
+      type: record.type,
+      title: record.title,
+      date: record.date.slice(0, 10),
+      clinicName: record.clinicName ?? '',
+    } : EMPTY_HEALTH_FORM);
+  }, [isOpen, record]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
+    const data = {
+      type: form.type as HealthRecord['type'],
+      title: form.title,
+      date: form.date,
+      clinicName: form.clinicName || null,
+    };
     try {
-      await pets.createHealth(petId, {
-        type: form.type as HealthRecord['type'],
-        title: form.title,
-        date: form.date,
-        clinicName: form.clinicName || null,
-      });
-      setForm({ type: 'CHECKUP', title: '', date: '', clinicName: '' });
+      if (record) {
+        await pets.updateHealth(petId, record.id, data);
+      } else {
+        await pets.createHealth(petId, data);
+      }
+      setForm(EMPTY_HEALTH_FORM);
       onSuccess();
     } catch (err) {
-      setError(err instanceof ApiError ? err.message : 'Failed to add health record');
+      setError(err instanceof ApiError ? err.message : `Failed to ${record ? 'update' : 'add'} health record`);
     } finally {
       setLoading(false);
     }
   };
 
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Add Health Record">
+    <Modal isOpen={isOpen} onClose={onClose} title={record ? 'Edit Health Record' : 'Add Health Record'}>
       {error && <Alert variant="error" className="mb-4">{error}</Alert>}
       <form onSubmit={handleSubmit} className="space-y-4">
         <Select
@@ -607,7 +1566,7 @@ function AddHealthRecordModal({ isOpen, onClose, petId, onSuccess }: { isOpen: b
         <Input label="Clinic Name" value={form.clinicName} onChange={(e) => setForm({ ...form, clinicName: e.target.value })} />
         <div className="flex gap-4 pt-2">
           <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
-          <Button type="submit" loading={loading}>Add Record</Button>
+          <Button type="submit" loading={loading}>{record ? 'Save Changes' : 'Add Record'}</Button>
         </div>
       </form>
     </Modal>
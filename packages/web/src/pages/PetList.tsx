@@ -97,9 +97,17 @@ export function PetListPage() {
               <Link key={pet.id} to={`/pets/${pet.id}`}>
                 <Card className="hover:shadow-lg transition-shadow cursor-pointer h-full">
                   <div className="flex items-start gap-4">
-                    <div className="h-16 w-16 bg-sand rounded-xl flex items-center justify-center text-3xl flex-shrink-0">
-                      {getSpeciesEmoji(pet.species)}
-                    </div>
+                    {pet.photoVariants ? (
+                      <img
+                        src={pet.photoVariants.thumbnail}
+                        alt={pet.name}
+                        className="h-16 w-16 rounded-xl object-cover flex-shrink-0"
+                      />
+                    ) : (
+                      <div className="h-16 w-16 bg-sand rounded-xl flex items-center justify-center text-3xl flex-shrink-0">
+                        {getSpeciesEmoji(pet.species)}
+                      </div>
+                    )}
                     <div className="flex-1 min-w-0">
                       <h3 className="font-semibold text-charcoal truncate">{pet.name}</h3>
                       <p className="text-sm text-stone">
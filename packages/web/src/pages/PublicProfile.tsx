@@ -1,8 +1,8 @@
-import { useState, useEffect } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { Shield, CheckCircle, XCircle, Share2, ArrowRight, Sparkles } from 'lucide-react';
+import { Shield, CheckCircle, XCircle, Share2, ArrowRight, Sparkles, AlertTriangle, MapPin, Send } from 'lucide-react';
 import { PublicLayout } from '@/components/Layout';
-import { Card, Button, Badge, LoadingState, useToast } from '@/components/ui';
+import { Card, Button, Badge, Input, Alert, LoadingState, useToast } from '@/components/ui';
 import { publicApi, PublicPetInfo, ApiError } from '@/lib/api';
 import { getSpeciesEmoji, formatDate } from '@/lib/utils';
 import { useAuth } from '@/hooks/useAuth';
@@ -94,9 +94,34 @@ export function PublicProfilePage() {
     );
   }
 
+  const primaryPhoto = petInfo.photos.find((photo) => photo.full === petInfo.photoUrl);
+
   return (
     <PublicLayout>
       <div className="max-w-2xl mx-auto">
+        {/* Lost-pet banner */}
+        {petInfo.lost.isLost && (
+          <div className="mb-6 rounded-2xl bg-rust text-white p-6">
+            <div className="flex items-center gap-3 mb-2">
+              <AlertTriangle className="h-8 w-8 flex-shrink-0" />
+              <h2 className="text-2xl font-display font-bold">{petInfo.name} is lost!</h2>
+            </div>
+            <p className="text-white/90">
+              {petInfo.name}'s owner reported them missing
+              {petInfo.lost.since && ` on ${formatDate(petInfo.lost.since)}`}. If you have found {petInfo.name},
+              please send a message below - it goes straight to the owner.
+            </p>
+            {petInfo.lost.message && (
+              <p className="mt-3 p-3 bg-white/10 rounded-lg italic">"{petInfo.lost.message}"</p>
+            )}
+            <ShareScanLocation petportId={petInfo.petportId} scanId={petInfo.scanId} />
+          </div>
+        )}
+
+        {petInfo.lost.isLost && petportId && (
+          <FinderContactForm petportId={petportId} petName={petInfo.name} />
+        )}
+
         {/* Hero Card */}
         <Card className="mb-6 overflow-hidden">
           {/* Header with gradient */}
@@ -117,9 +142,13 @@ export function PublicProfilePage() {
             
             {/* Pet Avatar and Name */}
             <div className="flex items-center gap-6">
-              <div className="h-24 w-24 bg-white/20 rounded-2xl flex items-center justify-center text-5xl">
-                {getSpeciesEmoji(petInfo.species)}
-              </div>
+              {petInfo.photoUrl ? (
+                <img src={primaryPhoto?.medium ?? petInfo.photoUrl} alt={petInfo.name} className="h-24 w-24 rounded-2xl object-cover" />
+              ) : (
+                <div className="h-24 w-24 bg-white/20 rounded-2xl flex items-center justify-center text-5xl">
+                  {getSpeciesEmoji(petInfo.species)}
+                </div>
+              )}
               <div>
                 <h1 className="text-3xl font-display font-bold">{petInfo.name}</h1>
                 <p className="text-white/80">
@@ -134,6 +163,20 @@ export function PublicProfilePage() {
 
           {/* Pet Details */}
           <div className="p-6">
+            {/* Gallery - helps finders match markings */}
+            {petInfo.photos.length > 1 && (
+              <div className="mb-6">
+                <p className="text-sm text-stone mb-2">Photos</p>
+                <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                  {petInfo.photos.map((photo, index) => (
+                    <a key={photo.full} href={photo.full} target="_blank" rel="noopener noreferrer">
+                      <img src={photo.thumbnail} alt={`${petInfo.name} photo ${index + 1}`} className="w-full aspect-square object-cover rounded-lg" />
+                    </a>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Owner */}
             <div className="flex items-center gap-3 mb-6">
               <div className="h-10 w-10 bg-sand rounded-full flex items-center justify-center">
@@ -244,3 +287,160 @@ export function PublicProfilePage() {
     </PublicLayout>
   );
 }
+
+// Attach the finder's location to this lookup so the owner sees where the tag was scanned
+function ShareScanLocation({ petportId, scanId }: { petportId: string; scanId: string }) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<'idle' | 'locating' | 'shared'>('idle');
+
+  const handleShare = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location is not available on this device');
+      return;
+    }
+    setStatus('locating');
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        try {
+          await publicApi.shareScanLocation(petportId, scanId, {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+          });
+          setStatus('shared');
+        } catch (err) {
+          toast.error(err instanceof ApiError ? err.message : 'Failed to share location');
+          setStatus('idle');
+        }
+      },
+      () => {
+        toast.error('Could not get your location');
+        setStatus('idle');
+      },
+      { timeout: 10000 }
+    );
+  };
+
+  if (status === 'shared') {
+    return <p className="mt-4 text-sm font-medium">✓ Your location was shared with the owner</p>;
+  }
+
+  return (
+    <Button
+      variant="secondary"
+      size="sm"
+      className="mt-4"
+      onClick={handleShare}
+      loading={status === 'locating'}
+    >
+      {status !== 'locating' && <MapPin className="h-4 w-4" />}
+      Share where you found this pet
+    </Button>
+  );
+}
+
+// Finder contact form - messages are relayed to the owner, who stays anonymous
+function FinderContactForm({ petportId, petName }: { petportId: string; petName: string }) {
+  const { toast } = useToast();
+  const [message, setMessage] = useState('');
+  const [contactInfo, setContactInfo] = useState('');
+  const [locationText, setLocationText] = useState('');
+  const [coords, setCoords] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleShareLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location is not available on this device');
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setCoords({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+        setLocating(false);
+      },
+      () => {
+        toast.error('Could not get your location');
+        setLocating(false);
+      },
+      { timeout: 10000 }
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError(null);
+    try {
+      await publicApi.contactOwner(petportId, {
+        message,
+        contactInfo: contactInfo || null,
+        locationText: locationText || null,
+        latitude: coords?.latitude ?? null,
+        longitude: coords?.longitude ?? null,
+      });
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <Alert variant="success" title="Message sent" className="mb-6">
+        Thank you! {petName}'s owner has been notified and will reach out if you left contact details.
+      </Alert>
+    );
+  }
+
+  return (
+    <Card className="mb-6">
+      <h2 className="text-lg font-semibold mb-4">Contact the Owner</h2>
+      {error && <Alert variant="error" className="mb-4">{error}</Alert>}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="label">Message</label>
+          <textarea
+            className="input min-h-[100px]"
+            placeholder={`Where and when did you find ${petName}?`}
+            value={message}
+            maxLength={1000}
+            onChange={(e) => setMessage(e.target.value)}
+            required
+          />
+        </div>
+        <Input
+          label="Your phone or email (optional)"
+          placeholder="So the owner can reach you"
+          value={contactInfo}
+          maxLength={200}
+          onChange={(e) => setContactInfo(e.target.value)}
+        />
+        <Input
+          label="Location (optional)"
+          placeholder="e.g. Corner of Main St & 5th Ave"
+          value={locationText}
+          maxLength={200}
+          onChange={(e) => setLocationText(e.target.value)}
+        />
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button type="button" variant="outline" onClick={handleShareLocation} loading={locating}>
+            {!locating && <MapPin className="h-4 w-4" />}
+            {coords ? 'Location attached' : 'Share my location'}
+          </Button>
+          <Button type="submit" loading={sending} className="flex-1">
+            {!sending && <Send className="h-4 w-4" />}
+            Send to Owner
+          </Button>
+        </div>
+        <p className="text-xs text-stone">
+          Your message is forwarded privately. The owner's contact details are never shown.
+        </p>
+      </form>
+    </Card>
+  );
+}
@@ -385,7 +385,7 @@ function MetricsTabContent({ metrics }: { metrics: SecurityMetrics }) {
   return (
     <div className="space-y-8">
       {/* Stats Grid */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
         <MetricCard
           icon={<AlertTriangle className="h-6 w-6 text-yellow-600" />}
           label="Failed Logins (24h)"
@@ -404,6 +404,12 @@ function MetricsTabContent({ metrics }: { metrics: SecurityMetrics }) {
           value={metrics.tokenUsage.tokensIssued24h}
           subtext={`${metrics.tokenUsage.tokensRevoked24h} revoked`}
         />
+        <MetricCard
+          icon={<Lock className="h-6 w-6 text-forest" />}
+          label="Password Resets (24h)"
+          value={metrics.passwordResets.completed24h}
+          subtext={`${metrics.passwordResets.requested24h} requested, ${metrics.passwordResets.failed24h + metrics.passwordResets.throttled24h} refused`}
+        />
         <MetricCard
           icon={<Shield className="h-6 w-6 text-pine" />}
           label="Rate Limited (24h)"
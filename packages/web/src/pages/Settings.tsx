@@ -1,9 +1,11 @@
-import React, { useState } from 'react';
-import { User, Mail, Phone, Shield, Bell, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { User, Mail, Phone, Shield, Bell, RefreshCw, Stethoscope, Monitor } from 'lucide-react';
 import { DashboardLayout } from '@/components/Layout';
 import { Card, Button, Input, Alert, Badge, useToast } from '@/components/ui';
 import { useAuth } from '@/hooks/useAuth';
 import { useOnboarding } from '@/components/OnboardingWizard';
+import { auth, vets, ApiError, UserSession } from '@/lib/api';
+import { formatDateTime } from '@/lib/utils';
 
 export function SettingsPage() {
   const { user } = useAuth();
@@ -80,6 +82,9 @@ export function SettingsPage() {
           </form>
         </Card>
 
+        {/* Clinic profile - shown on records a vet attests */}
+        {user?.role === 'VET' && <ClinicProfileCard />}
+
         {/* Account Status */}
         <Card>
           <h2 className="text-lg font-semibold mb-6 flex items-center gap-2">
@@ -107,6 +112,9 @@ export function SettingsPage() {
           </div>
         </Card>
 
+        {/* Signed-in devices */}
+        <SessionsCard />
+
         {/* Notifications */}
         <Card>
           <h2 className="text-lg font-semibold mb-6 flex items-center gap-2">
@@ -170,3 +178,174 @@ export function SettingsPage() {
     </DashboardLayout>
   );
 }
+
+function SessionsCard() {
+  const { logout } = useAuth();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    auth.sessions()
+      .then(setSessions)
+      .catch(() => toast.error('Failed to load signed-in devices'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleRevoke = async (session: UserSession) => {
+    if (session.current) {
+      await logout();
+      return;
+    }
+    try {
+      await auth.revokeSession(session.id);
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+      toast.success('Device signed out');
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to sign out device');
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!confirm('Sign out on every device, including this one?')) return;
+    try {
+      await auth.revokeAllSessions();
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to sign out everywhere');
+      return;
+    }
+    await logout();
+  };
+
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+        <Monitor className="h-5 w-5 text-forest" />
+        Signed-in Devices
+      </h2>
+      <p className="text-sm text-stone mb-6">
+        Sign out any device you don't recognise or no longer use.
+      </p>
+      <div className="space-y-4">
+        {loading && <p className="text-sm text-stone">Loading...</p>}
+        {sessions.map((session) => (
+          <div key={session.id} className="flex items-center justify-between p-4 bg-sand/30 rounded-lg">
+            <div>
+              <p className="font-medium flex items-center gap-2">
+                {session.device || 'Unknown device'}
+                {session.current && <Badge variant="success">This device</Badge>}
+              </p>
+              <p className="text-sm text-stone">
+                {session.ipAddress || 'Unknown IP'} · Last active {formatDateTime(session.lastSeenAt)}
+              </p>
+              <p className="text-sm text-stone">Signed in {formatDateTime(session.createdAt)}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => handleRevoke(session)}>
+              Sign Out
+            </Button>
+          </div>
+        ))}
+        <Button variant="ghost" className="text-rust hover:bg-red-50" onClick={handleRevokeAll}>
+          Sign Out Everywhere
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
+const EMPTY_CLINIC_FORM = { clinicName: '', licenseNumber: '', licenseRegion: '', address: '', phone: '' };
+
+function ClinicProfileCard() {
+  const { toast } = useToast();
+  const [form, setForm] = useState(EMPTY_CLINIC_FORM);
+  const [hasProfile, setHasProfile] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    vets.getClinic()
+      .then((profile) => {
+        if (!profile) return;
+        setHasProfile(true);
+        setForm({
+          clinicName: profile.clinicName,
+          licenseNumber: profile.licenseNumber,
+          licenseRegion: profile.licenseRegion || '',
+          address: profile.address || '',
+          phone: profile.phone || '',
+        });
+      })
+      .catch(() => undefined);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await vets.saveClinic({
+        clinicName: form.clinicName,
+        licenseNumber: form.licenseNumber,
+        licenseRegion: form.licenseRegion || null,
+        address: form.address || null,
+        phone: form.phone || null,
+      });
+      setHasProfile(true);
+      toast.success('Clinic profile saved');
+    } catch (err) {
+      toast.error(err instanceof ApiError ? err.message : 'Failed to save clinic profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <h2 className="text-lg font-semibold mb-2 flex items-center gap-2">
+        <Stethoscope className="h-5 w-5 text-forest" />
+        Clinic Profile
+      </h2>
+      <p className="text-sm text-stone mb-6">
+        Shown on the public verify page and passport for every vaccination you attest.
+      </p>
+      {!hasProfile && (
+        <Alert variant="warning" className="mb-6">
+          Complete your clinic profile before attesting records.
+        </Alert>
+      )}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          label="Clinic Name"
+          value={form.clinicName}
+          onChange={(e) => setForm({ ...form, clinicName: e.target.value })}
+          required
+        />
+        <div className="grid sm:grid-cols-2 gap-4">
+          <Input
+            label="Licence Number"
+            value={form.licenseNumber}
+            onChange={(e) => setForm({ ...form, licenseNumber: e.target.value })}
+            required
+          />
+          <Input
+            label="Licensing Region"
+            value={form.licenseRegion}
+            onChange={(e) => setForm({ ...form, licenseRegion: e.target.value })}
+            placeholder="e.g. California VMB"
+          />
+        </div>
+        <Input
+          label="Address"
+          value={form.address}
+          onChange={(e) => setForm({ ...form, address: e.target.value })}
+        />
+        <Input
+          label="Clinic Phone"
+          value={form.phone}
+          onChange={(e) => setForm({ ...form, phone: e.target.value })}
+        />
+        <Button type="submit" loading={saving}>
+          Save Clinic Profile
+        </Button>
+      </form>
+    </Card>
+  );
+}
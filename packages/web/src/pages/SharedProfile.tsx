@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Shield, CheckCircle, XCircle, Syringe, FileText, Clock } from 'lucide-react';
+import { PublicLayout } from '@/components/Layout';
+import { Card, Button, Badge, LoadingState } from '@/components/ui';
+import { publicApi, SharedPetView, ApiError } from '@/lib/api';
+import { getSpeciesEmoji, formatDate, VACCINATION_LABELS, SHARE_SCOPE_LABELS } from '@/lib/utils';
+
+export function SharedProfilePage() {
+  const { token } = useParams<{ token: string }>();
+  const [view, setView] = useState<SharedPetView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (token) {
+      loadSharedView();
+    }
+  }, [token]);
+
+  const loadSharedView = async () => {
+    if (!token) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await publicApi.getShare(token);
+      setView(data);
+    } catch (err) {
+      if (err instanceof ApiError && err.code !== 'NOT_FOUND') {
+        setError(err.message);
+      } else {
+        setError('This share link has expired or been revoked.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <PublicLayout>
+        <LoadingState message="Loading shared profile..." />
+      </PublicLayout>
+    );
+  }
+
+  if (error || !view) {
+    return (
+      <PublicLayout>
+        <div className="max-w-lg mx-auto text-center py-12">
+          <div className="h-20 w-20 bg-sand rounded-full flex items-center justify-center mx-auto mb-6">
+            <Clock className="h-10 w-10 text-stone" />
+          </div>
+          <h1 className="text-2xl font-display font-bold text-charcoal mb-2">
+            Link Unavailable
+          </h1>
+          <p className="text-stone mb-6">
+            {error || 'This share link has expired or been revoked.'}
+          </p>
+          <Link to="/">
+            <Button variant="outline">Go to Homepage</Button>
+          </Link>
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  const { pet } = view;
+
+  return (
+    <PublicLayout>
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Identity */}
+        <Card className="overflow-hidden">
+          <div className="bg-gradient-to-br from-forest to-pine p-6 text-white">
+            <div className="flex items-center justify-between mb-4">
+              <Badge className="bg-white/20 text-white border-0">
+                <Shield className="h-3 w-3 mr-1" />
+                {SHARE_SCOPE_LABELS[view.scope]}
+              </Badge>
+              <span className="text-sm text-white/70">Link expires {formatDate(view.expiresAt)}</span>
+            </div>
+            <div className="flex items-center gap-6">
+              <div className="h-24 w-24 bg-white/20 rounded-2xl flex items-center justify-center text-5xl">
+                {getSpeciesEmoji(pet.species)}
+              </div>
+              <div>
+                <h1 className="text-3xl font-display font-bold">{pet.name}</h1>
+                <p className="text-white/80">
+                  {pet.breed || pet.species.charAt(0) + pet.species.slice(1).toLowerCase()}
+                </p>
+                <p className="font-mono text-sm text-white/60 mt-1">{pet.petportId}</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="p-6 grid sm:grid-cols-2 gap-4">
+            {[
+              ['Owner', view.ownerName],
+              ['Sex', pet.sex],
+              ['Color', pet.color || '-'],
+              ['Date of Birth', pet.dateOfBirth ? formatDate(pet.dateOfBirth) : '-'],
+              ['Microchip ID', pet.microchipId || '-'],
+              ['Verification', pet.verificationLevel],
+            ].map(([label, value]) => (
+              <div key={label}>
+                <p className="text-sm text-stone">{label}</p>
+                <p className="font-medium text-charcoal">{value}</p>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        {/* Vaccinations (VACCINATIONS scope and above) */}
+        {view.compliance && view.vaccinations && (
+          <Card>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold flex items-center gap-2">
+                <Syringe className="h-5 w-5 text-forest" />
+                Vaccinations
+              </h2>
+              <Badge variant={view.compliance.isCompliant ? 'success' : 'error'}>
+                {view.compliance.isCompliant ? 'All Required Vaccines Current' : 'Not Compliant'}
+              </Badge>
+            </div>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {view.compliance.requirements.map((requirement) => (
+                <Badge key={requirement.type} variant={requirement.isCompliant ? 'success' : 'error'}>
+                  {requirement.isCompliant ? (
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                  ) : (
+                    <XCircle className="h-3 w-3 mr-1" />
+                  )}
+                  {VACCINATION_LABELS[requirement.type]}
+                </Badge>
+              ))}
+            </div>
+            {view.vaccinations.length === 0 ? (
+              <p className="text-stone text-center py-4">No vaccinations recorded</p>
+            ) : (
+              <div className="space-y-3">
+                {view.vaccinations.map((vax) => (
+                  <div key={vax.id} className="flex items-center justify-between p-3 bg-sand/30 rounded-lg">
+                    <div>
+                      <p className="font-medium">{vax.name}</p>
+                      <p className="text-sm text-stone">
+                        {VACCINATION_LABELS[vax.type]} • {formatDate(vax.administeredAt)}
+                        {vax.clinicName && ` • ${vax.clinicName}`}
+                      </p>
+                    </div>
+                    {vax.expiresAt && (
+                      <Badge variant={new Date(vax.expiresAt) > new Date() ? 'success' : 'error'}>
+                        Exp: {formatDate(vax.expiresAt)}
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        )}
+
+        {/* Health history (HEALTH scope) */}
+        {view.healthRecords && (
+          <Card>
+            <h2 className="text-lg font-semibold flex items-center gap-2 mb-4">
+              <FileText className="h-5 w-5 text-terracotta" />
+              Health Records
+            </h2>
+            {view.healthRecords.length === 0 ? (
+              <p className="text-stone text-center py-4">No health records</p>
+            ) : (
+              <div className="space-y-3">
+                {view.healthRecords.map((record) => (
+                  <div key={record.id} className="p-3 bg-sand/30 rounded-lg">
+                    <p className="font-medium">{record.title}</p>
+                    <p className="text-sm text-stone">
+                      {record.type} • {formatDate(record.date)}
+                      {record.clinicName && ` • ${record.clinicName}`}
+                    </p>
+                    {record.description && <p className="text-sm text-charcoal mt-1">{record.description}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        )}
+
+        <div className="text-center text-sm text-stone">
+          <p>Shared privately by {view.ownerName} through PetPort.</p>
+        </div>
+      </div>
+    </PublicLayout>
+  );
+}
@@ -1,11 +1,12 @@
 import React, { useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { Search, CheckCircle, XCircle, Shield, Sparkles, ArrowRight } from 'lucide-react';
+import { Search, CheckCircle, XCircle, Shield, Sparkles, ArrowRight, BadgeCheck, WifiOff } from 'lucide-react';
 import { PublicLayout } from '@/components/Layout';
-import { Card, Button, Input, Badge, LoadingState, ErrorState } from '@/components/ui';
+import { Card, Button, Input, Badge, Alert, LoadingState, ErrorState } from '@/components/ui';
 import { publicApi, PublicPetInfo, ApiError } from '@/lib/api';
-import { getSpeciesEmoji } from '@/lib/utils';
+import { getSpeciesEmoji, formatDate, VACCINATION_LABELS, VERIFICATION_LEVEL_DESCRIPTIONS } from '@/lib/utils';
 import { useAuth } from '@/hooks/useAuth';
+import { parseQrPayload, loadVerifyingKeys, verifyScannedPayload, OfflineVerification } from '@/lib/qrVerify';
 
 export function VerifyPage() {
   const { petportId: urlPetportId } = useParams<{ petportId?: string }>();
@@ -16,6 +17,9 @@ export function VerifyPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searched, setSearched] = useState(false);
+  // Signature check of a scanned tag, done locally
+  const [tagCheck, setTagCheck] = useState<OfflineVerification | null>(null);
+  const [offline, setOffline] = useState(false);
 
   React.useEffect(() => {
     if (urlPetportId) {
@@ -24,22 +28,32 @@ export function VerifyPage() {
   }, [urlPetportId]);
 
   const handleVerify = async (id?: string) => {
-    const searchId = id || petportId.trim().toUpperCase();
-    if (!searchId) return;
+    const input = id || petportId.trim();
+    if (!input) return;
+
+    // Scanned tags are checked against the cached signing key before any lookup
+    const scanned = id ? null : parseQrPayload(input);
+    const searchId = (scanned?.petportId ?? input).toUpperCase();
 
     setLoading(true);
     setError(null);
     setSearched(true);
+    setOffline(false);
+    setTagCheck(scanned ? await verifyScannedPayload(scanned, await loadVerifyingKeys()) : null);
 
     try {
       const info = await publicApi.verify(searchId);
       setPetInfo(info);
-      if (!id) {
+      // Scans stay on this URL - navigating would re-run the lookup and drop the tag check
+      if (!id && !scanned) {
         navigate(`/verify/${searchId}`, { replace: true });
       }
     } catch (err) {
       if (err instanceof ApiError) {
         setError(err.code === 'NOT_FOUND' ? 'Pet not found. Please check the ID and try again.' : err.message);
+      } else if (scanned) {
+        // No connection - the tag signature check stands on its own
+        setOffline(true);
       } else {
         setError('Failed to verify pet');
       }
@@ -62,7 +76,7 @@ export function VerifyPage() {
             <Shield className="h-8 w-8 text-white" />
           </div>
           <h1 className="text-3xl font-display font-bold text-forest">Verify a Pet</h1>
-          <p className="text-stone mt-2">Enter a PetPort ID to verify pet identity and vaccination status</p>
+          <p className="text-stone mt-2">Enter a PetPort ID or scanned tag to verify pet identity and vaccination status</p>
         </div>
 
         <Card className="mb-8">
@@ -70,8 +84,8 @@ export function VerifyPage() {
             <Input
               value={petportId}
               onChange={(e) => setPetportId(e.target.value)}
-              placeholder="PP-XXXX-XXXX"
-              className="flex-1 font-mono uppercase"
+              placeholder="PP-XXXX-XXXX or scanned QR code"
+              className="flex-1 font-mono"
             />
             <Button type="submit" loading={loading}>
               <Search className="h-5 w-5" />
@@ -82,6 +96,8 @@ export function VerifyPage() {
 
         {loading && <LoadingState message="Verifying pet..." />}
 
+        {tagCheck && !loading && <TagCheckResult check={tagCheck} offline={offline} />}
+
         {error && searched && !loading && (
           <Card>
             <ErrorState message={error} />
@@ -90,6 +106,15 @@ export function VerifyPage() {
 
         {petInfo && !loading && (
           <>
+            {petInfo.lost.isLost && (
+              <Alert variant="error" title={`${petInfo.name} has been reported lost`} className="mb-4">
+                If you have found this pet,{' '}
+                <Link to={`/p/${petInfo.petportId}`} className="font-medium underline">
+                  contact the owner
+                </Link>
+                .
+              </Alert>
+            )}
             <Card className="animate-fadeIn">
               <div className="flex items-start gap-6">
                 <div className="h-24 w-24 bg-sand rounded-xl flex items-center justify-center text-5xl flex-shrink-0">
@@ -102,7 +127,8 @@ export function VerifyPage() {
                       {petInfo.verificationLevel}
                     </Badge>
                   </div>
-                  <p className="text-stone font-mono text-sm mb-4">{petInfo.petportId}</p>
+                  <p className="text-stone font-mono text-sm mb-1">{petInfo.petportId}</p>
+                  <p className="text-sm text-stone mb-4">{VERIFICATION_LEVEL_DESCRIPTIONS[petInfo.verificationLevel]}</p>
                   
                   <div className="grid sm:grid-cols-2 gap-4 mb-6">
                     <div>
@@ -138,6 +164,31 @@ export function VerifyPage() {
                       </div>
                     </div>
                   </div>
+
+                  {petInfo.compliance.requirements.length > 0 && (
+                    <div className="mt-4">
+                      <p className="text-sm text-stone mb-2">Required Vaccines</p>
+                      <div className="flex flex-wrap gap-2">
+                        {petInfo.compliance.requirements.map((requirement) => (
+                          <Badge key={requirement.type} variant={requirement.isCompliant ? 'success' : 'error'}>
+                            {VACCINATION_LABELS[requirement.type]}: {requirement.isCompliant ? 'Current' : 'Not Current'}
+                          </Badge>
+                        ))}
+                      </div>
+                      {petInfo.compliance.requirements.some((r) => r.attestation) && (
+                        <ul className="mt-3 space-y-1">
+                          {petInfo.compliance.requirements.map((requirement) => requirement.attestation && (
+                            <li key={requirement.type} className="text-sm text-stone flex items-center gap-2">
+                              <BadgeCheck className="h-4 w-4 text-forest flex-shrink-0" />
+                              {VACCINATION_LABELS[requirement.type]} attested by {requirement.attestation.vetName},{' '}
+                              {requirement.attestation.clinicName} (licence {requirement.attestation.licenseNumber}) on{' '}
+                              {formatDate(requirement.attestation.attestedAt)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             </Card>
@@ -189,6 +240,7 @@ export function VerifyPage() {
         {!searched && !loading && (
           <div className="text-center text-stone">
             <p>Find a PetPort ID on the pet's tag, collar, or digital passport.</p>
+            <p className="mt-2">Signed tags can be checked even without a connection.</p>
             <p className="mt-2">Format: PP-XXXX-XXXX</p>
           </div>
         )}
@@ -196,3 +248,59 @@ export function VerifyPage() {
     </PublicLayout>
   );
 }
+
+function TagCheckResult({ check, offline }: { check: OfflineVerification; offline: boolean }) {
+  if (check.status === 'valid') {
+    const { claims } = check;
+    const rabiesCurrent = claims.rabiesExpiresAt !== null && new Date(claims.rabiesExpiresAt) > new Date();
+    return (
+      <Alert variant="success" title="Genuine PetPort tag" className="mb-4">
+        {offline && (
+          <span className="flex items-center gap-1 mb-1">
+            <WifiOff className="h-4 w-4" />
+            Offline - showing details signed into the tag.
+          </span>
+        )}
+        <span className="block font-mono">{claims.petportId}</span>
+        <span className="block">
+          Rabies:{' '}
+          {claims.rabiesExpiresAt
+            ? `${rabiesCurrent ? 'valid until' : 'expired'} ${formatDate(claims.rabiesExpiresAt)}`
+            : 'no vaccination on record'}
+        </span>
+        <span className="block">Tag issued {formatDate(claims.issuedAt)}</span>
+      </Alert>
+    );
+  }
+
+  const messages: Record<Exclude<OfflineVerification['status'], 'valid'>, { variant: 'error' | 'warning' | 'info'; title: string; body: string }> = {
+    invalid: {
+      variant: 'error',
+      title: 'Tag signature is not valid',
+      body: 'This tag was not issued by PetPort or has been altered. Do not rely on its contents.',
+    },
+    unsigned: {
+      variant: 'info',
+      title: 'Unsigned tag',
+      body: 'This is an older tag without a signature. Status can only be confirmed online.',
+    },
+    'no-keys': {
+      variant: 'warning',
+      title: 'Cannot check signature',
+      body: 'Connect once to download the PetPort verifying key, then tags can be checked offline.',
+    },
+    unsupported: {
+      variant: 'warning',
+      title: 'Cannot check signature',
+      body: 'This browser does not support Ed25519 signatures. Status can only be confirmed online.',
+    },
+  };
+  const message = messages[check.status];
+
+  return (
+    <Alert variant={message.variant} title={message.title} className="mb-4">
+      {message.body}
+      {offline && ' You appear to be offline.'}
+    </Alert>
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { PublicLayout } from '@/components/Layout';
+import { Card, Button, LoadingState } from '@/components/ui';
+import { useAuth } from '@/hooks/useAuth';
+import { auth, ApiError } from '@/lib/api';
+
+export function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { isAuthenticated, refreshUser } = useAuth();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string | null>(null);
+  // Tokens work once - don't verify twice when effects run twice in development
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (!token || started.current) return;
+    started.current = true;
+
+    auth.verifyEmail(token)
+      .then(async () => {
+        setStatus('verified');
+        await refreshUser();
+      })
+      .catch((err) => {
+        setError(err instanceof ApiError ? err.message : null);
+        setStatus('failed');
+      });
+  }, [token, refreshUser]);
+
+  if (status === 'verifying') {
+    return (
+      <PublicLayout>
+        <LoadingState message="Verifying your email address..." />
+      </PublicLayout>
+    );
+  }
+
+  return (
+    <PublicLayout>
+      <div className="max-w-md mx-auto">
+        <Card className="text-center">
+          {status === 'verified' ? (
+            <>
+              <div className="h-16 w-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <CheckCircle className="h-8 w-8 text-green-600" />
+              </div>
+              <h1 className="text-2xl font-display font-bold text-charcoal mb-2">
+                Email Verified!
+              </h1>
+              <p className="text-stone mb-6">
+                Thanks for confirming your email address. You can now share your pets and transfer them.
+              </p>
+            </>
+          ) : (
+            <>
+              <div className="h-16 w-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <XCircle className="h-8 w-8 text-rust" />
+              </div>
+              <h1 className="text-2xl font-display font-bold text-charcoal mb-2">
+                Invalid Verification Link
+              </h1>
+              <p className="text-stone mb-6">
+                {error ?? 'This verification link is invalid or has expired.'} Log in to request a new one.
+              </p>
+            </>
+          )}
+          <Link to={isAuthenticated ? '/dashboard' : '/login'}>
+            <Button fullWidth>{isAuthenticated ? 'Go to Dashboard' : 'Go to Login'}</Button>
+          </Link>
+        </Card>
+      </div>
+    </PublicLayout>
+  );
+}